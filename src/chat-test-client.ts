@@ -1,4 +1,6 @@
 // chat-test-client.ts - Simple test client that uses ChatService
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import * as readline from 'readline';
 import * as dotenv from 'dotenv';
 import { v4 as uuidv4 } from 'uuid';
@@ -6,12 +8,20 @@ import { v4 as uuidv4 } from 'uuid';
 // Load environment variables
 dotenv.config();
 
+import { AppConfig } from './config/AppConfig';
 // Import the ChatService (the main logic)
 import { chatService } from './services/ChatService';
 import { 
+  Message,
   MessageStatus, 
+  MessageReactionEvent,
+  ThreadUpdateEvent,
+  MessageExpiryEvent,
+  DraftChangeEvent,
+  MessageDraft,
   ConnectionState,
-  UserRegistrationData
+  UserRegistrationData,
+  TranscriptFormat
 } from './types/chat';
 
 // Import chalk for colors (handle both CommonJS and ES modules)
@@ -143,7 +153,12 @@ class ChatTestClient {
       const color = isMine ? 'blue' : 'white';
       const statusIcon = this.getStatusIcon(message.status);
       
-      console.log(chalk[color](`\n💬 [${sender}]: ${message.content} ${statusIcon}`));
+      console.log(chalk[color](`\n💬 [${sender}]: ${message.content} ${statusIcon}`) + chalk.gray(` (${message.id.substring(0, 8)})`));
+      if (message.replyTo) {
+        console.log(chalk.gray(`   ↪ reply to ${message.replyTo.substring(0, 8)}`));
+      }
+      this.printVoiceNote(message);
+      this.printReplyCount(message.replyCount, message.lastReplyAt);
     });
     this.cleanupFunctions.push(cleanup2);
 
@@ -166,6 +181,39 @@ class ChatTestClient {
       }
     });
     this.cleanupFunctions.push(cleanup5);
+
+    // Reactions
+    const cleanup6 = chatService.onReactionChanged((event: MessageReactionEvent) => {
+      if (event.userId !== CONFIG.USER_ID) {
+        const verb = event.action === 'added' ? 'reacted' : 'removed';
+        console.log(chalk.gray(`\n${event.emoji} ${CONFIG.RECEIVER_NAME} ${verb} on ${event.messageId}`));
+      }
+    });
+    this.cleanupFunctions.push(cleanup6);
+
+    // Threads
+    const cleanup7 = chatService.onThreadUpdated((event: ThreadUpdateEvent) => {
+      console.log(chalk.gray(`\n🧵 Thread ${event.rootMessageId.substring(0, 8)} updated`));
+      this.printReplyCount(event.replyCount, event.lastReplyAt);
+    });
+    this.cleanupFunctions.push(cleanup7);
+
+    // Disappearing messages
+    const cleanup8 = chatService.onMessagesExpired((event: MessageExpiryEvent) => {
+      if (event.conversationId === this.conversationId) {
+        const verb = event.action === 'expired' ? 'expired' : 'removed';
+        console.log(chalk.gray(`\n⏰ ${event.messageIds.length} message(s) ${verb}`));
+      }
+    });
+    this.cleanupFunctions.push(cleanup8);
+
+    // Drafts edited by another client on the same data folder
+    const cleanup9 = chatService.onDraftChanged((event: DraftChangeEvent) => {
+      if (event.source === 'external' && event.conversationId === this.conversationId) {
+        console.log(chalk.gray(`\n📝 Draft updated elsewhere: ${event.draft?.text || '(cleared)'}`));
+      }
+    });
+    this.cleanupFunctions.push(cleanup9);
   }
 
   /**
@@ -196,6 +244,7 @@ class ChatTestClient {
       messages.messages.slice(0, 3).reverse().forEach(msg => {
         const sender = msg.senderId === CONFIG.USER_ID ? 'You' : CONFIG.RECEIVER_NAME;
         console.log(chalk.gray(`  [${sender}]: ${msg.content.substring(0, 50)}...`));
+        this.printReplyCount(msg.replyCount, msg.lastReplyAt);
       });
     }
 
@@ -214,6 +263,12 @@ class ChatTestClient {
   private startCommandPrompt(): void {
     this.rl.setPrompt(chalk.cyan('\n> '));
     this.rl.prompt();
+    this.restoreDraft();
+
+    // Keep what has been typed so far as the conversation's draft
+    const onKeypress = () => setImmediate(() => this.saveDraft());
+    process.stdin.on('keypress', onKeypress);
+    this.cleanupFunctions.push(() => process.stdin.off('keypress', onKeypress));
 
     this.rl.on('line', async (input) => {
       await this.handleInput(input.trim());
@@ -224,6 +279,24 @@ class ChatTestClient {
     });
   }
 
+  /**
+   * Put an unsent draft from the last session back on the prompt
+   */
+  private restoreDraft(): void {
+    if (!this.conversationId) return;
+
+    chatService.getDraft(this.conversationId)
+      .then((draft: MessageDraft | null) => {
+        if (draft?.text) this.rl.write(draft.text);
+      })
+      .catch((error: any) => console.error(chalk.red('Failed to restore draft:'), error.message));
+  }
+
+  private saveDraft(): void {
+    if (!this.conversationId || !this.isRunning || this.rl.line.startsWith('/')) return;
+    chatService.saveDraft(this.conversationId, { text: this.rl.line });
+  }
+
   /**
    * Handle user input
    */
@@ -232,7 +305,8 @@ class ChatTestClient {
 
     // Handle commands
     if (input.startsWith('/')) {
-      await this.handleCommand(input.toLowerCase());
+      const [command, ...args] = input.split(/\s+/);
+      await this.handleCommand(command.toLowerCase(), args);
     } else {
       // Send as message using chatService
       await this.sendMessage(input);
@@ -242,7 +316,7 @@ class ChatTestClient {
   /**
    * Handle commands
    */
-  private async handleCommand(command: string): Promise<void> {
+  private async handleCommand(command: string, args: string[] = []): Promise<void> {
     switch (command) {
       case '/help':
         this.showHelp();
@@ -260,6 +334,30 @@ class ChatTestClient {
         this.showOfflineQueue();
         break;
 
+      case '/react':
+        await this.toggleReaction(args[0], args[1]);
+        break;
+
+      case '/thread':
+        await this.showThread(args[0], args.slice(1).join(' '));
+        break;
+
+      case '/export':
+        await this.exportConversation(args[0]);
+        break;
+
+      case '/archive':
+        await this.saveArchive();
+        break;
+
+      case '/restore':
+        await this.restoreArchive(args[0]);
+        break;
+
+      case '/voice':
+        await this.sendVoiceMessage(args[0]);
+        break;
+
       case '/clear':
         console.clear();
         break;
@@ -312,6 +410,208 @@ class ChatTestClient {
     }
   }
 
+  /**
+   * Toggle a reaction on a message using chatService
+   */
+  private async toggleReaction(messageId?: string, emoji?: string): Promise<void> {
+    if (!this.conversationId) {
+      console.log(chalk.yellow('No active conversation'));
+      return;
+    }
+
+    if (!messageId || !emoji) {
+      console.log(chalk.red('Usage: /react <msgId> <emoji>'));
+      return;
+    }
+
+    const message = this.findLocalMessage(messageId);
+
+    if (!message) {
+      console.log(chalk.red(`Message not found: ${messageId}`));
+      return;
+    }
+
+    const alreadyReacted = message.reactions?.some(r => r.userId === CONFIG.USER_ID && r.emoji === emoji);
+
+    try {
+      if (alreadyReacted) {
+        await chatService.removeReaction(this.conversationId, message.id, emoji);
+        console.log(chalk.gray(`Removed ${emoji} from ${message.id}`));
+      } else {
+        await chatService.addReaction(this.conversationId, message.id, emoji);
+        console.log(chalk.green(`Reacted ${emoji} to ${message.id}`));
+      }
+    } catch (error: any) {
+      console.error(chalk.red('Failed to react:'), error.message);
+    }
+  }
+
+  /**
+   * Write a transcript of the current conversation to the data folder
+   */
+  private async exportConversation(format: string = 'json'): Promise<void> {
+    if (!this.conversationId) {
+      console.log(chalk.yellow('No active conversation'));
+      return;
+    }
+
+    try {
+      const result = await chatService.exportConversation(this.conversationId, format as TranscriptFormat);
+      const dataPath = AppConfig.storage.dataPath;
+      await fs.mkdir(dataPath, { recursive: true });
+
+      const filePath = path.join(dataPath, result.fileName);
+      await fs.writeFile(filePath, result.content, 'utf8');
+      console.log(chalk.green(`✅ Exported ${result.messageCount} messages to ${filePath}`));
+    } catch (error: any) {
+      console.error(chalk.red('Failed to export:'), error.message);
+    }
+  }
+
+  /**
+   * Save all local chat data as an archive in the data folder
+   */
+  private async saveArchive(): Promise<void> {
+    try {
+      const archive = await chatService.exportArchive();
+      const dataPath = AppConfig.storage.dataPath;
+      await fs.mkdir(dataPath, { recursive: true });
+
+      const filePath = path.join(dataPath, `chat-archive-${archive.exportedAt.replace(/[:.]/g, '-')}.json`);
+      await fs.writeFile(filePath, JSON.stringify(archive, null, 2), 'utf8');
+      console.log(chalk.green(`✅ Archived ${archive.conversations.length} conversations to ${filePath}`));
+    } catch (error: any) {
+      console.error(chalk.red('Failed to archive:'), error.message);
+    }
+  }
+
+  /**
+   * Merge an archive or storage backup file into local data
+   */
+  private async restoreArchive(filePath?: string): Promise<void> {
+    if (!filePath) {
+      console.log(chalk.red('Usage: /restore <file>'));
+      return;
+    }
+
+    try {
+      const data = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      const result = await chatService.importArchive(data);
+
+      if (result.migratedFrom !== undefined) {
+        console.log(chalk.gray(`  Migrated from archive version ${result.migratedFrom}`));
+      }
+      console.log(chalk.green('✅ Archive restored:'));
+      (['conversations', 'messages', 'offlineQueue', 'drafts', 'settings'] as const).forEach(section => {
+        const { imported, skipped } = result[section];
+        console.log(chalk.white(`  ${section}: ${imported} imported, ${skipped} already present`));
+      });
+    } catch (error: any) {
+      console.error(chalk.red('Failed to restore:'), error.message);
+    }
+  }
+
+  /**
+   * Send a WAV file from disk as a voice message
+   */
+  private async sendVoiceMessage(filePath?: string): Promise<void> {
+    if (!this.conversationId) {
+      console.log(chalk.yellow('No active conversation'));
+      return;
+    }
+
+    if (!filePath) {
+      console.log(chalk.red('Usage: /voice <file.wav>'));
+      return;
+    }
+
+    try {
+      const audio = await fs.readFile(filePath);
+      const message = await chatService.sendVoiceMessage(this.conversationId, audio, CONFIG.RECEIVER_ID, {
+        name: path.basename(filePath)
+      });
+
+      const duration = message.attachments?.[0]?.duration;
+      console.log(chalk.green(`🎤 Voice message ${message.status === MessageStatus.QUEUED ? 'queued' : 'sent'}`) +
+        (duration ? chalk.gray(` (${duration.toFixed(1)}s)`) : ''));
+    } catch (error: any) {
+      console.error(chalk.red('Failed to send voice message:'), error.message);
+    }
+  }
+
+  /**
+   * Show a thread, or reply in it when text is given
+   */
+  private async showThread(messageId?: string, replyText?: string): Promise<void> {
+    if (!this.conversationId) {
+      console.log(chalk.yellow('No active conversation'));
+      return;
+    }
+
+    if (!messageId) {
+      console.log(chalk.red('Usage: /thread <msgId> [reply text]'));
+      return;
+    }
+
+    const rootId = this.findLocalMessage(messageId)?.id || messageId;
+
+    try {
+      if (replyText) {
+        await chatService.sendTextMessage(this.conversationId, replyText, CONFIG.RECEIVER_ID, rootId);
+      }
+
+      const thread = await chatService.getThread(rootId);
+      const root = thread.rootMessage;
+      const rootSender = root.senderId === CONFIG.USER_ID ? 'You' : CONFIG.RECEIVER_NAME;
+
+      console.log(chalk.cyan(`\n🧵 Thread ${root.id.substring(0, 8)}`));
+      console.log(chalk.white(`  [${rootSender}]: ${root.content}`));
+
+      thread.replies.forEach((reply: Message) => {
+        const sender = reply.senderId === CONFIG.USER_ID ? 'You' : CONFIG.RECEIVER_NAME;
+        console.log(chalk.gray(`    ↳ [${sender}]: ${reply.content}`) + chalk.gray(` (${reply.id.substring(0, 8)})`));
+      });
+
+      this.printReplyCount(thread.replyCount, thread.lastReplyAt);
+    } catch (error: any) {
+      console.error(chalk.red('Failed to load thread:'), error.message);
+    }
+  }
+
+  /**
+   * Find a cached message in the active conversation.
+   * Short ids are fine - match on prefix like git does.
+   */
+  private findLocalMessage(messageId: string): Message | undefined {
+    if (!this.conversationId) return undefined;
+
+    return chatService.getLocalMessages(this.conversationId)
+      .find((m: Message) => m.id === messageId || m.id.startsWith(messageId));
+  }
+
+  /**
+   * Draw a voice message's waveform as a one-line sparkline
+   */
+  private printVoiceNote(message: Message): void {
+    const voice = message.attachments?.find(att => att.metadata?.voice)?.metadata;
+    if (!voice) return;
+
+    const bars = '▁▂▃▄▅▆▇█';
+    const loudest = Math.max(1, ...voice.waveform);
+    const line = voice.waveform
+      .map((peak: number) => bars[Math.min(bars.length - 1, Math.floor(peak / loudest * bars.length))])
+      .join('');
+    console.log(chalk.magenta(`   🎤 ${line} ${voice.duration.toFixed(1)}s`));
+  }
+
+  private printReplyCount(replyCount?: number, lastReplyAt?: string): void {
+    if (!replyCount) return;
+
+    const label = replyCount === 1 ? 'reply' : 'replies';
+    const last = lastReplyAt ? `, last ${new Date(lastReplyAt).toLocaleTimeString()}` : '';
+    console.log(chalk.gray(`   💬 ${replyCount} ${label}${last}`));
+  }
+
   /**
    * Show help
    */
@@ -321,6 +621,12 @@ class ChatTestClient {
     console.log(chalk.white('  /status   - Show connection status'));
     console.log(chalk.white('  /retry    - Retry failed messages'));
     console.log(chalk.white('  /queue    - Show offline queue'));
+    console.log(chalk.white('  /react <msgId> <emoji> - Toggle a reaction on a message'));
+    console.log(chalk.white('  /thread <msgId> [text] - Show a thread, or reply in it'));
+    console.log(chalk.white('  /export [json|html|text] - Save a transcript to the data folder'));
+    console.log(chalk.white('  /archive  - Save all local chat data to the data folder'));
+    console.log(chalk.white('  /restore <file> - Merge an archive or storage backup'));
+    console.log(chalk.white('  /voice <file.wav> - Send a recording as a voice message'));
     console.log(chalk.white('  /clear    - Clear screen'));
     console.log(chalk.white('  /exit     - Exit the client'));
     console.log(chalk.white('  <text>    - Send a message'));
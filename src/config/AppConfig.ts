@@ -136,6 +136,8 @@ const SHARED_CONFIG = {
     baseUrl: BASE_URLS.chat,
     timeout: parseInt(getEnvVar('MESSAGE_TIMEOUT', '30000'), 10),
     uploadTimeout: parseInt(getEnvVar('UPLOAD_TIMEOUT', '60000'), 10),
+    uploadChunkSize: parseInt(getEnvVar('UPLOAD_CHUNK_SIZE', '1048576'), 10), // 1MB per resumable chunk
+    uploadChunkRetries: parseInt(getEnvVar('UPLOAD_CHUNK_RETRIES', '3'), 10),
     maxFileSize: parseInt(getEnvVar('MAX_FILE_SIZE', '10485760'), 10), // 10MB
     maxImageSize: parseInt(getEnvVar('MAX_IMAGE_SIZE', '5242880'), 10), // 5MB
     maxAudioSize: parseInt(getEnvVar('MAX_AUDIO_SIZE', '15728640'), 10), // 15MB
@@ -202,6 +204,7 @@ const SHARED_CONFIG = {
     keyPrefix: PLATFORM === 'react-native' ? '@MyUsta:' : 'myusta_',
     dataPath: getEnvVar('STORAGE_PATH', './chat-data'),
     maxMemorySize: 100 * 1024 * 1024, // 100MB for memory storage
+    maxStoredMessagesPerConversation: parseInt(getEnvVar('MAX_STORED_MESSAGES', '5000'), 10),
     enableEncryption: getEnvVar('STORAGE_ENCRYPTION_KEY') ? true : false,
     encryptionKey: getEnvVar('STORAGE_ENCRYPTION_KEY', ''),
   },
@@ -211,6 +214,40 @@ const SHARED_CONFIG = {
     type: (getEnvVar('SERVICE_TYPE') as ServiceType) || 'hybrid',
     enableOffline: getEnvVar('ENABLE_OFFLINE_MODE', 'true') !== 'false',
     queueStrategy: 'batch' as 'immediate' | 'batch' | 'scheduled',
+    syncInterval: parseInt(getEnvVar('SYNC_INTERVAL', '15000'), 10), // offline-first outbox drain
+  },
+
+  // Offline Queue Retry Policy
+  offlineQueue: {
+    maxRetries: parseInt(getEnvVar('QUEUE_MAX_RETRIES', '3'), 10),
+    attachmentMaxRetries: parseInt(getEnvVar('QUEUE_ATTACHMENT_MAX_RETRIES', '6'), 10),
+    baseDelay: parseInt(getEnvVar('QUEUE_RETRY_BASE_DELAY', '1000'), 10),
+    maxDelay: parseInt(getEnvVar('QUEUE_RETRY_MAX_DELAY', '300000'), 10), // 5 minutes
+    backoffMultiplier: parseFloat(getEnvVar('QUEUE_RETRY_MULTIPLIER', '2')),
+    jitter: Math.min(Math.max(parseFloat(getEnvVar('QUEUE_RETRY_JITTER', '0.2')), 0), 1),
+    sendInterval: parseInt(getEnvVar('QUEUE_SEND_INTERVAL', '500'), 10),
+    messageExpiry: parseInt(getEnvVar('QUEUE_MESSAGE_EXPIRY', '86400000'), 10), // 24 hours
+    attachmentMessageExpiry: parseInt(getEnvVar('QUEUE_ATTACHMENT_MESSAGE_EXPIRY', '259200000'), 10), // 72 hours
+    maxUploadBytes: parseInt(getEnvVar('QUEUE_MAX_UPLOAD_SIZE', '10485760'), 10), // 10MB per file copied into storage
+    respectRetryAfter: getEnvVar('QUEUE_RESPECT_RETRY_AFTER', 'true') !== 'false',
+  },
+
+  // Disappearing messages
+  messageExpiry: {
+    purgeGracePeriod: parseInt(getEnvVar('EXPIRY_PURGE_GRACE_PERIOD', '60000'), 10), // EXPIRED -> removed
+    maxTimerDelay: 60 * 60 * 1000, // Re-plan at least hourly; retention is measured in days
+  },
+
+  // Client-side image processing before upload
+  images: {
+    maxDimension: parseInt(getEnvVar('IMAGE_MAX_DIMENSION', '2048'), 10), // Longest side, in pixels
+    thumbnailSize: parseInt(getEnvVar('IMAGE_THUMBNAIL_SIZE', '320'), 10),
+    quality: parseFloat(getEnvVar('IMAGE_QUALITY', '0.85')),
+  },
+
+  // Message drafts
+  drafts: {
+    saveDebounce: parseInt(getEnvVar('DRAFT_SAVE_DEBOUNCE', '500'), 10), // Typing pause before a draft is written
   },
 
   // Security Configuration
@@ -0,0 +1,174 @@
+// load-test.ts - Simulate many socket clients and report latency, errors and reconnects
+//
+// Usage: npm run load-test -- [options]
+//   --users <n>               virtual users (default 10)
+//   --duration <s>            seconds of traffic (default 30)
+//   --rate <n>                messages per second per user (default 1)
+//   --typing <n>              typing events per second per user (default 0.5)
+//   --read-ratio <0..1>       share of received messages marked read (default 1)
+//   --ramp-up <s>             spread connections over this many seconds (default 2)
+//   --drain <s>               wait for outstanding acks after traffic stops (default 5)
+//   --credentials <file>      JSON list of { userId, token } to use instead of throwaway logins
+//   --mock [port]             start the local mock server and test against it
+//   --json <file>             also write the report as JSON
+//   --max-error-rate <0..1>   fail when the error rate is higher
+//   --max-p95-ack <ms>        fail when p95 send -> ack latency is higher
+//   --max-p95-delivery <ms>   fail when p95 send -> delivery latency is higher
+import { readFile, writeFile } from 'fs/promises';
+
+import chalk from 'chalk';
+import * as dotenv from 'dotenv';
+
+import type { LatencySummary, LoadTestOptions, LoadTestReport, LoadTestThresholds } from './loadtest/LoadTestRunner';
+
+// Load environment variables
+dotenv.config();
+
+const EXIT_PASSED = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+const DEFAULT_MOCK_PORT = 4100;
+
+type Flags = Record<string, string | true>;
+
+function parseFlags(args: string[]): Flags {
+  const flags: Flags = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) continue;
+
+    const next = args[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      flags[arg.slice(2)] = next;
+      i++;
+    } else {
+      flags[arg.slice(2)] = true;
+    }
+  }
+  return flags;
+}
+
+function numberFlag(flags: Flags, name: string): number | undefined {
+  const value = flags[name];
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (value === true || !Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`--${name} needs a non-negative number`);
+  }
+  return parsed;
+}
+
+function printReport(report: LoadTestReport): void {
+  const row = (label: string, value: string | number) =>
+    console.log(`  ${label.padEnd(22)} ${chalk.white(String(value))}`);
+
+  console.log(chalk.cyan('\n📊 Load test report'));
+  row('Duration', `${(report.durationMs / 1000).toFixed(1)}s`);
+  row('Users connected', `${report.users.connected}/${report.users.requested}`);
+  row('Messages sent', report.messages.sent);
+  row('Acked / delivered', `${report.messages.acked} / ${report.messages.delivered}`);
+  row('Failed / unacked', `${report.messages.failed} / ${report.messages.unacked}`);
+  row('Undelivered', report.messages.undelivered);
+  row('Typing sent / seen', `${report.typing.sent} / ${report.typing.received}`);
+  row('Reads sent', report.reads.sent);
+  row('Error rate', `${(report.errorRate * 100).toFixed(2)}%`);
+  row('Reconnects', report.reconnects);
+  row('Disconnects', report.disconnects);
+
+  const columns: Array<keyof LatencySummary> = ['count', 'min', 'avg', 'p50', 'p90', 'p95', 'p99', 'max'];
+  const latencyRow = (label: string, summary: LatencySummary) =>
+    `  ${label.padEnd(12)}${columns.map(column => String(summary[column]).padStart(8)).join('')}`;
+
+  console.log(chalk.cyan('\n⏱️  Latency (ms)'));
+  console.log(chalk.gray(`  ${''.padEnd(12)}${columns.map(column => column.padStart(8)).join('')}`));
+  console.log(latencyRow('ack', report.ackLatency));
+  console.log(latencyRow('delivery', report.deliveryLatency));
+
+  const errors = Object.entries(report.errors);
+  if (errors.length > 0) {
+    console.log(chalk.yellow('\n⚠️  Errors'));
+    errors.forEach(([message, count]) => row(String(count), message));
+  }
+}
+
+async function main(): Promise<number> {
+  const flags = parseFlags(process.argv.slice(2));
+
+  let options: Partial<LoadTestOptions>;
+  let thresholds: LoadTestThresholds;
+  try {
+    options = {
+      users: numberFlag(flags, 'users'),
+      durationSeconds: numberFlag(flags, 'duration'),
+      messagesPerSecond: numberFlag(flags, 'rate'),
+      typingPerSecond: numberFlag(flags, 'typing'),
+      readRatio: numberFlag(flags, 'read-ratio'),
+      rampUpSeconds: numberFlag(flags, 'ramp-up'),
+      drainSeconds: numberFlag(flags, 'drain'),
+      password: process.env.LOADTEST_PASSWORD
+    };
+    thresholds = {
+      maxErrorRate: numberFlag(flags, 'max-error-rate'),
+      maxP95AckMs: numberFlag(flags, 'max-p95-ack'),
+      maxP95DeliveryMs: numberFlag(flags, 'max-p95-delivery')
+    };
+    if (typeof flags.credentials === 'string') {
+      options.credentials = JSON.parse(await readFile(flags.credentials, 'utf8'));
+    }
+  } catch (error) {
+    console.error(chalk.red(`Invalid arguments: ${(error as Error).message}`));
+    return EXIT_USAGE;
+  }
+
+  // Drop unset flags so the runner defaults apply
+  Object.keys(options).forEach(key => {
+    if (options[key as keyof LoadTestOptions] === undefined) delete options[key as keyof LoadTestOptions];
+  });
+
+  // AppConfig reads SERVER_URL once on import, so point it at the mock
+  // server before anything that depends on it is loaded
+  let mockServer: { stop(): Promise<void> } | null = null;
+  if (flags.mock) {
+    const port = flags.mock === true ? DEFAULT_MOCK_PORT : Number(flags.mock);
+    process.env.SERVER_URL = `http://localhost:${port}`;
+
+    const { MockChatServer } = await import('./mocks/mock-server');
+    const server = new MockChatServer({ port, enableLogging: false });
+    await server.start();
+    mockServer = server;
+    console.log(chalk.gray(`Mock server running on ${server.getUrl()}`));
+  }
+
+  const { LoadTestRunner, checkThresholds } = await import('./loadtest/LoadTestRunner');
+
+  try {
+    const report = await new LoadTestRunner(options).run();
+    printReport(report);
+
+    if (typeof flags.json === 'string') {
+      await writeFile(flags.json, JSON.stringify(report, null, 2));
+      console.log(chalk.gray(`\nJSON report written to ${flags.json}`));
+    }
+
+    const violations = checkThresholds(report, thresholds);
+    if (violations.length > 0) {
+      console.log(chalk.red('\n✗ Thresholds exceeded:'));
+      violations.forEach(violation => console.log(chalk.red(`  - ${violation}`)));
+      return EXIT_FAILED;
+    }
+
+    console.log(chalk.green('\n✓ Load test passed'));
+    return EXIT_PASSED;
+  } finally {
+    await mockServer?.stop();
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(chalk.red('Load test crashed:'), error);
+    process.exit(EXIT_FAILED);
+  });
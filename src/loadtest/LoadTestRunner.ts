@@ -0,0 +1,455 @@
+// src/loadtest/LoadTestRunner.ts - Many virtual users, each on its own socket
+import { v4 as uuidv4 } from 'uuid';
+
+import { AuthService } from '../services/AuthService';
+import { SocketService } from '../services/implementations/SocketService';
+import { AuthException, ConnectionState, Message, MessageStatus, MessageType } from '../types/chat';
+import { logger } from '../utils/Logger';
+
+export interface LoadTestCredentials {
+  userId: string;
+  token: string;
+}
+
+export interface LoadTestOptions {
+  users: number;
+  durationSeconds: number;
+  /** Per virtual user */
+  messagesPerSecond: number;
+  /** Per virtual user */
+  typingPerSecond: number;
+  /** Share of received messages (0..1) the receiver marks as read */
+  readRatio: number;
+  /** Spread connection setup over this many seconds */
+  rampUpSeconds: number;
+  /** How long to wait for outstanding acks and deliveries once traffic stops */
+  drainSeconds: number;
+  /** Existing accounts to use; otherwise throwaway accounts are logged in */
+  credentials?: LoadTestCredentials[];
+  password?: string;
+}
+
+export const DEFAULT_LOAD_TEST_OPTIONS: LoadTestOptions = {
+  users: 10,
+  durationSeconds: 30,
+  messagesPerSecond: 1,
+  typingPerSecond: 0.5,
+  readRatio: 1,
+  rampUpSeconds: 2,
+  drainSeconds: 5
+};
+
+export interface LatencySummary {
+  count: number;
+  min: number;
+  avg: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface LoadTestReport {
+  startedAt: string;
+  durationMs: number;
+  options: Omit<LoadTestOptions, 'credentials' | 'password'>;
+  users: { requested: number; connected: number; failed: number };
+  messages: {
+    sent: number;
+    acked: number;
+    delivered: number;
+    failed: number;
+    unacked: number;
+    undelivered: number;
+  };
+  typing: { sent: number; received: number };
+  reads: { sent: number };
+  /** send -> message_sent ack, in ms */
+  ackLatency: LatencySummary;
+  /** send -> new message at the receiver, in ms */
+  deliveryLatency: LatencySummary;
+  /** (failed + unacked) / sent */
+  errorRate: number;
+  reconnects: number;
+  disconnects: number;
+  errors: Record<string, number>;
+}
+
+export interface LoadTestThresholds {
+  maxErrorRate?: number;
+  maxP95AckMs?: number;
+  maxP95DeliveryMs?: number;
+}
+
+interface VirtualUser {
+  index: number;
+  userId: string;
+  token: string;
+  socket: SocketService;
+  peer?: VirtualUser;
+  jobId: string;
+  connected: boolean;
+  everConnected: boolean;
+  timers: Array<ReturnType<typeof setInterval>>;
+}
+
+interface TrackedMessage {
+  sentAt: number;
+  ackedAt?: number;
+  deliveredAt?: number;
+  failed?: boolean;
+}
+
+// Lets the receiver match a message to its send time without an extra round trip
+const MARKER = /\[lt:([^\]]+)\]/;
+
+/**
+ * Drives message, typing and read traffic from many virtual users at once.
+ *
+ * Users are paired up (0-1, 2-3, ...), an odd one out talks to user 0.
+ * Each pair shares a job id, so the server opens their conversation with
+ * the first message. Every user has its own SocketService connection;
+ * nothing goes through ChatService, so the numbers are the socket round
+ * trips themselves.
+ */
+export class LoadTestRunner {
+  private readonly options: LoadTestOptions;
+  private readonly users: VirtualUser[] = [];
+  private readonly messages = new Map<string, TrackedMessage>();
+  private readonly errors: Record<string, number> = {};
+  private typingSent = 0;
+  private typingReceived = 0;
+  private readsSent = 0;
+  private reconnects = 0;
+  private disconnects = 0;
+  private connectFailures = 0;
+
+  constructor(options: Partial<LoadTestOptions> = {}) {
+    this.options = { ...DEFAULT_LOAD_TEST_OPTIONS, ...options };
+  }
+
+  async run(): Promise<LoadTestReport> {
+    const startedAt = Date.now();
+    logger.info('Starting load test', this.reportableOptions());
+
+    try {
+      await this.createUsers();
+      await this.connectUsers();
+      await this.driveTraffic();
+      await this.drain();
+    } finally {
+      this.teardown();
+    }
+
+    return this.buildReport(startedAt);
+  }
+
+  // ==========================================
+  // SETUP
+  // ==========================================
+
+  private async createUsers(): Promise<void> {
+    const { users: count, credentials } = this.options;
+    if (count < 2) {
+      throw new Error('A load test needs at least 2 users');
+    }
+    if (credentials && credentials.length < count) {
+      throw new Error(`${count} users requested but only ${credentials.length} credentials given`);
+    }
+
+    const runId = Date.now().toString(36);
+    for (let index = 0; index < count; index++) {
+      const { userId, token } = credentials?.[index] || await this.login(runId, index);
+      this.users.push({
+        index,
+        userId,
+        token,
+        socket: new SocketService(),
+        jobId: '',
+        connected: false,
+        everConnected: false,
+        timers: []
+      });
+    }
+
+    for (let index = 0; index < count; index += 2) {
+      const user = this.users[index];
+      const peer = this.users[index + 1] || this.users[0];
+      const jobId = uuidv4();
+      user.peer = peer;
+      user.jobId = jobId;
+      if (!peer.peer) {
+        peer.peer = user;
+        peer.jobId = jobId;
+      }
+    }
+  }
+
+  private async login(runId: string, index: number): Promise<LoadTestCredentials> {
+    const role = index % 2 === 0 ? 'customer' : 'usta';
+    const result = await AuthService.login(
+      `loadtest-${runId}-${index}@loadtest.local`,
+      this.options.password || 'loadtest',
+      role
+    );
+
+    if (!result.success || !result.token || !result.user) {
+      throw new AuthException(`Could not log in virtual user ${index}: ${result.error || 'no token returned'}`);
+    }
+    return { userId: result.user.id, token: result.token };
+  }
+
+  private async connectUsers(): Promise<void> {
+    const spacing = (this.options.rampUpSeconds * 1000) / this.users.length;
+
+    await Promise.all(this.users.map(async user => {
+      await sleep(user.index * spacing);
+      this.subscribe(user);
+
+      try {
+        await user.socket.connect(user.userId, user.token);
+      } catch (error) {
+        this.connectFailures++;
+        this.recordError(`connect: ${(error as Error).message}`);
+      }
+    }));
+
+    const connected = this.users.filter(user => user.connected).length;
+    logger.info('Virtual users connected', { connected, failed: this.users.length - connected });
+  }
+
+  private subscribe(user: VirtualUser): void {
+    const { socket } = user;
+
+    socket.onConnectionChange(state => {
+      if (state === ConnectionState.CONNECTED) {
+        if (user.everConnected) this.reconnects++;
+        user.connected = true;
+        user.everConnected = true;
+      } else if (state === ConnectionState.DISCONNECTED && user.connected) {
+        user.connected = false;
+        this.disconnects++;
+      }
+    });
+
+    socket.onMessageSent((data: any) => {
+      const tracked = data?.clientTempId && this.messages.get(data.clientTempId);
+      if (tracked && !tracked.ackedAt) {
+        tracked.ackedAt = Date.now();
+      }
+    });
+
+    socket.onMessageError((data: any) => {
+      const tracked = data?.clientTempId && this.messages.get(data.clientTempId);
+      if (tracked) tracked.failed = true;
+      this.recordError(`send: ${data?.error || 'unknown error'}`);
+    });
+
+    socket.onMessage((message: Message) => {
+      const clientTempId = message.content?.match(MARKER)?.[1];
+      const tracked = clientTempId && this.messages.get(clientTempId);
+      if (tracked && !tracked.deliveredAt) {
+        tracked.deliveredAt = Date.now();
+      }
+
+      if (message.id && message.conversationId && Math.random() < this.options.readRatio) {
+        socket.markMessagesAsRead([message.id], message.conversationId);
+        this.readsSent++;
+      }
+    });
+
+    socket.onTyping(event => {
+      if (event.isTyping) this.typingReceived++;
+    });
+  }
+
+  // ==========================================
+  // TRAFFIC
+  // ==========================================
+
+  private async driveTraffic(): Promise<void> {
+    const { messagesPerSecond, typingPerSecond, durationSeconds } = this.options;
+
+    for (const user of this.users) {
+      if (messagesPerSecond > 0) {
+        this.every(user, 1000 / messagesPerSecond, () => this.sendMessage(user));
+      }
+      if (typingPerSecond > 0) {
+        this.every(user, 1000 / typingPerSecond, () => this.sendTyping(user));
+      }
+    }
+
+    await sleep(durationSeconds * 1000);
+    this.stopTraffic();
+  }
+
+  /**
+   * Start `fn` on an interval after a random offset, so users do not fire in lockstep
+   */
+  private every(user: VirtualUser, intervalMs: number, fn: () => void): void {
+    const start = setTimeout(() => {
+      fn();
+      user.timers.push(setInterval(fn, intervalMs));
+    }, Math.random() * intervalMs);
+    user.timers.push(start);
+  }
+
+  private sendMessage(user: VirtualUser): void {
+    const peer = user.peer!;
+    const clientTempId = `lt-${user.index}-${uuidv4()}`;
+    const message: Message = {
+      id: clientTempId,
+      clientTempId,
+      senderId: user.userId,
+      receiverId: peer.userId,
+      content: `Load test message [lt:${clientTempId}]`,
+      timestamp: new Date().toISOString(),
+      type: MessageType.TEXT,
+      status: MessageStatus.SENDING,
+      conversationId: '',
+      jobId: user.jobId
+    };
+
+    const tracked: TrackedMessage = { sentAt: Date.now() };
+    this.messages.set(clientTempId, tracked);
+
+    try {
+      user.socket.sendMessage(message);
+    } catch (error) {
+      tracked.failed = true;
+      this.recordError(`send: ${(error as Error).message}`);
+    }
+  }
+
+  private sendTyping(user: VirtualUser): void {
+    if (!user.connected) return;
+    // No conversation id: the server routes typing to the receiver directly
+    user.socket.sendTypingIndicator('', user.peer!.userId, true);
+    this.typingSent++;
+  }
+
+  private stopTraffic(): void {
+    this.users.forEach(user => {
+      user.timers.forEach(timer => clearInterval(timer));
+      user.timers = [];
+    });
+  }
+
+  private async drain(): Promise<void> {
+    const deadline = Date.now() + this.options.drainSeconds * 1000;
+    const outstanding = () => Array.from(this.messages.values())
+      .some(message => !message.failed && (!message.ackedAt || !message.deliveredAt));
+
+    while (outstanding() && Date.now() < deadline) {
+      await sleep(100);
+    }
+  }
+
+  private teardown(): void {
+    this.stopTraffic();
+    this.users.forEach(user => user.socket.disconnect());
+  }
+
+  // ==========================================
+  // REPORT
+  // ==========================================
+
+  private recordError(key: string): void {
+    this.errors[key] = (this.errors[key] || 0) + 1;
+  }
+
+  /**
+   * Options without the secrets, for logs and the report
+   */
+  private reportableOptions(): LoadTestReport['options'] {
+    const options = { ...this.options };
+    delete options.credentials;
+    delete options.password;
+    return options;
+  }
+
+  private buildReport(startedAt: number): LoadTestReport {
+    const tracked = Array.from(this.messages.values());
+    const failed = tracked.filter(message => message.failed).length;
+    const acked = tracked.filter(message => message.ackedAt);
+    const delivered = tracked.filter(message => message.deliveredAt);
+    const unacked = tracked.filter(message => !message.failed && !message.ackedAt).length;
+    const undelivered = tracked.filter(message => !message.failed && !message.deliveredAt).length;
+    const connected = this.users.filter(user => user.everConnected).length;
+
+    return {
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs: Date.now() - startedAt,
+      options: this.reportableOptions(),
+      users: { requested: this.options.users, connected, failed: this.connectFailures },
+      messages: {
+        sent: tracked.length,
+        acked: acked.length,
+        delivered: delivered.length,
+        failed,
+        unacked,
+        undelivered
+      },
+      typing: { sent: this.typingSent, received: this.typingReceived },
+      reads: { sent: this.readsSent },
+      ackLatency: summarize(acked.map(message => message.ackedAt! - message.sentAt)),
+      deliveryLatency: summarize(delivered.map(message => message.deliveredAt! - message.sentAt)),
+      errorRate: tracked.length ? (failed + unacked) / tracked.length : 0,
+      reconnects: this.reconnects,
+      disconnects: this.disconnects,
+      errors: { ...this.errors }
+    };
+  }
+}
+
+/**
+ * Threshold violations, empty when the report is within all limits
+ */
+export function checkThresholds(report: LoadTestReport, thresholds: LoadTestThresholds): string[] {
+  const violations: string[] = [];
+
+  if (thresholds.maxErrorRate !== undefined && report.errorRate > thresholds.maxErrorRate) {
+    violations.push(`error rate ${formatPercent(report.errorRate)} > ${formatPercent(thresholds.maxErrorRate)}`);
+  }
+  if (thresholds.maxP95AckMs !== undefined && report.ackLatency.p95 > thresholds.maxP95AckMs) {
+    violations.push(`p95 ack latency ${report.ackLatency.p95}ms > ${thresholds.maxP95AckMs}ms`);
+  }
+  if (thresholds.maxP95DeliveryMs !== undefined && report.deliveryLatency.p95 > thresholds.maxP95DeliveryMs) {
+    violations.push(`p95 delivery latency ${report.deliveryLatency.p95}ms > ${thresholds.maxP95DeliveryMs}ms`);
+  }
+  if (report.users.connected < report.users.requested) {
+    violations.push(`${report.users.requested - report.users.connected} of ${report.users.requested} users never connected`);
+  }
+
+  return violations;
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(2)}%`;
+}
+
+function summarize(samples: number[]): LatencySummary {
+  if (samples.length === 0) {
+    return { count: 0, min: 0, avg: 0, p50: 0, p90: 0, p95: 0, p99: 0, max: 0 };
+  }
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  // Nearest-rank percentile
+  const at = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    avg: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    p50: at(50),
+    p90: at(90),
+    p95: at(95),
+    p99: at(99),
+    max: sorted[sorted.length - 1]
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
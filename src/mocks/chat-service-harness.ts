@@ -0,0 +1,125 @@
+// mocks/chat-service-harness.ts - End-to-end checks for ChatService against the mock server
+//
+// Signs a user in through the real ChatService, with every service built by
+// the container, and talks to MockChatServer over REST and socket.io. This
+// catches wiring mistakes between ChatService and the container that the
+// harnesses built on hand-made services cannot see.
+//
+// Run: npm run harness:chat-service   (set HARNESS_VERBOSE=1 to see service logs)
+import { createServer } from 'net';
+
+import { ConversationType } from '../types/chat';
+
+import { ScriptableStorageService } from './fake-services';
+import { Check, assert, assertEqual, assertRejects, runChecks } from './harness-runner';
+
+/**
+ * Ask the OS for a free port, so the URL is known before AppConfig is loaded
+ */
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, () => {
+      const address = probe.address();
+      probe.close(() => resolve(typeof address === 'object' && address ? address.port : 0));
+    });
+  });
+}
+
+async function main(): Promise<void> {
+  // AppConfig reads SERVER_URL once on import, so point it at the mock
+  // server before anything that depends on it is loaded
+  const port = await freePort();
+  process.env.SERVER_URL = `http://localhost:${port}`;
+
+  const { MockChatServer } = await import('./mock-server');
+  const { BaseApiClient, responseBody } = await import('../services/api/base/BaseApiClient');
+  const { ServiceFactory } = await import('../services/factories/ServiceFactory');
+  const { chatService } = await import('../services/chatService');
+  const { AppConfig } = await import('../config/AppConfig');
+
+  const server = new MockChatServer({ port, enableLogging: false });
+  await server.start();
+
+  const [alice, bob] = server.getUsers();
+  const token = server.issueToken(alice.id);
+  const apiClient = new BaseApiClient({ baseUrl: AppConfig.urls.chat, token, retries: 0 });
+
+  // Only storage is swapped, so nothing is written to disk; the user id
+  // reaches the services through ChatService.initialize alone
+  ServiceFactory.configure({
+    customImplementations: { storageService: new ScriptableStorageService() }
+  });
+
+  const checks: Check[] = [
+    {
+      name: 'a user signs in over REST and socket.io',
+      run: async () => {
+        await chatService.initialize(alice.id, alice.role, token);
+        assert(chatService.isConnected(), 'chat service should be connected');
+      }
+    },
+    {
+      name: 'a user leaves a group conversation through ChatService',
+      run: async () => {
+        const { conversation } = await chatService.createConversation({
+          participantIds: [bob.id],
+          type: ConversationType.GROUP_CHAT
+        });
+        await chatService.sendTextMessage(conversation.id, 'see you all', bob.id);
+
+        await chatService.leaveConversation(conversation.id);
+
+        assertEqual(chatService.getLocalMessages(conversation.id), [], 'cached messages');
+        await assertRejects(
+          apiClient.get(`/conversations/${conversation.id}`),
+          'reading the conversation after leaving'
+        );
+      }
+    },
+    {
+      name: 'a reaction is recorded under the user and toggles off again',
+      run: async () => {
+        const { conversation } = await chatService.createConversation({
+          participantIds: [bob.id],
+          type: ConversationType.DIRECT_MESSAGE
+        });
+        const message = await chatService.sendTextMessage(conversation.id, 'react to me', bob.id);
+        const ownReactions = () => (chatService.getLocalMessages(conversation.id)
+          .find(m => m.id === message.id)?.reactions ?? [])
+          .filter(r => r.userId === alice.id)
+          .map(r => r.emoji);
+
+        // The same toggle as the test client's /react command
+        const toggle = async (emoji: string) => {
+          if (ownReactions().includes(emoji)) {
+            await chatService.removeReaction(conversation.id, message.id, emoji);
+          } else {
+            await chatService.addReaction(conversation.id, message.id, emoji);
+          }
+        };
+
+        await toggle('👍');
+        assertEqual(ownReactions(), ['👍'], 'own reactions after the first toggle');
+
+        await toggle('👍');
+        assertEqual(ownReactions(), [], 'own reactions after the second toggle');
+
+        const page: any = await apiClient.get(`/messages/conversation/${conversation.id}`);
+        const stored = (responseBody(page).messages as any[]).find(m => m.id === message.id);
+        assertEqual(stored?.reactions ?? [], [], 'reactions on the server');
+      }
+    }
+  ];
+
+  const failures = await runChecks('Chat service', checks);
+  await chatService.disconnect();
+  await server.stop();
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  process.stderr.write(`Harness crashed: ${error?.stack || error}\n`);
+  process.exit(1);
+});
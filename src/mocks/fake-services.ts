@@ -0,0 +1,435 @@
+// mocks/fake-services.ts - Scriptable fakes for driving ChatService without a network
+import { IClock, IFileService, IRealtimeService, IStorageService } from '../services/interfaces';
+import {
+  Attachment,
+  AttachmentType,
+  ConnectionState,
+  Message,
+  MessageReactionEvent,
+  OnlineUser,
+  ParticipantRemovedEvent,
+  ParticipantsAddedEvent,
+  ParticipantUpdatedEvent,
+  ResumableUploadState,
+  ThreadUpdateEvent
+} from '../types/chat';
+
+type Listener = (...args: any[]) => void;
+
+/**
+ * A message as seen by the fake server
+ */
+export interface DeliveredMessage {
+  messageId: string;
+  clientTempId?: string;
+  conversationId: string;
+  content: string;
+  deliveredAt: number;
+}
+
+/**
+ * Fake realtime transport.
+ *
+ * Behaves like SocketService from ChatService's point of view: sends are
+ * acknowledged with message_sent / message_send_error, and connection changes
+ * are reported through onConnectionChange. The network can be taken down and
+ * brought back, and individual sends can be scripted to fail.
+ */
+export class FakeRealtimeService implements IRealtimeService {
+  private listeners: Map<string, Set<Listener>> = new Map();
+  private state: ConnectionState = ConnectionState.DISCONNECTED;
+  private networkUp: boolean = true;
+  private scriptedFailures: Array<{ error: string; retryAfter?: number }> = [];
+  private dropAfter: number | null = null;
+  private nextServerId: number = 1;
+  private userId: string = '';
+
+  readonly delivered: DeliveredMessage[] = [];
+  readonly attempts: Array<{ content: string; outcome: 'delivered' | 'failed' | 'offline' }> = [];
+
+  // ---------- Scripting ----------
+
+  /**
+   * Fail the next `count` sends with message_send_error, optionally carrying
+   * a retryAfter hint in seconds
+   */
+  failNextSends(count: number, reason: string = 'Simulated server error', retryAfter?: number): void {
+    for (let i = 0; i < count; i++) {
+      this.scriptedFailures.push({ error: reason, retryAfter });
+    }
+  }
+
+  /**
+   * Drop the connection right after `count` more messages have been delivered
+   */
+  disconnectAfterDeliveries(count: number): void {
+    this.dropAfter = this.delivered.length + count;
+  }
+
+  goOffline(): void {
+    this.networkUp = false;
+    this.setState(ConnectionState.DISCONNECTED);
+  }
+
+  goOnline(): void {
+    this.networkUp = true;
+    this.setState(ConnectionState.CONNECTED);
+  }
+
+  deliveredContents(): string[] {
+    return this.delivered.map(m => m.content);
+  }
+
+  // ---------- IRealtimeService ----------
+
+  async connect(userId: string, _token: string): Promise<void> {
+    this.userId = userId;
+
+    // Like socket.io, stay disconnected and keep "retrying" while the network is down
+    if (this.networkUp) {
+      this.setState(ConnectionState.CONNECTED);
+    }
+  }
+
+  disconnect(): void {
+    this.setState(ConnectionState.DISCONNECTED);
+  }
+
+  async updateToken(_token: string): Promise<void> {}
+
+  isConnected(): boolean {
+    return this.state === ConnectionState.CONNECTED;
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.state;
+  }
+
+  getConnectionStateEnum(): ConnectionState {
+    return this.state;
+  }
+
+  sendMessage(message: Message): void {
+    if (!this.isConnected()) {
+      this.attempts.push({ content: message.content, outcome: 'offline' });
+      throw new Error('Socket not connected');
+    }
+
+    const failure = this.scriptedFailures.shift();
+
+    // Acknowledge asynchronously, like the real server round trip
+    setImmediate(() => {
+      if (failure) {
+        this.attempts.push({ content: message.content, outcome: 'failed' });
+        this.emit('message_send_error', { clientTempId: message.clientTempId, ...failure });
+        return;
+      }
+
+      const delivered: DeliveredMessage = {
+        messageId: `server-${this.nextServerId++}`,
+        clientTempId: message.clientTempId,
+        conversationId: message.conversationId,
+        content: message.content,
+        deliveredAt: Date.now()
+      };
+      this.delivered.push(delivered);
+      this.attempts.push({ content: message.content, outcome: 'delivered' });
+
+      this.emit('message_sent', {
+        messageId: delivered.messageId,
+        clientTempId: delivered.clientTempId,
+        conversationId: delivered.conversationId,
+        status: 'sent'
+      });
+
+      if (this.dropAfter !== null && this.delivered.length >= this.dropAfter) {
+        this.dropAfter = null;
+        this.goOffline();
+      }
+    });
+  }
+
+  sendTypingIndicator(_conversationId: string, _receiverId: string, _isTyping: boolean): void {}
+
+  sendReaction(event: Omit<MessageReactionEvent, 'userId' | 'timestamp'>): void {
+    if (!this.isConnected()) {
+      throw new Error('Socket not connected');
+    }
+
+    // Echo it back the way the server fans reactions out to every participant
+    setImmediate(() => {
+      this.emit('reaction_changed', { ...event, userId: this.userId, timestamp: new Date().toISOString() });
+    });
+  }
+
+  getAllOnlineUsers(): void {}
+
+  getOnlineUsersSync(): OnlineUser[] {
+    return [];
+  }
+
+  isUserOnline(_userId: string): boolean {
+    return false;
+  }
+
+  getOnlineCount(): number {
+    return 0;
+  }
+
+  onOnlineUsersUpdate(_callback: (users: OnlineUser[]) => void): () => void {
+    return () => {};
+  }
+
+  onMessage(callback: (message: Message) => void): () => void {
+    return this.on('message_received', callback);
+  }
+
+  onMessageSent(callback: (data: any) => void): () => void {
+    return this.on('message_sent', callback);
+  }
+
+  onMessageError(callback: (error: any) => void): () => void {
+    return this.on('message_send_error', callback);
+  }
+
+  onTyping(callback: (data: { userId: string; conversationId: string; isTyping: boolean }) => void): () => void {
+    return this.on('typing', callback);
+  }
+
+  onUserStatus(callback: (data: { userId: string; isOnline: boolean; lastSeen?: string }) => void): () => void {
+    return this.on('user_status', callback);
+  }
+
+  onReactionChanged(callback: (event: MessageReactionEvent) => void): () => void {
+    return this.on('reaction_changed', callback);
+  }
+
+  onThreadUpdated(callback: (event: ThreadUpdateEvent) => void): () => void {
+    return this.on('thread_updated', callback);
+  }
+
+  onParticipantsAdded(callback: (event: ParticipantsAddedEvent) => void): () => void {
+    return this.on('participants_added', callback);
+  }
+
+  onParticipantRemoved(callback: (event: ParticipantRemovedEvent) => void): () => void {
+    return this.on('participant_removed', callback);
+  }
+
+  onParticipantUpdated(callback: (event: ParticipantUpdatedEvent) => void): () => void {
+    return this.on('participant_updated', callback);
+  }
+
+  onConnectionChange(callback: (state: ConnectionState) => void): () => void {
+    return this.on('connection_state_change', callback);
+  }
+
+  /**
+   * Raw subscription, used by SocketMessageService
+   */
+  on(event: string, callback: Listener): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+
+    return () => {
+      this.listeners.get(event)?.delete(callback);
+    };
+  }
+
+  emit(event: string, ...args: any[]): void {
+    this.listeners.get(event)?.forEach(listener => listener(...args));
+  }
+
+  private setState(state: ConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.emit('connection_state_change', state);
+  }
+}
+
+/**
+ * In-memory storage that survives "process restarts".
+ *
+ * Values are round-tripped through JSON, exactly like the file and
+ * localStorage backends, so anything that would not survive persistence
+ * shows up here too. Writes can be scripted to fail.
+ */
+export class ScriptableStorageService implements IStorageService {
+  private data: Map<string, string> = new Map();
+  private failingWrites: number = 0;
+
+  readonly writes: string[] = [];
+
+  failNextWrites(count: number): void {
+    this.failingWrites += count;
+  }
+
+  /**
+   * Raw persisted value, for assertions
+   */
+  peek<T>(key: string): T | null {
+    const raw = this.data.get(key);
+    return raw === undefined ? null : JSON.parse(raw);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    return this.peek<T>(key);
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    if (this.failingWrites > 0) {
+      this.failingWrites--;
+      throw new Error(`Simulated storage failure writing ${key}`);
+    }
+    this.writes.push(key);
+    this.data.set(key, JSON.stringify(value));
+  }
+
+  async remove(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.data.clear();
+  }
+
+  async multiGet<T>(keys: string[]): Promise<Map<string, T>> {
+    const result = new Map<string, T>();
+    for (const key of keys) {
+      const value = this.peek<T>(key);
+      if (value !== null) {
+        result.set(key, value);
+      }
+    }
+    return result;
+  }
+
+  async multiSet(items: Map<string, any>): Promise<void> {
+    for (const [key, value] of items.entries()) {
+      await this.set(key, value);
+    }
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    keys.forEach(key => this.data.delete(key));
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return Array.from(this.data.keys());
+  }
+
+  async getItemsByPrefix(prefix: string): Promise<Map<string, any>> {
+    const result = new Map<string, any>();
+    for (const key of this.data.keys()) {
+      if (key.startsWith(prefix)) {
+        result.set(key, this.peek(key));
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * File service whose uploads always succeed at once, so queued attachments
+ * go out as soon as the queue reaches them.
+ */
+export class FakeFileService implements IFileService {
+  private nextFileId: number = 1;
+
+  async uploadFile(file: any, type: AttachmentType): Promise<Attachment> {
+    const id = `file-${this.nextFileId++}`;
+    return { id, type, url: `https://files.invalid/${id}`, name: file.name, size: file.size || 0 };
+  }
+
+  uploadImage(image: any): Promise<Attachment> {
+    return this.uploadFile(image, AttachmentType.IMAGE);
+  }
+
+  uploadAudio(audio: any): Promise<Attachment> {
+    return this.uploadFile(audio, AttachmentType.AUDIO);
+  }
+
+  async deleteFile(_fileId: string): Promise<void> {}
+
+  async getFileUrl(fileId: string): Promise<string> {
+    return `https://files.invalid/${fileId}`;
+  }
+
+  uploadFileResumable(file: any, type: AttachmentType): Promise<Attachment> {
+    return this.uploadFile(file, type);
+  }
+
+  async getPendingUploads(): Promise<ResumableUploadState[]> {
+    return [];
+  }
+
+  async cancelResumableUpload(_uploadKey: string): Promise<void> {}
+}
+
+/**
+ * Controllable wall clock. Replaces Date.now while installed so that
+ * services reading the time directly see jumps; services that take an
+ * IClock get timers that only fire when the clock is advanced.
+ */
+export class FakeClock implements IClock {
+  private offset: number = 0;
+  private originalNow: (() => number) | null = null;
+  private timers: Array<{ id: number; at: number; callback: () => void }> = [];
+  private nextTimerId: number = 1;
+
+  install(): void {
+    if (this.originalNow) return;
+    const realNow = Date.now.bind(Date);
+    this.originalNow = realNow;
+    Date.now = () => realNow() + this.offset;
+  }
+
+  uninstall(): void {
+    if (this.originalNow) {
+      Date.now = this.originalNow;
+      this.originalNow = null;
+    }
+    this.offset = 0;
+    this.timers = [];
+  }
+
+  /**
+   * Move time forward, firing due timers in deadline order
+   */
+  advance(ms: number): void {
+    const target = this.now() + ms;
+
+    for (;;) {
+      const next = this.timers
+        .filter(timer => timer.at <= target)
+        .sort((a, b) => a.at - b.at)[0];
+      if (!next) break;
+
+      this.offset += Math.max(next.at - this.now(), 0);
+      this.timers = this.timers.filter(timer => timer.id !== next.id);
+      next.callback();
+    }
+
+    this.offset += Math.max(target - this.now(), 0);
+  }
+
+  now(): number {
+    return this.originalNow ? Date.now() : Date.now() + this.offset;
+  }
+
+  setTimeout(callback: () => void, delay: number): number {
+    const id = this.nextTimerId++;
+    this.timers.push({ id, at: this.now() + Math.max(delay, 0), callback });
+    return id;
+  }
+
+  clearTimeout(handle: any): void {
+    this.timers = this.timers.filter(timer => timer.id !== handle);
+  }
+
+  pendingTimers(): number {
+    return this.timers.length;
+  }
+}
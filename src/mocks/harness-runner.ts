@@ -0,0 +1,69 @@
+// mocks/harness-runner.ts - Minimal runner shared by the unit-level harnesses
+//
+// Each check is a named function that throws on failure. Service logs are
+// silenced unless HARNESS_VERBOSE=1, like the offline queue harness. The
+// caller exits with the result, after tearing down whatever it started.
+
+export interface Check {
+  name: string;
+  run(): void | Promise<void>;
+}
+
+export class AssertionFailed extends Error {}
+
+export function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new AssertionFailed(message);
+  }
+}
+
+export function assertEqual<T>(actual: T, expected: T, label: string): void {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new AssertionFailed(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+export async function assertRejects(promise: Promise<unknown>, label: string): Promise<Error> {
+  try {
+    await promise;
+  } catch (error) {
+    return error as Error;
+  }
+  throw new AssertionFailed(`${label}: expected a rejection`);
+}
+
+/**
+ * Run the checks in order and report them; resolves to the number that failed
+ */
+export async function runChecks(title: string, checks: Check[]): Promise<number> {
+  const report = console.log.bind(console);
+
+  if (process.env.HARNESS_VERBOSE !== '1') {
+    const silent = () => {};
+    console.log = silent;
+    console.info = silent;
+    console.warn = silent;
+    console.error = silent;
+    console.debug = silent;
+  }
+
+  report(`\n${title} (${checks.length} checks)\n`);
+
+  let failures = 0;
+
+  for (const check of checks) {
+    try {
+      await check.run();
+      report(`  ✓ ${check.name}`);
+    } catch (error) {
+      failures++;
+      report(`  ✗ ${check.name}`);
+      report(`      - ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  report(`\n${checks.length - failures} passed, ${failures} failed\n`);
+  return failures;
+}
@@ -0,0 +1,306 @@
+// mocks/message-expiry-harness.ts - Disappearing message checks
+//
+// Runs MessageExpiryService on a FakeClock over the memory cache and a
+// PersistentMessageStore on scriptable storage, so retention periods of days
+// pass instantly and a "restart" is a new service on the same storage.
+//
+// Run: npm run harness:message-expiry
+import { MemoryCacheService } from '../services/implementations/MemoryCacheService';
+import { MessageExpiryService } from '../services/implementations/MessageExpiryService';
+import { PersistentMessageStore } from '../services/implementations/PersistentMessageStore';
+import {
+  ConversationType,
+  Message,
+  MessageExpiryEvent,
+  MessageStatus,
+  MessageType,
+  ServerConversation
+} from '../types/chat';
+
+import { FakeClock, ScriptableStorageService } from './fake-services';
+import { Check, assertEqual, runChecks } from './harness-runner';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const GRACE_PERIOD = MINUTE;
+const MAX_TIMER_DELAY = HOUR;
+const CONVERSATION_ID = 'expiry-conversation';
+
+/**
+ * One device: storage that outlives restarts, and the services on top of it
+ */
+class ExpiryWorld {
+  readonly clock = new FakeClock();
+  readonly storage = new ScriptableStorageService();
+  readonly events: MessageExpiryEvent[] = [];
+  cache = new MemoryCacheService();
+  store = new PersistentMessageStore(this.storage);
+  expiry = this.createService();
+
+  /**
+   * Put a message in the cache and the store and track it, expiring `expiresIn` from now
+   */
+  async add(
+    id: string,
+    expiresIn: number,
+    clientTempId?: string,
+    conversationId: string = CONVERSATION_ID
+  ): Promise<Message> {
+    const message: Message = {
+      id,
+      clientTempId,
+      senderId: 'alice',
+      content: id,
+      timestamp: new Date(this.clock.now()).toISOString(),
+      type: MessageType.TEXT,
+      status: MessageStatus.SENT,
+      conversationId,
+      expiresAt: new Date(this.clock.now() + expiresIn).toISOString()
+    };
+
+    this.cache.cacheMessage(conversationId, message);
+    await this.store.saveMessage(message);
+    this.expiry.track([message]);
+    await flush();
+    return message;
+  }
+
+  /**
+   * Move the clock and let the passes it triggers finish. A pass runs after
+   * the clock has reached its target, so advance to each deadline in turn.
+   */
+  async advance(ms: number): Promise<void> {
+    this.clock.advance(ms);
+    await flush();
+  }
+
+  async restart(): Promise<void> {
+    this.expiry.dispose();
+    this.cache = new MemoryCacheService();
+    this.store = new PersistentMessageStore(this.storage);
+    this.expiry = this.createService();
+    await this.expiry.start();
+  }
+
+  cachedStatus(id: string): MessageStatus | 'missing' {
+    return this.cache.getCachedMessages(CONVERSATION_ID).find(m => m.id === id)?.status ?? 'missing';
+  }
+
+  async storedStatus(id: string): Promise<MessageStatus | 'missing'> {
+    return (await this.store.getMessage(CONVERSATION_ID, id))?.status ?? 'missing';
+  }
+
+  eventLog(): string[] {
+    return this.events.map(event => `${event.action}:${event.messageIds.join(',')}`);
+  }
+
+  private createService(): MessageExpiryService {
+    const service = new MessageExpiryService(
+      this.cache, this.store, this.storage, this.clock, GRACE_PERIOD, MAX_TIMER_DELAY
+    );
+    service.onMessagesExpired(event => this.events.push(event));
+    return service;
+  }
+}
+
+// Expiry passes chain several storage calls; give them real ticks to finish
+async function flush(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+async function started(): Promise<ExpiryWorld> {
+  const world = new ExpiryWorld();
+  await world.expiry.start();
+  return world;
+}
+
+const checks: Check[] = [
+  {
+    name: 'a message is marked EXPIRED in cache and store at its deadline, not before',
+    run: async () => {
+      const h = await started();
+      await h.add('m1', 10 * MINUTE);
+
+      await h.advance(10 * MINUTE - SECOND);
+      assertEqual(h.cachedStatus('m1'), MessageStatus.SENT, 'cached before the deadline');
+      assertEqual(h.eventLog(), [], 'events before the deadline');
+
+      await h.advance(SECOND);
+      assertEqual(h.cachedStatus('m1'), MessageStatus.EXPIRED, 'cached');
+      assertEqual(await h.storedStatus('m1'), MessageStatus.EXPIRED, 'stored');
+      assertEqual(h.eventLog(), ['expired:m1'], 'events');
+      h.expiry.dispose();
+    }
+  },
+  {
+    name: 'an expired message is purged from cache and store after the grace period',
+    run: async () => {
+      const h = await started();
+      await h.add('m1', MINUTE);
+      await h.advance(MINUTE);
+
+      await h.advance(GRACE_PERIOD - SECOND);
+      assertEqual(h.cachedStatus('m1'), MessageStatus.EXPIRED, 'cached during the grace period');
+
+      await h.advance(SECOND);
+      assertEqual(h.cachedStatus('m1'), 'missing', 'cached');
+      assertEqual(await h.storedStatus('m1'), 'missing', 'stored');
+      assertEqual(h.eventLog(), ['expired:m1', 'purged:m1'], 'events');
+      assertEqual(h.clock.pendingTimers(), 0, 'pending timers');
+      h.expiry.dispose();
+    }
+  },
+  {
+    name: 'a message that is already due expires on the next tick',
+    run: async () => {
+      const h = await started();
+      await h.add('late', -SECOND);
+      await h.advance(0);
+
+      assertEqual(h.cachedStatus('late'), MessageStatus.EXPIRED, 'cached');
+      assertEqual(h.eventLog(), ['expired:late'], 'events');
+      h.expiry.dispose();
+    }
+  },
+  {
+    name: 'a deadline days away is reached through capped timers',
+    run: async () => {
+      const h = await started();
+      await h.add('m1', 3 * DAY);
+
+      for (let hour = 1; hour < 72; hour++) {
+        await h.advance(HOUR);
+        assertEqual(h.clock.pendingTimers(), 1, `pending timers after ${hour}h`);
+      }
+      assertEqual(h.eventLog(), [], 'events before the deadline');
+
+      await h.advance(HOUR);
+      assertEqual(h.eventLog(), ['expired:m1'], 'events');
+      h.expiry.dispose();
+    }
+  },
+  {
+    name: 'tracking a sooner message moves the timer forward',
+    run: async () => {
+      const h = await started();
+      await h.add('later', 30 * MINUTE);
+      await h.add('sooner', 5 * MINUTE);
+
+      await h.advance(5 * MINUTE);
+      assertEqual(h.eventLog(), ['expired:sooner'], 'events');
+      assertEqual(h.cachedStatus('later'), MessageStatus.SENT, 'later message');
+      h.expiry.dispose();
+    }
+  },
+  {
+    name: 'messages that expired while the app was closed are caught up on start',
+    run: async () => {
+      const h = await started();
+      await h.add('m1', 10 * MINUTE);
+      h.expiry.dispose();
+
+      h.clock.advance(HOUR);
+      await h.restart();
+
+      assertEqual(h.eventLog(), ['expired:m1'], 'events');
+      assertEqual(await h.storedStatus('m1'), MessageStatus.EXPIRED, 'stored');
+
+      await h.advance(GRACE_PERIOD);
+      assertEqual(await h.storedStatus('m1'), 'missing', 'stored after the grace period');
+      h.expiry.dispose();
+    }
+  },
+  {
+    name: 'a temp id replaced by the server id is tracked once, under the server id',
+    run: async () => {
+      const h = await started();
+      const pending = await h.add('temp-1', 10 * MINUTE, 'temp-1');
+      h.cache.removeMessage(CONVERSATION_ID, pending.id);
+      await h.add('server-1', 10 * MINUTE, 'temp-1');
+
+      await h.advance(10 * MINUTE);
+      assertEqual(h.eventLog(), ['expired:server-1'], 'events');
+      assertEqual(h.cachedStatus('server-1'), MessageStatus.EXPIRED, 'cached');
+      h.expiry.dispose();
+    }
+  },
+  {
+    name: 'a refetched copy of an expired message is marked EXPIRED again',
+    run: async () => {
+      const h = await started();
+      const message = await h.add('m1', MINUTE);
+      await h.advance(MINUTE);
+
+      h.cache.cacheMessage(CONVERSATION_ID, { ...message, status: MessageStatus.READ });
+      h.expiry.track([message]);
+      await flush();
+      await h.advance(0);
+
+      assertEqual(h.cachedStatus('m1'), MessageStatus.EXPIRED, 'cached');
+      assertEqual(h.eventLog(), ['expired:m1'], 'events');
+      h.expiry.dispose();
+    }
+  },
+  {
+    name: 'dispose stops the timer and keeps the tracked set for the next start',
+    run: async () => {
+      const h = await started();
+      await h.add('m1', MINUTE);
+      h.expiry.dispose();
+
+      assertEqual(h.clock.pendingTimers(), 0, 'pending timers');
+      await h.advance(HOUR);
+      assertEqual(h.eventLog(), [], 'events while disposed');
+
+      await h.expiry.start();
+      assertEqual(h.eventLog(), ['expired:m1'], 'events after start');
+      h.expiry.dispose();
+    }
+  },
+  {
+    name: 'untracking a conversation drops its messages and keeps the others',
+    run: async () => {
+      const h = await started();
+      await h.add('m1', MINUTE);
+      await h.add('m2', 2 * MINUTE);
+      await h.add('other-1', 2 * MINUTE, undefined, 'other-conversation');
+
+      await h.expiry.untrackConversation(CONVERSATION_ID);
+      await h.advance(MINUTE);
+      assertEqual(h.eventLog(), [], 'events at the untracked deadline');
+
+      await h.advance(MINUTE);
+      assertEqual(h.eventLog(), ['expired:other-1'], 'events');
+      h.expiry.dispose();
+    }
+  },
+  {
+    name: 'getExpiresAt follows the conversation retention settings',
+    run: () => {
+      const h = new ExpiryWorld();
+      const conversation = (settings: Partial<ServerConversation['settings']>) => ({
+        id: CONVERSATION_ID,
+        type: ConversationType.GROUP_CHAT,
+        settings
+      }) as ServerConversation;
+
+      const now = h.clock.now();
+      const expiresAt = h.expiry.getExpiresAt(conversation({ autoDeleteMessages: true, messageRetention: 2 }));
+      assertEqual(new Date(expiresAt!).getTime() - now, 2 * DAY, 'retention');
+      assertEqual(h.expiry.getExpiresAt(conversation({ autoDeleteMessages: false, messageRetention: 2 })), undefined, 'disabled');
+      assertEqual(h.expiry.getExpiresAt(conversation({ autoDeleteMessages: true, messageRetention: 0 })), undefined, 'no retention');
+      assertEqual(h.expiry.getExpiresAt(null), undefined, 'no conversation');
+    }
+  }
+];
+
+runChecks('Message expiry', checks).then(failures => {
+  process.exit(failures > 0 ? 1 : 0);
+}).catch(error => {
+  process.stderr.write(`Harness crashed: ${error?.stack || error}\n`);
+  process.exit(1);
+});
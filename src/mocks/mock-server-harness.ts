@@ -0,0 +1,88 @@
+// mocks/mock-server-harness.ts - Protocol checks between the REST clients and the mock server
+//
+// Starts MockChatServer on a free port and drives the real RestMessageService
+// against it, so the mock and the clients cannot drift apart on details such
+// as page order and cursors.
+//
+// Run: npm run harness:mock-server   (set HARNESS_VERBOSE=1 to see service logs)
+import { BaseApiClient, responseBody } from '../services/api/base/BaseApiClient';
+import { MemoryCacheService } from '../services/implementations/MemoryCacheService';
+import { RestMessageService } from '../services/implementations/RestMessageService';
+
+import { Check, assert, assertEqual, runChecks } from './harness-runner';
+import { MockChatServer } from './mock-server';
+
+const CHAT_PREFIX = '/chat/';
+const MESSAGE_COUNT = 25;
+const PAGE_SIZE = 10;
+
+async function main(): Promise<void> {
+  const server = new MockChatServer({ port: 0, chatPrefix: CHAT_PREFIX, enableLogging: false });
+  await server.start();
+
+  const [alice, bob] = server.getUsers();
+  const apiClient = new BaseApiClient({
+    baseUrl: `${server.getUrl()}${CHAT_PREFIX}`,
+    token: server.issueToken(alice.id),
+    retries: 0
+  });
+  const messages = new RestMessageService(apiClient, new MemoryCacheService(), alice.id);
+
+  const created: any = await apiClient.post('/conversations', { participantIds: [bob.id], type: 'direct_message' });
+  const conversationId: string = responseBody(created).conversation.id;
+
+  // Sent one by one, so "message 1" is the oldest
+  const sent: string[] = [];
+  for (let i = 1; i <= MESSAGE_COUNT; i++) {
+    const response: any = await apiClient.post('/messages', { conversationId, receiverId: bob.id, content: `message ${i}` });
+    sent.push(responseBody(response).message.id);
+  }
+  const newestFirst = [...sent].reverse();
+
+  const checks: Check[] = [
+    {
+      name: 'a page comes newest first, with oldestMessageId at its end',
+      run: async () => {
+        const page = await messages.getMessages(conversationId, { page: 1, limit: PAGE_SIZE });
+        assertEqual(page.messages.map(m => m.id), newestFirst.slice(0, PAGE_SIZE), 'page 1');
+        assertEqual(page.newestMessageId, sent[MESSAGE_COUNT - 1], 'newestMessageId');
+        assertEqual(page.oldestMessageId, sent[MESSAGE_COUNT - PAGE_SIZE], 'oldestMessageId');
+        assert(page.hasMore, 'page 1 should report more history');
+      }
+    },
+    {
+      name: 'paging walks back through the whole history without gaps or repeats',
+      run: async () => {
+        const seen: string[] = [];
+        let hasMore = true;
+        for (let page = 1; hasMore; page++) {
+          const result = await messages.getMessages(conversationId, { page, limit: PAGE_SIZE });
+          assert(result.messages.length > 0, `page ${page} is empty but the previous one had more`);
+          seen.push(...result.messages.map(m => m.id));
+          hasMore = result.hasMore;
+        }
+        assertEqual(seen, newestFirst, 'history');
+      }
+    },
+    {
+      name: 'messages after a cursor come oldest first',
+      run: async () => {
+        const page = await messages.getMessages(conversationId, { page: 1, limit: PAGE_SIZE });
+        const newer: any = await apiClient.get(
+          `/messages/conversation/${conversationId}?after=${page.oldestMessageId}&limit=${MESSAGE_COUNT}`
+        );
+        const ids = (responseBody(newer).messages as any[]).map(m => m.id);
+        assertEqual(ids, sent.slice(MESSAGE_COUNT - PAGE_SIZE + 1), 'messages after the cursor');
+      }
+    }
+  ];
+
+  const failures = await runChecks('Mock server protocol', checks);
+  await server.stop();
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  process.stderr.write(`Harness crashed: ${error?.stack || error}\n`);
+  process.exit(1);
+});
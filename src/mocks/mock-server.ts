@@ -0,0 +1,1709 @@
+// mocks/mock-server.ts - Local chat backend speaking the real REST + socket protocol
+import { createHash } from 'crypto';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { pathToFileURL } from 'url';
+
+import { Server as SocketServer, Socket } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+
+import { AppConfig } from '../config/AppConfig';
+
+/**
+ * Mock server configuration
+ */
+export interface MockServerConfig {
+  port?: number;
+  host?: string;
+  socketPath?: string;     // Defaults to AppConfig.socket.path
+  chatPrefix?: string;     // Defaults to the path of AppConfig.urls.chat
+  authPrefix?: string;     // Defaults to the path of AppConfig.urls.api
+  tokenTtl?: number;       // Access token lifetime in seconds
+  seedUsers?: MockUser[];
+  enableLogging?: boolean;
+}
+
+export interface MockUser {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  role: 'usta' | 'customer' | 'admin';
+  avatar?: string;
+}
+
+interface MockParticipant {
+  userId: string;
+  role: string;
+  name: string;
+  avatar: string;
+  joinedAt: string;
+  isActive: boolean;
+  nickname?: string;
+  leftAt?: string;
+}
+
+interface MockConversation {
+  id: string;
+  type: 'job_chat' | 'direct_message' | 'group_chat';
+  jobId?: string;
+  jobTitle?: string;
+  status: 'active' | 'closed' | 'archived';
+  createdBy: string;
+  adminIds: string[];
+  participants: MockParticipant[];
+  settings: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface MockMessage {
+  id: string;
+  clientTempId?: string;
+  conversationId: string;
+  jobId?: string;
+  senderId: string;
+  receiverId?: string;
+  type: string;
+  status: 'sent' | 'delivered' | 'read';
+  content: {
+    text: string;
+    images: string[];
+    audio: string;
+    attachments: any[];
+    replyTo?: string;
+    edited?: boolean;
+    editedAt?: string;
+  };
+  mentions: string[];
+  reactions: Array<{ emoji: string; userId: string; timestamp: string }>;
+  replyCount: number;
+  lastReplyAt?: string;
+  expiresAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt?: string;
+  readAt?: string;
+}
+
+interface MockUpload {
+  id: string;
+  name: string;
+  mimeType: string;
+  data: Buffer;
+  uploadedAt: string;
+}
+
+interface MockUploadSession {
+  id: string;
+  userId: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  chunkSize: number;
+  chunks: Buffer[];
+  offset: number;
+  createdAt: string;
+}
+
+interface RouteContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  params: string[];
+  query: URLSearchParams;
+  userId: string;
+}
+
+type RouteHandler = (ctx: RouteContext) => Promise<void> | void;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+const DEFAULT_PORT = 4000;
+const DEFAULT_TOKEN_TTL = 24 * 60 * 60; // 24 hours
+const MAX_BODY_SIZE = 25 * 1024 * 1024;
+
+const SEED_USERS: MockUser[] = [
+  {
+    id: '091e4c17-47ab-4150-8b45-ea36dd2c2de9',
+    name: 'Babar Khan',
+    email: 'babarkh0302@gmail.com',
+    phone: '923046998634',
+    role: 'usta'
+  },
+  {
+    id: '6e8ae482-0196-43ec-8b74-fc01c2d6ff00',
+    name: 'Test Customer',
+    email: 'customer@myusta.al',
+    phone: '355690000000',
+    role: 'customer'
+  }
+];
+
+/**
+ * In-memory chat backend for local development.
+ *
+ * Serves the chat REST API under the chat prefix, /auth/login and /auth/refresh
+ * under the auth prefix, and the socket.io protocol on the configured socket path,
+ * so two clients pointed at SERVER_URL=http://localhost:<port> can chat end to end.
+ */
+export class MockChatServer {
+  private readonly config: Required<Omit<MockServerConfig, 'seedUsers'>>;
+  private httpServer: http.Server | null = null;
+  private io: SocketServer | null = null;
+  private routes: Route[] = [];
+
+  private users: Map<string, MockUser> = new Map();
+  private conversations: Map<string, MockConversation> = new Map();
+  private messages: Map<string, MockMessage[]> = new Map(); // conversationId -> oldest first
+  private uploads: Map<string, MockUpload> = new Map();
+  private uploadSessions: Map<string, MockUploadSession> = new Map();
+  private refreshTokens: Map<string, string> = new Map(); // refreshToken -> userId
+  private lastSeen: Map<string, string> = new Map();
+
+  constructor(config: MockServerConfig = {}) {
+    this.config = {
+      port: config.port ?? DEFAULT_PORT,
+      host: config.host ?? '0.0.0.0',
+      socketPath: config.socketPath ?? AppConfig.socket.path,
+      chatPrefix: config.chatPrefix ?? this.pathOf(AppConfig.urls.chat),
+      authPrefix: config.authPrefix ?? this.pathOf(AppConfig.urls.api),
+      tokenTtl: config.tokenTtl ?? DEFAULT_TOKEN_TTL,
+      enableLogging: config.enableLogging ?? true
+    };
+
+    (config.seedUsers || SEED_USERS).forEach(user => this.users.set(user.id, { ...user }));
+    this.registerRoutes();
+  }
+
+  // ==========================================
+  // LIFECYCLE
+  // ==========================================
+
+  async start(): Promise<void> {
+    if (this.httpServer) {
+      return;
+    }
+
+    this.httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        this.log('❌ Unhandled request error:', error);
+        this.sendJson(res, 500, { success: false, code: 500, message: 'Internal server error' });
+      });
+    });
+
+    this.io = new SocketServer(this.httpServer, {
+      path: this.config.socketPath,
+      cors: { origin: true, credentials: true }
+    });
+    this.setupSocketHandlers(this.io);
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.config.port, this.config.host, () => {
+        this.httpServer!.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.log(`🚀 Mock chat server listening on ${this.getUrl()}`);
+    this.log(`   → REST:   ${this.config.chatPrefix}`);
+    this.log(`   → Auth:   ${this.config.authPrefix}auth/login`);
+    this.log(`   → Socket: ${this.config.socketPath}`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.io) {
+      this.io.disconnectSockets(true);
+      await new Promise<void>(resolve => this.io!.close(() => resolve()));
+      this.io = null;
+    }
+
+    if (this.httpServer) {
+      await new Promise<void>(resolve => {
+        this.httpServer!.close(() => resolve());
+        this.httpServer!.closeAllConnections();
+      });
+      this.httpServer = null;
+    }
+
+    this.log('🛑 Mock chat server stopped');
+  }
+
+  getUrl(): string {
+    const address = this.httpServer?.address();
+    const port = address && typeof address === 'object' ? address.port : this.config.port;
+    return `http://localhost:${port}`;
+  }
+
+  getUsers(): MockUser[] {
+    return Array.from(this.users.values());
+  }
+
+  /**
+   * Issue an access token for a known user (handy for CLI clients)
+   */
+  issueToken(userId: string): string {
+    const user = this.users.get(userId);
+    if (!user) {
+      throw new Error(`Unknown user: ${userId}`);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    return this.encodeToken({
+      id: user.id,
+      role: user.role,
+      name: user.name,
+      email: user.email,
+      phone: user.phone,
+      iat: now,
+      exp: now + this.config.tokenTtl
+    });
+  }
+
+  /**
+   * Drop all conversations, messages and uploads (users are kept)
+   */
+  reset(): void {
+    this.conversations.clear();
+    this.messages.clear();
+    this.uploads.clear();
+    this.uploadSessions.clear();
+    this.refreshTokens.clear();
+  }
+
+  // ==========================================
+  // REST ROUTES
+  // ==========================================
+
+  private registerRoutes(): void {
+    const chat = this.escape(this.config.chatPrefix);
+
+    this.route('GET', `^${chat}conversations/?$`, ctx => this.listConversations(ctx));
+    this.route('POST', `^${chat}conversations/?$`, ctx => this.createConversation(ctx));
+    this.route('GET', `^${chat}conversations/job/([^/]+)/participant/([^/]+)$`, ctx => this.findJobConversation(ctx));
+    this.route('GET', `^${chat}conversations/can-initiate/([^/]+)/([^/]+)$`, ctx =>
+      this.sendJson(ctx.res, 200, { success: true, canInitiate: true })
+    );
+    this.route('GET', `^${chat}conversations/([^/]+)$`, ctx => this.getConversation(ctx));
+    this.route('PATCH', `^${chat}conversations/([^/]+)/settings$`, ctx => this.updateConversation(ctx, 'settings'));
+    this.route('PATCH', `^${chat}conversations/([^/]+)/status$`, ctx => this.updateConversation(ctx, 'status'));
+    this.route('DELETE', `^${chat}conversations/([^/]+)$`, ctx => this.deleteConversation(ctx));
+    this.route('POST', `^${chat}conversations/([^/]+)/participants$`, ctx => this.addParticipants(ctx));
+    this.route('DELETE', `^${chat}conversations/([^/]+)/participants/([^/]+)$`, ctx => this.removeParticipant(ctx));
+    this.route('PATCH', `^${chat}conversations/([^/]+)/participants/([^/]+)$`, ctx => this.updateParticipant(ctx));
+    this.route('POST', `^${chat}conversations/([^/]+)/leave$`, ctx => this.leaveConversation(ctx));
+    this.route('POST', `^${chat}conversations/([^/]+)/admins$`, ctx => this.promoteToAdmin(ctx));
+
+    this.route('GET', `^${chat}messages/conversation/([^/]+)$`, ctx => this.listMessages(ctx));
+    this.route('POST', `^${chat}messages/?$`, ctx => this.createMessage(ctx));
+    this.route('POST', `^${chat}messages/read$`, ctx => this.markRead(ctx));
+    this.route('GET', `^${chat}messages/([^/]+)$`, ctx => this.getMessage(ctx));
+    this.route('GET', `^${chat}messages/([^/]+)/thread$`, ctx => this.getThread(ctx));
+    this.route('PUT', `^${chat}messages/([^/]+)$`, ctx => this.editMessage(ctx));
+    this.route('PATCH', `^${chat}messages/([^/]+)$`, ctx => this.editMessage(ctx));
+    this.route('DELETE', `^${chat}messages/([^/]+)$`, ctx => this.deleteMessage(ctx));
+    this.route('POST', `^${chat}messages/([^/]+)/reactions$`, ctx => this.addReaction(ctx));
+    this.route('DELETE', `^${chat}messages/([^/]+)/reactions/([^/]+)$`, ctx => this.removeReaction(ctx));
+
+    // Resumable sessions first: the single-shot route would match upload/sessions too
+    this.route('POST', `^${chat}upload/sessions/?$`, ctx => this.createUploadSession(ctx));
+    this.route('GET', `^${chat}upload/sessions/([^/]+)$`, ctx => this.getUploadSession(ctx));
+    this.route('PUT', `^${chat}upload/sessions/([^/]+)$`, ctx => this.appendUploadChunk(ctx));
+    this.route('POST', `^${chat}upload/sessions/([^/]+)/complete$`, ctx => this.completeUploadSession(ctx));
+    this.route('DELETE', `^${chat}upload/sessions/([^/]+)$`, ctx => this.deleteUploadSession(ctx));
+    this.route('POST', `^${chat}upload(?:/[a-z]+)?/?$`, ctx => this.upload(ctx));
+    this.route('GET', `^${chat}users/([^/]+)$`, ctx => this.getUser(ctx));
+  }
+
+  private route(method: string, pattern: string, handler: RouteHandler): void {
+    this.routes.push({ method, pattern: new RegExp(pattern), handler });
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    this.setCorsHeaders(req, res);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    const pathname = url.pathname;
+
+    if (this.config.enableLogging) {
+      this.log(`➡️  ${req.method} ${pathname}`);
+    }
+
+    // Unauthenticated routes
+    if (req.method === 'POST' && pathname === `${this.config.authPrefix}auth/login`) {
+      return this.login(req, res);
+    }
+    if (req.method === 'POST' && pathname === `${this.config.authPrefix}auth/refresh`) {
+      return this.refresh(req, res);
+    }
+    if (req.method === 'GET' && pathname.startsWith('/uploads/')) {
+      return this.serveUpload(res, decodeURIComponent(pathname.slice('/uploads/'.length)));
+    }
+
+    for (const route of this.routes) {
+      if (route.method !== req.method) continue;
+
+      const match = route.pattern.exec(pathname);
+      if (!match) continue;
+
+      const userId = this.authenticate(req.headers.authorization);
+      if (!userId) {
+        this.sendJson(res, 401, { success: false, code: 401, message: 'Unauthorized' });
+        return;
+      }
+
+      await route.handler({
+        req,
+        res,
+        params: match.slice(1).map(decodeURIComponent),
+        query: url.searchParams,
+        userId
+      });
+      return;
+    }
+
+    this.sendJson(res, 404, { success: false, code: 404, message: `Route not found: ${req.method} ${pathname}` });
+  }
+
+  // ---------- Auth ----------
+
+  private async login(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = await this.readJson(req);
+    const { emailOrPhone, password, role } = body;
+
+    if (!emailOrPhone || !password) {
+      this.sendJson(res, 400, { success: false, code: 400, message: 'Email/phone and password are required' });
+      return;
+    }
+
+    let user = this.getUsers().find(u => u.email === emailOrPhone || u.phone === emailOrPhone);
+    if (!user) {
+      // Any credentials are accepted; unknown users are registered on first login
+      user = {
+        id: uuidv4(),
+        name: String(emailOrPhone).split('@')[0],
+        email: String(emailOrPhone).includes('@') ? emailOrPhone : '',
+        phone: String(emailOrPhone).includes('@') ? '' : emailOrPhone,
+        role: role === 'customer' ? 'customer' : 'usta'
+      };
+      this.users.set(user.id, user);
+      this.log(`👤 Registered new user ${user.name} (${user.id})`);
+    }
+
+    const [firstName, ...rest] = user.name.split(' ');
+    const refreshToken = uuidv4();
+    this.refreshTokens.set(refreshToken, user.id);
+
+    this.sendJson(res, 200, {
+      success: true,
+      code: 200,
+      message: 'Login successful',
+      result: {
+        userId: user.id,
+        token: this.issueToken(user.id),
+        refreshToken,
+        firstName,
+        lastName: rest.join(' '),
+        email: user.email,
+        role: user.role
+      }
+    });
+  }
+
+  private async refresh(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const { refreshToken } = await this.readJson(req);
+    const userId = refreshToken ? this.refreshTokens.get(refreshToken) : undefined;
+
+    if (!userId) {
+      this.sendJson(res, 401, { success: false, code: 401, message: 'Invalid refresh token' });
+      return;
+    }
+
+    // Rotate the refresh token on every use
+    this.refreshTokens.delete(refreshToken);
+    const nextRefreshToken = uuidv4();
+    this.refreshTokens.set(nextRefreshToken, userId);
+
+    this.sendJson(res, 200, {
+      success: true,
+      code: 200,
+      data: {
+        token: this.issueToken(userId),
+        refreshToken: nextRefreshToken
+      }
+    });
+  }
+
+  // ---------- Conversations ----------
+
+  private listConversations({ res, query, userId }: RouteContext): void {
+    const limit = parseInt(query.get('limit') || '50', 10);
+    const offset = parseInt(query.get('offset') || '0', 10);
+    const type = query.get('type');
+    const status = query.get('status');
+
+    const all = Array.from(this.conversations.values())
+      .filter(c => this.isParticipant(c, userId))
+      .filter(c => !type || c.type === type)
+      .filter(c => !status || c.status === status)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+    this.sendJson(res, 200, {
+      success: true,
+      conversations: all.slice(offset, offset + limit).map(c => this.serializeConversation(c, userId)),
+      hasMore: offset + limit < all.length,
+      total: all.length
+    });
+  }
+
+  private async createConversation({ req, res, userId }: RouteContext): Promise<void> {
+    const body = await this.readJson(req);
+    const participantIds: string[] = Array.from(new Set([userId, ...(body.participantIds || [])]));
+
+    if (participantIds.length < 2) {
+      this.sendJson(res, 400, { success: false, code: 400, message: 'At least two participants are required' });
+      return;
+    }
+
+    const existing = body.jobId ? this.findByJob(body.jobId, participantIds) : undefined;
+    const conversation = existing || this.openConversation(userId, participantIds, body);
+
+    this.sendJson(res, existing ? 200 : 201, {
+      success: true,
+      existing: !!existing,
+      conversation: this.serializeConversation(conversation, userId)
+    });
+  }
+
+  private findJobConversation({ res, params, userId }: RouteContext): void {
+    const [jobId, otherUserId] = params;
+    const conversation = this.findByJob(jobId, [userId, otherUserId]);
+
+    if (!conversation) {
+      this.sendJson(res, 404, { success: false, code: 404, message: 'Conversation not found' });
+      return;
+    }
+
+    this.sendJson(res, 200, { success: true, conversation: this.serializeConversation(conversation, userId) });
+  }
+
+  private getConversation({ res, params, userId }: RouteContext): void {
+    const conversation = this.getAccessibleConversation(res, params[0], userId);
+    if (!conversation) return;
+
+    this.sendJson(res, 200, { success: true, conversation: this.serializeConversation(conversation, userId) });
+  }
+
+  private async updateConversation(
+    { req, res, params, userId }: RouteContext,
+    field: 'settings' | 'status'
+  ): Promise<void> {
+    const conversation = this.getAccessibleConversation(res, params[0], userId);
+    if (!conversation) return;
+
+    const body = await this.readJson(req);
+    if (field === 'settings') {
+      conversation.settings = { ...conversation.settings, ...body };
+    } else {
+      conversation.status = body.status || conversation.status;
+    }
+    conversation.updatedAt = new Date().toISOString();
+
+    this.sendJson(res, 200, { success: true, conversation: this.serializeConversation(conversation, userId) });
+  }
+
+  private deleteConversation({ res, params, userId }: RouteContext): void {
+    const conversation = this.getAccessibleConversation(res, params[0], userId);
+    if (!conversation) return;
+
+    this.conversations.delete(conversation.id);
+    this.messages.delete(conversation.id);
+    this.sendJson(res, 200, { success: true });
+  }
+
+  // ---------- Group membership ----------
+
+  private async addParticipants({ req, res, params, userId }: RouteContext): Promise<void> {
+    const conversation = this.getManageableGroup(res, params[0], userId, true);
+    if (!conversation) return;
+
+    const body = await this.readJson(req);
+    const userIds: string[] = Array.from(new Set<string>(body.userIds || []))
+      .filter(id => !this.isParticipant(conversation, id));
+
+    if (userIds.length === 0) {
+      this.sendJson(res, 200, { success: true, conversation: this.serializeConversation(conversation, userId) });
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const added = userIds.map(id => {
+      const participant = this.createParticipant(id, now);
+      const index = conversation.participants.findIndex(p => p.userId === id);
+      if (index === -1) {
+        conversation.participants.push(participant);
+      } else {
+        conversation.participants[index] = participant; // Rejoining after leaving
+      }
+      return participant;
+    });
+    conversation.updatedAt = now;
+
+    this.emitToParticipants(conversation.id, 'participants_added', {
+      conversationId: conversation.id,
+      participants: added.map(p => ({ ...p, isOnline: this.isOnline(p.userId) })),
+      addedBy: userId,
+      timestamp: now
+    });
+
+    this.log(`👥 ${this.nameOf(userId)} added ${userIds.map(id => this.nameOf(id)).join(', ')} to ${conversation.id}`);
+    this.sendJson(res, 200, { success: true, conversation: this.serializeConversation(conversation, userId) });
+  }
+
+  private removeParticipant({ res, params, userId }: RouteContext): void {
+    const conversation = this.getManageableGroup(res, params[0], userId, true);
+    if (!conversation) return;
+
+    const targetId = params[1];
+    if (!this.isParticipant(conversation, targetId)) {
+      this.sendJson(res, 404, { success: false, code: 404, message: 'Participant not found' });
+      return;
+    }
+
+    this.deactivateParticipant(conversation, targetId, userId);
+    this.sendJson(res, 200, { success: true, conversation: this.serializeConversation(conversation, userId) });
+  }
+
+  private leaveConversation({ res, params, userId }: RouteContext): void {
+    const conversation = this.getManageableGroup(res, params[0], userId, false);
+    if (!conversation) return;
+
+    this.deactivateParticipant(conversation, userId, userId);
+    this.sendJson(res, 200, { success: true });
+  }
+
+  private async promoteToAdmin({ req, res, params, userId }: RouteContext): Promise<void> {
+    const conversation = this.getManageableGroup(res, params[0], userId, true);
+    if (!conversation) return;
+
+    const body = await this.readJson(req);
+    const participant = conversation.participants.find(p => p.userId === body.userId && p.isActive);
+    if (!participant) {
+      this.sendJson(res, 404, { success: false, code: 404, message: 'Participant not found' });
+      return;
+    }
+
+    if (!conversation.adminIds.includes(participant.userId)) {
+      conversation.adminIds.push(participant.userId);
+      conversation.updatedAt = new Date().toISOString();
+      this.emitParticipantUpdated(conversation, participant, userId);
+    }
+
+    this.sendJson(res, 200, { success: true, conversation: this.serializeConversation(conversation, userId) });
+  }
+
+  private async updateParticipant({ req, res, params, userId }: RouteContext): Promise<void> {
+    const targetId = params[1];
+    // Anyone may rename themselves; renaming others needs admin rights
+    const conversation = this.getManageableGroup(res, params[0], userId, targetId !== userId);
+    if (!conversation) return;
+
+    const participant = conversation.participants.find(p => p.userId === targetId && p.isActive);
+    if (!participant) {
+      this.sendJson(res, 404, { success: false, code: 404, message: 'Participant not found' });
+      return;
+    }
+
+    const body = await this.readJson(req);
+    participant.nickname = body.nickname || undefined;
+    conversation.updatedAt = new Date().toISOString();
+    this.emitParticipantUpdated(conversation, participant, userId);
+
+    this.sendJson(res, 200, { success: true, conversation: this.serializeConversation(conversation, userId) });
+  }
+
+  // ---------- Messages ----------
+
+  private listMessages({ res, params, query, userId }: RouteContext): void {
+    const conversation = this.getAccessibleConversation(res, params[0], userId);
+    if (!conversation) return;
+
+    const limit = parseInt(query.get('limit') || '50', 10);
+    const offset = parseInt(query.get('offset') || '0', 10);
+    const all = this.messages.get(conversation.id) || [];
+
+    // ?after=<message id | ISO timestamp> pages forward from a sync cursor
+    const after = query.get('after');
+    if (after) {
+      const start = this.positionAfter(all, after);
+      if (start === null) {
+        this.sendJson(res, 400, { success: false, code: 400, message: `Invalid cursor: ${after}` });
+        return;
+      }
+
+      this.sendJson(res, 200, {
+        success: true,
+        messages: all.slice(start, start + limit),
+        hasMore: start + limit < all.length,
+        total: all.length
+      });
+      return;
+    }
+
+    // offset counts back from the newest message; each page is returned newest
+    // first, as MessageLoadResult promises (its last message is the page's oldest)
+    const end = Math.max(all.length - offset, 0);
+    const start = Math.max(end - limit, 0);
+
+    this.sendJson(res, 200, {
+      success: true,
+      messages: all.slice(start, end).reverse(),
+      hasMore: start > 0,
+      total: all.length
+    });
+  }
+
+  private positionAfter(messages: MockMessage[], cursor: string): number | null {
+    const byId = messages.findIndex(message => message.id === cursor);
+    if (byId !== -1) return byId + 1;
+
+    const time = Date.parse(cursor);
+    if (isNaN(time)) return null;
+
+    const position = messages.findIndex(message => Date.parse(message.createdAt) > time);
+    return position === -1 ? messages.length : position;
+  }
+
+  private async createMessage({ req, res, userId }: RouteContext): Promise<void> {
+    const body = await this.readJson(req);
+    const result = this.acceptMessage(userId, {
+      clientTempId: body.clientTempId,
+      conversationId: body.conversationId,
+      receiverId: body.receiverId,
+      textMsg: typeof body.content === 'string' ? body.content : body.content?.text,
+      attachments: body.attachments,
+      replyToMessageId: body.replyTo,
+      messageType: body.type,
+      mentions: body.mentions,
+      expiresAt: body.expiresAt
+    });
+
+    if ('error' in result) {
+      this.sendJson(res, result.status, { success: false, code: result.status, message: result.error });
+      return;
+    }
+
+    this.sendJson(res, 201, { success: true, message: result.message });
+  }
+
+  private async markRead({ req, res, userId }: RouteContext): Promise<void> {
+    const { conversationId, messageIds } = await this.readJson(req);
+    const conversation = this.getAccessibleConversation(res, conversationId, userId);
+    if (!conversation) return;
+
+    const updated = this.applyRead(conversation, userId, messageIds);
+    this.sendJson(res, 200, { success: true, updated: updated.length });
+  }
+
+  private getMessage({ res, params, userId }: RouteContext): void {
+    const message = this.findMessage(params[0]);
+    const conversation = message && this.conversations.get(message.conversationId);
+
+    if (!message || !conversation || !this.isParticipant(conversation, userId)) {
+      this.sendJson(res, 404, { success: false, code: 404, message: 'Message not found' });
+      return;
+    }
+
+    this.sendJson(res, 200, { success: true, message });
+  }
+
+  private getThread({ res, params, userId }: RouteContext): void {
+    const message = this.findMessage(params[0]);
+    const conversation = message && this.conversations.get(message.conversationId);
+
+    if (!message || !conversation || !this.isParticipant(conversation, userId)) {
+      this.sendJson(res, 404, { success: false, code: 404, message: 'Message not found' });
+      return;
+    }
+
+    const list = this.messages.get(conversation.id) || [];
+    const root = this.threadRootOf(list, message);
+    const replies = this.repliesOf(list, root);
+
+    this.sendJson(res, 200, {
+      success: true,
+      rootMessage: root,
+      replies,
+      replyCount: replies.length,
+      lastReplyAt: replies[replies.length - 1]?.createdAt
+    });
+  }
+
+  private async editMessage({ req, res, params, userId }: RouteContext): Promise<void> {
+    const message = this.findMessage(params[0]);
+
+    if (!message || message.senderId !== userId) {
+      this.sendJson(res, 404, { success: false, code: 404, message: 'Message not found' });
+      return;
+    }
+
+    const { content } = await this.readJson(req);
+    const now = new Date().toISOString();
+    message.content = { ...message.content, text: String(content ?? ''), edited: true, editedAt: now };
+    message.updatedAt = now;
+
+    this.emitToParticipants(message.conversationId, 'message_updated', message, userId);
+    this.sendJson(res, 200, { success: true, message });
+  }
+
+  private deleteMessage({ res, params, userId }: RouteContext): void {
+    const message = this.findMessage(params[0]);
+
+    if (!message || message.senderId !== userId) {
+      this.sendJson(res, 404, { success: false, code: 404, message: 'Message not found' });
+      return;
+    }
+
+    const list = this.messages.get(message.conversationId) || [];
+    this.messages.set(message.conversationId, list.filter(m => m.id !== message.id));
+
+    if (message.content.replyTo) {
+      this.refreshThread(message.conversationId, message.content.replyTo);
+    }
+
+    this.emitToParticipants(
+      message.conversationId,
+      'message_deleted',
+      { messageId: message.id, conversationId: message.conversationId },
+      userId
+    );
+    this.sendJson(res, 200, { success: true });
+  }
+
+  private async addReaction({ req, res, params, userId }: RouteContext): Promise<void> {
+    const { emoji } = await this.readJson(req);
+    const result = this.applyReaction(userId, { messageId: params[0], emoji, action: 'added' });
+
+    if ('error' in result) {
+      this.sendJson(res, result.status, { success: false, code: result.status, message: result.error });
+      return;
+    }
+
+    this.sendJson(res, 200, { success: true, reactions: result.message.reactions });
+  }
+
+  private removeReaction({ res, params, userId }: RouteContext): void {
+    const result = this.applyReaction(userId, { messageId: params[0], emoji: params[1], action: 'removed' });
+
+    if ('error' in result) {
+      this.sendJson(res, result.status, { success: false, code: result.status, message: result.error });
+      return;
+    }
+
+    this.sendJson(res, 200, { success: true, reactions: result.message.reactions });
+  }
+
+  // ---------- Files & users ----------
+
+  private async upload({ req, res }: RouteContext): Promise<void> {
+    const contentType = req.headers['content-type'] || '';
+    const boundary = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+
+    if (!boundary) {
+      this.sendJson(res, 400, { success: false, code: 400, message: 'Expected multipart/form-data' });
+      return;
+    }
+
+    const body = await this.readBody(req);
+    const parts = this.parseMultipart(body, boundary[1] || boundary[2]);
+    const filePart = parts.find(p => p.filename !== undefined);
+
+    if (!filePart) {
+      this.sendJson(res, 400, { success: false, code: 400, message: 'No file provided' });
+      return;
+    }
+
+    const upload = this.storeUpload(
+      filePart.filename || 'file',
+      filePart.contentType || 'application/octet-stream',
+      filePart.data
+    );
+    this.sendJson(res, 201, { success: true, file: this.uploadJson(upload) });
+  }
+
+  private async createUploadSession({ req, res, userId }: RouteContext): Promise<void> {
+    const body = await this.readJson(req);
+    const size = Number(body.size);
+
+    if (!body.name || !Number.isInteger(size) || size <= 0) {
+      this.sendJson(res, 400, { success: false, code: 400, message: 'name and a positive size are required' });
+      return;
+    }
+
+    const session: MockUploadSession = {
+      id: uuidv4(),
+      userId,
+      name: body.name,
+      mimeType: body.mimeType || 'application/octet-stream',
+      size,
+      chunkSize: Number(body.chunkSize) || 1024 * 1024,
+      chunks: [],
+      offset: 0,
+      createdAt: new Date().toISOString()
+    };
+    this.uploadSessions.set(session.id, session);
+
+    this.sendJson(res, 201, { success: true, session: this.uploadSessionJson(session) });
+  }
+
+  private getUploadSession({ res, params, userId }: RouteContext): void {
+    const session = this.findUploadSession(res, params[0], userId);
+    if (!session) return;
+
+    this.sendJson(res, 200, { success: true, session: this.uploadSessionJson(session) });
+  }
+
+  private async appendUploadChunk({ req, res, params, userId }: RouteContext): Promise<void> {
+    const session = this.findUploadSession(res, params[0], userId);
+    if (!session) return;
+
+    const data = await this.readBody(req);
+    const offset = Number(req.headers['upload-offset']);
+
+    if (offset !== session.offset) {
+      this.sendJson(res, 409, { success: false, code: 409, message: 'Offset mismatch', offset: session.offset });
+      return;
+    }
+    if (session.offset + data.length > session.size) {
+      this.sendJson(res, 400, { success: false, code: 400, message: 'Chunk runs past the declared size' });
+      return;
+    }
+
+    const [algorithm, expected] = String(req.headers['upload-checksum'] || '').split(' ');
+    if (algorithm !== 'sha256' || createHash('sha256').update(data).digest('hex') !== expected) {
+      this.sendJson(res, 422, { success: false, code: 422, message: 'Chunk checksum mismatch', offset: session.offset });
+      return;
+    }
+
+    session.chunks.push(data);
+    session.offset += data.length;
+    this.sendJson(res, 200, { success: true, offset: session.offset });
+  }
+
+  private completeUploadSession({ res, params, userId }: RouteContext): void {
+    const session = this.findUploadSession(res, params[0], userId);
+    if (!session) return;
+
+    if (session.offset !== session.size) {
+      this.sendJson(res, 409, { success: false, code: 409, message: 'Upload is incomplete', offset: session.offset });
+      return;
+    }
+
+    this.uploadSessions.delete(session.id);
+    const upload = this.storeUpload(session.name, session.mimeType, Buffer.concat(session.chunks));
+    this.sendJson(res, 201, { success: true, file: this.uploadJson(upload) });
+  }
+
+  private deleteUploadSession({ res, params, userId }: RouteContext): void {
+    const session = this.findUploadSession(res, params[0], userId);
+    if (!session) return;
+
+    this.uploadSessions.delete(session.id);
+    this.sendJson(res, 200, { success: true });
+  }
+
+  private findUploadSession(res: ServerResponse, id: string, userId: string): MockUploadSession | null {
+    const session = this.uploadSessions.get(id);
+    if (!session || session.userId !== userId) {
+      this.sendJson(res, 404, { success: false, code: 404, message: 'Upload session not found' });
+      return null;
+    }
+    return session;
+  }
+
+  private uploadSessionJson(session: MockUploadSession) {
+    return {
+      id: session.id,
+      name: session.name,
+      size: session.size,
+      chunkSize: session.chunkSize,
+      offset: session.offset,
+      createdAt: session.createdAt
+    };
+  }
+
+  private storeUpload(name: string, mimeType: string, data: Buffer): MockUpload {
+    const upload: MockUpload = {
+      id: uuidv4(),
+      name,
+      mimeType,
+      data,
+      uploadedAt: new Date().toISOString()
+    };
+    this.uploads.set(upload.id, upload);
+    return upload;
+  }
+
+  private uploadJson(upload: MockUpload) {
+    return {
+      id: upload.id,
+      url: `${this.getUrl()}/uploads/${upload.id}`,
+      name: upload.name,
+      filename: upload.name,
+      size: upload.data.length,
+      mimeType: upload.mimeType,
+      uploadedAt: upload.uploadedAt
+    };
+  }
+
+  private serveUpload(res: ServerResponse, id: string): void {
+    const upload = this.uploads.get(id);
+
+    if (!upload) {
+      this.sendJson(res, 404, { success: false, code: 404, message: 'File not found' });
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': upload.mimeType,
+      'Content-Length': upload.data.length,
+      'Content-Disposition': `inline; filename="${upload.name}"`
+    });
+    res.end(upload.data);
+  }
+
+  private getUser({ res, params }: RouteContext): void {
+    const user = this.users.get(params[0]);
+
+    if (!user) {
+      this.sendJson(res, 404, { success: false, code: 404, message: 'User not found' });
+      return;
+    }
+
+    this.sendJson(res, 200, { success: true, user: this.serializeUser(user) });
+  }
+
+  // ==========================================
+  // SOCKET PROTOCOL
+  // ==========================================
+
+  private setupSocketHandlers(io: SocketServer): void {
+    io.use((socket, next) => {
+      const auth = socket.handshake.auth as { token?: string; userId?: string };
+      const userId = this.authenticate(auth?.token ? `Bearer ${auth.token}` : undefined);
+
+      if (!userId || (auth.userId && auth.userId !== userId)) {
+        next(new Error('Authentication failed'));
+        return;
+      }
+
+      socket.data.userId = userId;
+      next();
+    });
+
+    io.on('connection', socket => this.handleConnection(io, socket));
+  }
+
+  private handleConnection(io: SocketServer, socket: Socket): void {
+    const userId: string = socket.data.userId;
+    const room = this.userRoom(userId);
+    const cameOnline = !this.isOnline(userId);
+
+    socket.join(room);
+    this.log(`🔌 ${this.nameOf(userId)} connected (${socket.id})`);
+
+    if (cameOnline) {
+      socket.broadcast.emit('user_online', this.serializeOnlineUser(userId));
+    }
+
+    socket.emit('initial_data', {
+      userId,
+      onlineUsers: this.getOnlineUsers(userId),
+      conversations: Array.from(this.conversations.values())
+        .filter(c => this.isParticipant(c, userId))
+        .map(c => this.serializeConversation(c, userId)),
+      timestamp: new Date().toISOString()
+    });
+
+    socket.on('send_message', (payload: any, ack?: (response: any) => void) => {
+      const result = this.acceptMessage(userId, payload || {});
+
+      if ('error' in result) {
+        const error = { clientTempId: payload?.clientTempId, error: result.error, code: result.status };
+        socket.emit('message_send_error', error);
+        ack?.({ success: false, ...error });
+        return;
+      }
+
+      const { message } = result;
+      ack?.({ success: true, messageId: message.id, clientTempId: message.clientTempId, conversationId: message.conversationId });
+      socket.emit('message_sent', {
+        id: message.id,
+        clientTempId: message.clientTempId,
+        conversationId: message.conversationId,
+        status: 'sent',
+        timestamp: message.createdAt
+      });
+    });
+
+    socket.on('typing', (payload: any) => {
+      const conversation = payload?.conversationId && this.conversations.get(payload.conversationId);
+      const event = {
+        conversationId: payload?.conversationId,
+        userId,
+        isTyping: Boolean(payload?.isTyping),
+        timestamp: Date.now()
+      };
+
+      if (conversation && this.isParticipant(conversation, userId)) {
+        this.emitToParticipants(conversation.id, 'user_typing', event, userId);
+      } else if (payload?.receiverId) {
+        io.to(this.userRoom(payload.receiverId)).emit('user_typing', event);
+      }
+    });
+
+    socket.on('message_reaction', (payload: any) => {
+      const result = this.applyReaction(userId, payload || {});
+      if ('error' in result) {
+        socket.emit('error', { code: 'MESSAGE_REACTION_FAILED', message: result.error });
+      }
+    });
+
+    socket.on('mark_read', (payload: any) => {
+      const conversation = payload?.conversationId && this.conversations.get(payload.conversationId);
+      if (conversation && this.isParticipant(conversation, userId)) {
+        this.applyRead(conversation, userId, payload.messageIds);
+      }
+    });
+
+    socket.on('get_all_online_users', () => {
+      const users = this.getOnlineUsers(userId);
+      socket.emit('all_online_users', { users, count: users.length, timestamp: new Date().toISOString() });
+    });
+
+    socket.on('disconnect', reason => {
+      this.log(`🔌 ${this.nameOf(userId)} disconnected (${reason})`);
+
+      if (!this.isOnline(userId)) {
+        const lastSeen = new Date().toISOString();
+        this.lastSeen.set(userId, lastSeen);
+        io.emit('user_offline', { id: userId, lastSeen });
+      }
+    });
+  }
+
+  // ==========================================
+  // SHARED MESSAGE LOGIC (REST + SOCKET)
+  // ==========================================
+
+  /**
+   * Validate and store an outgoing message, then fan it out as new_message.
+   * Resending a known clientTempId returns the stored message instead of duplicating it.
+   */
+  private acceptMessage(
+    senderId: string,
+    payload: any
+  ): { message: MockMessage } | { error: string; status: number } {
+    const text = String(payload.textMsg ?? payload.content ?? '');
+    const images: string[] = payload.messageImages || [];
+    const attachments: any[] = payload.attachments || [];
+    const audio: string = payload.audioFile || '';
+
+    if (!text.trim() && images.length === 0 && attachments.length === 0 && !audio) {
+      return { error: 'Message content is required', status: 400 };
+    }
+
+    let conversation = payload.conversationId ? this.conversations.get(payload.conversationId) : undefined;
+
+    if (!conversation && !payload.conversationId && payload.receiverId) {
+      // First message of a job chat creates the conversation, like the real backend
+      const participantIds = [senderId, payload.receiverId];
+      conversation = (payload.jobId && this.findByJob(payload.jobId, participantIds))
+        || this.openConversation(senderId, participantIds, { jobId: payload.jobId, jobTitle: payload.jobTitle });
+    }
+
+    if (!conversation || !this.isParticipant(conversation, senderId)) {
+      return { error: 'Conversation not found', status: 404 };
+    }
+
+    const list = this.messages.get(conversation.id) || [];
+
+    if (payload.clientTempId) {
+      const duplicate = list.find(m => m.clientTempId === payload.clientTempId && m.senderId === senderId);
+      if (duplicate) {
+        return { message: duplicate };
+      }
+    }
+
+    const now = new Date().toISOString();
+    const receiverId = payload.receiverId
+      || conversation.participants.find(p => p.userId !== senderId)?.userId;
+    const recipientOnline = conversation.participants
+      .some(p => p.userId !== senderId && this.isOnline(p.userId));
+    const participantIds = new Set(conversation.participants.map(p => p.userId));
+
+    const message: MockMessage = {
+      id: uuidv4(),
+      clientTempId: payload.clientTempId,
+      conversationId: conversation.id,
+      jobId: conversation.jobId,
+      senderId,
+      receiverId,
+      type: payload.messageType || 'text',
+      status: recipientOnline ? 'delivered' : 'sent',
+      content: {
+        text,
+        images,
+        audio,
+        attachments,
+        replyTo: payload.replyToMessageId
+      },
+      mentions: (Array.isArray(payload.mentions) ? payload.mentions : [])
+        .filter((id: string) => participantIds.has(id)),
+      reactions: [],
+      replyCount: 0,
+      expiresAt: payload.expiresAt && !isNaN(Date.parse(payload.expiresAt)) ? payload.expiresAt : undefined,
+      createdAt: now,
+      updatedAt: now,
+      deliveredAt: recipientOnline ? now : undefined
+    };
+
+    list.push(message);
+    this.messages.set(conversation.id, list);
+    conversation.updatedAt = now;
+
+    this.emitToParticipants(conversation.id, 'new_message', message, senderId);
+    this.emitToParticipants(conversation.id, 'conversation_updated', {
+      conversationId: conversation.id,
+      lastMessageAt: now
+    });
+
+    if (message.content.replyTo) {
+      this.refreshThread(conversation.id, message.content.replyTo, message);
+    }
+
+    this.log(`💬 ${this.nameOf(senderId)} → ${conversation.id}: ${text.substring(0, 50)}`);
+    return { message };
+  }
+
+  /**
+   * Add or remove one user's emoji on a message and fan the change out as message_reaction.
+   * Adding the same emoji twice is a no-op, like the real backend.
+   */
+  private applyReaction(
+    userId: string,
+    payload: any
+  ): { message: MockMessage } | { error: string; status: number } {
+    const emoji = String(payload.emoji ?? '').trim();
+    const message = payload.messageId ? this.findMessage(payload.messageId) : undefined;
+    const conversation = message && this.conversations.get(message.conversationId);
+
+    if (!message || !conversation || !this.isParticipant(conversation, userId)) {
+      return { error: 'Message not found', status: 404 };
+    }
+    if (!emoji) {
+      return { error: 'Emoji is required', status: 400 };
+    }
+
+    const now = new Date().toISOString();
+    const action = payload.action === 'removed' ? 'removed' : 'added';
+    const exists = message.reactions.some(r => r.userId === userId && r.emoji === emoji);
+
+    if (action === 'added' && !exists) {
+      message.reactions.push({ emoji, userId, timestamp: now });
+    } else if (action === 'removed' && exists) {
+      message.reactions = message.reactions.filter(r => !(r.userId === userId && r.emoji === emoji));
+    } else {
+      return { message };
+    }
+
+    this.emitToParticipants(
+      message.conversationId,
+      'message_reaction',
+      { messageId: message.id, conversationId: message.conversationId, userId, emoji, action, timestamp: now },
+      userId
+    );
+
+    this.log(`${action === 'added' ? '➕' : '➖'} ${this.nameOf(userId)} ${emoji} on ${message.id}`);
+    return { message };
+  }
+
+  private applyRead(conversation: MockConversation, readerId: string, messageIds?: string[]): MockMessage[] {
+    const ids = messageIds?.length ? new Set(messageIds) : null;
+    const now = new Date().toISOString();
+
+    const updated = (this.messages.get(conversation.id) || []).filter(m =>
+      m.senderId !== readerId && m.status !== 'read' && (!ids || ids.has(m.id))
+    );
+
+    updated.forEach(m => {
+      m.status = 'read';
+      m.readAt = now;
+    });
+
+    if (updated.length > 0) {
+      this.emitToParticipants(
+        conversation.id,
+        'messages_read',
+        { conversationId: conversation.id, messageIds: updated.map(m => m.id), readBy: readerId, readAt: now },
+        readerId
+      );
+    }
+
+    return updated;
+  }
+
+  /**
+   * Recount the thread a message belongs to and fan the new totals out as
+   * thread_updated - to the author of the reply as well, since the root's
+   * counters changed for everyone.
+   */
+  private refreshThread(conversationId: string, parentId: string, reply?: MockMessage): void {
+    const list = this.messages.get(conversationId) || [];
+    const parent = list.find(m => m.id === parentId);
+    if (!parent) return;
+
+    const root = this.threadRootOf(list, parent);
+    const replies = this.repliesOf(list, root);
+    root.replyCount = replies.length;
+    root.lastReplyAt = replies[replies.length - 1]?.createdAt;
+
+    this.emitToParticipants(conversationId, 'thread_updated', {
+      conversationId,
+      rootMessageId: root.id,
+      replyCount: root.replyCount,
+      lastReplyAt: root.lastReplyAt,
+      reply
+    });
+  }
+
+  private threadRootOf(list: MockMessage[], message: MockMessage): MockMessage {
+    const seen = new Set<string>();
+    let root = message;
+
+    while (root.content.replyTo && !seen.has(root.id)) {
+      seen.add(root.id);
+      const parent = list.find(m => m.id === root.content.replyTo);
+      if (!parent) break;
+      root = parent;
+    }
+
+    return root;
+  }
+
+  // Replies at any depth below the root, oldest first (the list is already in that order)
+  private repliesOf(list: MockMessage[], root: MockMessage): MockMessage[] {
+    return list.filter(m => m.id !== root.id && !!m.content.replyTo && this.threadRootOf(list, m).id === root.id);
+  }
+
+  private emitToParticipants(conversationId: string, event: string, data: any, exceptUserId?: string): void {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation || !this.io) return;
+
+    conversation.participants
+      .filter(p => p.isActive && p.userId !== exceptUserId)
+      .forEach(p => this.io!.to(this.userRoom(p.userId)).emit(event, data));
+  }
+
+  /**
+   * Mark a member as gone. The removed user is told directly since they no
+   * longer receive conversation events; a group left without admins gets
+   * its longest-standing member promoted.
+   */
+  private deactivateParticipant(conversation: MockConversation, targetId: string, removedBy: string): void {
+    const participant = conversation.participants.find(p => p.userId === targetId);
+    if (!participant) return;
+
+    const now = new Date().toISOString();
+    const event = { conversationId: conversation.id, userId: targetId, removedBy, timestamp: now };
+
+    participant.isActive = false;
+    participant.leftAt = now;
+    conversation.adminIds = conversation.adminIds.filter(id => id !== targetId);
+    conversation.updatedAt = now;
+
+    this.io?.to(this.userRoom(targetId)).emit('participant_removed', event);
+    this.emitToParticipants(conversation.id, 'participant_removed', event);
+
+    const successor = conversation.participants.find(p => p.isActive);
+    if (conversation.adminIds.length === 0 && successor) {
+      conversation.adminIds.push(successor.userId);
+      this.emitParticipantUpdated(conversation, successor, removedBy);
+    }
+
+    this.log(targetId === removedBy
+      ? `🚪 ${this.nameOf(targetId)} left ${conversation.id}`
+      : `🚪 ${this.nameOf(removedBy)} removed ${this.nameOf(targetId)} from ${conversation.id}`);
+  }
+
+  private emitParticipantUpdated(conversation: MockConversation, participant: MockParticipant, updatedBy: string): void {
+    this.emitToParticipants(conversation.id, 'participant_updated', {
+      conversationId: conversation.id,
+      participant: { ...participant, isOnline: this.isOnline(participant.userId) },
+      adminIds: conversation.adminIds,
+      updatedBy,
+      timestamp: conversation.updatedAt
+    });
+  }
+
+  // ==========================================
+  // HELPERS
+  // ==========================================
+
+  private openConversation(createdBy: string, participantIds: string[], body: any): MockConversation {
+    const now = new Date().toISOString();
+    const conversation: MockConversation = {
+      id: uuidv4(),
+      type: body.type === 'direct_message' || body.type === 'group_chat' ? body.type : 'job_chat',
+      jobId: body.jobId,
+      jobTitle: body.jobTitle,
+      status: body.status || 'active',
+      createdBy,
+      adminIds: [createdBy],
+      participants: participantIds.map(id => this.createParticipant(id, now)),
+      settings: {},
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.conversations.set(conversation.id, conversation);
+    this.messages.set(conversation.id, []);
+
+    participantIds
+      .filter(id => id !== createdBy)
+      .forEach(id => this.io?.to(this.userRoom(id)).emit('conversation_created', this.serializeConversation(conversation, id)));
+
+    this.log(`🆕 Conversation ${conversation.id} (${participantIds.map(id => this.nameOf(id)).join(', ')})`);
+    return conversation;
+  }
+
+  private createParticipant(userId: string, joinedAt: string): MockParticipant {
+    const user = this.ensureUser(userId);
+    return {
+      userId,
+      role: user.role,
+      name: user.name,
+      avatar: user.avatar || '',
+      joinedAt,
+      isActive: true
+    };
+  }
+
+  private findByJob(jobId: string, participantIds: string[]): MockConversation | undefined {
+    return Array.from(this.conversations.values()).find(c =>
+      c.jobId === jobId && participantIds.every(id => this.isParticipant(c, id))
+    );
+  }
+
+  private getAccessibleConversation(
+    res: ServerResponse,
+    conversationId: string,
+    userId: string
+  ): MockConversation | undefined {
+    const conversation = conversationId ? this.conversations.get(conversationId) : undefined;
+
+    if (!conversation || !this.isParticipant(conversation, userId)) {
+      this.sendJson(res, 404, { success: false, code: 404, message: 'Conversation not found' });
+      return undefined;
+    }
+
+    return conversation;
+  }
+
+  private findMessage(messageId: string): MockMessage | undefined {
+    for (const list of this.messages.values()) {
+      const message = list.find(m => m.id === messageId);
+      if (message) return message;
+    }
+    return undefined;
+  }
+
+  /**
+   * Like getAccessibleConversation, but only for group chats and, when
+   * `adminOnly` is set, only for the group's admins
+   */
+  private getManageableGroup(
+    res: ServerResponse,
+    conversationId: string,
+    userId: string,
+    adminOnly: boolean
+  ): MockConversation | undefined {
+    const conversation = this.getAccessibleConversation(res, conversationId, userId);
+    if (!conversation) return undefined;
+
+    if (conversation.type !== 'group_chat') {
+      this.sendJson(res, 400, { success: false, code: 400, message: 'Participants can only be managed in group chats' });
+      return undefined;
+    }
+
+    if (adminOnly && !conversation.adminIds.includes(userId)) {
+      this.sendJson(res, 403, { success: false, code: 403, message: 'Only group admins can do that' });
+      return undefined;
+    }
+
+    return conversation;
+  }
+
+  private isParticipant(conversation: MockConversation, userId: string): boolean {
+    return conversation.participants.some(p => p.userId === userId && p.isActive);
+  }
+
+  private ensureUser(userId: string, claims?: any): MockUser {
+    let user = this.users.get(userId);
+    if (!user) {
+      user = {
+        id: userId,
+        name: claims?.name || `User ${userId.substring(0, 8)}`,
+        email: claims?.email || '',
+        phone: claims?.phone || '',
+        role: claims?.role === 'customer' ? 'customer' : 'usta'
+      };
+      this.users.set(userId, user);
+    }
+    return user;
+  }
+
+  private nameOf(userId: string): string {
+    return this.users.get(userId)?.name || userId;
+  }
+
+  private userRoom(userId: string): string {
+    return `user:${userId}`;
+  }
+
+  private isOnline(userId: string): boolean {
+    return (this.io?.sockets.adapter.rooms.get(this.userRoom(userId))?.size || 0) > 0;
+  }
+
+  private getOnlineUsers(exceptUserId?: string): any[] {
+    return this.getUsers()
+      .filter(u => u.id !== exceptUserId && this.isOnline(u.id))
+      .map(u => this.serializeOnlineUser(u.id));
+  }
+
+  private serializeOnlineUser(userId: string): any {
+    const user = this.ensureUser(userId);
+    return {
+      id: user.id,
+      name: user.name,
+      avatar: user.avatar || '',
+      role: user.role,
+      email: user.email,
+      phone: user.phone,
+      isOnline: true,
+      status: 'available',
+      lastSeen: new Date().toISOString()
+    };
+  }
+
+  private serializeUser(user: MockUser): any {
+    const now = new Date().toISOString();
+    return {
+      id: user.id,
+      externalId: user.id,
+      name: user.name,
+      email: user.email,
+      phone: user.phone,
+      avatar: user.avatar || '',
+      role: user.role,
+      isOnline: this.isOnline(user.id),
+      lastSeen: this.lastSeen.get(user.id) || now,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  private serializeConversation(conversation: MockConversation, viewerId: string): any {
+    const list = this.messages.get(conversation.id) || [];
+    const lastMessage = list[list.length - 1];
+
+    return {
+      ...conversation,
+      participants: conversation.participants.map(p => ({
+        ...p,
+        isOnline: this.isOnline(p.userId),
+        lastSeen: this.lastSeen.get(p.userId)
+      })),
+      lastMessage,
+      lastMessageAt: lastMessage?.createdAt,
+      unreadCount: list.filter(m => m.senderId !== viewerId && m.status !== 'read').length
+    };
+  }
+
+  /**
+   * Resolve a bearer token to a user id. Signatures are not verified: any JWT-shaped
+   * token with an id and unexpired exp is accepted, and unknown users are registered.
+   */
+  private authenticate(authorization?: string): string | null {
+    const token = authorization?.startsWith('Bearer ') ? authorization.slice(7) : null;
+    if (!token) return null;
+
+    const claims = this.decodeToken(token);
+    const userId = claims?.id || claims?.userId || claims?.sub;
+    if (!userId) return null;
+
+    if (typeof claims.exp === 'number' && claims.exp * 1000 < Date.now()) {
+      return null;
+    }
+
+    this.ensureUser(userId, claims);
+    return userId;
+  }
+
+  private encodeToken(payload: Record<string, any>): string {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(payload)}.mock`;
+  }
+
+  private decodeToken(token: string): any | null {
+    try {
+      const [, payload] = token.split('.');
+      return payload ? JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private parseMultipart(body: Buffer, boundary: string): Array<{
+    name?: string;
+    filename?: string;
+    contentType?: string;
+    data: Buffer;
+  }> {
+    const delimiter = Buffer.from(`--${boundary}`);
+    const parts: Array<{ name?: string; filename?: string; contentType?: string; data: Buffer }> = [];
+
+    let start = body.indexOf(delimiter);
+    while (start !== -1) {
+      const next = body.indexOf(delimiter, start + delimiter.length);
+      if (next === -1) break;
+
+      const chunk = body.subarray(start + delimiter.length + 2, next - 2); // strip CRLFs
+      const headerEnd = chunk.indexOf('\r\n\r\n');
+
+      if (headerEnd !== -1) {
+        const headers = chunk.subarray(0, headerEnd).toString('utf8');
+        parts.push({
+          name: /name="([^"]*)"/i.exec(headers)?.[1],
+          filename: /filename="([^"]*)"/i.exec(headers)?.[1],
+          contentType: /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1],
+          data: chunk.subarray(headerEnd + 4)
+        });
+      }
+
+      start = next;
+    }
+
+    return parts;
+  }
+
+  private readBody(req: IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_SIZE) {
+          reject(new Error('Request body too large'));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks)));
+      req.on('error', reject);
+    });
+  }
+
+  private async readJson(req: IncomingMessage): Promise<any> {
+    const body = await this.readBody(req);
+    if (body.length === 0) return {};
+
+    try {
+      return JSON.parse(body.toString('utf8'));
+    } catch {
+      return {};
+    }
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: any): void {
+    if (res.headersSent) return;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private setCorsHeaders(req: IncomingMessage, res: ServerResponse): void {
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Platform, X-Client-Type, Upload-Offset, Upload-Checksum');
+  }
+
+  private pathOf(url: string): string {
+    try {
+      const pathname = new URL(url).pathname;
+      return pathname.endsWith('/') ? pathname : `${pathname}/`;
+    } catch {
+      return '/';
+    }
+  }
+
+  private escape(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private log(...args: any[]): void {
+    if (this.config.enableLogging) {
+      console.log('[MockServer]', ...args);
+    }
+  }
+}
+
+// ==========================================
+// CLI ENTRY POINT
+// ==========================================
+
+const isMainModule = process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href;
+
+if (isMainModule) {
+  const server = new MockChatServer({
+    port: parseInt(process.env.MOCK_SERVER_PORT || String(DEFAULT_PORT), 10)
+  });
+
+  server.start().then(() => {
+    const users = server.getUsers();
+
+    console.log('\n[MockServer] Seeded users (copy into .env for each client):');
+    users.forEach(user => {
+      const receiver = users.find(u => u.id !== user.id);
+      console.log(`\n  # ${user.name} (${user.role})`);
+      console.log(`  SERVER_URL=${server.getUrl()}`);
+      console.log(`  USER_ID=${user.id}`);
+      console.log(`  AUTH_TOKEN=${server.issueToken(user.id)}`);
+      if (receiver) {
+        console.log(`  RECEIVER_ID=${receiver.id}`);
+        console.log(`  RECEIVER_NAME=${receiver.name}`);
+      }
+    });
+    console.log();
+  }).catch(error => {
+    console.error('[MockServer] Failed to start:', error);
+    process.exit(1);
+  });
+
+  const shutdown = () => {
+    server.stop().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
@@ -0,0 +1,432 @@
+// mocks/offline-queue-harness.ts - Scripted durability checks for the offline queue
+//
+// Drives the real ChatService + OfflineQueueService over FakeRealtimeService and
+// ScriptableStorageService, then asserts the exact delivery order seen by the
+// fake server and the final MessageStatus of every message sent in a scenario.
+//
+// Run: npm run harness:offline-queue   (set HARNESS_VERBOSE=1 to see service logs)
+import { chatService } from '../services/chatService';
+import { ServiceFactory } from '../services/factories/ServiceFactory';
+import { MemoryCacheService } from '../services/implementations/MemoryCacheService';
+import { OfflineQueueService } from '../services/implementations/OfflineQueueService';
+import { ExponentialBackoffRetryPolicy } from '../services/implementations/RetryPolicy';
+import { SocketMessageService } from '../services/implementations/SocketMessageService';
+import { AttachmentType, Message, MessageStatus } from '../types/chat';
+
+import { FakeClock, FakeFileService, FakeRealtimeService, ScriptableStorageService } from './fake-services';
+
+const USER_ID = 'harness-user';
+const RECEIVER_ID = 'harness-receiver';
+const CONVERSATION_ID = 'harness-conversation';
+const TOKEN = 'harness-token';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const IDLE_TIMEOUT = 15000;
+
+/**
+ * Final state of a message from the client's point of view.
+ * 'dropped' means the message left the queue without being delivered or marked FAILED.
+ */
+type FinalStatus = MessageStatus | 'dropped';
+
+interface Scenario {
+  name: string;
+  run: (h: HarnessWorld) => Promise<void>;
+  expectDelivered: string[];
+  expectStatus: Record<string, FinalStatus>;
+}
+
+/**
+ * One simulated device: shared fake network + persistent storage, and a
+ * ChatService that can be "restarted" on top of them.
+ */
+class HarnessWorld {
+  readonly realtime = new FakeRealtimeService();
+  readonly storage = new ScriptableStorageService();
+  readonly clock = new FakeClock();
+  // No jitter, so backoff deadlines are predictable when the clock is advanced
+  readonly retryPolicy = new ExponentialBackoffRetryPolicy({ baseDelay: SECOND, jitter: 0 });
+
+  private queue!: OfflineQueueService;
+  private cache!: MemoryCacheService;
+  private tracked: Map<string, Message> = new Map(); // content -> latest known message object
+
+  async boot(): Promise<void> {
+    this.queue = new OfflineQueueService(this.storage, undefined, this.retryPolicy);
+    this.cache = new MemoryCacheService();
+
+    ServiceFactory.configure({
+      userId: USER_ID,
+      customImplementations: {
+        realtimeService: this.realtime,
+        storageService: this.storage,
+        fileService: new FakeFileService(),
+        offlineQueueService: this.queue,
+        cacheService: this.cache,
+        messageService: new SocketMessageService(this.realtime, this.cache, USER_ID)
+      }
+    });
+
+    await chatService.initialize(USER_ID, 'customer', TOKEN);
+    this.trackQueued();
+  }
+
+  /**
+   * Simulate the app being killed and relaunched: new in-memory services,
+   * same storage, queue rebuilt through loadQueue.
+   */
+  async restart(): Promise<void> {
+    await chatService.disconnect();
+    await this.boot();
+  }
+
+  async shutdown(): Promise<void> {
+    await chatService.disconnect();
+    this.clock.uninstall();
+  }
+
+  async send(text: string): Promise<void> {
+    const message = await chatService.sendTextMessage(CONVERSATION_ID, text, RECEIVER_ID);
+    this.tracked.set(text, message);
+    this.trackQueued();
+  }
+
+  /**
+   * Send a small file; it is delivered with its name as the message content
+   */
+  async sendFile(name: string): Promise<void> {
+    const data = new TextEncoder().encode(name);
+    await chatService.sendAttachment(CONVERSATION_ID, { name, type: 'text/plain', data }, AttachmentType.FILE, RECEIVER_ID);
+    this.trackQueued();
+  }
+
+  goOffline(): void {
+    this.realtime.goOffline();
+  }
+
+  /**
+   * Bring the network back and wait for the reconnect-triggered flush to finish
+   */
+  async goOnline(): Promise<void> {
+    this.realtime.goOnline();
+    await this.waitForIdle();
+  }
+
+  async waitForIdle(): Promise<void> {
+    const deadline = Date.now() + IDLE_TIMEOUT;
+
+    while (this.queue.isProcessing()) {
+      if (Date.now() > deadline) {
+        throw new Error('Offline queue did not become idle');
+      }
+      await sleep(25);
+    }
+
+    // Let pending socket acknowledgements settle
+    await sleep(10);
+  }
+
+  queuedContents(): string[] {
+    return this.queue.getQueuedMessages().map(m => m.content);
+  }
+
+  finalStatus(text: string): FinalStatus {
+    if (this.realtime.deliveredContents().includes(text)) {
+      return this.cache.getCachedMessages(CONVERSATION_ID).find(m => m.content === text)?.status
+        ?? MessageStatus.SENT;
+    }
+
+    const queued = this.queue.getQueuedMessages().find(m => m.content === text);
+    if (queued) {
+      return queued.status;
+    }
+
+    return this.tracked.get(text)?.status === MessageStatus.FAILED ? MessageStatus.FAILED : 'dropped';
+  }
+
+  trackedContents(): string[] {
+    return Array.from(this.tracked.keys());
+  }
+
+  /**
+   * Keep references to the objects held by the queue so status mutations
+   * (e.g. FAILED after max retries) stay visible after they leave it.
+   */
+  private trackQueued(): void {
+    this.queue.getQueuedMessages().forEach(message => this.tracked.set(message.content, message));
+  }
+}
+
+// ==========================================
+// SCENARIOS
+// ==========================================
+
+const evictionLabels = Array.from({ length: 101 }, (_, i) => `bulk-${i + 1}`);
+
+const scenarios: Scenario[] = [
+  {
+    name: 'messages queued offline flush in order on reconnect',
+    run: async h => {
+      await h.send('online-1');
+      h.goOffline();
+      await h.send('A');
+      await h.send('B');
+      await h.send('C');
+      await h.goOnline();
+    },
+    expectDelivered: ['online-1', 'A', 'B', 'C'],
+    expectStatus: { 'online-1': MessageStatus.SENT, A: MessageStatus.SENT, B: MessageStatus.SENT, C: MessageStatus.SENT }
+  },
+  {
+    name: 'queue survives a restart while offline',
+    run: async h => {
+      h.goOffline();
+      await h.send('A');
+      await h.send('B');
+      await h.restart();
+      await h.send('C');
+      await h.goOnline();
+    },
+    expectDelivered: ['A', 'B', 'C'],
+    expectStatus: { A: MessageStatus.SENT, B: MessageStatus.SENT, C: MessageStatus.SENT }
+  },
+  {
+    name: 'a transient failure is retried after its backoff',
+    run: async h => {
+      h.goOffline();
+      await h.send('A');
+      await h.send('B');
+      await h.send('C');
+      h.realtime.failNextSends(1);
+      await h.goOnline();
+      h.goOffline();
+      h.clock.advance(MINUTE);
+      await h.goOnline();
+    },
+    expectDelivered: ['A', 'B', 'C'],
+    expectStatus: { A: MessageStatus.SENT, B: MessageStatus.SENT, C: MessageStatus.SENT }
+  },
+  {
+    name: 'text backing off, attachment queued after it',
+    run: async h => {
+      h.goOffline();
+      await h.send('A');
+      h.realtime.failNextSends(1);
+      await h.goOnline();
+      h.goOffline();
+      await h.sendFile('notes.txt');
+      await h.send('B');
+      await h.goOnline();
+      h.goOffline();
+      h.clock.advance(MINUTE);
+      await h.goOnline();
+    },
+    expectDelivered: ['A', 'notes.txt', 'B'],
+    expectStatus: { A: MessageStatus.SENT, 'notes.txt': MessageStatus.SENT, B: MessageStatus.SENT }
+  },
+  {
+    name: 'a message is marked FAILED after MAX_RETRIES failed flushes',
+    run: async h => {
+      h.goOffline();
+      await h.send('A');
+      h.realtime.failNextSends(3);
+      for (let attempt = 0; attempt < 3; attempt++) {
+        await h.goOnline();
+        h.goOffline();
+        h.clock.advance(MINUTE);
+      }
+      await h.goOnline();
+      await h.send('B');
+    },
+    expectDelivered: ['B'],
+    expectStatus: { A: MessageStatus.FAILED, B: MessageStatus.SENT }
+  },
+  {
+    name: 'a server retry-after hint holds the message back until it passes',
+    run: async h => {
+      h.goOffline();
+      await h.send('A');
+      h.realtime.failNextSends(1, 'Rate limited', 30);
+      await h.goOnline();
+      h.goOffline();
+      h.clock.advance(10 * SECOND);
+      await h.goOnline();
+      await h.send('B');
+      h.goOffline();
+      h.clock.advance(30 * SECOND);
+      await h.goOnline();
+    },
+    expectDelivered: ['B', 'A'],
+    expectStatus: { A: MessageStatus.SENT, B: MessageStatus.SENT }
+  },
+  {
+    name: 'dropping the connection mid-flush keeps the remainder queued',
+    run: async h => {
+      h.goOffline();
+      await h.send('A');
+      await h.send('B');
+      await h.send('C');
+      h.realtime.disconnectAfterDeliveries(1);
+      await h.goOnline();
+      h.clock.advance(MINUTE);
+      await h.goOnline();
+    },
+    expectDelivered: ['A', 'B', 'C'],
+    expectStatus: { A: MessageStatus.SENT, B: MessageStatus.SENT, C: MessageStatus.SENT }
+  },
+  {
+    name: 'messages older than MESSAGE_EXPIRY are skipped after a clock jump',
+    run: async h => {
+      h.goOffline();
+      await h.send('stale');
+      h.clock.advance(25 * HOUR);
+      await h.send('fresh');
+      await h.goOnline();
+    },
+    expectDelivered: ['fresh'],
+    expectStatus: { stale: 'dropped', fresh: MessageStatus.SENT }
+  },
+  {
+    name: 'expired messages are discarded by loadQueue after a restart',
+    run: async h => {
+      h.goOffline();
+      await h.send('stale');
+      h.clock.advance(25 * HOUR);
+      await h.restart();
+      await h.goOnline();
+    },
+    expectDelivered: [],
+    expectStatus: { stale: 'dropped' }
+  },
+  {
+    name: 'a failed persist is retried, so the message survives a restart',
+    run: async h => {
+      h.goOffline();
+      await h.send('A');
+      h.storage.failNextWrites(1);
+      await h.send('B');
+      await h.restart();
+      await h.goOnline();
+    },
+    expectDelivered: ['A', 'B'],
+    expectStatus: { A: MessageStatus.SENT, B: MessageStatus.SENT }
+  },
+  {
+    name: 'a persist that keeps failing is reported to the sender, not sent behind its back',
+    run: async h => {
+      h.goOffline();
+      await h.send('A');
+      h.storage.failNextWrites(3);
+      const rejected = await h.send('B').then(() => false, () => true);
+      if (!rejected) {
+        throw new Error('sending B should have failed');
+      }
+      await h.goOnline();
+    },
+    expectDelivered: ['A'],
+    expectStatus: { A: MessageStatus.SENT }
+  },
+  {
+    name: 'the oldest entry is evicted at MAX_QUEUE_SIZE',
+    run: async h => {
+      h.goOffline();
+      for (const label of evictionLabels) {
+        await h.send(label);
+      }
+    },
+    expectDelivered: [],
+    expectStatus: Object.fromEntries(
+      evictionLabels.map((label, i) => [label, i === 0 ? 'dropped' : MessageStatus.QUEUED])
+    )
+  }
+];
+
+// ==========================================
+// RUNNER
+// ==========================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function sameList(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+async function runScenario(scenario: Scenario): Promise<string[]> {
+  const world = new HarnessWorld();
+  const problems: string[] = [];
+
+  world.clock.install();
+
+  try {
+    await world.boot();
+    await scenario.run(world);
+    await world.waitForIdle();
+
+    const delivered = world.realtime.deliveredContents();
+    if (!sameList(delivered, scenario.expectDelivered)) {
+      problems.push(`delivery order: expected [${scenario.expectDelivered.join(', ')}], got [${delivered.join(', ')}]`);
+    }
+
+    for (const text of world.trackedContents()) {
+      if (!(text in scenario.expectStatus)) {
+        problems.push(`no expectation for message "${text}"`);
+      }
+    }
+
+    for (const [text, expected] of Object.entries(scenario.expectStatus)) {
+      const actual = world.finalStatus(text);
+      if (actual !== expected) {
+        problems.push(`status of "${text}": expected ${expected}, got ${actual}`);
+      }
+    }
+  } catch (error) {
+    problems.push(`threw: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await world.shutdown();
+  }
+
+  return problems;
+}
+
+async function main(): Promise<void> {
+  const report = console.log.bind(console);
+
+  if (process.env.HARNESS_VERBOSE !== '1') {
+    const silent = () => {};
+    console.log = silent;
+    console.info = silent;
+    console.warn = silent;
+    console.error = silent;
+    console.debug = silent;
+  }
+
+  report(`\nOffline queue durability harness (${scenarios.length} scenarios)\n`);
+
+  let failures = 0;
+
+  for (const scenario of scenarios) {
+    const started = Date.now();
+    const problems = await runScenario(scenario);
+    const elapsed = Date.now() - started;
+
+    if (problems.length === 0) {
+      report(`  ✓ ${scenario.name} (${elapsed}ms)`);
+    } else {
+      failures++;
+      report(`  ✗ ${scenario.name} (${elapsed}ms)`);
+      problems.forEach(problem => report(`      - ${problem}`));
+    }
+  }
+
+  report(`\n${scenarios.length - failures} passed, ${failures} failed\n`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  process.stderr.write(`Harness crashed: ${error?.stack || error}\n`);
+  process.exit(1);
+});
@@ -0,0 +1,150 @@
+// mocks/permissions-harness.ts - Permission matrix checks
+//
+// Resolves the permissions of every kind of member in every kind of
+// conversation and compares them with the expected defaults, then checks
+// server overrides and the reasons given for a denial.
+//
+// Run: npm run harness:permissions
+import {
+  ConversationPermissions,
+  ConversationType,
+  PermissionDeniedReason,
+  ServerConversation,
+  UserRole
+} from '../types/chat';
+import { getDeniedReason, resolvePermissions } from '../utils/permissions';
+
+import { Check, assertEqual, runChecks } from './harness-runner';
+
+const ADMIN = 'admin';
+const MEMBER = 'member';
+const FORMER = 'former';
+const STRANGER = 'stranger';
+
+type Member = typeof ADMIN | typeof MEMBER | typeof FORMER | typeof STRANGER;
+
+function conversation(type: ConversationType, overrides: Partial<ConversationPermissions> = {}): ServerConversation {
+  const participant = (userId: string, isActive: boolean, permissions?: Partial<ConversationPermissions>) => ({
+    userId,
+    role: UserRole.CUSTOMER,
+    joinedAt: new Date(0).toISOString(),
+    isActive,
+    name: userId,
+    isOnline: false,
+    permissions: permissions as ConversationPermissions | undefined
+  });
+
+  return {
+    id: `${type}-conversation`,
+    type,
+    participants: [
+      participant(ADMIN, true),
+      participant(MEMBER, true, Object.keys(overrides).length ? overrides : undefined),
+      participant(FORMER, false)
+    ],
+    metadata: {} as ServerConversation['metadata'],
+    settings: {} as ServerConversation['settings'],
+    unreadCount: 0,
+    createdAt: new Date(0).toISOString(),
+    updatedAt: new Date(0).toISOString(),
+    // Only groups have admins; a stray list on a 1:1 chat must not grant anything
+    adminIds: [ADMIN]
+  };
+}
+
+const NONE: ConversationPermissions = {
+  canSendMessages: false,
+  canSendAttachments: false,
+  canDeleteMessages: false,
+  canEditMessages: false,
+  canMentionAll: false,
+  canInviteUsers: false,
+  canManageConversation: false
+};
+
+// Members of a job or direct chat: own messages only, nothing to manage
+const ONE_TO_ONE: ConversationPermissions = {
+  canSendMessages: true,
+  canSendAttachments: true,
+  canDeleteMessages: true,
+  canEditMessages: true,
+  canMentionAll: true,
+  canInviteUsers: false,
+  canManageConversation: false
+};
+
+const GROUP_MEMBER: ConversationPermissions = { ...ONE_TO_ONE, canMentionAll: false };
+
+const GROUP_ADMIN: ConversationPermissions = {
+  ...GROUP_MEMBER,
+  canMentionAll: true,
+  canInviteUsers: true,
+  canManageConversation: true
+};
+
+const matrix: Array<[ConversationType, Member, ConversationPermissions]> = [
+  [ConversationType.JOB_CHAT, ADMIN, ONE_TO_ONE],
+  [ConversationType.JOB_CHAT, MEMBER, ONE_TO_ONE],
+  [ConversationType.JOB_CHAT, FORMER, NONE],
+  [ConversationType.JOB_CHAT, STRANGER, NONE],
+  [ConversationType.DIRECT_MESSAGE, ADMIN, ONE_TO_ONE],
+  [ConversationType.DIRECT_MESSAGE, MEMBER, ONE_TO_ONE],
+  [ConversationType.DIRECT_MESSAGE, FORMER, NONE],
+  [ConversationType.DIRECT_MESSAGE, STRANGER, NONE],
+  [ConversationType.GROUP_CHAT, ADMIN, GROUP_ADMIN],
+  [ConversationType.GROUP_CHAT, MEMBER, GROUP_MEMBER],
+  [ConversationType.GROUP_CHAT, FORMER, NONE],
+  [ConversationType.GROUP_CHAT, STRANGER, NONE]
+];
+
+const checks: Check[] = [
+  ...matrix.map(([type, member, expected]): Check => ({
+    name: `${member} in a ${type}`,
+    run: () => assertEqual(resolvePermissions(conversation(type), member), expected, 'permissions')
+  })),
+
+  {
+    name: 'nobody in a 1:1 chat may manage it, so nobody deletes the other side\'s messages',
+    run: () => {
+      for (const type of [ConversationType.JOB_CHAT, ConversationType.DIRECT_MESSAGE]) {
+        for (const member of [ADMIN, MEMBER]) {
+          assertEqual(
+            getDeniedReason(conversation(type), member, 'canManageConversation'),
+            PermissionDeniedReason.CANNOT_MANAGE_CONVERSATION,
+            `${member} in a ${type}`
+          );
+        }
+      }
+    }
+  },
+
+  {
+    name: 'permissions sent by the server win over the defaults',
+    run: () => {
+      const muted = conversation(ConversationType.GROUP_CHAT, { canSendMessages: false, canInviteUsers: true });
+      assertEqual(
+        resolvePermissions(muted, MEMBER),
+        { ...GROUP_MEMBER, canSendMessages: false, canInviteUsers: true },
+        'permissions'
+      );
+    }
+  },
+
+  {
+    name: 'denials say why',
+    run: () => {
+      const group = conversation(ConversationType.GROUP_CHAT);
+      assertEqual(getDeniedReason(group, STRANGER, 'canSendMessages'), PermissionDeniedReason.NOT_PARTICIPANT, 'stranger');
+      assertEqual(getDeniedReason(group, FORMER, 'canSendMessages'), PermissionDeniedReason.LEFT_CONVERSATION, 'former');
+      assertEqual(getDeniedReason(group, MEMBER, 'canInviteUsers'), PermissionDeniedReason.CANNOT_INVITE_USERS, 'member');
+      assertEqual(getDeniedReason(group, ADMIN, 'canInviteUsers'), null, 'admin');
+    }
+  }
+];
+
+runChecks('Permission matrix', checks).then(failures => {
+  process.exit(failures > 0 ? 1 : 0);
+}).catch(error => {
+  process.stderr.write(`Harness crashed: ${error?.stack || error}\n`);
+  process.exit(1);
+});
@@ -0,0 +1,196 @@
+// mocks/token-lifecycle-harness.ts - Token refresh scheduling checks
+//
+// Drives TokenLifecycleManager on a FakeClock with a scripted refresh
+// handler, so hours of token lifetime pass instantly and every refresh call
+// can be counted.
+//
+// Run: npm run harness:token-lifecycle
+import { TokenLifecycleManager } from '../services/implementations/TokenLifecycleManager';
+import { TokenPair } from '../services/interfaces';
+
+import { FakeClock } from './fake-services';
+import { Check, assert, assertEqual, runChecks } from './harness-runner';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const REFRESH_AHEAD = 5 * MINUTE;
+// Token times are whole seconds, so a refresh can fall up to a second early
+const SLACK = 2 * SECOND;
+
+/**
+ * An unsigned JWT issued now on the clock, valid for `lifetime`
+ */
+function makeToken(clock: FakeClock, lifetime: number, label: string): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const iat = Math.floor(clock.now() / SECOND);
+  return `${encode({ alg: 'none' })}.${encode({ sub: label, iat, exp: iat + lifetime / SECOND })}.`;
+}
+
+/**
+ * A manager whose refresh handler issues `lifetime` tokens, or fails while
+ * `failing` is set
+ */
+function setup(lifetime: number) {
+  const clock = new FakeClock();
+  const state = { calls: 0, failing: false, issued: null as string | null };
+
+  const manager = new TokenLifecycleManager(async (): Promise<TokenPair | null> => {
+    state.calls++;
+    if (state.failing) {
+      throw new Error('refresh rejected');
+    }
+    state.issued = makeToken(clock, lifetime, `refreshed-${state.calls}`);
+    return { token: state.issued, refreshToken: `refresh-${state.calls}` };
+  }, clock, REFRESH_AHEAD);
+
+  return { clock, state, manager };
+}
+
+// Scheduled refreshes run on a promise; let them settle before asserting
+async function settle(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+const checks: Check[] = [
+  {
+    name: 'a token is refreshed REFRESH_AHEAD before it expires',
+    run: async () => {
+      const { clock, state, manager } = setup(HOUR);
+      manager.setTokens(makeToken(clock, HOUR, 'first'), 'refresh-0');
+
+      clock.advance(HOUR - REFRESH_AHEAD - SLACK);
+      await settle();
+      assertEqual(state.calls, 0, 'refreshes before the window');
+
+      clock.advance(SLACK);
+      await settle();
+      assertEqual(state.calls, 1, 'refreshes at the window');
+      manager.dispose();
+    }
+  },
+  {
+    name: 'a long-lived token is not refreshed when the capped timer fires',
+    run: async () => {
+      const lifetime = 24 * HOUR;
+      const { clock, state, manager } = setup(lifetime);
+      manager.setTokens(makeToken(clock, lifetime, 'first'), 'refresh-0');
+
+      clock.advance(HOUR);
+      await settle();
+      assertEqual(state.calls, 0, 'refreshes after the first hour');
+      assertEqual(clock.pendingTimers(), 1, 'timers re-armed');
+
+      clock.advance(lifetime - REFRESH_AHEAD - HOUR - SLACK);
+      await settle();
+      assertEqual(state.calls, 0, 'refreshes just before the window');
+
+      clock.advance(SLACK);
+      await settle();
+      assertEqual(state.calls, 1, 'refreshes at the window');
+      manager.dispose();
+    }
+  },
+  {
+    name: 'short-lived tokens are refreshed at half their lifetime',
+    run: async () => {
+      const lifetime = 4 * MINUTE;
+      const { clock, state, manager } = setup(lifetime);
+      manager.setTokens(makeToken(clock, lifetime, 'first'), 'refresh-0');
+
+      clock.advance(lifetime / 2 - SLACK);
+      await settle();
+      assertEqual(state.calls, 0, 'refreshes before half the lifetime');
+
+      clock.advance(SLACK);
+      await settle();
+      assertEqual(state.calls, 1, 'refreshes at half the lifetime');
+      manager.dispose();
+    }
+  },
+  {
+    name: 'concurrent refreshes share one call and announce the new token once',
+    run: async () => {
+      const { clock, state, manager } = setup(HOUR);
+      const announced: string[] = [];
+      manager.onTokenChanged(token => announced.push(token));
+      manager.setTokens(makeToken(clock, HOUR, 'first'), 'refresh-0');
+
+      const tokens = await Promise.all([manager.refresh(), manager.refresh(), manager.refresh()]);
+      assertEqual(state.calls, 1, 'refresh calls');
+      assert(tokens.every(token => token === manager.getToken()), 'every caller gets the new token');
+      assertEqual(announced.length, 2, 'announcements (initial and refreshed)');
+      manager.dispose();
+    }
+  },
+  {
+    name: 'a refresh for an already replaced token does not refresh again',
+    run: async () => {
+      const { clock, state, manager } = setup(HOUR);
+      const first = makeToken(clock, HOUR, 'first');
+      manager.setTokens(first, 'refresh-0');
+
+      await manager.refresh(first);
+      const current = await manager.refresh(first);
+      assertEqual(state.calls, 1, 'refresh calls');
+      assertEqual(current, manager.getToken(), 'returned token');
+      manager.dispose();
+    }
+  },
+  {
+    name: 'a failed refresh is reported and retried after FAILED_REFRESH_RETRY',
+    run: async () => {
+      const { clock, state, manager } = setup(HOUR);
+      const failures: string[] = [];
+      manager.onRefreshFailed(error => failures.push(error.message));
+      manager.setTokens(makeToken(clock, HOUR, 'first'), 'refresh-0');
+
+      state.failing = true;
+      clock.advance(HOUR - REFRESH_AHEAD);
+      await settle();
+      assertEqual(failures, ['refresh rejected'], 'reported failures');
+
+      state.failing = false;
+      clock.advance(30 * SECOND);
+      await settle();
+      assertEqual(state.calls, 2, 'refresh calls');
+      assertEqual(manager.getToken(), state.issued, 'token');
+      manager.dispose();
+    }
+  },
+  {
+    name: 'without a refresh token nothing is scheduled',
+    run: async () => {
+      const { clock, state, manager } = setup(HOUR);
+      manager.setTokens(makeToken(clock, HOUR, 'first'));
+
+      assertEqual(clock.pendingTimers(), 0, 'pending timers');
+      clock.advance(2 * HOUR);
+      await settle();
+      assertEqual(state.calls, 0, 'refresh calls');
+      manager.dispose();
+    }
+  },
+  {
+    name: 'dispose cancels the scheduled refresh',
+    run: async () => {
+      const { clock, state, manager } = setup(HOUR);
+      manager.setTokens(makeToken(clock, HOUR, 'first'), 'refresh-0');
+
+      manager.dispose();
+      assertEqual(clock.pendingTimers(), 0, 'pending timers');
+      clock.advance(2 * HOUR);
+      await settle();
+      assertEqual(state.calls, 0, 'refresh calls');
+    }
+  }
+];
+
+runChecks('Token lifecycle', checks).then(failures => {
+  process.exit(failures > 0 ? 1 : 0);
+}).catch(error => {
+  process.stderr.write(`Harness crashed: ${error?.stack || error}\n`);
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+// scenario-runner.ts - Run a scripted chat scenario and exit non-zero when it fails
+//
+// Usage: npm run scenario -- <script.yaml|script.json> [--continue]
+import chalk from 'chalk';
+import * as dotenv from 'dotenv';
+
+import { loadScenario } from './scenarios/loadScenario';
+import { ScenarioRunner } from './scenarios/ScenarioRunner';
+import { ScenarioStepResult } from './scenarios/types';
+
+// Load environment variables
+dotenv.config();
+
+const EXIT_PASSED = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+function printStep(result: ScenarioStepResult): void {
+  const status = result.passed ? chalk.green('✓') : chalk.red('✗');
+  const timing = chalk.gray(`${result.durationMs}ms`);
+  console.log(`${status} ${String(result.index + 1).padStart(3)}. ${result.label} ${timing}`);
+  if (result.error) {
+    console.log(chalk.red(`       ${result.error}`));
+  }
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const file = args.find(arg => !arg.startsWith('--'));
+
+  if (!file) {
+    console.error(chalk.yellow('Usage: npm run scenario -- <script.yaml|script.json> [--continue]'));
+    return EXIT_USAGE;
+  }
+
+  let scenario;
+  try {
+    scenario = await loadScenario(file);
+  } catch (error) {
+    console.error(chalk.red(`Invalid scenario: ${(error as Error).message}`));
+    return EXIT_USAGE;
+  }
+
+  console.log(chalk.cyan(`\n▶ ${scenario.name}`));
+  if (scenario.description) {
+    console.log(chalk.gray(`  ${scenario.description}`));
+  }
+
+  const runner = new ScenarioRunner({
+    continueOnFailure: args.includes('--continue'),
+    onStep: printStep
+  });
+  const result = await runner.run(scenario);
+
+  const failed = result.steps.filter(step => !step.passed).length;
+  const summary = `${result.steps.length - failed} passed, ${failed} failed, ${result.skipped} skipped ` +
+    `(${(result.durationMs / 1000).toFixed(1)}s)`;
+  console.log(result.passed ? chalk.green(`\n✓ ${summary}`) : chalk.red(`\n✗ ${summary}`));
+
+  return result.passed ? EXIT_PASSED : EXIT_FAILED;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(chalk.red('Scenario runner crashed:'), error);
+    process.exit(EXIT_FAILED);
+  });
@@ -0,0 +1,450 @@
+// src/scenarios/ScenarioRunner.ts - Play a scripted scenario against ChatService
+import { v4 as uuidv4 } from 'uuid';
+
+import { AuthService } from '../services/AuthService';
+import { ChatService } from '../services/chatService';
+import { ChatSessionManager } from '../services/ChatSessionManager';
+import {
+  AuthException,
+  Message,
+  MessageStatus,
+  ServerConversation,
+  ValidationException
+} from '../types/chat';
+import { logger } from '../utils/Logger';
+
+import {
+  CreateJobConversationStep,
+  ExpectMessagesStep,
+  ExpectStatusStep,
+  ExpectTypingStep,
+  GoOfflineStep,
+  LoginStep,
+  Scenario,
+  ScenarioExpectationError,
+  ScenarioResult,
+  ScenarioStep,
+  ScenarioStepResult,
+  SendMessagesStep
+} from './types';
+
+const DEFAULT_TIMEOUT_SECONDS = 10;
+const DEFAULT_CONVERSATION = 'default';
+const POLL_INTERVAL = 250;
+
+// Statuses a message moves through; failed/expired only match themselves
+const STATUS_ORDER: MessageStatus[] = [
+  MessageStatus.SENT,
+  MessageStatus.DELIVERED,
+  MessageStatus.READ
+];
+
+export interface ScenarioRunnerOptions {
+  /** Run the remaining steps after a failure instead of stopping */
+  continueOnFailure?: boolean;
+  /** Called as soon as each step finishes, for progress output */
+  onStep?: (result: ScenarioStepResult) => void;
+  sessionManager?: ChatSessionManager;
+}
+
+interface Actor {
+  name: string;
+  userId: string;
+  service: ChatService;
+  received: Message[];
+  typing: string[];
+  sent: Map<string, Message[]>;
+  cleanups: Array<() => void>;
+  reconnectTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Executes a scenario step by step. Every actor gets its own session from
+ * the ChatSessionManager, so one script can drive both sides of a
+ * conversation. Events the actors receive are recorded from login on;
+ * an expectation consumes what it matched, so the next one waits for new
+ * events.
+ */
+export class ScenarioRunner {
+  private readonly sessions: ChatSessionManager;
+  private readonly actors = new Map<string, Actor>();
+  private readonly conversations = new Map<string, ServerConversation>();
+  private defaultTimeout = DEFAULT_TIMEOUT_SECONDS;
+
+  constructor(private readonly options: ScenarioRunnerOptions = {}) {
+    this.sessions = options.sessionManager || new ChatSessionManager();
+  }
+
+  async run(scenario: Scenario): Promise<ScenarioResult> {
+    const startedAt = Date.now();
+    const results: ScenarioStepResult[] = [];
+    this.defaultTimeout = scenario.timeout || DEFAULT_TIMEOUT_SECONDS;
+
+    logger.info('Running scenario', { name: scenario.name, steps: scenario.steps.length });
+
+    try {
+      for (const [index, step] of scenario.steps.entries()) {
+        const result = await this.runStep(step, index);
+        results.push(result);
+        this.options.onStep?.(result);
+
+        if (!result.passed && !this.options.continueOnFailure) {
+          break;
+        }
+      }
+    } finally {
+      await this.cleanup();
+    }
+
+    return {
+      name: scenario.name,
+      passed: results.length === scenario.steps.length && results.every(result => result.passed),
+      durationMs: Date.now() - startedAt,
+      steps: results,
+      skipped: scenario.steps.length - results.length
+    };
+  }
+
+  // ==========================================
+  // STEPS
+  // ==========================================
+
+  private async runStep(step: ScenarioStep, index: number): Promise<ScenarioStepResult> {
+    const startedAt = Date.now();
+    const label = step.name || ('actor' in step ? `${step.action} (${step.actor})` : step.action);
+
+    try {
+      await this.execute(step);
+      return { index, action: step.action, label, passed: true, durationMs: Date.now() - startedAt };
+    } catch (error) {
+      logger.warn('Scenario step failed', { index, action: step.action, error: (error as Error).message });
+      return {
+        index,
+        action: step.action,
+        label,
+        passed: false,
+        durationMs: Date.now() - startedAt,
+        error: (error as Error).message
+      };
+    }
+  }
+
+  private async execute(step: ScenarioStep): Promise<void> {
+    switch (step.action) {
+      case 'login':
+        return this.login(step);
+
+      case 'createJobConversation':
+        return this.createJobConversation(step);
+
+      case 'sendMessages':
+        return this.sendMessages(step);
+
+      case 'typing': {
+        const actor = this.getActor(step.actor);
+        const conversation = this.getConversation(step.conversation);
+        actor.service.sendTypingIndicator(
+          conversation.id,
+          this.getReceiverId(conversation, actor),
+          step.isTyping !== false
+        );
+        return;
+      }
+
+      case 'goOffline':
+        return this.goOffline(step);
+
+      case 'goOnline': {
+        const actor = this.getActor(step.actor);
+        clearTimeout(actor.reconnectTimer);
+        actor.service.goOnline();
+        await this.waitFor(
+          () => actor.service.isConnected(),
+          this.defaultTimeout,
+          () => `${actor.name} did not reconnect`
+        );
+        return;
+      }
+
+      case 'wait':
+        return sleep(step.seconds * 1000);
+
+      case 'markRead': {
+        const actor = this.getActor(step.actor);
+        await actor.service.markMessagesAsRead(this.getConversation(step.conversation).id);
+        return;
+      }
+
+      case 'logout':
+        return this.logout(step.actor);
+
+      case 'expectTyping':
+        return this.expectTyping(step);
+
+      case 'expectMessages':
+        return this.expectMessages(step);
+
+      case 'expectStatus':
+        return this.expectStatus(step);
+
+      default:
+        throw new ValidationException(`Unknown action "${(step as ScenarioStep).action}"`);
+    }
+  }
+
+  private async login(step: LoginStep): Promise<void> {
+    if (this.actors.has(step.actor)) {
+      throw new ValidationException(`Actor "${step.actor}" is already logged in`);
+    }
+
+    let userId = step.userId;
+    let token = step.token;
+    let refreshToken = step.refreshToken;
+
+    if (!userId || !token) {
+      const result = await AuthService.login(step.emailOrPhone!, step.password!, step.role);
+      if (!result.success || !result.token || !result.user) {
+        throw new AuthException(`Login failed for ${step.actor}: ${result.error || 'no token returned'}`);
+      }
+      userId = result.user.id;
+      token = result.token;
+      refreshToken = result.refreshToken;
+    }
+
+    const service = await this.sessions.addSession(userId!, step.role, token!, { refreshToken });
+    const actor: Actor = {
+      name: step.actor,
+      userId: userId!,
+      service,
+      received: [],
+      typing: [],
+      sent: new Map(),
+      cleanups: []
+    };
+
+    actor.cleanups.push(
+      service.onNewMessage(message => {
+        if (message.senderId !== actor.userId && !actor.received.some(seen => seen.id === message.id)) {
+          actor.received.push(message);
+        }
+      }),
+      service.onTyping((userId, isTyping) => {
+        if (isTyping) actor.typing.push(userId);
+      })
+    );
+
+    this.actors.set(step.actor, actor);
+  }
+
+  private async createJobConversation(step: CreateJobConversationStep): Promise<void> {
+    const actor = this.getActor(step.actor);
+    const peer = this.getActor(step.with);
+
+    const conversation = await actor.service.findOrCreateJobConversation(step.jobId || uuidv4(), peer.userId);
+    this.conversations.set(step.conversation || DEFAULT_CONVERSATION, conversation);
+  }
+
+  private async sendMessages(step: SendMessagesStep): Promise<void> {
+    const actor = this.getActor(step.actor);
+    const name = step.conversation || DEFAULT_CONVERSATION;
+    const conversation = this.getConversation(name);
+    const receiverId = this.getReceiverId(conversation, actor);
+    const count = step.count || 1;
+    const interval = step.ratePerSecond ? 1000 / step.ratePerSecond : 0;
+    const template = step.text || 'Message {i} from {actor}';
+
+    const sent = actor.sent.get(name) || [];
+    actor.sent.set(name, sent);
+
+    for (let i = 1; i <= count; i++) {
+      const startedAt = Date.now();
+      const text = template.replace(/\{i\}/g, String(i)).replace(/\{actor\}/g, actor.name);
+      sent.push(await actor.service.sendTextMessage(conversation.id, text, receiverId));
+
+      if (interval && i < count) {
+        await sleep(Math.max(0, interval - (Date.now() - startedAt)));
+      }
+    }
+  }
+
+  private async goOffline(step: GoOfflineStep): Promise<void> {
+    const actor = this.getActor(step.actor);
+    clearTimeout(actor.reconnectTimer);
+    actor.service.goOffline();
+
+    if (step.seconds) {
+      actor.reconnectTimer = setTimeout(() => actor.service.goOnline(), step.seconds * 1000);
+    }
+  }
+
+  private async logout(name: string): Promise<void> {
+    const actor = this.getActor(name);
+    this.actors.delete(name);
+    clearTimeout(actor.reconnectTimer);
+    actor.cleanups.forEach(cleanup => cleanup());
+    await this.sessions.removeSession(actor.userId);
+  }
+
+  // ==========================================
+  // EXPECTATIONS
+  // ==========================================
+
+  private async expectTyping(step: ExpectTypingStep): Promise<void> {
+    const actor = this.getActor(step.actor);
+    const from = this.getActor(step.from);
+
+    await this.waitFor(
+      () => {
+        const index = actor.typing.indexOf(from.userId);
+        if (index === -1) return false;
+        actor.typing.splice(index, 1);
+        return true;
+      },
+      step.timeout,
+      () => `${actor.name} saw no typing from ${from.name}`
+    );
+  }
+
+  private async expectMessages(step: ExpectMessagesStep): Promise<void> {
+    const actor = this.getActor(step.actor);
+    const conversation = this.getConversation(step.conversation);
+    const fromId = step.from ? this.getActor(step.from).userId : undefined;
+
+    const matches = () => actor.received.filter(message =>
+      message.conversationId === conversation.id &&
+      (!fromId || message.senderId === fromId) &&
+      (!step.contains || message.content.includes(step.contains))
+    );
+
+    await this.waitFor(
+      () => matches().length >= step.count,
+      step.timeout,
+      () => `${actor.name} received ${matches().length} of ${step.count} expected messages` +
+        `${step.from ? ` from ${step.from}` : ''}${step.contains ? ` containing "${step.contains}"` : ''}`
+    );
+
+    const consumed = new Set(matches().slice(0, step.count));
+    actor.received = actor.received.filter(message => !consumed.has(message));
+  }
+
+  private async expectStatus(step: ExpectStatusStep): Promise<void> {
+    const actor = this.getActor(step.actor);
+    const name = step.conversation || DEFAULT_CONVERSATION;
+    const conversation = this.getConversation(name);
+    const sent = actor.sent.get(name) || [];
+
+    if (sent.length === 0) {
+      throw new ScenarioExpectationError(`${actor.name} has not sent any messages in "${name}"`);
+    }
+
+    const tracked = step.messages === 'last' ? sent.slice(-1) : sent;
+    let statuses: Array<MessageStatus | undefined> = [];
+
+    await this.waitFor(
+      async () => {
+        statuses = await this.getSentStatuses(actor, conversation.id, tracked);
+        return statuses.every(status => statusReached(status, step.status));
+      },
+      step.timeout,
+      () => {
+        const behind = statuses.filter(status => !statusReached(status, step.status));
+        return `${behind.length} of ${tracked.length} messages from ${actor.name} did not reach "${step.status}" ` +
+          `(currently: ${Array.from(new Set(behind.map(status => status || 'missing'))).join(', ')})`;
+      }
+    );
+  }
+
+  /**
+   * Where each message stands: still in the offline queue, or as the server
+   * reports it (delivery and read receipts are not pushed to the sender)
+   */
+  private async getSentStatuses(
+    actor: Actor,
+    conversationId: string,
+    messages: Message[]
+  ): Promise<Array<MessageStatus | undefined>> {
+    const queued = new Set(actor.service.getOfflineQueueStatus().messages.map(message => message.clientTempId));
+    const pending = messages.filter(message => !message.clientTempId || !queued.has(message.clientTempId));
+    const known = pending.length > 0
+      ? (await actor.service.loadMessages(conversationId, { forceRefresh: true })).messages
+      : [];
+
+    return messages.map(message => {
+      if (message.clientTempId && queued.has(message.clientTempId)) {
+        return MessageStatus.QUEUED;
+      }
+      const current = known.find(candidate =>
+        candidate.id === message.id ||
+        (!!message.clientTempId && candidate.clientTempId === message.clientTempId)
+      );
+      return current?.status;
+    });
+  }
+
+  // ==========================================
+  // HELPERS
+  // ==========================================
+
+  private getActor(name: string): Actor {
+    const actor = this.actors.get(name);
+    if (!actor) {
+      throw new ValidationException(`Actor "${name}" is not logged in`);
+    }
+    return actor;
+  }
+
+  private getConversation(name: string = DEFAULT_CONVERSATION): ServerConversation {
+    const conversation = this.conversations.get(name);
+    if (!conversation) {
+      throw new ValidationException(`Conversation "${name}" has not been created`);
+    }
+    return conversation;
+  }
+
+  private getReceiverId(conversation: ServerConversation, actor: Actor): string {
+    const other = conversation.participants.find(participant => participant.userId !== actor.userId);
+    if (!other) {
+      throw new ValidationException(`Conversation ${conversation.id} has no other participant`);
+    }
+    return other.userId;
+  }
+
+  private async waitFor(
+    check: () => boolean | Promise<boolean>,
+    timeoutSeconds: number | undefined,
+    describe: () => string
+  ): Promise<void> {
+    const deadline = Date.now() + (timeoutSeconds || this.defaultTimeout) * 1000;
+
+    while (!(await check())) {
+      if (Date.now() >= deadline) {
+        throw new ScenarioExpectationError(describe());
+      }
+      await sleep(POLL_INTERVAL);
+    }
+  }
+
+  private async cleanup(): Promise<void> {
+    for (const name of Array.from(this.actors.keys())) {
+      try {
+        await this.logout(name);
+      } catch (error) {
+        logger.error('Failed to close scenario session', error, { actor: name });
+      }
+    }
+    this.conversations.clear();
+  }
+}
+
+function statusReached(current: MessageStatus | undefined, expected: MessageStatus): boolean {
+  if (!current) return false;
+  if (current === expected) return true;
+
+  const currentRank = STATUS_ORDER.indexOf(current);
+  const expectedRank = STATUS_ORDER.indexOf(expected);
+  return currentRank !== -1 && expectedRank !== -1 && currentRank > expectedRank;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,143 @@
+// src/scenarios/loadScenario.ts - Read and check a scenario script (JSON or YAML)
+
+import { readFile } from 'fs/promises';
+import * as path from 'path';
+
+import yaml from 'js-yaml';
+
+import { MessageStatus, ValidationException } from '../types/chat';
+
+import { Scenario, ScenarioAction } from './types';
+
+const REQUIRED_FIELDS: Record<ScenarioAction, string[]> = {
+  login: ['actor', 'role'],
+  createJobConversation: ['actor', 'with'],
+  sendMessages: ['actor'],
+  typing: ['actor'],
+  goOffline: ['actor'],
+  goOnline: ['actor'],
+  wait: ['seconds'],
+  markRead: ['actor'],
+  logout: ['actor'],
+  expectTyping: ['actor', 'from'],
+  expectMessages: ['actor', 'count'],
+  expectStatus: ['actor', 'status']
+};
+
+/**
+ * Load a scenario from disk. `.yaml`/`.yml` files are parsed as YAML,
+ * anything else as JSON. `${NAME}` in string values is replaced with the
+ * environment variable of that name, so tokens and passwords can stay out
+ * of the script.
+ */
+export async function loadScenario(filePath: string, env: NodeJS.ProcessEnv = process.env): Promise<Scenario> {
+  const content = await readFile(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+
+  let raw: unknown;
+  try {
+    raw = extension === '.yaml' || extension === '.yml' ? yaml.load(content) : JSON.parse(content);
+  } catch (error) {
+    throw new ValidationException(`Could not parse ${filePath}: ${(error as Error).message}`, { filePath });
+  }
+
+  return parseScenario(interpolate(raw, env));
+}
+
+/**
+ * Check an already parsed script and return it typed
+ */
+export function parseScenario(raw: unknown): Scenario {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ValidationException('Scenario must be an object with "name" and "steps"');
+  }
+
+  const scenario = raw as Record<string, any>;
+  if (typeof scenario.name !== 'string' || !scenario.name.trim()) {
+    throw new ValidationException('Scenario "name" is required');
+  }
+  if (!Array.isArray(scenario.steps) || scenario.steps.length === 0) {
+    throw new ValidationException('Scenario "steps" must be a non-empty list');
+  }
+  if (scenario.timeout !== undefined && !isPositiveNumber(scenario.timeout)) {
+    throw new ValidationException('Scenario "timeout" must be a positive number of seconds');
+  }
+
+  const loggedIn = new Set<string>();
+  const statuses = Object.values(MessageStatus) as string[];
+
+  scenario.steps.forEach((step: any, index: number) => {
+    const where = `Step ${index + 1}`;
+    if (!step || typeof step !== 'object') {
+      throw new ValidationException(`${where} must be an object`, { index });
+    }
+
+    const required = REQUIRED_FIELDS[step.action as ScenarioAction];
+    if (!required) {
+      throw new ValidationException(`${where} has unknown action "${step.action}"`, {
+        index,
+        actions: Object.keys(REQUIRED_FIELDS)
+      });
+    }
+
+    const missing = required.filter(field => step[field] === undefined || step[field] === '');
+    if (missing.length > 0) {
+      throw new ValidationException(`${where} (${step.action}) is missing ${missing.join(', ')}`, { index, missing });
+    }
+
+    if (step.action === 'login') {
+      const direct = step.userId && step.token;
+      const credentials = step.emailOrPhone && step.password;
+      if (!direct && !credentials) {
+        throw new ValidationException(`${where} (login) needs userId + token or emailOrPhone + password`, { index });
+      }
+      if (!['usta', 'customer'].includes(step.role)) {
+        throw new ValidationException(`${where} (login) role must be "usta" or "customer"`, { index });
+      }
+      loggedIn.add(step.actor);
+    } else if (step.actor && !loggedIn.has(step.actor)) {
+      throw new ValidationException(`${where} (${step.action}) uses actor "${step.actor}" before its login step`, { index });
+    }
+
+    for (const field of ['count', 'seconds', 'ratePerSecond', 'timeout']) {
+      if (step[field] !== undefined && !isPositiveNumber(step[field])) {
+        throw new ValidationException(`${where} (${step.action}) "${field}" must be a positive number`, { index });
+      }
+    }
+
+    if (step.action === 'expectStatus' && !statuses.includes(step.status)) {
+      throw new ValidationException(`${where} (expectStatus) status must be one of ${statuses.join(', ')}`, { index });
+    }
+    if ((step.action === 'createJobConversation' || step.action === 'expectTyping') &&
+        !loggedIn.has(step.with || step.from)) {
+      throw new ValidationException(`${where} (${step.action}) refers to actor "${step.with || step.from}" before its login step`, { index });
+    }
+  });
+
+  return scenario as Scenario;
+}
+
+function interpolate(value: unknown, env: NodeJS.ProcessEnv): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)\}/g, (_match, name: string) => {
+      const replacement = env[name];
+      if (replacement === undefined) {
+        throw new ValidationException(`Environment variable ${name} is not set`, { variable: name });
+      }
+      return replacement;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => interpolate(item, env));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolate(item, env)])
+    );
+  }
+  return value;
+}
+
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
@@ -0,0 +1,159 @@
+// src/scenarios/types.ts - Shape of a scripted chat scenario
+
+import { ChatException, MessageStatus } from '../types/chat';
+
+interface BaseStep {
+  /** Shown in the report instead of the action name */
+  name?: string;
+}
+
+/**
+ * `actor` names a session opened by a `login` step
+ */
+interface ActorStep extends BaseStep {
+  actor: string;
+}
+
+/**
+ * `conversation` names one opened by `createJobConversation`; it defaults
+ * to "default"
+ */
+interface ConversationStep extends ActorStep {
+  conversation?: string;
+}
+
+/**
+ * Sign an actor in. Either pass `userId` + `token` directly or
+ * `emailOrPhone` + `password` to go through the auth endpoint.
+ */
+export interface LoginStep extends ActorStep {
+  action: 'login';
+  role: 'usta' | 'customer';
+  userId?: string;
+  token?: string;
+  refreshToken?: string;
+  emailOrPhone?: string;
+  password?: string;
+}
+
+export interface CreateJobConversationStep extends ConversationStep {
+  action: 'createJobConversation';
+  with: string;
+  jobId?: string;
+}
+
+/**
+ * `text` may contain `{i}` (1-based message number) and `{actor}`
+ */
+export interface SendMessagesStep extends ConversationStep {
+  action: 'sendMessages';
+  count?: number;
+  text?: string;
+  ratePerSecond?: number;
+}
+
+export interface TypingStep extends ConversationStep {
+  action: 'typing';
+  isTyping?: boolean;
+}
+
+/**
+ * Without `seconds` the actor stays offline until a `goOnline` step;
+ * with it, the actor reconnects on its own while later steps keep running.
+ */
+export interface GoOfflineStep extends ActorStep {
+  action: 'goOffline';
+  seconds?: number;
+}
+
+export interface GoOnlineStep extends ActorStep {
+  action: 'goOnline';
+}
+
+export interface WaitStep extends BaseStep {
+  action: 'wait';
+  seconds: number;
+}
+
+export interface MarkReadStep extends ConversationStep {
+  action: 'markRead';
+}
+
+export interface LogoutStep extends ActorStep {
+  action: 'logout';
+}
+
+export interface ExpectTypingStep extends ActorStep {
+  action: 'expectTyping';
+  from: string;
+  timeout?: number;
+}
+
+export interface ExpectMessagesStep extends ConversationStep {
+  action: 'expectMessages';
+  count: number;
+  from?: string;
+  contains?: string;
+  timeout?: number;
+}
+
+/**
+ * Checks the messages the actor sent in the conversation. A status is met
+ * once the message reaches it or a later one (sent < delivered < read).
+ */
+export interface ExpectStatusStep extends ConversationStep {
+  action: 'expectStatus';
+  status: MessageStatus;
+  messages?: 'all' | 'last';
+  timeout?: number;
+}
+
+export type ScenarioStep =
+  | LoginStep
+  | CreateJobConversationStep
+  | SendMessagesStep
+  | TypingStep
+  | GoOfflineStep
+  | GoOnlineStep
+  | WaitStep
+  | MarkReadStep
+  | LogoutStep
+  | ExpectTypingStep
+  | ExpectMessagesStep
+  | ExpectStatusStep;
+
+export type ScenarioAction = ScenarioStep['action'];
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  /** Default wait for expectations, in seconds */
+  timeout?: number;
+  steps: ScenarioStep[];
+}
+
+export interface ScenarioStepResult {
+  index: number;
+  action: ScenarioAction;
+  label: string;
+  passed: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+export interface ScenarioResult {
+  name: string;
+  passed: boolean;
+  durationMs: number;
+  steps: ScenarioStepResult[];
+  skipped: number;
+}
+
+/**
+ * A scenario expectation that was not met in time
+ */
+export class ScenarioExpectationError extends ChatException {
+  constructor(message: string, details?: any) {
+    super('EXPECTATION_FAILED', message, details);
+  }
+}
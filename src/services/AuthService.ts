@@ -278,6 +278,47 @@ export class AuthService {
     }
   }
 
+  /**
+   * Exchange a refresh token for a new access token. Servers that rotate
+   * refresh tokens return the next one alongside.
+   */
+  static async refreshSession(refreshToken: string): Promise<{ token: string; refreshToken?: string } | null> {
+    try {
+      const response = await this.getApiClient().post<any>('/auth/refresh', { refreshToken });
+      const data = response?.data || response?.result;
+
+      if (!response?.success || !data?.token) {
+        throw new Error(response?.message || 'Token refresh failed');
+      }
+
+      return { token: data.token, refreshToken: data.refreshToken };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Session refresh failed:', errorMessage);
+      return null;
+    }
+  }
+
+  /**
+   * Issue and expiry time of a JWT in milliseconds, or null if it has no exp
+   */
+  static getTokenExpiry(token: string): { expiresAt: number; issuedAt?: number } | null {
+    try {
+      const parts = token?.split('.') || [];
+      if (parts.length !== 3) return null;
+
+      const payload = JSON.parse(this.base64Decode(parts[1]));
+      if (typeof payload.exp !== 'number') return null;
+
+      return {
+        expiresAt: payload.exp * 1000,
+        issuedAt: typeof payload.iat === 'number' ? payload.iat * 1000 : undefined
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
   /**
    * Get valid token (refresh if needed)
    */
@@ -0,0 +1,177 @@
+// src/services/ChatSessionManager.ts - Several signed-in accounts in one process
+import { AppConfig } from '../config/AppConfig';
+import { UserRegistrationData, ValidationException } from '../types/chat';
+import { logger } from '../utils/Logger';
+
+import { ChatService } from './chatService';
+import { ServiceContainer } from './factories/ServiceContainer';
+
+export interface ChatSessionInfo {
+  userId: string;
+  userRole: string;
+  isActive: boolean;
+  isConnected: boolean;
+}
+
+interface ChatSession {
+  userId: string;
+  userRole: string;
+  container: ServiceContainer;
+  service: ChatService;
+}
+
+/**
+ * Runs one isolated ChatService per account.
+ *
+ * Each session gets its own ServiceContainer (API clients, socket, offline
+ * queue, caches) and storage prefix, so a usta and a customer can
+ * talk to each other from the same process. One session is active at a time;
+ * it is the one the Redux store (if any) follows.
+ */
+export class ChatSessionManager {
+  private sessions = new Map<string, ChatSession>();
+  private activeUserId: string | null = null;
+  private reduxStore: any = null;
+  private listeners = new Set<(session: ChatService | null, userId: string | null) => void>();
+
+  /**
+   * Sign an account in. The first session becomes the active one.
+   */
+  async addSession(
+    userId: string,
+    userRole: string,
+    token: string,
+    options: { refreshToken?: string | null; userDetails?: UserRegistrationData } = {}
+  ): Promise<ChatService> {
+    if (!userId?.trim()) throw new ValidationException('User ID is required');
+    if (this.sessions.has(userId)) {
+      throw new ValidationException(`A session for user ${userId} already exists`, { userId });
+    }
+
+    const container = new ServiceContainer();
+    const service = new ChatService({
+      container,
+      storageKeyPrefix: `${AppConfig.storage.keyPrefix}${userId}_`
+    });
+
+    try {
+      await service.initialize(userId, userRole, token, undefined, options.userDetails);
+      if (options.refreshToken) {
+        service.updateToken(token, options.refreshToken);
+      }
+    } catch (error) {
+      await service.disconnect();
+      container.dispose();
+      throw error;
+    }
+
+    this.sessions.set(userId, { userId, userRole, container, service });
+    logger.info('Chat session added', { userId, userRole, sessions: this.sessions.size });
+
+    if (!this.activeUserId) {
+      this.switchTo(userId);
+    }
+
+    return service;
+  }
+
+  /**
+   * Make another signed-in account the active one
+   */
+  switchTo(userId: string): ChatService {
+    const session = this.sessions.get(userId);
+    if (!session) {
+      throw new ValidationException(`No session for user ${userId}`, { userId });
+    }
+
+    if (this.activeUserId !== userId) {
+      this.getActiveSession()?.setReduxStore(null);
+      session.service.setReduxStore(this.reduxStore);
+      this.activeUserId = userId;
+
+      logger.info('Active chat session switched', { userId });
+      this.notify();
+    }
+
+    return session.service;
+  }
+
+  getActiveSession(): ChatService | null {
+    return this.activeUserId ? this.sessions.get(this.activeUserId)?.service || null : null;
+  }
+
+  getActiveUserId(): string | null {
+    return this.activeUserId;
+  }
+
+  getSession(userId: string): ChatService | undefined {
+    return this.sessions.get(userId)?.service;
+  }
+
+  listSessions(): ChatSessionInfo[] {
+    return Array.from(this.sessions.values()).map(session => ({
+      userId: session.userId,
+      userRole: session.userRole,
+      isActive: session.userId === this.activeUserId,
+      isConnected: session.service.isConnected()
+    }));
+  }
+
+  /**
+   * Sign an account out and release everything its session owned.
+   * When it was active, the next remaining session takes over.
+   */
+  async removeSession(userId: string): Promise<void> {
+    const session = this.sessions.get(userId);
+    if (!session) return;
+
+    this.sessions.delete(userId);
+    await session.service.disconnect();
+    session.container.dispose();
+    logger.info('Chat session removed', { userId, sessions: this.sessions.size });
+
+    if (this.activeUserId === userId) {
+      this.activeUserId = null;
+      const next = this.sessions.keys().next();
+      if (next.done) {
+        this.notify();
+      } else {
+        this.switchTo(next.value);
+      }
+    }
+  }
+
+  async removeAllSessions(): Promise<void> {
+    for (const userId of Array.from(this.sessions.keys())) {
+      await this.removeSession(userId);
+    }
+  }
+
+  /**
+   * Store the active session dispatches to; inactive sessions stay silent
+   */
+  setReduxStore(store: any): void {
+    this.reduxStore = store;
+    this.getActiveSession()?.setReduxStore(store);
+  }
+
+  onActiveSessionChanged(callback: (session: ChatService | null, userId: string | null) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  private notify(): void {
+    const active = this.getActiveSession();
+    this.listeners.forEach(listener => {
+      try {
+        listener(active, this.activeUserId);
+      } catch (error) {
+        logger.error('Error in active session listener:', error);
+      }
+    });
+  }
+}
+
+export const chatSessionManager = new ChatSessionManager();
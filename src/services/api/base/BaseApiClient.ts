@@ -32,6 +32,14 @@ export interface BaseApiClientConfig extends ApiClientConfig {
   clientType?: 'default' | 'chat' | 'notification' | 'formdata' | 'otp';
 }
 
+/**
+ * Source of fresh access tokens, shared by every client of a session
+ */
+export interface TokenProvider {
+  getValidToken(): Promise<string | null>;
+  refresh(staleToken?: string | null): Promise<string | null>;
+}
+
 interface RequestMetadata {
   startTime: number;
   retryCount: number;
@@ -54,6 +62,7 @@ export class BaseApiClient {
   protected config: Required<ApiClientConfig>;
   protected token: string | null = null;
   protected clientType: string;
+  protected tokenProvider: TokenProvider | null = null;
   
   private requestMetadata = new WeakMap<InternalAxiosRequestConfig, RequestMetadata>();
   
@@ -157,7 +166,12 @@ export class BaseApiClient {
   private setupInterceptors(): void {
     // Request interceptor
     this.axiosInstance.interceptors.request.use(
-      (config: InternalAxiosRequestConfig) => {
+      async (config: InternalAxiosRequestConfig) => {
+        // Renew a token that is about to expire before it goes out
+        if (this.tokenProvider && !config._retry) {
+          await this.applyProviderToken(config);
+        }
+
         // Clean headers before sending
         this.cleanRequestHeaders(config);
         
@@ -292,7 +306,20 @@ export class BaseApiClient {
     originalRequest._retry = true;
 
     try {
-      if (this.token && AuthService.refreshToken) {
+      if (this.tokenProvider) {
+        // Requests rejected together wait on the same refresh; one that was
+        // sent with an already replaced token just retries with the new one
+        const sentToken = this.getBearerToken(originalRequest);
+        const newToken = await this.tokenProvider.refresh(sentToken);
+
+        if (newToken) {
+          if (newToken !== this.token) {
+            this.setToken(newToken);
+          }
+          originalRequest.headers['Authorization'] = `Bearer ${newToken}`;
+          return this.axiosInstance(originalRequest);
+        }
+      } else if (this.token && AuthService.refreshToken) {
         logger.info('Attempting to refresh token...');
         const newToken = await AuthService.refreshToken();
         
@@ -450,6 +477,18 @@ export class BaseApiClient {
     logger.debug('API client token updated');
   }
 
+  getToken(): string | null {
+    return this.token;
+  }
+
+  /**
+   * Let a token manager supply tokens: requests wait for a renewal when the
+   * token is about to expire, and a 401 is retried once with a refreshed one
+   */
+  setTokenProvider(provider: TokenProvider | null): void {
+    this.tokenProvider = provider;
+  }
+
   removeToken(): void {
     this.token = null;
     delete this.axiosInstance.defaults.headers.common['Authorization'];
@@ -526,6 +565,25 @@ export class BaseApiClient {
   // PRIVATE HELPERS
   // ==========================================
 
+  private async applyProviderToken(config: InternalAxiosRequestConfig): Promise<void> {
+    try {
+      const token = await this.tokenProvider!.getValidToken();
+      if (!token) return;
+
+      if (token !== this.token) {
+        this.setToken(token);
+      }
+      config.headers['Authorization'] = `Bearer ${token}`;
+    } catch (error) {
+      logger.warn('Could not get a valid token, sending with the current one', error);
+    }
+  }
+
+  private getBearerToken(config: InternalAxiosRequestConfig): string | null {
+    const header = config.headers?.['Authorization'];
+    return typeof header === 'string' && header.startsWith('Bearer ') ? header.slice(7) : this.token;
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
@@ -544,6 +602,18 @@ export class BaseApiClient {
   }
 }
 
+// ==========================================
+// RESPONSE HELPERS
+// ==========================================
+
+/**
+ * The body of a client response. BaseApiClient already returns the body;
+ * services written against the axios response shape read it through here.
+ */
+export function responseBody<T = any>(response: any): T {
+  return response?.data ?? response;
+}
+
 // ==========================================
 // DEFAULT EXPORT
 // ==========================================
@@ -257,6 +257,94 @@ export class ConversationApiClient extends BaseApiClient {
     return this.updateConversationStatus(conversationId, 'archived');
   }
 
+  /**
+   * Add members to a group conversation
+   */
+  async addParticipants(conversationId: string, userIds: string[]): Promise<ServerConversation> {
+    try {
+      logger.info('Adding participants:', { conversationId, userIds });
+
+      const response = await this.post<any>(`/conversations/${conversationId}/participants`, { userIds });
+
+      logger.info('Participants added');
+      return this.transformServerConversation(response.conversation);
+    } catch (error: any) {
+      this.safeLogError('Error adding participants', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a member from a group conversation
+   */
+  async removeParticipant(conversationId: string, userId: string): Promise<ServerConversation> {
+    try {
+      logger.info('Removing participant:', { conversationId, userId });
+
+      const response = await this.delete<any>(`/conversations/${conversationId}/participants/${userId}`);
+
+      logger.info('Participant removed');
+      return this.transformServerConversation(response.conversation);
+    } catch (error: any) {
+      this.safeLogError('Error removing participant', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Leave a group conversation
+   */
+  async leaveConversation(conversationId: string): Promise<void> {
+    try {
+      logger.info('Leaving conversation:', conversationId);
+
+      await this.post(`/conversations/${conversationId}/leave`);
+
+      logger.info('Left conversation');
+    } catch (error: any) {
+      this.safeLogError('Error leaving conversation', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Make a member an administrator of the conversation
+   */
+  async promoteToAdmin(conversationId: string, userId: string): Promise<ServerConversation> {
+    try {
+      logger.info('Promoting participant to admin:', { conversationId, userId });
+
+      const response = await this.post<any>(`/conversations/${conversationId}/admins`, { userId });
+
+      logger.info('Participant promoted');
+      return this.transformServerConversation(response.conversation);
+    } catch (error: any) {
+      this.safeLogError('Error promoting participant', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set or clear (null) a member's nickname in the conversation
+   */
+  async setParticipantNickname(
+    conversationId: string,
+    userId: string,
+    nickname: string | null
+  ): Promise<ServerConversation> {
+    try {
+      logger.info('Setting participant nickname:', { conversationId, userId, nickname });
+
+      const response = await this.patch<any>(`/conversations/${conversationId}/participants/${userId}`, { nickname });
+
+      logger.info('Participant nickname updated');
+      return this.transformServerConversation(response.conversation);
+    } catch (error: any) {
+      this.safeLogError('Error setting participant nickname', error);
+      throw error;
+    }
+  }
+
   /**
    * Search conversations
    */
@@ -323,7 +411,10 @@ export class ConversationApiClient extends BaseApiClient {
         name: p.name || 'Unknown',
         avatar: p.avatar || '',
         isOnline: p.isOnline || false,
-        lastSeen: p.lastSeen
+        lastSeen: p.lastSeen,
+        permissions: p.permissions,
+        nickname: p.nickname || undefined,
+        leftAt: p.leftAt
       })),
       metadata: {
         jobId: data.jobId || data.metadata?.jobId,
@@ -340,7 +431,8 @@ export class ConversationApiClient extends BaseApiClient {
       lastMessage: data.lastMessage ? this.transformMessage(data.lastMessage) : undefined,
       unreadCount: data.unreadCount || 0,
       createdAt: data.createdAt,
-      updatedAt: data.updatedAt || data.lastMessageAt
+      updatedAt: data.updatedAt || data.lastMessageAt,
+      adminIds: data.adminIds
     };
   }
 
@@ -2,9 +2,12 @@
 import { BaseApiClient, BaseApiClientConfig } from '../base/BaseApiClient';
 import { 
   Attachment,
-  AttachmentType
+  AttachmentType,
+  FileRejectionReason,
+  FileUploadException
 } from '../../../types/chat';
 import { AppConfig } from '../../../config/AppConfig';
+import { validateAttachment } from '../../../utils/attachmentValidation';
 
 /**
  * File API Client - handles file upload operations only
@@ -208,49 +211,24 @@ export class FileApiClient extends BaseApiClient {
   }
 
   /**
-   * Validate file before upload
+   * Validate file before upload, using the shared attachment rules
    */
-  validateFile(file: any, type: AttachmentType): {
+  async validateFile(file: any, type: AttachmentType): Promise<{
     isValid: boolean;
     errors: string[];
-  } {
-    const errors: string[] = [];
-
-    // Check if file exists
-    if (!file) {
-      errors.push('File is required');
-      return { isValid: false, errors };
-    }
-
-    // Check file size
-    const maxSizes = {
-      image: 5 * 1024 * 1024, // 5MB
-      audio: 15 * 1024 * 1024, // 15MB
-      file: 10 * 1024 * 1024, // 10MB
-      video: 50 * 1024 * 1024, // 50MB
-      document: 10 * 1024 * 1024, // 10MB
-    };
-
-    const maxSize = maxSizes[type] || maxSizes.file;
-    if (file.size && file.size > maxSize) {
-      errors.push(`File size exceeds maximum allowed size (${this.formatFileSize(maxSize)})`);
-    }
-
-    // Check file type
-    const allowedTypes = this.getAllowedMimeTypes(type);
-    if (file.type && !allowedTypes.includes(file.type)) {
-      errors.push(`File type ${file.type} is not allowed for ${type}`);
+    reason?: FileRejectionReason;
+  }> {
+    if (file?.name && file.name.length > 255) {
+      return { isValid: false, errors: ['File name is too long (max 255 characters)'] };
     }
 
-    // Check file name
-    if (file.name && file.name.length > 255) {
-      errors.push('File name is too long (max 255 characters)');
+    try {
+      await validateAttachment(file, type);
+      return { isValid: true, errors: [] };
+    } catch (error: any) {
+      if (!(error instanceof FileUploadException)) throw error;
+      return { isValid: false, errors: [error.message], reason: error.reason };
     }
-
-    return {
-      isValid: errors.length === 0,
-      errors
-    };
   }
 
   /**
@@ -340,34 +318,4 @@ export class FileApiClient extends BaseApiClient {
       uploadedAt: data.uploadedAt || data.createdAt
     };
   }
-
-  /**
-   * Get allowed MIME types for attachment type
-   */
-  private getAllowedMimeTypes(type: AttachmentType): string[] {
-    switch (type) {
-      case AttachmentType.IMAGE:
-        return ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
-      case AttachmentType.AUDIO:
-        return ['audio/mp4', 'audio/mpeg', 'audio/wav', 'audio/m4a', 'audio/aac'];
-      case AttachmentType.VIDEO:
-        return ['video/mp4', 'video/quicktime', 'video/x-msvideo', 'video/webm'];
-      case AttachmentType.DOCUMENT:
-        return ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
-      case AttachmentType.FILE:
-      default:
-        return ['*/*']; // Allow all types for generic files
-    }
-  }
-
-  /**
-   * Format file size for display
-   */
-  private formatFileSize(bytes: number): string {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
-  }
 }
\ No newline at end of file
@@ -328,6 +328,38 @@ export class MessageApiClient extends BaseApiClient {
     }
   }
 
+  /**
+   * Get messages newer than a cursor (message id or ISO timestamp), oldest first
+   */
+  async getMessagesSince(conversationId: string, after: string, limit: number = 100): Promise<{
+    success: boolean;
+    messages: Message[];
+    hasMore: boolean;
+    total: number;
+  }> {
+    try {
+      logger.debug('Getting messages since cursor:', { conversationId, after });
+      
+      const response = await this.get<any>(
+        `/messages/conversation/${conversationId}?after=${encodeURIComponent(after)}&limit=${limit}`
+      );
+
+      if (this.isSuccessResponse(response)) {
+        return {
+          success: true,
+          messages: (response.messages || []).map((msg: any) => this.transformMessage(msg)),
+          hasMore: response.hasMore || false,
+          total: response.total || 0
+        };
+      }
+      
+      throw new Error(response?.message || 'Failed to fetch messages');
+    } catch (error: any) {
+      this.safeLogError('Error fetching messages since cursor', error);
+      throw error;
+    }
+  }
+
   /**
    * Get messages with filters
    */
@@ -407,9 +439,12 @@ export class MessageApiClient extends BaseApiClient {
       isEdited: data.content?.edited || false,
       editedAt: data.content?.editedAt,
       mentions: data.content?.mentions || data.mentions,
+      expiresAt: data.expiresAt,
       reactions: data.content?.reactions || data.reactions,
       deliveredAt: data.deliveredAt,
-      readAt: data.readAt
+      readAt: data.readAt,
+      replyCount: data.replyCount,
+      lastReplyAt: data.lastReplyAt
     };
   }
 
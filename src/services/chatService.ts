@@ -1,7 +1,8 @@
 import { v4 as uuidv4 } from 'uuid';
 
 // Import modular services
-import { ServiceFactory } from './factories/ServiceFactory';
+import { ServiceContainer } from './factories/ServiceContainer';
+import { DEFAULT_SCOPE, ServiceFactory } from './factories/ServiceFactory';
 import {
   IMessageService,
   IConversationService,
@@ -10,7 +11,13 @@ import {
   IRealtimeService,
   IOfflineQueueService,
   IStorageService,
-  ICacheService
+  ICacheService,
+  IMessageStore,
+  IMessageSyncService,
+  IMessageExpiryService,
+  IChatArchiveService,
+  IDraftService,
+  DraftContent
 } from './interfaces';
 
 // Import types
@@ -38,9 +45,41 @@ import {
   AuthException,
   UploadFileResponse,
   OnlineUser,
-  Attachment
+  Attachment,
+  SyncResult,
+  MessageReactionEvent,
+  ChatNotification,
+  MessageThread,
+  ThreadUpdateEvent,
+  MessageExpiryEvent,
+  ParticipantsAddedEvent,
+  ParticipantRemovedEvent,
+  ParticipantUpdatedEvent,
+  ConversationPermissions,
+  PermissionDeniedReason,
+  PermissionException,
+  TranscriptFormat,
+  ConversationExport,
+  ChatArchive,
+  ArchiveImportResult,
+  MessageDraft,
+  DraftChangeEvent,
+  LastActiveConversation,
+  ResumableUploadOptions,
+  ResumableUploadState,
+  QueuedUpload,
+  VoiceMessageMetadata,
+  VoiceMessageOptions
 } from '../types/chat';
 
+import { AppConfig } from '../config/AppConfig';
+import { sniffMimeType, validateAttachment } from '../utils/attachmentValidation';
+import { decodeAudio, summarizeAudio } from '../utils/audioWaveform';
+import { parseMentions } from '../utils/mentions';
+import { describeDeniedReason, getDeniedReason, resolvePermissions } from '../utils/permissions';
+import { fromQueuedUpload, toQueuedUpload } from '../utils/queuedUpload';
+import { TRANSCRIPT_FORMATS, buildTranscript, renderTranscript } from '../utils/transcript';
+
 // Import store types
 import { IChatStore, IChatActions, NoOpStore } from '../types/store';
 
@@ -79,13 +118,38 @@ const CHAT_CONFIG = {
   DEFAULT_PAGE_SIZE: 50,
   DEFAULT_CONVERSATION_LIMIT: 20,
   ONLINE_USERS_TIMEOUT: 5000, // 5 seconds
+  EXPORT_PAGE_SIZE: 100,
 } as const;
 
+// File extension for a voice recording's MIME type
+const VOICE_EXTENSIONS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/m4a': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/aac': 'aac'
+};
+
+// What a send used up from its conversation's draft
+interface SentDraftParts {
+  text?: boolean;                         // The draft's text went out
+  replyTo?: string;                       // Message the send replied to
+  file?: { name?: string; uri?: string }; // Attachment the send carried
+}
+
+export interface ChatServiceOptions {
+  container?: ServiceContainer; // Where this instance's services come from
+  scope?: string;               // ServiceFactory scope to use when no container is given
+  storageKeyPrefix?: string;    // Keeps session, queue and history apart from other accounts
+}
+
 /**
  * Refactored ChatService using modular services
  * This maintains the same external API but uses decomposed services internally
  */
-class ChatService {
+export class ChatService {
   // Service instances
   private messageService!: IMessageService;
   private conversationService!: IConversationService;
@@ -95,6 +159,11 @@ class ChatService {
   private offlineQueueService!: IOfflineQueueService;
   private storageService!: IStorageService;
   private cacheService!: ICacheService;
+  private messageStore!: IMessageStore;
+  private syncService!: IMessageSyncService;
+  private expiryService!: IMessageExpiryService;
+  private draftService!: IDraftService;
+  private archiveService!: IChatArchiveService;
 
   // State (keeping essential state that coordinates between services)
   private userId: string = '';
@@ -108,8 +177,16 @@ class ChatService {
   // Event cleanup functions
   private eventCleanupFunctions: Array<() => void> = [];
   private cleanupInterval: number | null = null;
+  private queueRetryTimer: number | null = null;
+  private notificationListeners = new Set<(notification: ChatNotification) => void>();
+  private removedFromConversationListeners = new Set<(event: ParticipantRemovedEvent) => void>();
+
+  private readonly container: ServiceContainer;
+  private readonly storageKeyPrefix?: string;
 
-  constructor() {
+  constructor(options: ChatServiceOptions = {}) {
+    this.container = options.container || ServiceFactory.getContainer(options.scope || DEFAULT_SCOPE);
+    this.storageKeyPrefix = options.storageKeyPrefix;
     this.startMemoryCleanup();
   }
 
@@ -155,10 +232,12 @@ class ChatService {
       }
 
       // Configure and create services
-      ServiceFactory.configure({ 
+      this.container.configure({ 
         token,
+        userId,
         platform: Platform.OS as any,
-        enableLogging: process.env.NODE_ENV === 'development'
+        enableLogging: process.env.NODE_ENV === 'development',
+        storageKeyPrefix: this.storageKeyPrefix
       });
       this.createServices();
 
@@ -170,12 +249,17 @@ class ChatService {
 
       // Load offline queue
       await this.offlineQueueService.loadQueue();
+
+      // Resume disappearing-message timers from the last session
+      await this.expiryService.start();
+
+      await this.draftService.start();
       
       // Process offline queue if connected
       if (this.realtimeService.isConnected() && this.offlineQueueService.getQueueSize() > 0) {
         console.log(`📤 Processing ${this.offlineQueueService.getQueueSize()} offline messages...`);
         setTimeout(() => {
-          this.offlineQueueService.processQueue();
+          this.flushOfflineQueue();
         }, 3000);
       }
 
@@ -197,14 +281,19 @@ class ChatService {
 
   private createServices(): void {
     // Create all services using factory
-    this.messageService = ServiceFactory.createMessageService();
-    this.conversationService = ServiceFactory.createConversationService();
-    this.userService = ServiceFactory.createUserService();
-    this.fileService = ServiceFactory.createFileService();
-    this.realtimeService = ServiceFactory.createRealtimeService();
-    this.offlineQueueService = ServiceFactory.createOfflineQueueService();
-    this.storageService = ServiceFactory.createStorageService();
-    this.cacheService = ServiceFactory.createCacheService();
+    this.messageService = this.container.createMessageService();
+    this.conversationService = this.container.createConversationService();
+    this.userService = this.container.createUserService();
+    this.fileService = this.container.createFileService();
+    this.realtimeService = this.container.createRealtimeService();
+    this.offlineQueueService = this.container.createOfflineQueueService();
+    this.storageService = this.container.createStorageService();
+    this.cacheService = this.container.createCacheService();
+    this.messageStore = this.container.createMessageStore();
+    this.syncService = this.container.createSyncService();
+    this.expiryService = this.container.createExpiryService();
+    this.draftService = this.container.createDraftService();
+    this.archiveService = this.container.createArchiveService();
 
     // Configure offline queue with send function
     this.offlineQueueService.setSendFunction(
@@ -214,10 +303,29 @@ class ChatService {
         message.receiverId || '',
         {
           replyTo: message.replyTo,
-          attachments: message.attachments
+          attachments: message.attachments,
+          mentions: message.mentions,
+          expiresAt: message.expiresAt,
+          type: message.type
         }
       )
     );
+
+    // Files picked while offline; keyed by the message so a restart resumes the same upload
+    this.offlineQueueService.setUploadFunction(
+      async (upload: QueuedUpload, message: Message) => {
+        const attachment = await this.fileService.uploadFileResumable(
+          fromQueuedUpload(upload),
+          upload.type,
+          { uploadKey: message.clientTempId }
+        );
+        return {
+          ...attachment,
+          duration: upload.duration ?? attachment.duration,
+          metadata: upload.metadata ? { ...attachment.metadata, ...upload.metadata } : attachment.metadata
+        };
+      }
+    );
   }
 
 
@@ -229,7 +337,14 @@ class ChatService {
     
     // Process offline queue when reconnected
     if (state === ConnectionState.CONNECTED && this.offlineQueueService.getQueueSize() > 0) {
-      this.offlineQueueService.processQueue();
+      this.flushOfflineQueue();
+    }
+
+    // Catch up on whatever arrived while we were away
+    if (state === ConnectionState.CONNECTED && this.isInitialized) {
+      this.syncAll().catch(error => {
+        console.warn('Delta sync after reconnect failed:', error);
+      });
     }
   });
   this.eventCleanupFunctions.push(connectionCleanup);
@@ -240,19 +355,11 @@ class ChatService {
     
     // Cache the message
     this.cacheService.cacheMessage(message.conversationId, message);
+    this.persistMessage(message);
+    this.expiryService.track([message]);
 
     // Update Redux for incoming messages
-    if (message.senderId !== this.userId) {
-      const conversation = this.cacheService.getCachedConversation(message.conversationId);
-      this.safeDispatch(this.reduxActions.handleNewMessage({
-        conversationId: message.conversationId,
-        senderId: message.senderId,
-        messagePreview: message.content.substring(0, 50),
-        timestamp: message.timestamp,
-        otherUserName: this.getOtherUserName(conversation),
-        jobTitle: conversation?.metadata?.jobTitle
-      }));
-    }
+    this.dispatchIncomingMessage(message);
   });
   this.eventCleanupFunctions.push(messageCleanup);
 
@@ -291,6 +398,7 @@ class ChatService {
         
         // Update in cache
         this.cacheService.cacheMessage(data.conversationId, updatedMessage);
+        this.persistMessage(updatedMessage);
         
         console.log('✅ Temp message updated to SENT');
       } else {
@@ -313,6 +421,91 @@ class ChatService {
     }));
   });
   this.eventCleanupFunctions.push(typingCleanup);
+
+  // Reactions from other participants
+  const reactionCleanup = this.realtimeService.onReactionChanged((event) => {
+    const updated = this.cacheService.applyReaction(event);
+    if (updated) {
+      this.persistMessage(updated);
+    }
+  });
+  this.eventCleanupFunctions.push(reactionCleanup);
+
+  // Reply counts on thread roots
+  const threadCleanup = this.realtimeService.onThreadUpdated((event) => {
+    const root = this.cacheService.applyThreadUpdate(event);
+    if (root) {
+      this.persistMessage(root);
+    }
+  });
+  this.eventCleanupFunctions.push(threadCleanup);
+
+  // Group membership - keep cached participant lists current
+  const participantsAddedCleanup = this.realtimeService.onParticipantsAdded((event) => {
+    const conversation = this.cacheService.getCachedConversation(event.conversationId);
+    if (!conversation) {
+      // We were just added - fetch the whole conversation
+      if (event.participants.some(p => p.userId === this.userId)) {
+        this.conversationService.getConversation(event.conversationId).catch(error => {
+          console.warn('Failed to load conversation after being added:', error);
+        });
+      }
+      return;
+    }
+
+    const addedIds = new Set(event.participants.map(p => p.userId));
+    this.cacheService.cacheConversation({
+      ...conversation,
+      participants: [
+        ...conversation.participants.filter(p => !addedIds.has(p.userId)),
+        ...event.participants
+      ],
+      updatedAt: event.timestamp
+    });
+  });
+  this.eventCleanupFunctions.push(participantsAddedCleanup);
+
+  const participantRemovedCleanup = this.realtimeService.onParticipantRemoved((event) => {
+    if (event.userId === this.userId) {
+      this.handleRemovedFromConversation(event);
+      return;
+    }
+
+    const conversation = this.cacheService.getCachedConversation(event.conversationId);
+    if (!conversation) return;
+
+    this.cacheService.cacheConversation({
+      ...conversation,
+      participants: conversation.participants.map(p =>
+        p.userId === event.userId ? { ...p, isActive: false, leftAt: event.timestamp } : p
+      ),
+      adminIds: conversation.adminIds?.filter(id => id !== event.userId),
+      updatedAt: event.timestamp
+    });
+  });
+  this.eventCleanupFunctions.push(participantRemovedCleanup);
+
+  const participantUpdatedCleanup = this.realtimeService.onParticipantUpdated((event) => {
+    const conversation = this.cacheService.getCachedConversation(event.conversationId);
+    if (!conversation) return;
+
+    this.cacheService.cacheConversation({
+      ...conversation,
+      participants: conversation.participants.map(p =>
+        p.userId === event.participant.userId ? { ...p, ...event.participant } : p
+      ),
+      adminIds: event.adminIds || conversation.adminIds,
+      updatedAt: event.timestamp
+    });
+  });
+  this.eventCleanupFunctions.push(participantUpdatedCleanup);
+
+  // Token refreshed by the token manager
+  const tokenCleanup = this.container.createTokenManager().onTokenChanged((token) => {
+    this.token = token;
+    this.saveSession();
+  });
+  this.eventCleanupFunctions.push(tokenCleanup);
 }
 
   // ==========================================
@@ -414,6 +607,50 @@ class ChatService {
     return this.conversationService.updateConversationSettings(conversationId, settings);
   }
 
+  /**
+   * The current user's effective permissions, for enabling or disabling UI controls
+   */
+  async getMyPermissions(conversationId: string): Promise<ConversationPermissions> {
+    this.checkInitialized();
+    const conversation = await this.conversationService.getConversation(conversationId);
+    return resolvePermissions(conversation, this.userId);
+  }
+
+  async addParticipants(conversationId: string, userIds: string[]): Promise<ServerConversation> {
+    this.checkInitialized();
+    this.assertPermission(conversationId, 'canInviteUsers');
+    return this.conversationService.addParticipants(conversationId, userIds);
+  }
+
+  async removeParticipant(conversationId: string, userId: string): Promise<ServerConversation> {
+    this.checkInitialized();
+    this.assertPermission(conversationId, 'canManageConversation');
+    return this.conversationService.removeParticipant(conversationId, userId);
+  }
+
+  async leaveConversation(conversationId: string): Promise<void> {
+    this.checkInitialized();
+    await this.conversationService.leaveConversation(conversationId);
+    this.safeDispatch(this.reduxActions.removeConversation(conversationId));
+    this.cacheService.clearMessageCache(conversationId);
+    await this.purgeStoredConversation(conversationId);
+  }
+
+  async promoteToAdmin(conversationId: string, userId: string): Promise<ServerConversation> {
+    this.checkInitialized();
+    this.assertPermission(conversationId, 'canManageConversation');
+    return this.conversationService.promoteToAdmin(conversationId, userId);
+  }
+
+  async setParticipantNickname(
+    conversationId: string,
+    userId: string,
+    nickname: string | null
+  ): Promise<ServerConversation> {
+    this.checkInitialized();
+    return this.conversationService.setParticipantNickname(conversationId, userId, nickname);
+  }
+
   async searchConversations(searchTerm: string, options?: any): Promise<ServerConversation[]> {
     this.checkInitialized();
     return this.conversationService.searchConversations(searchTerm, options);
@@ -444,6 +681,7 @@ class ChatService {
     this.checkInitialized();
     
     const result = await this.messageService.getMessages(conversationId, options);
+    this.expiryService.track(result.messages);
     
     // Set active conversation
     if (options.page === 1 || !options.page) {
@@ -451,7 +689,11 @@ class ChatService {
       await this.saveLastActiveConversation(conversationId);
     }
     
-    return result;
+    // Expired messages wait for their purge in storage but are never shown
+    return {
+      ...result,
+      messages: result.messages.filter(message => !this.expiryService.isExpired(message))
+    };
   }
 
   async sendTextMessage(
@@ -461,21 +703,31 @@ class ChatService {
     replyTo?: string
   ): Promise<Message> {
     this.checkInitialized();
+    this.assertPermission(conversationId, 'canSendMessages');
+    
+    const mentions = this.resolveMentions(conversationId, text);
+    const expiresAt = this.expiryService.getExpiresAt(this.cacheService.getCachedConversation(conversationId));
     
     // Check connection state
     const connectionState = this.realtimeService.getConnectionState();
     
-    // If offline, queue the message
-    if (connectionState === ConnectionState.DISCONNECTED || 
-        connectionState === ConnectionState.ERROR) {
+    // If offline, queue the message (the offline-first service keeps its own outbox)
+    if (AppConfig.service.type !== 'offline-first' &&
+        (connectionState === ConnectionState.DISCONNECTED || 
+         connectionState === ConnectionState.ERROR)) {
       
-      const message = this.createOfflineMessage(conversationId, text, receiverId, replyTo);
+      const message = this.createOfflineMessage(conversationId, text, receiverId, { replyTo, mentions, expiresAt });
       await this.offlineQueueService.queueMessage(message);
+      this.expiryService.track([message]);
+      await this.clearDraftAfterSend(conversationId, { text: true, replyTo });
       return message;
     }
     
     // Send via message service
-    return this.messageService.sendMessage(conversationId, text, receiverId, { replyTo });
+    const message = await this.messageService.sendMessage(conversationId, text, receiverId, { replyTo, mentions, expiresAt });
+    this.expiryService.track([message]);
+    await this.clearDraftAfterSend(conversationId, { text: true, replyTo });
+    return message;
   }
 
   
@@ -486,12 +738,116 @@ class ChatService {
     receiverId: string
   ): Promise<void> {
     this.checkInitialized();
+    this.assertPermission(conversationId, 'canSendMessages', 'canSendAttachments');
+
+    const expiresAt = this.expiryService.getExpiresAt(this.cacheService.getCachedConversation(conversationId));
+    const sentFile: SentDraftParts = { file: { name: file?.name, uri: file?.uri || file?.path } };
+
+    // The offline-first service uploads now or keeps the file in its own outbox
+    if (AppConfig.service.type === 'offline-first') {
+      const message = await this.messageService.sendAttachment(conversationId, file, type, receiverId, undefined, { expiresAt });
+      this.expiryService.track([message]);
+      await this.clearDraftAfterSend(conversationId, sentFile);
+      return;
+    }
+
+    // Offline: keep the file and upload it when the queue is flushed
+    const connectionState = this.realtimeService.getConnectionState();
+    if (connectionState === ConnectionState.DISCONNECTED ||
+        connectionState === ConnectionState.ERROR) {
+
+      const upload = await toQueuedUpload(file, type, AppConfig.offlineQueue.maxUploadBytes);
+      const message = this.createOfflineMessage(conversationId, upload.name, receiverId, {
+        type: this.getMessageTypeFromAttachment(type),
+        expiresAt
+      });
+      await this.offlineQueueService.queueMessage(message, upload);
+      this.expiryService.track([message]);
+      await this.clearDraftAfterSend(conversationId, sentFile);
+      return;
+    }
     
-    // Upload file first
+    // Upload once (images are scaled and stripped of EXIF on the way) and send what was uploaded
     const attachment = await this.fileService.uploadFile(file, type);
-    
-    // Send as message
-    await this.messageService.sendAttachment(conversationId, file, type, receiverId);
+    const message = await this.messageService.sendMessage(conversationId, attachment.name || 'Attachment', receiverId, {
+      type: this.getMessageTypeFromAttachment(type),
+      attachments: [attachment],
+      expiresAt
+    });
+    this.expiryService.track([message]);
+    await this.clearDraftAfterSend(conversationId, sentFile);
+  }
+
+  /**
+   * Send a recording as a voice message. Its duration and waveform are
+   * measured here and go out in the attachment's metadata, so the other side
+   * can draw the message before fetching any audio.
+   */
+  async sendVoiceMessage(
+    conversationId: string,
+    audioBuffer: ArrayBuffer | Uint8Array,
+    receiverId: string,
+    options: VoiceMessageOptions = {}
+  ): Promise<Message> {
+    this.checkInitialized();
+    this.assertPermission(conversationId, 'canSendMessages', 'canSendAttachments');
+
+    const bytes = audioBuffer instanceof Uint8Array ? audioBuffer : new Uint8Array(audioBuffer);
+    const mimeType = options.mimeType || sniffMimeType(bytes.subarray(0, 64)) || 'application/octet-stream';
+    const file = {
+      name: options.name || `voice-${Date.now()}.${VOICE_EXTENSIONS[mimeType.split(';')[0]] || 'audio'}`,
+      type: mimeType,
+      size: bytes.byteLength,
+      data: bytes
+    };
+    await validateAttachment(file, AttachmentType.AUDIO);
+
+    const { duration, waveform, sampleRate } = summarizeAudio(await decodeAudio(bytes));
+    if (duration === 0) {
+      throw new ValidationException('Voice message has no audio');
+    }
+
+    const metadata: VoiceMessageMetadata = { voice: true, duration, waveform, sampleRate };
+    const expiresAt = this.expiryService.getExpiresAt(this.cacheService.getCachedConversation(conversationId));
+
+    const connectionState = this.realtimeService.getConnectionState();
+    if (AppConfig.service.type !== 'offline-first' &&
+        (connectionState === ConnectionState.DISCONNECTED ||
+         connectionState === ConnectionState.ERROR)) {
+
+      const upload = {
+        ...await toQueuedUpload(file, AttachmentType.AUDIO, AppConfig.offlineQueue.maxUploadBytes),
+        duration,
+        metadata
+      };
+      const message = this.createOfflineMessage(conversationId, '', receiverId, {
+        type: MessageType.AUDIO,
+        replyTo: options.replyTo,
+        expiresAt
+      });
+      await this.offlineQueueService.queueMessage(message, upload);
+      this.expiryService.track([message]);
+      await this.clearDraftAfterSend(conversationId, { replyTo: options.replyTo });
+      return message;
+    }
+
+    const uploaded = await this.fileService.uploadAudio({ ...file, duration });
+    const attachment: Attachment = {
+      ...uploaded,
+      type: AttachmentType.AUDIO,
+      duration,
+      metadata: { ...uploaded.metadata, ...metadata }
+    };
+
+    const message = await this.messageService.sendMessage(conversationId, '', receiverId, {
+      type: MessageType.AUDIO,
+      attachments: [attachment],
+      replyTo: options.replyTo,
+      expiresAt
+    });
+    this.expiryService.track([message]);
+    await this.clearDraftAfterSend(conversationId, { replyTo: options.replyTo });
+    return message;
   }
 
   async markMessagesAsRead(conversationId: string, messageIds?: string[]): Promise<void> {
@@ -572,6 +928,8 @@ async sendFileMessage(
     throw new ValidationException('File size must be positive');
   }
   
+  this.assertPermission(conversationId, 'canSendMessages', 'canSendAttachments');
+  
   // Check connection state
   const connectionState = this.realtimeService.getConnectionState();
   
@@ -591,6 +949,7 @@ async sendFileMessage(
   
   // Determine message type from MIME type
   const messageType = this.getMessageTypeFromMime(fileType);
+  const sentParts: SentDraftParts = { text: !!caption, replyTo, file: { name: fileName, uri: fileUrl } };
   
   // Create message object
   const message: Message = {
@@ -605,7 +964,8 @@ async sendFileMessage(
     attachments: [attachment],
     replyTo: replyTo || undefined,
     conversationId,
-    jobId: undefined
+    jobId: undefined,
+    expiresAt: this.expiryService.getExpiresAt(this.cacheService.getCachedConversation(conversationId))
   };
   
   console.log('[ChatService] Sending file message:', {
@@ -627,6 +987,8 @@ async sendFileMessage(
     
     // Cache for local display
     this.cacheService.cacheMessage(conversationId, message);
+    this.expiryService.track([message]);
+    await this.clearDraftAfterSend(conversationId, sentParts);
     
     return message;
   }
@@ -645,6 +1007,7 @@ async sendFileMessage(
         replyTo,
         attachments: [attachment],
         clientTempId: tempId,  // ✅ CRITICAL: Pass it here
+        expiresAt: message.expiresAt,
         metadata: {
           originalFileName: fileName,
           fileType: fileType
@@ -664,6 +1027,8 @@ async sendFileMessage(
     this.cacheService.cacheMessage(conversationId, finalMessage);
     
     console.log('[ChatService] File message sent successfully:', sentMessage.id);
+    this.expiryService.track([finalMessage]);
+    await this.clearDraftAfterSend(conversationId, sentParts);
     
     return finalMessage;
     
@@ -749,6 +1114,25 @@ private getAttachmentTypeFromMime(mimeType: string): AttachmentType {
     return { attempted, successful, failed };
   }
 
+  /**
+   * Cached messages that mention the current user, newest first
+   */
+  getMyMentions(conversationId?: string): Message[] {
+    this.checkInitialized();
+    return this.cacheService.getMentions(this.userId, conversationId);
+  }
+
+  /**
+   * A message's thread: the root plus every reply, oldest first.
+   * Passing the id of a reply returns the thread it belongs to.
+   */
+  async getThread(rootMessageId: string): Promise<MessageThread> {
+    this.checkInitialized();
+    if (!rootMessageId) throw new ValidationException('Message ID is required');
+
+    return this.messageService.getThread(rootMessageId);
+  }
+
   getLocalMessages(conversationId: string): Message[] {
     return this.cacheService.getCachedMessages(conversationId);
   }
@@ -758,6 +1142,53 @@ private getAttachmentTypeFromMime(mimeType: string): AttachmentType {
     return messages.some(m => m.status === MessageStatus.FAILED);
   }
 
+  async addReaction(conversationId: string, messageId: string, emoji: string): Promise<void> {
+    this.checkInitialized();
+    if (!emoji?.trim()) throw new ValidationException('Emoji is required');
+
+    await this.messageService.addReaction(conversationId, messageId, emoji.trim());
+    this.persistCachedMessage(conversationId, messageId);
+  }
+
+  async removeReaction(conversationId: string, messageId: string, emoji: string): Promise<void> {
+    this.checkInitialized();
+    if (!emoji?.trim()) throw new ValidationException('Emoji is required');
+
+    await this.messageService.removeReaction(conversationId, messageId, emoji.trim());
+    this.persistCachedMessage(conversationId, messageId);
+  }
+
+  async editMessage(conversationId: string, messageId: string, content: string): Promise<Message> {
+    this.checkInitialized();
+    if (!content?.trim()) throw new ValidationException('Message content is required');
+    this.assertPermission(conversationId, 'canEditMessages');
+    this.assertOwnMessage(conversationId, messageId);
+
+    const updated = await this.messageService.editMessage(messageId, content.trim());
+    this.persistMessage(updated);
+    return updated;
+  }
+
+  /**
+   * Delete a message. Other people's messages can only be deleted by those
+   * who manage the conversation.
+   */
+  async deleteMessage(conversationId: string, messageId: string): Promise<void> {
+    this.checkInitialized();
+    this.assertPermission(conversationId, 'canDeleteMessages');
+
+    const conversation = this.cacheService.getCachedConversation(conversationId);
+    if (!conversation || !resolvePermissions(conversation, this.userId).canManageConversation) {
+      this.assertOwnMessage(conversationId, messageId);
+    }
+
+    await this.messageService.deleteMessage(messageId);
+    this.cacheService.removeMessage(conversationId, messageId);
+    this.messageStore.deleteMessage(conversationId, messageId).catch(error => {
+      console.warn('Failed to delete stored message:', error);
+    });
+  }
+
   // ==========================================
   // FILE METHODS (delegating to FileService)
   // ==========================================
@@ -786,6 +1217,29 @@ private getAttachmentTypeFromMime(mimeType: string): AttachmentType {
     };
   }
 
+  /**
+   * Chunked upload for large files; calling it again for the same file
+   * after a failure or restart continues from the last acknowledged chunk
+   */
+  async uploadFileResumable(
+    file: any,
+    type: AttachmentType = AttachmentType.FILE,
+    options?: ResumableUploadOptions
+  ): Promise<Attachment> {
+    this.checkInitialized();
+    return this.fileService.uploadFileResumable(file, type, options);
+  }
+
+  async getPendingUploads(): Promise<ResumableUploadState[]> {
+    this.checkInitialized();
+    return this.fileService.getPendingUploads();
+  }
+
+  async cancelResumableUpload(uploadKey: string): Promise<void> {
+    this.checkInitialized();
+    await this.fileService.cancelResumableUpload(uploadKey);
+  }
+
   // ==========================================
   // USER METHODS (delegating to UserService)
   // ==========================================
@@ -1022,6 +1476,20 @@ private getAttachmentTypeFromMime(mimeType: string): AttachmentType {
     return this.realtimeService?.isConnected() || false;
   }
 
+  /**
+   * Simulate losing the network: messages sent meanwhile go to the offline
+   * queue and are flushed once goOnline() has reconnected
+   */
+  goOffline(): void {
+    this.checkInitialized();
+    this.realtimeService.goOffline();
+  }
+
+  goOnline(): void {
+    this.checkInitialized();
+    this.realtimeService.goOnline();
+  }
+
   getConnectionState(): ConnectionState {
     return this.realtimeService?.getConnectionState() || ConnectionState.DISCONNECTED;
   }
@@ -1036,7 +1504,202 @@ private getAttachmentTypeFromMime(mimeType: string): AttachmentType {
 
   async processOfflineQueue(): Promise<void> {
     if (!this.isInitialized) return;
-    return this.offlineQueueService.processQueue();
+    return this.flushOfflineQueue();
+  }
+
+  /**
+   * Flush the queue, then wake up again when the next backed-off message is due
+   */
+  private async flushOfflineQueue(): Promise<void> {
+    this.clearQueueRetryTimer();
+    await this.offlineQueueService.processQueue();
+
+    const nextAttemptAt = this.offlineQueueService.getNextAttemptAt();
+    if (nextAttemptAt === null) return;
+
+    this.queueRetryTimer = setTimeout(() => {
+      this.queueRetryTimer = null;
+      // If we are offline the reconnect handler picks the queue up instead
+      if (this.realtimeService?.isConnected()) {
+        this.flushOfflineQueue();
+      }
+    }, Math.max(nextAttemptAt - Date.now(), 0)) as any;
+  }
+
+  private clearQueueRetryTimer(): void {
+    if (this.queueRetryTimer) {
+      clearTimeout(this.queueRetryTimer);
+      this.queueRetryTimer = null;
+    }
+  }
+
+  // ==========================================
+  // SYNC METHODS
+  // ==========================================
+
+  /**
+   * Fetch only the messages newer than this conversation's sync cursor
+   */
+  async syncConversation(conversationId: string): Promise<SyncResult> {
+    this.checkInitialized();
+
+    const result = await this.syncService.syncConversation(conversationId);
+    this.expiryService.track(result.newMessages);
+    result.newMessages.forEach(message => this.dispatchIncomingMessage(message));
+    return result;
+  }
+
+  /**
+   * Delta-sync every conversation we hold a cursor or cached copy for
+   */
+  async syncAll(): Promise<SyncResult[]> {
+    this.checkInitialized();
+
+    const results = await this.syncService.syncAll();
+    results.forEach(result => {
+      this.expiryService.track(result.newMessages);
+      result.newMessages.forEach(message => this.dispatchIncomingMessage(message));
+    });
+    return results;
+  }
+
+  // ==========================================
+  // EXPORT
+  // ==========================================
+
+  /**
+   * Render the full history of a conversation as a JSON, HTML or plain text
+   * transcript. Pages through the server history rather than the local
+   * cache, so the transcript is complete even on a fresh client.
+   */
+  async exportConversation(conversationId: string, format: TranscriptFormat = 'json'): Promise<ConversationExport> {
+    this.checkInitialized();
+
+    if (!TRANSCRIPT_FORMATS.includes(format)) {
+      throw new ValidationException(`Unsupported export format: ${format}`, { format, supported: TRANSCRIPT_FORMATS });
+    }
+
+    const conversation = await this.conversationService.getConversation(conversationId);
+    const messages = await this.fetchFullHistory(conversationId);
+
+    return renderTranscript(buildTranscript(conversation, messages), format);
+  }
+
+  /**
+   * Every message of a conversation, one page at a time (newest page first)
+   */
+  private async fetchFullHistory(conversationId: string): Promise<Message[]> {
+    const apiClient = this.container.createMessageApiClient();
+    const messages = new Map<string, Message>();
+
+    for (let page = 1; ; page++) {
+      const result = await apiClient.getMessages(conversationId, page, CHAT_CONFIG.EXPORT_PAGE_SIZE);
+      result.messages.forEach(message => messages.set(message.id, message));
+
+      if (!result.hasMore || result.messages.length === 0) break;
+    }
+
+    return Array.from(messages.values());
+  }
+
+  // ==========================================
+  // DRAFTS
+  // ==========================================
+
+  /**
+   * Remember unsent text/attachments for a conversation. Safe to call on
+   * every keystroke; the write happens once typing pauses.
+   */
+  saveDraft(conversationId: string, content: DraftContent): void {
+    this.checkInitialized();
+    this.draftService.saveDraft(conversationId, content);
+  }
+
+  async getDraft(conversationId: string): Promise<MessageDraft | null> {
+    this.checkInitialized();
+    return this.draftService.getDraft(conversationId);
+  }
+
+  async clearDraft(conversationId: string): Promise<void> {
+    this.checkInitialized();
+    await this.draftService.clearDraft(conversationId);
+  }
+
+  /**
+   * Draft edits from this client and from other tabs/processes
+   */
+  onDraftChanged(callback: (event: DraftChangeEvent) => void): () => void {
+    return this.draftService.onDraftChanged(callback);
+  }
+
+  /**
+   * Where the user left off: the conversation opened last, with its draft
+   * and scroll position
+   */
+  async getLastActiveConversation(): Promise<LastActiveConversation | null> {
+    this.checkInitialized();
+    return this.storageService.get<LastActiveConversation>('last_active_conversation');
+  }
+
+  async saveScrollPosition(conversationId: string, scrollPosition: number): Promise<void> {
+    this.checkInitialized();
+    await this.saveLastActiveConversation(conversationId, { scrollPosition });
+  }
+
+  /**
+   * Take what a send used up out of the draft and keep the rest, so sending
+   * the text leaves picked attachments in place and sending a file leaves
+   * the text. A sent message must not fail because its draft could not be
+   * updated.
+   */
+  private async clearDraftAfterSend(conversationId: string, sent: SentDraftParts): Promise<void> {
+    try {
+      const draft = await this.draftService.getDraft(conversationId);
+      if (!draft) return;
+
+      const { file } = sent;
+      const attachments = file
+        ? draft.attachments.filter(attachment =>
+          !(file.uri ? attachment.uri === file.uri : attachment.name === file.name))
+        : draft.attachments;
+
+      this.draftService.saveDraft(conversationId, {
+        text: sent.text ? '' : draft.text,
+        attachments,
+        replyTo: sent.replyTo && sent.replyTo === draft.replyTo ? undefined : draft.replyTo
+      });
+      await this.draftService.flush();
+    } catch (error) {
+      console.error('Failed to update draft after send:', error);
+    }
+  }
+
+  // ==========================================
+  // ARCHIVE
+  // ==========================================
+
+  /**
+   * Snapshot of this account's local chat data (conversations, stored
+   * history, offline queue, drafts and settings) for a later restore
+   */
+  async exportArchive(): Promise<ChatArchive> {
+    this.checkInitialized();
+    return this.archiveService.exportArchive(this.userId);
+  }
+
+  /**
+   * Merge an archive (or a legacy storage backup) into local storage.
+   * Archives exported by another account are refused. Restored queue
+   * entries are sent right away when we are online.
+   */
+  async importArchive(data: unknown): Promise<ArchiveImportResult> {
+    this.checkInitialized();
+    const result = await this.archiveService.importArchive(data, this.userId);
+
+    if (result.offlineQueue.imported > 0 && this.realtimeService.isConnected()) {
+      this.flushOfflineQueue();
+    }
+    return result;
   }
 
   // ==========================================
@@ -1072,6 +1735,48 @@ private getAttachmentTypeFromMime(mimeType: string): AttachmentType {
     return () => {};
   }
 
+  onReactionChanged(callback: (event: MessageReactionEvent) => void): () => void {
+    return this.messageService.onReactionChanged(callback);
+  }
+
+  onThreadUpdated(callback: (event: ThreadUpdateEvent) => void): () => void {
+    return this.realtimeService.onThreadUpdated(callback);
+  }
+
+  onMessagesExpired(callback: (event: MessageExpiryEvent) => void): () => void {
+    return this.expiryService.onMessagesExpired(callback);
+  }
+
+  onParticipantsAdded(callback: (event: ParticipantsAddedEvent) => void): () => void {
+    return this.realtimeService.onParticipantsAdded(callback);
+  }
+
+  onParticipantRemoved(callback: (event: ParticipantRemovedEvent) => void): () => void {
+    return this.realtimeService.onParticipantRemoved(callback);
+  }
+
+  onParticipantUpdated(callback: (event: ParticipantUpdatedEvent) => void): () => void {
+    return this.realtimeService.onParticipantUpdated(callback);
+  }
+
+  /**
+   * Fired after the current user was removed from (or left) a conversation
+   * and it has been dropped locally
+   */
+  onRemovedFromConversation(callback: (event: ParticipantRemovedEvent) => void): () => void {
+    this.removedFromConversationListeners.add(callback);
+    return () => {
+      this.removedFromConversationListeners.delete(callback);
+    };
+  }
+
+  onNotification(callback: (notification: ChatNotification) => void): () => void {
+    this.notificationListeners.add(callback);
+    return () => {
+      this.notificationListeners.delete(callback);
+    };
+  }
+
   onUserStatusChange(callback: (userId: string, isOnline: boolean, lastSeen?: string) => void): () => void {
     return this.realtimeService.onUserStatus((data) => {
       callback(data.userId, data.isOnline, data.lastSeen);
@@ -1104,11 +1809,39 @@ private getAttachmentTypeFromMime(mimeType: string): AttachmentType {
     }
   }
 
+  /**
+   * Permission guard. Uses the cached conversation only, so it costs nothing
+   * and works offline; conversations we have not loaded (or loaded without
+   * participants) are left to the server.
+   */
+  private assertPermission(conversationId: string, ...permissions: Array<keyof ConversationPermissions>): void {
+    const conversation = this.cacheService.getCachedConversation(conversationId);
+    if (!conversation || conversation.participants.length === 0) return;
+
+    for (const permission of permissions) {
+      const reason = getDeniedReason(conversation, this.userId, permission);
+      if (reason) {
+        throw new PermissionException(describeDeniedReason(reason), { conversationId, permission }, reason);
+      }
+    }
+  }
+
+  private assertOwnMessage(conversationId: string, messageId: string): void {
+    const message = this.cacheService.getCachedMessages(conversationId).find(m => m.id === messageId);
+    if (message && message.senderId !== this.userId) {
+      throw new PermissionException(
+        describeDeniedReason(PermissionDeniedReason.NOT_MESSAGE_AUTHOR),
+        { conversationId, messageId },
+        PermissionDeniedReason.NOT_MESSAGE_AUTHOR
+      );
+    }
+  }
+
   private createOfflineMessage(
     conversationId: string,
     content: string,
     receiverId: string,
-    replyTo?: string
+    options: { replyTo?: string; mentions?: string[]; expiresAt?: string; type?: MessageType } = {}
   ): Message {
     const now = Date.now();
     const clientTempId = `temp-${now}-${Math.random().toString(36).substr(2, 9)}`;
@@ -1121,12 +1854,124 @@ private getAttachmentTypeFromMime(mimeType: string): AttachmentType {
       receiverId,
       content,
       timestamp: new Date().toISOString(),
-      type: MessageType.TEXT,
+      type: options.type || MessageType.TEXT,
       status: MessageStatus.QUEUED,
-      replyTo,
+      replyTo: options.replyTo,
       conversationId,
-      jobId: undefined
+      jobId: undefined,
+      mentions: options.mentions,
+      expiresAt: options.expiresAt
+    };
+  }
+
+  private getMessageTypeFromAttachment(type: AttachmentType): MessageType {
+    switch (type) {
+      case AttachmentType.IMAGE: return MessageType.IMAGE;
+      case AttachmentType.AUDIO: return MessageType.AUDIO;
+      case AttachmentType.VIDEO: return MessageType.VIDEO;
+      default: return MessageType.FILE;
+    }
+  }
+
+  private dispatchIncomingMessage(message: Message): void {
+    if (message.senderId === this.userId) return;
+
+    const conversation = this.cacheService.getCachedConversation(message.conversationId);
+    this.safeDispatch(this.reduxActions.handleNewMessage({
+      conversationId: message.conversationId,
+      senderId: message.senderId,
+      messagePreview: message.content.substring(0, 50),
+      timestamp: message.timestamp,
+      otherUserName: this.getOtherUserName(conversation),
+      jobTitle: conversation?.metadata?.jobTitle
+    }));
+
+    if (message.mentions?.includes(this.userId)) {
+      this.notifyMention(message, conversation);
+    }
+  }
+
+  /**
+   * Participant ids for the `@name` tokens in an outgoing message
+   */
+  private resolveMentions(conversationId: string, text: string): string[] | undefined {
+    const participants = this.cacheService.getCachedConversation(conversationId)?.participants || [];
+    const mentions = parseMentions(text, participants.filter(p => p.userId !== this.userId));
+    return mentions.length > 0 ? mentions : undefined;
+  }
+
+  private notifyMention(message: Message, conversation: ServerConversation | null): void {
+    if (this.userDetails?.notificationPreferences?.mentions === false) return;
+
+    const sender = conversation?.participants.find(p => p.userId === message.senderId);
+    const notification: ChatNotification = {
+      conversationId: message.conversationId,
+      messageId: message.id,
+      senderId: message.senderId,
+      senderName: sender?.name || this.cacheService.getCachedUser(message.senderId)?.name || message.senderId,
+      content: message.content,
+      timestamp: message.timestamp,
+      type: 'mention',
+      jobId: message.jobId,
+      jobTitle: conversation?.metadata?.jobTitle,
+      priority: 'high',
+      category: 'mention'
     };
+
+    this.notificationListeners.forEach(listener => {
+      try {
+        listener(notification);
+      } catch (error) {
+        console.error('Error in notification listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Drop the history of a conversation we are no longer in from the device,
+   * along with its pending expiry timers. Never fails: the membership change
+   * has already happened.
+   */
+  private async purgeStoredConversation(conversationId: string): Promise<void> {
+    try {
+      await this.messageStore.removeConversation(conversationId);
+      await this.expiryService.untrackConversation(conversationId);
+    } catch (error) {
+      console.error('Failed to purge stored conversation:', error);
+    }
+  }
+
+  private handleRemovedFromConversation(event: ParticipantRemovedEvent): void {
+    const remaining = this.cacheService.getCachedConversations().filter(c => c.id !== event.conversationId);
+    this.cacheService.clearConversationCache();
+    remaining.forEach(conversation => this.cacheService.cacheConversation(conversation));
+    this.cacheService.clearMessageCache(event.conversationId);
+    this.safeDispatch(this.reduxActions.removeConversation(event.conversationId));
+    this.purgeStoredConversation(event.conversationId);
+
+    this.removedFromConversationListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error in removed-from-conversation listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Write a message to the persistent store without blocking event handling
+   */
+  private persistMessage(message: Message): void {
+    this.messageStore.saveMessage(message).catch(error => {
+      console.warn('Failed to persist message:', error);
+    });
+  }
+
+  private persistCachedMessage(conversationId: string, messageId: string): void {
+    const message = this.cacheService.getCachedMessages(conversationId).find(m => m.id === messageId);
+    if (message) {
+      this.persistMessage(message);
+    }
   }
 
   private getOtherUserName(conversation: ServerConversation | null): string | undefined {
@@ -1171,12 +2016,23 @@ private getAttachmentTypeFromMime(mimeType: string): AttachmentType {
     }
   }
 
-  private async saveLastActiveConversation(conversationId: string): Promise<void> {
+  private async saveLastActiveConversation(
+    conversationId: string,
+    updates: Partial<LastActiveConversation> = {}
+  ): Promise<void> {
     try {
-      await this.storageService.set('last_active_conversation', {
+      const previous = await this.storageService.get<LastActiveConversation>('last_active_conversation');
+      const draft = await this.draftService.getDraft(conversationId);
+
+      const lastActive: LastActiveConversation = {
         conversationId,
-        timestamp: Date.now()
-      });
+        timestamp: Date.now(),
+        // Reopening the same conversation keeps where the user was scrolled to
+        scrollPosition: previous?.conversationId === conversationId ? previous.scrollPosition : undefined,
+        draftMessage: draft?.text || undefined,
+        ...updates
+      };
+      await this.storageService.set('last_active_conversation', lastActive);
     } catch (error) {
       console.error('Failed to save last active conversation:', error);
     }
@@ -1253,6 +2109,7 @@ private getAttachmentTypeFromMime(mimeType: string): AttachmentType {
         clearInterval(this.cleanupInterval);
         this.cleanupInterval = null;
       }
+      this.clearQueueRetryTimer();
 
       // Reset Redux state
       this.safeDispatch(this.reduxActions.resetMessagingState());
@@ -1265,7 +2122,7 @@ private getAttachmentTypeFromMime(mimeType: string): AttachmentType {
       this.realtimeService?.disconnect();
 
       // Clear instances (factory will create new ones next time)
-      ServiceFactory.clearInstances();
+      this.container.clearInstances();
 
       // Reset state
       this.isInitialized = false;
@@ -1280,6 +2137,16 @@ private getAttachmentTypeFromMime(mimeType: string): AttachmentType {
     }
   }
 
+  /**
+   * Use a token obtained outside the chat (e.g. a new login). API clients
+   * and the socket switch over; with a refresh token it is also kept fresh.
+   */
+  updateToken(token: string, refreshToken?: string | null): void {
+    this.checkInitialized();
+    if (!token?.trim()) throw new ValidationException('Authentication token is required');
+    this.container.updateToken(token, refreshToken);
+  }
+
   // Getters for backward compatibility
   get currentUserId(): string { return this.userId; }
   get currentUserRole(): string { return this.userRole; }
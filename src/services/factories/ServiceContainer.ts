@@ -0,0 +1,1014 @@
+// src/services/factories/ServiceContainer.ts - Owns one set of services and their lifecycle
+
+import {
+  IMessageService,
+  IConversationService,
+  IUserService,
+  IFileService,
+  IRealtimeService,
+  IOfflineQueueService,
+  IStorageService,
+  ICacheService,
+  IRetryPolicy,
+  IMessageStore,
+  IMessageSyncService,
+  IMessageExpiryService,
+  IChatArchiveService,
+  IDraftService,
+  IClock,
+  ITokenManager,
+  IImageProcessor
+} from '../interfaces';
+
+import { AppConfig } from '../../config/AppConfig';
+import { RetryPolicyConfig } from '../../types/chat';
+import { logger } from '../../utils/Logger';
+
+// Import the merged BaseApiClient
+import { BaseApiClient } from '../api/base/BaseApiClient';
+import { MessageApiClient } from '../api/clients/MessageApiClient';
+
+// Import implementations
+import { RestMessageService } from '../implementations/RestMessageService';
+import { SocketMessageService } from '../implementations/SocketMessageService';
+import { HybridMessageService } from '../implementations/HybridMessageService';
+import { OfflineFirstMessageService } from '../implementations/OfflineFirstMessageService';
+import { RestConversationService } from '../implementations/RestConversationService';
+import { RestUserService } from '../implementations/RestUserService';
+import { RestFileService } from '../implementations/RestFileService';
+import { OfflineQueueService } from '../implementations/OfflineQueueService';
+import { ExponentialBackoffRetryPolicy } from '../implementations/RetryPolicy';
+import { PersistentMessageStore } from '../implementations/PersistentMessageStore';
+import { DeltaSyncService } from '../implementations/DeltaSyncService';
+import { MessageExpiryService } from '../implementations/MessageExpiryService';
+import { ChatArchiveService } from '../implementations/ChatArchiveService';
+import { DraftService } from '../implementations/DraftService';
+import { TokenLifecycleManager } from '../implementations/TokenLifecycleManager';
+import { CanvasImageProcessor } from '../implementations/CanvasImageProcessor';
+import { NodeImageProcessor } from '../implementations/NodeImageProcessor';
+
+// Storage implementations
+import { AsyncStorageService } from '../implementations/storage/AsyncStorageService';
+import { LocalStorageService } from '../implementations/storage/LocalStorageService';
+import { MemoryStorageService } from '../implementations/storage/MemoryStorageService';
+import { FileStorageService } from '../implementations/storage/FileStorageService';
+
+// Cache implementation
+import { MemoryCacheService } from '../implementations/MemoryCacheService';
+
+// Socket client
+import { SocketService, socketService } from '../implementations/SocketService';
+
+export interface ServiceFactoryConfig {
+  
+  token?: string;
+  refreshToken?: string | null; // Enables refreshing ahead of expiry
+  userId?: string;
+  platform?: string; // ADDED
+  enableLogging?: boolean;
+  retryPolicy?: Partial<RetryPolicyConfig>; // Overrides AppConfig.offlineQueue
+  clock?: IClock; // Time source for schedulers (defaults to the system clock)
+  storageKeyPrefix?: string; // Overrides AppConfig.storage.keyPrefix
+  customImplementations?: {
+    messageService?: IMessageService;
+    conversationService?: IConversationService;
+    userService?: IUserService;
+    fileService?: IFileService;
+    realtimeService?: IRealtimeService;
+    offlineQueueService?: IOfflineQueueService;
+    storageService?: IStorageService;
+    cacheService?: ICacheService;
+    retryPolicy?: IRetryPolicy;
+    messageStore?: IMessageStore;
+    syncService?: IMessageSyncService;
+    expiryService?: IMessageExpiryService;
+    draftService?: IDraftService;
+    archiveService?: IChatArchiveService;
+    tokenManager?: ITokenManager;
+    imageProcessor?: IImageProcessor;
+  };
+}
+
+export type ServiceOverrides = NonNullable<ServiceFactoryConfig['customImplementations']>;
+
+export interface ServiceContainerOptions {
+  sharedSocket?: boolean; // Use the socketService singleton instead of a socket of its own
+}
+
+/**
+ * A self-contained set of services: its own config, API clients, socket,
+ * storage and caches. Services are created lazily and cached per container;
+ * single services can be swapped with override(), and dispose() tears the
+ * whole set down.
+ */
+export class ServiceContainer {
+  private instances = new Map<string, any>();
+  private config: ServiceFactoryConfig = {};
+  private apiClients = new Map<string, BaseApiClient>();
+  private isConfigured: boolean = false;
+  private tokenSubscription: { manager: ITokenManager; unsubscribe: () => void } | null = null;
+  private disposed: boolean = false;
+  
+  constructor(config?: ServiceFactoryConfig, private readonly options: ServiceContainerOptions = {}) {
+    if (config) {
+      this.configure(config);
+    }
+  }
+  
+  // ==========================================
+  // CONFIGURATION
+  // ==========================================
+  
+  /**
+   * Configure the container with user-specific settings
+   */
+  configure(config: ServiceFactoryConfig): void {
+    this.config = { ...this.config, ...config };
+    this.isConfigured = true;
+    
+    // Clear API clients if token changes
+    if (config.token && this.config.token !== config.token) {
+      logger.info('Token changed, clearing API clients cache');
+      this.apiClients.clear();
+    }
+    
+    // A running token manager owns the token; let it announce the change
+    if (config.token && this.tokenSubscription) {
+      this.tokenSubscription.manager.setTokens(config.token, config.refreshToken);
+    }
+    
+    logger.debug('ServiceContainer configured', {
+      hasToken: !!config.token,
+      userId: config.userId,
+      enableLogging: config.enableLogging
+    });
+  }
+
+  /**
+   * Replace one service with another implementation (e.g. a test double).
+   * Services created earlier keep the dependency they were built with, so
+   * override before creating anything that uses it.
+   */
+  override<K extends keyof ServiceOverrides>(name: K, implementation: NonNullable<ServiceOverrides[K]>): this {
+    this.assertNotDisposed();
+    this.config = {
+      ...this.config,
+      customImplementations: { ...this.config.customImplementations, [name]: implementation }
+    };
+    return this;
+  }
+
+  /**
+   * Ensure container is configured with defaults if needed
+   */
+  private ensureConfigured(): void {
+    this.assertNotDisposed();
+    if (!this.isConfigured) {
+      this.configure({
+        enableLogging: AppConfig.debug.enabled
+      });
+      logger.debug('ServiceContainer auto-configured with defaults');
+    }
+  }
+
+  /**
+   * Create Message Service based on AppConfig.service.type
+   */
+  createMessageService(config?: ServiceFactoryConfig): IMessageService {
+    this.ensureConfigured();
+    const mergedConfig = { ...this.config, ...config };
+    
+    // Check for custom implementation
+    if (mergedConfig.customImplementations?.messageService) {
+      logger.debug('Using custom message service implementation');
+      return mergedConfig.customImplementations.messageService;
+    }
+    
+    const serviceType = AppConfig.service.type;
+    const cacheKey = `message-${serviceType}`;
+    
+    // Return cached instance if exists
+    if (this.instances.has(cacheKey)) {
+      logger.debug('Returning cached message service', { serviceType });
+      return this.instances.get(cacheKey);
+    }
+    
+    logger.info('Creating message service', { serviceType });
+    const socketClient = this.getSocketClient();
+    let service: IMessageService;
+    
+    switch (serviceType) {
+      case 'rest':
+        service = new RestMessageService(
+          this.createApiClient('chat'),
+          this.createCacheService(mergedConfig),
+          mergedConfig.userId || ''
+        );
+        break;
+        
+      case 'socket':
+        service = new SocketMessageService(
+          socketClient,
+          this.createCacheService(mergedConfig),
+          mergedConfig.userId || ''
+        );
+        break;
+        
+      case 'offline-first':
+        service = new OfflineFirstMessageService(
+          this.createApiClient('chat'),
+          socketClient,
+          this.createCacheService(mergedConfig),
+          this.createOutboxService(mergedConfig),
+          this.createMessageStore(mergedConfig),
+          () => socketClient.getConnectionStateEnum(),
+          mergedConfig.userId || '',
+          AppConfig.service.syncInterval,
+          this.createFileService(mergedConfig)
+        );
+        break;
+        
+      case 'hybrid':
+        service = new HybridMessageService(
+          this.createApiClient('chat'),
+          socketClient,
+          this.createCacheService(mergedConfig),
+          this.createOfflineQueueService(mergedConfig),
+          this.createMessageStore(mergedConfig),
+          () => socketClient.getConnectionStateEnum(),
+          mergedConfig.userId || '',
+          this.createSyncService(mergedConfig)
+        );
+        break;
+        
+      default:
+        logger.warn(`Unknown service type: ${serviceType}, defaulting to REST`);
+        service = new RestMessageService(
+          this.createApiClient('chat'),
+          this.createCacheService(mergedConfig),
+          mergedConfig.userId || ''
+        );
+    }
+    
+    this.instances.set(cacheKey, service);
+    return service;
+  }
+
+  /**
+   * Create Conversation Service
+   */
+  createConversationService(config?: ServiceFactoryConfig): IConversationService {
+    this.ensureConfigured();
+    const mergedConfig = { ...this.config, ...config };
+    
+    if (mergedConfig.customImplementations?.conversationService) {
+      logger.debug('Using custom conversation service implementation');
+      return mergedConfig.customImplementations.conversationService;
+    }
+    
+    const cacheKey = 'conversation-service';
+    
+    if (this.instances.has(cacheKey)) {
+      logger.debug('Returning cached conversation service');
+      return this.instances.get(cacheKey);
+    }
+    
+    logger.info('Creating conversation service');
+    const service = new RestConversationService(
+      this.createApiClient('chat'),
+      this.createCacheService(mergedConfig),
+      mergedConfig.userId || ''
+    );
+    
+    this.instances.set(cacheKey, service);
+    return service;
+  }
+
+  /**
+   * Create User Service
+   */
+  createUserService(config?: ServiceFactoryConfig): IUserService {
+    this.ensureConfigured();
+    const mergedConfig = { ...this.config, ...config };
+    
+    if (mergedConfig.customImplementations?.userService) {
+      logger.debug('Using custom user service implementation');
+      return mergedConfig.customImplementations.userService;
+    }
+    
+    const cacheKey = 'user-service';
+    
+    if (this.instances.has(cacheKey)) {
+      logger.debug('Returning cached user service');
+      return this.instances.get(cacheKey);
+    }
+    
+    logger.info('Creating user service');
+    const service = new RestUserService(
+      this.createApiClient('chat'),
+      this.createCacheService(mergedConfig),
+      mergedConfig.userId || ''
+    );
+    
+    this.instances.set(cacheKey, service);
+    return service;
+  }
+
+  /**
+   * Create File Service
+   */
+  createFileService(config?: ServiceFactoryConfig): IFileService {
+    this.ensureConfigured();
+    const mergedConfig = { ...this.config, ...config };
+    
+    if (mergedConfig.customImplementations?.fileService) {
+      logger.debug('Using custom file service implementation');
+      return mergedConfig.customImplementations.fileService;
+    }
+    
+    const cacheKey = 'file-service';
+    
+    if (this.instances.has(cacheKey)) {
+      logger.debug('Returning cached file service');
+      return this.instances.get(cacheKey);
+    }
+    
+    logger.info('Creating file service');
+    const service = new RestFileService(
+      this.createApiClient('chat'),
+      mergedConfig.userId || '',
+      this.createStorageService(mergedConfig),
+      this.createImageProcessor(mergedConfig)
+    );
+    
+    this.instances.set(cacheKey, service);
+    return service;
+  }
+
+  /**
+   * Create the image processor run before image uploads. React Native has
+   * no default - images are uploaded as picked unless one is supplied.
+   */
+  createImageProcessor(config?: ServiceFactoryConfig): IImageProcessor | undefined {
+    this.ensureConfigured();
+    const mergedConfig = { ...this.config, ...config };
+    
+    if (mergedConfig.customImplementations?.imageProcessor) {
+      logger.debug('Using custom image processor implementation');
+      return mergedConfig.customImplementations.imageProcessor;
+    }
+    
+    const cacheKey = 'image-processor';
+    
+    if (this.instances.has(cacheKey)) {
+      return this.instances.get(cacheKey);
+    }
+    
+    let processor: IImageProcessor;
+    if (AppConfig.isBrowser) {
+      processor = new CanvasImageProcessor();
+    } else if (AppConfig.isNodeEnvironment) {
+      processor = new NodeImageProcessor();
+    } else {
+      logger.warn('No image processor for this platform; images will be uploaded unprocessed');
+      return undefined;
+    }
+    
+    logger.info('Creating image processor', { processor: processor.constructor.name });
+    this.instances.set(cacheKey, processor);
+    return processor;
+  }
+
+  /**
+   * Create Realtime Service
+   */
+  createRealtimeService(config?: ServiceFactoryConfig): IRealtimeService {
+    this.ensureConfigured();
+    const mergedConfig = { ...this.config, ...config };
+    
+    if (mergedConfig.customImplementations?.realtimeService) {
+      logger.debug('Using custom realtime service implementation');
+      return mergedConfig.customImplementations.realtimeService;
+    }
+    
+    const cacheKey = 'realtime-service';
+    
+    if (this.instances.has(cacheKey)) {
+      logger.debug('Returning cached realtime service');
+      return this.instances.get(cacheKey);
+    }
+    
+    logger.info('Creating realtime service', { sharedSocket: !!this.options.sharedSocket });
+    const service = this.getSocketClient();
+    this.instances.set(cacheKey, service);
+    return service;
+  }
+
+  /**
+   * The app-wide container shares the socketService singleton; every other
+   * container opens its own socket
+   */
+  private getSocketClient(): SocketService {
+    if (this.options.sharedSocket) {
+      return socketService;
+    }
+    
+    const cacheKey = 'socket-client';
+    if (!this.instances.has(cacheKey)) {
+      this.instances.set(cacheKey, new SocketService());
+    }
+    return this.instances.get(cacheKey);
+  }
+
+  /**
+   * Create Offline Queue Service
+   */
+  createOfflineQueueService(config?: ServiceFactoryConfig): IOfflineQueueService {
+    this.ensureConfigured();
+    const mergedConfig = { ...this.config, ...config };
+    
+    if (mergedConfig.customImplementations?.offlineQueueService) {
+      logger.debug('Using custom offline queue service implementation');
+      return mergedConfig.customImplementations.offlineQueueService;
+    }
+    
+    const cacheKey = 'offline-queue-service';
+    
+    if (this.instances.has(cacheKey)) {
+      logger.debug('Returning cached offline queue service');
+      return this.instances.get(cacheKey);
+    }
+    
+    logger.info('Creating offline queue service');
+    const service = new OfflineQueueService(
+      this.createStorageService(mergedConfig),
+      undefined,
+      this.createRetryPolicy(mergedConfig)
+    );
+    
+    this.instances.set(cacheKey, service);
+    return service;
+  }
+
+  /**
+   * Create the persistent outbox owned by the offline-first message service.
+   * Kept apart from the ChatService offline queue so the two never feed each other.
+   */
+  createOutboxService(config?: ServiceFactoryConfig): IOfflineQueueService {
+    const mergedConfig = { ...this.config, ...config };
+    const cacheKey = 'offline-first-outbox';
+    
+    if (this.instances.has(cacheKey)) {
+      return this.instances.get(cacheKey);
+    }
+    
+    logger.info('Creating offline-first outbox');
+    const service = new OfflineQueueService(
+      this.createStorageService(mergedConfig),
+      undefined,
+      this.createRetryPolicy(mergedConfig),
+      'offline_first_outbox'
+    );
+    
+    this.instances.set(cacheKey, service);
+    return service;
+  }
+
+  /**
+   * Create the persistent message store (history on disk)
+   */
+  createMessageStore(config?: ServiceFactoryConfig): IMessageStore {
+    this.ensureConfigured();
+    const mergedConfig = { ...this.config, ...config };
+    
+    if (mergedConfig.customImplementations?.messageStore) {
+      logger.debug('Using custom message store implementation');
+      return mergedConfig.customImplementations.messageStore;
+    }
+    
+    const cacheKey = 'message-store';
+    
+    if (this.instances.has(cacheKey)) {
+      return this.instances.get(cacheKey);
+    }
+    
+    logger.info('Creating persistent message store');
+    const store = new PersistentMessageStore(
+      this.createStorageService(mergedConfig),
+      AppConfig.storage.maxStoredMessagesPerConversation
+    );
+    
+    this.instances.set(cacheKey, store);
+    return store;
+  }
+
+  /**
+   * Create the delta sync service (per-conversation cursors, fetch-after on reconnect)
+   */
+  createSyncService(config?: ServiceFactoryConfig): IMessageSyncService {
+    this.ensureConfigured();
+    const mergedConfig = { ...this.config, ...config };
+    
+    if (mergedConfig.customImplementations?.syncService) {
+      logger.debug('Using custom sync service implementation');
+      return mergedConfig.customImplementations.syncService;
+    }
+    
+    const cacheKey = 'sync-service';
+    
+    if (this.instances.has(cacheKey)) {
+      return this.instances.get(cacheKey);
+    }
+    
+    logger.info('Creating delta sync service');
+    const service = new DeltaSyncService(
+      this.createMessageApiClient(),
+      this.createCacheService(mergedConfig),
+      this.createMessageStore(mergedConfig),
+      this.createStorageService(mergedConfig)
+    );
+    
+    this.instances.set(cacheKey, service);
+    return service;
+  }
+
+  /**
+   * Create the disappearing-message scheduler
+   */
+  createExpiryService(config?: ServiceFactoryConfig): IMessageExpiryService {
+    this.ensureConfigured();
+    const mergedConfig = { ...this.config, ...config };
+    
+    if (mergedConfig.customImplementations?.expiryService) {
+      logger.debug('Using custom expiry service implementation');
+      return mergedConfig.customImplementations.expiryService;
+    }
+    
+    const cacheKey = 'expiry-service';
+    
+    if (this.instances.has(cacheKey)) {
+      return this.instances.get(cacheKey);
+    }
+    
+    logger.info('Creating message expiry service');
+    const service = new MessageExpiryService(
+      this.createCacheService(mergedConfig),
+      this.createMessageStore(mergedConfig),
+      this.createStorageService(mergedConfig),
+      mergedConfig.clock
+    );
+    
+    this.instances.set(cacheKey, service);
+    return service;
+  }
+
+  /**
+   * Create the per-conversation draft store
+   */
+  createDraftService(config?: ServiceFactoryConfig): IDraftService {
+    this.ensureConfigured();
+    const mergedConfig = { ...this.config, ...config };
+    
+    if (mergedConfig.customImplementations?.draftService) {
+      logger.debug('Using custom draft service implementation');
+      return mergedConfig.customImplementations.draftService;
+    }
+    
+    const cacheKey = 'draft-service';
+    
+    if (this.instances.has(cacheKey)) {
+      return this.instances.get(cacheKey);
+    }
+    
+    logger.info('Creating draft service');
+    const service = new DraftService(
+      this.createStorageService(mergedConfig),
+      mergedConfig.clock
+    );
+    
+    this.instances.set(cacheKey, service);
+    return service;
+  }
+
+  /**
+   * Create the archive service used to export and restore local chat data
+   */
+  createArchiveService(config?: ServiceFactoryConfig): IChatArchiveService {
+    this.ensureConfigured();
+    const mergedConfig = { ...this.config, ...config };
+    
+    if (mergedConfig.customImplementations?.archiveService) {
+      logger.debug('Using custom archive service implementation');
+      return mergedConfig.customImplementations.archiveService;
+    }
+    
+    const cacheKey = 'archive-service';
+    
+    if (this.instances.has(cacheKey)) {
+      return this.instances.get(cacheKey);
+    }
+    
+    logger.info('Creating chat archive service');
+    const service = new ChatArchiveService(
+      this.createMessageStore(mergedConfig),
+      this.createOfflineQueueService(mergedConfig),
+      this.createDraftService(mergedConfig),
+      this.createStorageService(mergedConfig)
+    );
+    
+    this.instances.set(cacheKey, service);
+    return service;
+  }
+
+  /**
+   * Create the token manager shared by the API clients and the socket.
+   * Every token it issues is pushed to both.
+   */
+  createTokenManager(config?: ServiceFactoryConfig): ITokenManager {
+    this.ensureConfigured();
+    const mergedConfig = { ...this.config, ...config };
+    
+    let manager: ITokenManager | undefined = mergedConfig.customImplementations?.tokenManager;
+    
+    if (manager) {
+      logger.debug('Using custom token manager implementation');
+    } else {
+      const cacheKey = 'token-manager';
+      manager = this.instances.get(cacheKey);
+      
+      if (!manager) {
+        logger.info('Creating token manager');
+        manager = new TokenLifecycleManager(undefined, mergedConfig.clock);
+        if (mergedConfig.token) {
+          manager.setTokens(mergedConfig.token, mergedConfig.refreshToken);
+        }
+        this.instances.set(cacheKey, manager);
+      }
+    }
+    
+    if (this.tokenSubscription?.manager !== manager) {
+      this.tokenSubscription?.unsubscribe();
+      this.tokenSubscription = {
+        manager,
+        unsubscribe: manager.onTokenChanged(token => this.applyToken(token))
+      };
+    }
+    
+    return manager;
+  }
+
+  /**
+   * Create the retry policy used by the offline queue
+   */
+  createRetryPolicy(config?: ServiceFactoryConfig): IRetryPolicy {
+    const mergedConfig = { ...this.config, ...config };
+    
+    if (mergedConfig.customImplementations?.retryPolicy) {
+      logger.debug('Using custom retry policy implementation');
+      return mergedConfig.customImplementations.retryPolicy;
+    }
+    
+    return new ExponentialBackoffRetryPolicy(mergedConfig.retryPolicy);
+  }
+
+  /**
+   * Create Storage Service based on AppConfig.storage.type
+   */
+  createStorageService(config?: ServiceFactoryConfig): IStorageService {
+    this.ensureConfigured();
+    const mergedConfig = { ...this.config, ...config };
+    
+    if (mergedConfig.customImplementations?.storageService) {
+      logger.debug('Using custom storage service implementation');
+      return mergedConfig.customImplementations.storageService;
+    }
+    
+    const storageType = AppConfig.storage.type;
+    const cacheKey = `storage-${storageType}`;
+    
+    if (this.instances.has(cacheKey)) {
+      logger.debug('Returning cached storage service', { storageType });
+      return this.instances.get(cacheKey);
+    }
+    
+    logger.info('Creating storage service', { storageType });
+    const keyPrefix = mergedConfig.storageKeyPrefix ?? AppConfig.storage.keyPrefix;
+    let service: IStorageService;
+    
+    switch (storageType) {
+      case 'async-storage':
+        service = new AsyncStorageService({
+          keyPrefix,
+          enableEncryption: AppConfig.storage.enableEncryption
+        });
+        break;
+        
+      case 'localstorage':
+        service = new LocalStorageService({
+          keyPrefix
+        });
+        break;
+        
+      case 'file':
+        service = new FileStorageService({
+          dataPath: AppConfig.storage.dataPath,
+          keyPrefix
+        });
+        break;
+        
+      case 'memory':
+      default:
+        service = new MemoryStorageService({
+          keyPrefix,
+          maxSize: AppConfig.storage.maxMemorySize
+        });
+    }
+    
+    this.instances.set(cacheKey, service);
+    return service;
+  }
+
+  /**
+   * Create Cache Service
+   */
+  createCacheService(config?: ServiceFactoryConfig): ICacheService {
+    this.ensureConfigured();
+    const mergedConfig = { ...this.config, ...config };
+    
+    if (mergedConfig.customImplementations?.cacheService) {
+      logger.debug('Using custom cache service implementation');
+      return mergedConfig.customImplementations.cacheService;
+    }
+    
+    const cacheKey = 'cache-service';
+    
+    if (this.instances.has(cacheKey)) {
+      logger.debug('Returning cached cache service');
+      return this.instances.get(cacheKey);
+    }
+    
+    logger.info('Creating cache service');
+    const service = new MemoryCacheService();
+    
+    this.instances.set(cacheKey, service);
+    return service;
+  }
+
+  /**
+   * Create API Client based on type
+   */
+  private createApiClient(clientType: 'default' | 'chat' | 'notification' = 'chat'): BaseApiClient {
+    const cacheKey = `api-client-${clientType}`;
+    
+    if (this.apiClients.has(cacheKey)) {
+      const client = this.apiClients.get(cacheKey)!;
+      // Update token if changed
+      if (this.config.token && this.config.token !== client.getToken()) {
+        logger.debug('Updating API client token', { clientType });
+        client.setToken(this.config.token);
+      }
+      return client;
+    }
+    
+    let baseUrl: string;
+    let timeout: number;
+    
+    switch (clientType) {
+      case 'chat':
+        baseUrl = AppConfig.urls.chat;
+        timeout = AppConfig.chat.timeout;
+        break;
+      case 'notification':
+        baseUrl = AppConfig.notification.baseUrl;
+        timeout = AppConfig.notification.timeout;
+        break;
+      default:
+        baseUrl = AppConfig.urls.api;
+        timeout = AppConfig.api.timeout;
+    }
+    
+    logger.info('Creating API client', { clientType, baseUrl });
+    
+    const client = new BaseApiClient({
+      baseUrl,
+      token: this.config.token,
+      timeout,
+      headers: AppConfig.api.headers,
+      retries: AppConfig.api.retries,
+      retryDelay: AppConfig.api.retryDelay,
+      enableExponentialBackoff: AppConfig.api.enableExponentialBackoff,
+      maxRetryDelay: AppConfig.api.maxRetryDelay,
+      enableLogging: this.config.enableLogging ?? AppConfig.debug.enabled,
+      enableCompression: AppConfig.performance.enableDataCompression,
+      clientType
+    });
+    client.setTokenProvider(this.createTokenManager());
+    
+    this.apiClients.set(cacheKey, client);
+    return client;
+  }
+
+  /**
+   * Message API client for endpoints the generic client does not wrap (delta
+   * fetches, full history paging). Cached with the other API clients so token
+   * updates reach it.
+   */
+  createMessageApiClient(): MessageApiClient {
+    this.ensureConfigured();
+    const cacheKey = 'api-client-message';
+    
+    if (this.apiClients.has(cacheKey)) {
+      return this.apiClients.get(cacheKey) as MessageApiClient;
+    }
+    
+    const client = new MessageApiClient({
+      baseUrl: AppConfig.urls.chat,
+      token: this.config.token,
+      timeout: AppConfig.chat.timeout,
+      enableLogging: this.config.enableLogging ?? AppConfig.debug.enabled,
+      clientType: 'chat'
+    });
+    client.setTokenProvider(this.createTokenManager());
+    
+    this.apiClients.set(cacheKey, client);
+    return client;
+  }
+
+  /**
+   * Create all services at once
+   */
+  createAllServices(config?: ServiceFactoryConfig): {
+    messageService: IMessageService;
+    conversationService: IConversationService;
+    userService: IUserService;
+    fileService: IFileService;
+    realtimeService: IRealtimeService;
+    offlineQueueService: IOfflineQueueService;
+    storageService: IStorageService;
+    cacheService: ICacheService;
+    messageStore: IMessageStore;
+  } {
+    logger.info('Creating all services');
+    
+    return {
+      messageService: this.createMessageService(config),
+      conversationService: this.createConversationService(config),
+      userService: this.createUserService(config),
+      fileService: this.createFileService(config),
+      realtimeService: this.createRealtimeService(config),
+      offlineQueueService: this.createOfflineQueueService(config),
+      storageService: this.createStorageService(config),
+      cacheService: this.createCacheService(config),
+      messageStore: this.createMessageStore(config)
+    };
+  }
+
+  /**
+   * Hand a new token (e.g. after a login elsewhere) to the token manager.
+   * API clients and the socket pick it up through its change event.
+   */
+  updateToken(newToken: string, refreshToken?: string | null): void {
+    logger.info('Updating token');
+    this.createTokenManager().setTokens(newToken, refreshToken);
+  }
+
+  /**
+   * Push a token issued by the token manager to everything that authenticates
+   */
+  private applyToken(token: string): void {
+    logger.info('Applying new token to API clients and realtime service');
+    
+    this.config.token = token;
+    
+    for (const [key, client] of this.apiClients.entries()) {
+      if (client.getToken() !== token) {
+        logger.debug(`Updating token for ${key}`);
+        client.setToken(token);
+      }
+    }
+    
+    const realtimeService: IRealtimeService | undefined =
+      this.config.customImplementations?.realtimeService || this.instances.get('realtime-service');
+    realtimeService?.updateToken(token).catch(error => {
+      logger.error('Failed to re-authenticate realtime service', error);
+    });
+  }
+
+  /**
+   * Clear all cached instances
+   */
+  clearInstances(): void {
+    logger.info('Clearing all service instances');
+    
+    // Disconnect socket clients before clearing
+    const realtimeService = this.instances.get('realtime-service') || this.instances.get('socket-client');
+    if (realtimeService) {
+      logger.debug('Disconnecting realtime service');
+      realtimeService.disconnect();
+    }
+    
+    // Stop background work owned by services (offline-first sync loop)
+    this.instances.forEach(instance => instance?.dispose?.());
+    
+    this.tokenSubscription?.unsubscribe();
+    this.tokenSubscription = null;
+    
+    this.instances.clear();
+    this.apiClients.clear();
+    this.isConfigured = false;
+    this.config = {};
+    
+    logger.info('All service instances cleared');
+  }
+
+  /**
+   * Get service statistics
+   */
+  getServiceStats(): {
+    instances: number;
+    apiClients: number;
+    services: string[];
+    config: {
+      hasToken: boolean;
+      userId?: string;
+      platform: string;
+      serviceType: string;
+      storageType: string;
+    };
+  } {
+    return {
+      instances: this.instances.size,
+      apiClients: this.apiClients.size,
+      services: Array.from(this.instances.keys()),
+      config: {
+        hasToken: !!this.config.token,
+        userId: this.config.userId,
+        platform: AppConfig.platform.OS,
+        serviceType: AppConfig.service.type,
+        storageType: AppConfig.storage.type
+      }
+    };
+  }
+
+  /**
+   * Check if a service exists in cache
+   */
+  hasService(serviceName: string): boolean {
+    return this.instances.has(serviceName);
+  }
+
+  /**
+   * Get a specific service instance if it exists
+   */
+  getService<T>(serviceName: string): T | undefined {
+    return this.instances.get(serviceName) as T;
+  }
+
+  /**
+   * Remove a specific service from cache
+   */
+  removeService(serviceName: string): void {
+    if (this.instances.has(serviceName)) {
+      logger.debug(`Removing service: ${serviceName}`);
+      
+      // Special cleanup for realtime service
+      if (serviceName === 'realtime-service') {
+        const service = this.instances.get(serviceName);
+        if (service && typeof service.disconnect === 'function') {
+          service.disconnect();
+        }
+      }
+      
+      this.instances.delete(serviceName);
+    }
+  }
+
+  /**
+   * Reset container to initial state
+   */
+  reset(): void {
+    logger.info('Resetting service container');
+    this.clearInstances();
+  }
+
+  /**
+   * Release every service for good. Unlike clearInstances() the container
+   * cannot be used afterwards.
+   */
+  dispose(): void {
+    if (this.disposed) return;
+    
+    this.clearInstances();
+    this.disposed = true;
+  }
+
+  isDisposed(): boolean {
+    return this.disposed;
+  }
+
+  private assertNotDisposed(): void {
+    if (this.disposed) {
+      throw new Error('ServiceContainer has been disposed');
+    }
+  }
+}
\ No newline at end of file
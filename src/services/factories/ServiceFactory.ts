@@ -1,5 +1,7 @@
-// src/services/factories/ServiceFactory.ts - Fixed Service Factory with AppConfig
+// src/services/factories/ServiceFactory.ts - Static facade over the service containers
 
+import { logger } from '../../utils/Logger';
+import { MessageApiClient } from '../api/clients/MessageApiClient';
 import {
   IMessageService,
   IConversationService,
@@ -8,567 +10,204 @@ import {
   IRealtimeService,
   IOfflineQueueService,
   IStorageService,
-  ICacheService
+  ICacheService,
+  IRetryPolicy,
+  IMessageStore,
+  IMessageSyncService,
+  IMessageExpiryService,
+  IChatArchiveService,
+  IDraftService,
+  ITokenManager,
+  IImageProcessor
 } from '../interfaces';
 
-import { AppConfig } from '../../config/AppConfig';
-import { logger } from '../../utils/Logger';
+import { ServiceContainer, ServiceFactoryConfig } from './ServiceContainer';
 
-// Import the merged BaseApiClient
-import { BaseApiClient } from '../api/base/BaseApiClient';
-
-// Import implementations
-import { RestMessageService } from '../implementations/RestMessageService';
-import { SocketMessageService } from '../implementations/SocketMessageService';
-import { HybridMessageService } from '../implementations/HybridMessageService';
-import { RestConversationService } from '../implementations/RestConversationService';
-import { RestUserService } from '../implementations/RestUserService';
-import { RestFileService } from '../implementations/RestFileService';
-import { OfflineQueueService } from '../implementations/OfflineQueueService';
-
-// Storage implementations
-import { AsyncStorageService } from '../implementations/storage/AsyncStorageService';
-import { LocalStorageService } from '../implementations/storage/LocalStorageService';
-import { MemoryStorageService } from '../implementations/storage/MemoryStorageService';
-import { FileStorageService } from '../implementations/storage/FileStorageService';
-
-// Cache implementation
-import { MemoryCacheService } from '../implementations/MemoryCacheService';
-
-// Socket client
-import { socketService } from '../implementations/SocketService';
-
-export interface ServiceFactoryConfig {
-  
-  token?: string;
-  userId?: string;
-  platform?: string; // ADDED
-  enableLogging?: boolean;
-  customImplementations?: {
-    messageService?: IMessageService;
-    conversationService?: IConversationService;
-    userService?: IUserService;
-    fileService?: IFileService;
-    realtimeService?: IRealtimeService;
-    offlineQueueService?: IOfflineQueueService;
-    storageService?: IStorageService;
-    cacheService?: ICacheService;
-  };
-}
+export type { ServiceFactoryConfig, ServiceOverrides, ServiceContainerOptions } from './ServiceContainer';
 
+export const DEFAULT_SCOPE = 'default';
+
+/**
+ * Static entry point kept for existing callers. Every call goes to the
+ * container of the active scope: the default container backs the app-wide
+ * chatService, named scopes keep extra sessions apart from it.
+ *
+ * New code that needs its own set of services (tests, extra accounts) can
+ * create a ServiceContainer directly.
+ */
 export class ServiceFactory {
-  private static instances = new Map<string, any>();
-  private static config: ServiceFactoryConfig = {};
-  private static apiClients = new Map<string, BaseApiClient>();
-  private static isConfigured: boolean = false;
-  
+  private static scopes = new Map<string, ServiceContainer>();
+  private static activeScope: string = DEFAULT_SCOPE;
+
+  // ==========================================
+  // SCOPES
+  // ==========================================
+
   /**
-   * Configure the factory with user-specific settings
+   * The container behind `scope`, created on first use
    */
-  static configure(config: ServiceFactoryConfig): void {
-    this.config = { ...this.config, ...config };
-    this.isConfigured = true;
-    
-    // Clear API clients if token changes
-    if (config.token && this.config.token !== config.token) {
-      logger.info('Token changed, clearing API clients cache');
-      this.apiClients.clear();
+  static getContainer(scope: string = DEFAULT_SCOPE): ServiceContainer {
+    let container = this.scopes.get(scope);
+    if (!container) {
+      container = new ServiceContainer(undefined, { sharedSocket: scope === DEFAULT_SCOPE });
+      this.scopes.set(scope, container);
     }
-    
-    logger.debug('ServiceFactory configured', {
-      hasToken: !!config.token,
-      userId: config.userId,
-      enableLogging: config.enableLogging
-    });
+    return container;
   }
 
   /**
-   * Ensure factory is configured with defaults if needed
+   * Run `fn` against the services of `scope` (created on first use).
+   * Only the synchronous part of `fn` sees the scope.
    */
-  private static ensureConfigured(): void {
-    if (!this.isConfigured) {
-      this.configure({
-        enableLogging: AppConfig.debug.enabled
-      });
-      logger.debug('ServiceFactory auto-configured with defaults');
+  static withScope<T>(scope: string, fn: () => T): T {
+    const previous = this.activeScope;
+    this.activeScope = scope;
+    try {
+      return fn();
+    } finally {
+      this.activeScope = previous;
     }
   }
 
   /**
-   * Create Message Service based on AppConfig.service.type
+   * Tear down a scope's services and forget it. The default scope is only
+   * cleared so the static API keeps working.
    */
-  static createMessageService(config?: ServiceFactoryConfig): IMessageService {
-    this.ensureConfigured();
-    const mergedConfig = { ...this.config, ...config };
-    
-    // Check for custom implementation
-    if (mergedConfig.customImplementations?.messageService) {
-      logger.debug('Using custom message service implementation');
-      return mergedConfig.customImplementations.messageService;
-    }
-    
-    const serviceType = AppConfig.service.type;
-    const cacheKey = `message-${serviceType}`;
-    
-    // Return cached instance if exists
-    if (this.instances.has(cacheKey)) {
-      logger.debug('Returning cached message service', { serviceType });
-      return this.instances.get(cacheKey);
-    }
-    
-    logger.info('Creating message service', { serviceType });
-    let service: IMessageService;
-    
-    switch (serviceType) {
-      case 'rest':
-        service = new RestMessageService(
-          this.createApiClient('chat'),
-          this.createCacheService(mergedConfig),
-          mergedConfig.userId || ''
-        );
-        break;
-        
-      case 'socket':
-        service = new SocketMessageService(
-          socketService,
-          this.createCacheService(mergedConfig),
-          mergedConfig.userId || ''
-        );
-        break;
-        
-      case 'hybrid':
-      case 'offline-first':
-        service = new HybridMessageService(
-          this.createApiClient('chat'),
-          socketService,
-          this.createCacheService(mergedConfig),
-          this.createOfflineQueueService(mergedConfig),
-          () => socketService.getConnectionStateEnum(),
-          mergedConfig.userId || ''
-        );
-        break;
-        
-      default:
-        logger.warn(`Unknown service type: ${serviceType}, defaulting to REST`);
-        service = new RestMessageService(
-          this.createApiClient('chat'),
-          this.createCacheService(mergedConfig),
-          mergedConfig.userId || ''
-        );
+  static disposeScope(scope: string): void {
+    const container = this.scopes.get(scope);
+    if (!container) return;
+
+    if (scope === DEFAULT_SCOPE) {
+      container.clearInstances();
+      return;
     }
-    
-    this.instances.set(cacheKey, service);
-    return service;
+
+    container.dispose();
+    this.scopes.delete(scope);
+  }
+
+  static getScopes(): string[] {
+    return Array.from(this.scopes.keys());
+  }
+
+  private static get container(): ServiceContainer {
+    return this.getContainer(this.activeScope);
+  }
+
+  // ==========================================
+  // SERVICE CREATION (delegating to the active container)
+  // ==========================================
+
+  static configure(config: ServiceFactoryConfig): void {
+    this.container.configure(config);
+  }
+
+  static createMessageService(config?: ServiceFactoryConfig): IMessageService {
+    return this.container.createMessageService(config);
   }
 
-  /**
-   * Create Conversation Service
-   */
   static createConversationService(config?: ServiceFactoryConfig): IConversationService {
-    this.ensureConfigured();
-    const mergedConfig = { ...this.config, ...config };
-    
-    if (mergedConfig.customImplementations?.conversationService) {
-      logger.debug('Using custom conversation service implementation');
-      return mergedConfig.customImplementations.conversationService;
-    }
-    
-    const cacheKey = 'conversation-service';
-    
-    if (this.instances.has(cacheKey)) {
-      logger.debug('Returning cached conversation service');
-      return this.instances.get(cacheKey);
-    }
-    
-    logger.info('Creating conversation service');
-    const service = new RestConversationService(
-      this.createApiClient('chat'),
-      this.createCacheService(mergedConfig),
-      mergedConfig.userId || ''
-    );
-    
-    this.instances.set(cacheKey, service);
-    return service;
+    return this.container.createConversationService(config);
   }
 
-  /**
-   * Create User Service
-   */
   static createUserService(config?: ServiceFactoryConfig): IUserService {
-    this.ensureConfigured();
-    const mergedConfig = { ...this.config, ...config };
-    
-    if (mergedConfig.customImplementations?.userService) {
-      logger.debug('Using custom user service implementation');
-      return mergedConfig.customImplementations.userService;
-    }
-    
-    const cacheKey = 'user-service';
-    
-    if (this.instances.has(cacheKey)) {
-      logger.debug('Returning cached user service');
-      return this.instances.get(cacheKey);
-    }
-    
-    logger.info('Creating user service');
-    const service = new RestUserService(
-      this.createApiClient('chat'),
-      this.createCacheService(mergedConfig),
-      mergedConfig.userId || ''
-    );
-    
-    this.instances.set(cacheKey, service);
-    return service;
+    return this.container.createUserService(config);
   }
 
-  /**
-   * Create File Service
-   */
   static createFileService(config?: ServiceFactoryConfig): IFileService {
-    this.ensureConfigured();
-    const mergedConfig = { ...this.config, ...config };
-    
-    if (mergedConfig.customImplementations?.fileService) {
-      logger.debug('Using custom file service implementation');
-      return mergedConfig.customImplementations.fileService;
-    }
-    
-    const cacheKey = 'file-service';
-    
-    if (this.instances.has(cacheKey)) {
-      logger.debug('Returning cached file service');
-      return this.instances.get(cacheKey);
-    }
-    
-    logger.info('Creating file service');
-    const service = new RestFileService(
-      this.createApiClient('chat'),
-      mergedConfig.userId || ''
-    );
-    
-    this.instances.set(cacheKey, service);
-    return service;
+    return this.container.createFileService(config);
+  }
+
+  static createImageProcessor(config?: ServiceFactoryConfig): IImageProcessor | undefined {
+    return this.container.createImageProcessor(config);
   }
 
-  /**
-   * Create Realtime Service
-   */
   static createRealtimeService(config?: ServiceFactoryConfig): IRealtimeService {
-    this.ensureConfigured();
-    const mergedConfig = { ...this.config, ...config };
-    
-    if (mergedConfig.customImplementations?.realtimeService) {
-      logger.debug('Using custom realtime service implementation');
-      return mergedConfig.customImplementations.realtimeService;
-    }
-    
-    const cacheKey = 'realtime-service';
-    
-    if (this.instances.has(cacheKey)) {
-      logger.debug('Returning cached realtime service');
-      return this.instances.get(cacheKey);
-    }
-    
-    logger.info('Creating realtime service (using socketService)');
-    // For now, use the existing socketService singleton
-    this.instances.set(cacheKey, socketService);
-    return socketService;
+    return this.container.createRealtimeService(config);
   }
 
-  /**
-   * Create Offline Queue Service
-   */
   static createOfflineQueueService(config?: ServiceFactoryConfig): IOfflineQueueService {
-    this.ensureConfigured();
-    const mergedConfig = { ...this.config, ...config };
-    
-    if (mergedConfig.customImplementations?.offlineQueueService) {
-      logger.debug('Using custom offline queue service implementation');
-      return mergedConfig.customImplementations.offlineQueueService;
-    }
-    
-    const cacheKey = 'offline-queue-service';
-    
-    if (this.instances.has(cacheKey)) {
-      logger.debug('Returning cached offline queue service');
-      return this.instances.get(cacheKey);
-    }
-    
-    logger.info('Creating offline queue service');
-    const service = new OfflineQueueService(
-      this.createStorageService(mergedConfig)
-    );
-    
-    this.instances.set(cacheKey, service);
-    return service;
+    return this.container.createOfflineQueueService(config);
+  }
+
+  static createOutboxService(config?: ServiceFactoryConfig): IOfflineQueueService {
+    return this.container.createOutboxService(config);
+  }
+
+  static createMessageStore(config?: ServiceFactoryConfig): IMessageStore {
+    return this.container.createMessageStore(config);
+  }
+
+  static createSyncService(config?: ServiceFactoryConfig): IMessageSyncService {
+    return this.container.createSyncService(config);
+  }
+
+  static createExpiryService(config?: ServiceFactoryConfig): IMessageExpiryService {
+    return this.container.createExpiryService(config);
+  }
+
+  static createDraftService(config?: ServiceFactoryConfig): IDraftService {
+    return this.container.createDraftService(config);
+  }
+
+  static createArchiveService(config?: ServiceFactoryConfig): IChatArchiveService {
+    return this.container.createArchiveService(config);
+  }
+
+  static createTokenManager(config?: ServiceFactoryConfig): ITokenManager {
+    return this.container.createTokenManager(config);
+  }
+
+  static createRetryPolicy(config?: ServiceFactoryConfig): IRetryPolicy {
+    return this.container.createRetryPolicy(config);
   }
 
-  /**
-   * Create Storage Service based on AppConfig.storage.type
-   */
   static createStorageService(config?: ServiceFactoryConfig): IStorageService {
-    this.ensureConfigured();
-    const mergedConfig = { ...this.config, ...config };
-    
-    if (mergedConfig.customImplementations?.storageService) {
-      logger.debug('Using custom storage service implementation');
-      return mergedConfig.customImplementations.storageService;
-    }
-    
-    const storageType = AppConfig.storage.type;
-    const cacheKey = `storage-${storageType}`;
-    
-    if (this.instances.has(cacheKey)) {
-      logger.debug('Returning cached storage service', { storageType });
-      return this.instances.get(cacheKey);
-    }
-    
-    logger.info('Creating storage service', { storageType });
-    let service: IStorageService;
-    
-    switch (storageType) {
-      case 'async-storage':
-        service = new AsyncStorageService({
-          keyPrefix: AppConfig.storage.keyPrefix,
-          enableEncryption: AppConfig.storage.enableEncryption
-        });
-        break;
-        
-      case 'localstorage':
-        service = new LocalStorageService({
-          keyPrefix: AppConfig.storage.keyPrefix
-        });
-        break;
-        
-      case 'file':
-        service = new FileStorageService({
-          dataPath: AppConfig.storage.dataPath,
-          keyPrefix: AppConfig.storage.keyPrefix
-        });
-        break;
-        
-      case 'memory':
-      default:
-        service = new MemoryStorageService({
-          keyPrefix: AppConfig.storage.keyPrefix,
-          maxSize: AppConfig.storage.maxMemorySize
-        });
-    }
-    
-    this.instances.set(cacheKey, service);
-    return service;
+    return this.container.createStorageService(config);
   }
 
-  /**
-   * Create Cache Service
-   */
   static createCacheService(config?: ServiceFactoryConfig): ICacheService {
-    this.ensureConfigured();
-    const mergedConfig = { ...this.config, ...config };
-    
-    if (mergedConfig.customImplementations?.cacheService) {
-      logger.debug('Using custom cache service implementation');
-      return mergedConfig.customImplementations.cacheService;
-    }
-    
-    const cacheKey = 'cache-service';
-    
-    if (this.instances.has(cacheKey)) {
-      logger.debug('Returning cached cache service');
-      return this.instances.get(cacheKey);
-    }
-    
-    logger.info('Creating cache service');
-    const service = new MemoryCacheService();
-    
-    this.instances.set(cacheKey, service);
-    return service;
+    return this.container.createCacheService(config);
   }
 
-  /**
-   * Create API Client based on type
-   */
-  private static createApiClient(clientType: 'default' | 'chat' | 'notification' = 'chat'): BaseApiClient {
-    const cacheKey = `api-client-${clientType}`;
-    
-    if (this.apiClients.has(cacheKey)) {
-      const client = this.apiClients.get(cacheKey)!;
-      // Update token if changed
-      if (this.config.token && this.config.token !== client['token']) {
-        logger.debug('Updating API client token', { clientType });
-        client.setToken(this.config.token);
-      }
-      return client;
-    }
-    
-    let baseUrl: string;
-    let timeout: number;
-    
-    switch (clientType) {
-      case 'chat':
-        baseUrl = AppConfig.urls.chat;
-        timeout = AppConfig.chat.timeout;
-        break;
-      case 'notification':
-        baseUrl = AppConfig.notification.baseUrl;
-        timeout = AppConfig.notification.timeout;
-        break;
-      default:
-        baseUrl = AppConfig.urls.api;
-        timeout = AppConfig.api.timeout;
-    }
-    
-    logger.info('Creating API client', { clientType, baseUrl });
-    
-    const client = new BaseApiClient({
-      baseUrl,
-      token: this.config.token,
-      timeout,
-      headers: AppConfig.api.headers,
-      retries: AppConfig.api.retries,
-      retryDelay: AppConfig.api.retryDelay,
-      enableExponentialBackoff: AppConfig.api.enableExponentialBackoff,
-      maxRetryDelay: AppConfig.api.maxRetryDelay,
-      enableLogging: this.config.enableLogging ?? AppConfig.debug.enabled,
-      enableCompression: AppConfig.performance.enableDataCompression,
-      clientType
-    });
-    
-    this.apiClients.set(cacheKey, client);
-    return client;
+  static createMessageApiClient(): MessageApiClient {
+    return this.container.createMessageApiClient();
   }
 
-  /**
-   * Create all services at once
-   */
-  static createAllServices(config?: ServiceFactoryConfig): {
-    messageService: IMessageService;
-    conversationService: IConversationService;
-    userService: IUserService;
-    fileService: IFileService;
-    realtimeService: IRealtimeService;
-    offlineQueueService: IOfflineQueueService;
-    storageService: IStorageService;
-    cacheService: ICacheService;
-  } {
-    logger.info('Creating all services');
-    
-    return {
-      messageService: this.createMessageService(config),
-      conversationService: this.createConversationService(config),
-      userService: this.createUserService(config),
-      fileService: this.createFileService(config),
-      realtimeService: this.createRealtimeService(config),
-      offlineQueueService: this.createOfflineQueueService(config),
-      storageService: this.createStorageService(config),
-      cacheService: this.createCacheService(config)
-    };
+  static createAllServices(config?: ServiceFactoryConfig): ReturnType<ServiceContainer['createAllServices']> {
+    return this.container.createAllServices(config);
   }
 
-  /**
-   * Update token for all API clients
-   */
-  static updateToken(newToken: string): void {
-    logger.info('Updating token for all API clients');
-    
-    // Update config
-    this.config.token = newToken;
-    
-    // Update all existing API clients
-    for (const [key, client] of this.apiClients.entries()) {
-      logger.debug(`Updating token for ${key}`);
-      client.setToken(newToken);
-    }
+  // ==========================================
+  // LIFECYCLE & INSPECTION
+  // ==========================================
+
+  static updateToken(newToken: string, refreshToken?: string | null): void {
+    this.container.updateToken(newToken, refreshToken);
   }
 
-  /**
-   * Clear all cached instances
-   */
   static clearInstances(): void {
-    logger.info('Clearing all service instances');
-    
-    // Disconnect socket clients before clearing
-    const realtimeService = this.instances.get('realtime-service');
-    if (realtimeService) {
-      logger.debug('Disconnecting realtime service');
-      realtimeService.disconnect();
-    }
-    
-    this.instances.clear();
-    this.apiClients.clear();
-    this.isConfigured = false;
-    this.config = {};
-    
-    logger.info('All service instances cleared');
+    this.container.clearInstances();
   }
 
-  /**
-   * Get service statistics
-   */
-  static getServiceStats(): {
-    instances: number;
-    apiClients: number;
-    services: string[];
-    config: {
-      hasToken: boolean;
-      userId?: string;
-      platform: string;
-      serviceType: string;
-      storageType: string;
-    };
-  } {
-    return {
-      instances: this.instances.size,
-      apiClients: this.apiClients.size,
-      services: Array.from(this.instances.keys()),
-      config: {
-        hasToken: !!this.config.token,
-        userId: this.config.userId,
-        platform: AppConfig.platform.OS,
-        serviceType: AppConfig.service.type,
-        storageType: AppConfig.storage.type
-      }
-    };
+  static getServiceStats(): ReturnType<ServiceContainer['getServiceStats']> {
+    return this.container.getServiceStats();
   }
 
-  /**
-   * Check if a service exists in cache
-   */
   static hasService(serviceName: string): boolean {
-    return this.instances.has(serviceName);
+    return this.container.hasService(serviceName);
   }
 
-  /**
-   * Get a specific service instance if it exists
-   */
   static getService<T>(serviceName: string): T | undefined {
-    return this.instances.get(serviceName) as T;
+    return this.container.getService<T>(serviceName);
   }
 
-  /**
-   * Remove a specific service from cache
-   */
   static removeService(serviceName: string): void {
-    if (this.instances.has(serviceName)) {
-      logger.debug(`Removing service: ${serviceName}`);
-      
-      // Special cleanup for realtime service
-      if (serviceName === 'realtime-service') {
-        const service = this.instances.get(serviceName);
-        if (service && typeof service.disconnect === 'function') {
-          service.disconnect();
-        }
-      }
-      
-      this.instances.delete(serviceName);
-    }
+    this.container.removeService(serviceName);
   }
 
-  /**
-   * Reset factory to initial state
-   */
   static reset(): void {
     logger.info('Resetting ServiceFactory to initial state');
-    this.clearInstances();
+    this.container.reset();
   }
-}
\ No newline at end of file
+}
@@ -34,7 +34,8 @@ export abstract class BaseConversationService {
       lastMessage: data.lastMessage ? this.transformMessage(data.lastMessage) : undefined,
       unreadCount: data.unreadCount || 0,
       createdAt: data.createdAt,
-      updatedAt: data.updatedAt || data.lastMessageAt || data.createdAt
+      updatedAt: data.updatedAt || data.lastMessageAt || data.createdAt,
+      adminIds: data.adminIds
     };
   }
 
@@ -50,7 +51,10 @@ export abstract class BaseConversationService {
       name: p.name || 'Unknown',
       avatar: p.avatar || '',
       isOnline: p.isOnline || false,
-      lastSeen: p.lastSeen
+      lastSeen: p.lastSeen,
+      permissions: p.permissions,
+      nickname: p.nickname || undefined,
+      leftAt: p.leftAt
     }));
   }
 
@@ -74,7 +78,10 @@ export abstract class BaseConversationService {
     return {
       isMuted: settings?.isMuted || false,
       isPinned: settings?.isPinned || false,
-      notificationEnabled: settings?.notificationEnabled !== false
+      notificationEnabled: settings?.notificationEnabled !== false,
+      muteUntil: settings?.muteUntil,
+      autoDeleteMessages: settings?.autoDeleteMessages,
+      messageRetention: settings?.messageRetention
     };
   }
 
@@ -144,6 +151,31 @@ protected validateConversationCreation(params: {
 }
 
 
+  /**
+   * Validate a group membership change - shared validation.
+   * Conversations we have not cached yet are left to the server to check.
+   */
+  protected validateMembershipChange(conversationId: string, userIds: string[]): void {
+    if (!conversationId?.trim()) {
+      throw new ValidationException('Conversation ID is required');
+    }
+    
+    if (!Array.isArray(userIds) || userIds.length === 0) {
+      throw new ValidationException('At least 1 user ID required');
+    }
+    
+    userIds.forEach(id => {
+      if (typeof id !== 'string' || id.trim().length === 0) {
+        throw new ValidationException('All user IDs must be valid non-empty strings');
+      }
+    });
+    
+    const conversation = this.findConversationInCache(c => c.id === conversationId);
+    if (conversation && conversation.type !== ConversationType.GROUP_CHAT) {
+      throw new ValidationException('Participants can only be managed in group conversations');
+    }
+  }
+
   /**
    * Find conversation in cache by criteria - shared search
    */
@@ -4,9 +4,12 @@ import {
   MessageStatus,
   MessageType,
   AttachmentType,
-  Attachment
+  Attachment,
+  MessageReactionEvent,
+  MessageThread
 } from '../../types/chat';
 import { v4 as uuidv4 } from 'uuid';
+import { assertAttachmentCount } from '../../utils/attachmentValidation';
 import { ICacheService } from '../interfaces';
 
 /**
@@ -16,6 +19,7 @@ export abstract class BaseMessageService {
   protected MESSAGE_TIMEOUT = 30000;
   protected processingMessages = new Set<string>();
   protected messageTimeouts = new Map<string, any>();
+  private reactionListeners = new Set<(event: MessageReactionEvent) => void>();
   
   constructor(
     protected cacheService: ICacheService,
@@ -33,8 +37,13 @@ export abstract class BaseMessageService {
       replyTo?: string;
       attachments?: Attachment[];
       metadata?: Record<string, any>;
+      mentions?: string[];
+      expiresAt?: string;
+      type?: MessageType;
     }
   ): Message {
+    assertAttachmentCount(options?.attachments?.length ?? 0);
+
     const now = Date.now();
     const clientTempId = `temp-${now}-${Math.random().toString(36).substr(2, 9)}`;
     const messageId = uuidv4();
@@ -46,12 +55,14 @@ export abstract class BaseMessageService {
       receiverId,
       content,
       timestamp: new Date().toISOString(),
-      type: MessageType.TEXT,
+      type: options?.type || MessageType.TEXT,
       status: MessageStatus.SENDING,
       replyTo: options?.replyTo,
       attachments: options?.attachments,
       conversationId,
-      jobId: options?.metadata?.jobId
+      jobId: options?.metadata?.jobId,
+      mentions: options?.mentions,
+      expiresAt: options?.expiresAt
     };
   }
 
@@ -73,7 +84,12 @@ export abstract class BaseMessageService {
       conversationId: data.conversationId,
       jobId: data.jobId,
       isEdited: data.isEdited,
-      editedAt: data.editedAt
+      editedAt: data.editedAt,
+      reactions: data.reactions || data.content?.reactions,
+      mentions: data.mentions || data.content?.mentions,
+      expiresAt: data.expiresAt,
+      replyCount: data.replyCount,
+      lastReplyAt: data.lastReplyAt
     };
   }
 
@@ -90,13 +106,19 @@ export abstract class BaseMessageService {
           type: att.type || AttachmentType.FILE,
           url: att.url,
           name: att.name || 'file',
-          size: att.size || 0
+          size: att.size || 0,
+          mimeType: att.mimeType,
+          duration: att.duration,
+          metadata: att.metadata
         });
       });
     }
     
+    // Backends that fill both also list these URLs under images/audio
+    const known = new Set(attachments.map(att => att.url));
+
     if (content?.images?.length) {
-      content.images.forEach((url: string, index: number) => {
+      content.images.filter((url: string) => !known.has(url)).forEach((url: string, index: number) => {
         attachments.push({
           id: `img-${index}`,
           type: AttachmentType.IMAGE,
@@ -107,7 +129,7 @@ export abstract class BaseMessageService {
       });
     }
     
-    if (content?.audio) {
+    if (content?.audio && !known.has(content.audio)) {
       attachments.push({
         id: 'audio-0',
         type: AttachmentType.AUDIO,
@@ -132,6 +154,18 @@ export abstract class BaseMessageService {
     }
   }
 
+  /**
+   * Message type for an attachment - shared utility
+   */
+  protected getMessageType(type: AttachmentType): MessageType {
+    switch (type) {
+      case AttachmentType.IMAGE: return MessageType.IMAGE;
+      case AttachmentType.AUDIO: return MessageType.AUDIO;
+      case AttachmentType.VIDEO: return MessageType.VIDEO;
+      default: return MessageType.FILE;
+    }
+  }
+
   /**
    * Get file extension - shared utility
    */
@@ -214,4 +248,54 @@ export abstract class BaseMessageService {
       (clientTempId && m.clientTempId === clientTempId)
     );
   }
+
+  /**
+   * Thread assembled from cached messages - shared fallback
+   */
+  protected getCachedThread(messageId: string): MessageThread | null {
+    return this.cacheService.getThread(messageId);
+  }
+
+  /**
+   * Build a reaction change made by the current user - shared by all implementations
+   */
+  protected createReactionEvent(
+    conversationId: string,
+    messageId: string,
+    emoji: string,
+    action: MessageReactionEvent['action']
+  ): MessageReactionEvent {
+    return {
+      messageId,
+      conversationId,
+      userId: this.userId,
+      emoji,
+      action,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Merge a reaction change into the cache and tell local subscribers
+   */
+  protected applyReaction(event: MessageReactionEvent): void {
+    this.cacheService.applyReaction(event);
+    this.reactionListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error in reaction listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Subscribe to reaction changes applied through this service
+   */
+  protected addReactionListener(callback: (event: MessageReactionEvent) => void): () => void {
+    this.reactionListeners.add(callback);
+    return () => {
+      this.reactionListeners.delete(callback);
+    };
+  }
 }
\ No newline at end of file
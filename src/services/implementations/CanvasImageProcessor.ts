@@ -0,0 +1,88 @@
+// src/services/implementations/CanvasImageProcessor.ts
+import { ImageProcessingOptions, ProcessedImage, ProcessedImageData, ValidationException } from '../../types/chat';
+import { ImageSize, detectImageFormat, fitWithin, mimeTypeOf, readImageSize } from '../../utils/imageMetadata';
+import { IImageProcessor } from '../interfaces';
+
+/**
+ * Browser image processing: the image is decoded with its EXIF orientation
+ * applied and drawn onto a canvas. Encoding the canvas writes a fresh file,
+ * so none of the original metadata makes it into the upload.
+ *
+ * PNGs stay PNG (transparency), everything else becomes JPEG. GIFs are
+ * passed through, as redrawing would keep only the first frame.
+ */
+export class CanvasImageProcessor implements IImageProcessor {
+  async process(image: any, options: ImageProcessingOptions): Promise<ProcessedImage> {
+    const blob = await toBlob(image);
+    const format = detectImageFormat(new Uint8Array(await blob.slice(0, 32).arrayBuffer()));
+
+    if (format === 'gif') {
+      const data = new Uint8Array(await blob.arrayBuffer());
+      return { data, mimeType: mimeTypeOf(format), ...readImageSize(data) };
+    }
+
+    const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    try {
+      const original = { width: bitmap.width, height: bitmap.height };
+      const mimeType = format === 'png' ? 'image/png' : 'image/jpeg';
+
+      return {
+        ...await render(bitmap, fitWithin(original, options.maxDimension), mimeType, options.quality),
+        thumbnail: await render(bitmap, fitWithin(original, options.thumbnailSize), mimeType, options.quality)
+      };
+    } finally {
+      bitmap.close();
+    }
+  }
+}
+
+async function toBlob(image: any): Promise<Blob> {
+  if (!image) {
+    throw new ValidationException('Image is required');
+  }
+
+  if (image instanceof Blob) return image;
+  if (image.data) return new Blob([image.data], { type: image.type || image.mimeType });
+  if (image.uri) return (await fetch(image.uri)).blob();
+
+  throw new ValidationException('Image needs to be a File/Blob, data or a URI');
+}
+
+async function render(
+  bitmap: ImageBitmap,
+  size: ImageSize,
+  mimeType: string,
+  quality: number
+): Promise<ProcessedImageData> {
+  let blob: Blob | null;
+
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(size.width, size.height);
+    draw(canvas.getContext('2d'), bitmap, size);
+    blob = await canvas.convertToBlob({ type: mimeType, quality });
+  } else {
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    draw(canvas.getContext('2d'), bitmap, size);
+    blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, quality));
+  }
+
+  if (!blob) {
+    throw new Error('Canvas could not encode the image');
+  }
+
+  return { data: new Uint8Array(await blob.arrayBuffer()), mimeType: blob.type || mimeType, ...size };
+}
+
+function draw(
+  context: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null,
+  bitmap: ImageBitmap,
+  size: ImageSize
+): void {
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, size.width, size.height);
+}
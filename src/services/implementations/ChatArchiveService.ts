@@ -0,0 +1,169 @@
+// src/services/implementations/ChatArchiveService.ts
+import {
+  ArchiveImportResult,
+  CHAT_ARCHIVE_FORMAT,
+  CHAT_ARCHIVE_VERSION,
+  ChatArchive,
+  Message,
+  ValidationException
+} from '../../types/chat';
+import { ARCHIVE_SETTINGS_KEYS, parseArchive } from '../../utils/archive';
+import { logger } from '../../utils/Logger';
+import {
+  IChatArchiveService,
+  IDraftService,
+  IMessageStore,
+  IOfflineQueueService,
+  IStorageService
+} from '../interfaces';
+
+const EXPORT_PAGE_SIZE = 200;
+
+/**
+ * Versioned export and restore of one account's local chat data.
+ *
+ * Export reads through the message store and offline queue rather than raw
+ * storage keys, so an archive can be restored into any storage backend.
+ * Import is a merge: anything already present locally wins, so restoring
+ * the same archive twice (or over a partly synced store) adds nothing new.
+ * An archive is only restored into the account that exported it, and only
+ * that account's own messages are queued for sending again.
+ * The session token is never part of an archive.
+ */
+export class ChatArchiveService implements IChatArchiveService {
+  constructor(
+    private messageStore: IMessageStore,
+    private offlineQueueService: IOfflineQueueService,
+    private draftService: IDraftService,
+    private storageService: IStorageService
+  ) {}
+
+  async exportArchive(userId?: string): Promise<ChatArchive> {
+    const conversations = await this.messageStore.getConversations();
+
+    const messages: Record<string, Message[]> = {};
+    for (const conversation of conversations) {
+      messages[conversation.id] = await this.readHistory(conversation.id);
+    }
+
+    const settings: Record<string, any> = {};
+    for (const key of ARCHIVE_SETTINGS_KEYS) {
+      const value = await this.storageService.get(key);
+      if (value !== null) settings[key] = value;
+    }
+
+    return {
+      format: CHAT_ARCHIVE_FORMAT,
+      version: CHAT_ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      userId,
+      conversations,
+      messages,
+      offlineQueue: this.offlineQueueService.getQueuedMessages(),
+      drafts: await this.draftService.getDrafts(),
+      settings
+    };
+  }
+
+  async importArchive(input: unknown, userId?: string): Promise<ArchiveImportResult> {
+    const { archive, migratedFrom } = parseArchive(input);
+    if (userId && archive.userId && archive.userId !== userId) {
+      throw new ValidationException('Archive belongs to another account', { archiveUserId: archive.userId, userId });
+    }
+    if (migratedFrom !== undefined) {
+      logger.info(`Migrating chat archive from version ${migratedFrom} to ${CHAT_ARCHIVE_VERSION}`);
+    }
+
+    const result: ArchiveImportResult = {
+      migratedFrom,
+      conversations: { imported: 0, skipped: 0 },
+      messages: { imported: 0, skipped: 0 },
+      offlineQueue: { imported: 0, skipped: 0 },
+      drafts: { imported: 0, skipped: 0 },
+      settings: { imported: 0, skipped: 0 }
+    };
+
+    for (const conversation of archive.conversations) {
+      const existing = await this.messageStore.getConversation(conversation.id);
+      if (existing && new Date(existing.updatedAt).getTime() >= new Date(conversation.updatedAt).getTime()) {
+        result.conversations.skipped++;
+        continue;
+      }
+      await this.messageStore.saveConversation(conversation);
+      result.conversations.imported++;
+    }
+
+    for (const [conversationId, list] of Object.entries(archive.messages)) {
+      const fresh: Message[] = [];
+      for (const message of list) {
+        if (await this.isStored(message)) {
+          result.messages.skipped++;
+        } else {
+          fresh.push(message);
+        }
+      }
+      if (fresh.length > 0) {
+        await this.messageStore.saveMessages(conversationId, fresh);
+        result.messages.imported += fresh.length;
+      }
+    }
+
+    // A queued message that reached the server since the export is already
+    // in the store; queueing it again would send it twice. Legacy backups
+    // carry no owner, so each entry must also have been written by this user.
+    const queued = new Set(this.offlineQueueService.getQueuedMessages().map(message => message.clientTempId));
+    for (const message of archive.offlineQueue) {
+      const foreign = !!userId && message.senderId !== userId;
+      if (foreign || queued.has(message.clientTempId) || await this.isStored(message)) {
+        result.offlineQueue.skipped++;
+        continue;
+      }
+      await this.offlineQueueService.queueMessage(message);
+      result.offlineQueue.imported++;
+    }
+
+    result.drafts.imported = await this.draftService.restoreDrafts(archive.drafts);
+    result.drafts.skipped = Object.keys(archive.drafts).length - result.drafts.imported;
+
+    for (const [key, value] of Object.entries(archive.settings)) {
+      if (!ARCHIVE_SETTINGS_KEYS.includes(key) || await this.storageService.get(key) !== null) {
+        result.settings.skipped++;
+        continue;
+      }
+      await this.storageService.set(key, value);
+      result.settings.imported++;
+    }
+
+    logger.info('Chat archive imported', result);
+    return result;
+  }
+
+  // ==========================================
+  // PRIVATE HELPERS
+  // ==========================================
+
+  /**
+   * Whole stored history of a conversation, oldest first
+   */
+  private async readHistory(conversationId: string): Promise<Message[]> {
+    const history: Message[] = [];
+    let offset = 0;
+    let hasMore = true;
+
+    while (hasMore) {
+      const page = await this.messageStore.queryMessages(conversationId, { offset, limit: EXPORT_PAGE_SIZE });
+      history.push(...page.messages);
+      offset += page.messages.length;
+      hasMore = page.hasMore && page.messages.length > 0;
+    }
+
+    return history.reverse();
+  }
+
+  private async isStored(message: Message): Promise<boolean> {
+    if (await this.messageStore.getMessage(message.conversationId, message.id)) {
+      return true;
+    }
+    return !!message.clientTempId && !!await this.messageStore.getMessageByClientTempId(message.clientTempId);
+  }
+}
@@ -0,0 +1,235 @@
+// src/services/implementations/DeltaSyncService.ts
+import { Message, MessageStatus, SyncCursor, SyncResult } from '../../types/chat';
+import { MessageApiClient } from '../api/clients/MessageApiClient';
+import {
+  ICacheService,
+  IMessageStore,
+  IMessageSyncService,
+  IStorageService
+} from '../interfaces';
+
+/**
+ * Delta sync: remembers the newest message seen per conversation and, on
+ * demand (typically after a reconnect), asks the server only for messages
+ * after that cursor. Results are merged into the cache and the persistent
+ * store, deduplicated by id / clientTempId.
+ *
+ * Live socket messages deliberately do not move the cursor - a message that
+ * arrives right after a reconnect would otherwise hide the gap before it.
+ */
+export class DeltaSyncService implements IMessageSyncService {
+  private readonly STORAGE_KEY = 'sync_cursors';
+  private readonly MAX_PAGES_PER_SYNC = 20;
+
+  private cursors: Record<string, SyncCursor> | null = null;
+  private inFlight: Map<string, Promise<SyncResult>> = new Map();
+
+  constructor(
+    private apiClient: MessageApiClient,
+    private cacheService: ICacheService,
+    private messageStore: IMessageStore,
+    private storageService: IStorageService,
+    private pageSize: number = 100
+  ) {}
+
+  /**
+   * Fetch everything newer than the conversation's cursor.
+   * Concurrent calls for the same conversation share one request.
+   */
+  async syncConversation(conversationId: string): Promise<SyncResult> {
+    const running = this.inFlight.get(conversationId);
+    if (running) return running;
+
+    const sync = this.runSync(conversationId).finally(() => {
+      this.inFlight.delete(conversationId);
+    });
+    this.inFlight.set(conversationId, sync);
+    return sync;
+  }
+
+  /**
+   * Sync the given conversations, or every conversation we know about.
+   * One failing conversation does not stop the rest.
+   */
+  async syncAll(conversationIds?: string[]): Promise<SyncResult[]> {
+    const ids = conversationIds || await this.getKnownConversationIds();
+    const results: SyncResult[] = [];
+
+    for (const conversationId of ids) {
+      try {
+        results.push(await this.syncConversation(conversationId));
+      } catch (error) {
+        results.push({
+          conversationId,
+          newMessages: [],
+          fetchedCount: 0,
+          cursor: await this.getCursor(conversationId),
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return results;
+  }
+
+  async getCursor(conversationId: string): Promise<SyncCursor | null> {
+    return (await this.loadCursors())[conversationId] || null;
+  }
+
+  async resetCursor(conversationId?: string): Promise<void> {
+    const cursors = await this.loadCursors();
+
+    if (conversationId) {
+      delete cursors[conversationId];
+    } else {
+      this.cursors = {};
+    }
+
+    await this.saveCursors();
+  }
+
+  // ==========================================
+  // PRIVATE HELPER METHODS
+  // ==========================================
+
+  private async runSync(conversationId: string): Promise<SyncResult> {
+    let cursor = await this.getCursor(conversationId) || await this.seedCursor(conversationId);
+    const newMessages: Message[] = [];
+    let fetchedCount = 0;
+
+    // No cursor and no local history - take the latest page as the starting point
+    if (!cursor) {
+      const latest = await this.apiClient.getMessages(conversationId, 1, this.pageSize);
+      newMessages.push(...await this.merge(conversationId, latest.messages));
+      fetchedCount += latest.messages.length;
+      cursor = this.advance(conversationId, null, latest.messages);
+    } else {
+      let since = cursor;
+
+      for (let page = 0; page < this.MAX_PAGES_PER_SYNC; page++) {
+        const delta = await this.apiClient.getMessagesSince(
+          conversationId,
+          since.lastMessageId || since.lastTimestamp,
+          this.pageSize
+        );
+
+        newMessages.push(...await this.merge(conversationId, delta.messages));
+        fetchedCount += delta.messages.length;
+        since = this.advance(conversationId, since, delta.messages) || since;
+
+        if (!delta.hasMore || delta.messages.length === 0) break;
+      }
+
+      cursor = since;
+    }
+
+    if (cursor) {
+      cursor = { ...cursor, syncedAt: Date.now() };
+      (await this.loadCursors())[conversationId] = cursor;
+      await this.saveCursors();
+    }
+
+    console.log(`🔄 Synced ${conversationId}: ${fetchedCount} fetched, ${newMessages.length} new`);
+
+    return { conversationId, newMessages, fetchedCount, cursor };
+  }
+
+  /**
+   * Start from the newest server-confirmed message we already hold locally, if any
+   */
+  private async seedCursor(conversationId: string): Promise<SyncCursor | null> {
+    let local: Message[] = [];
+
+    try {
+      local = (await this.messageStore.queryMessages(conversationId, { limit: this.pageSize })).messages;
+    } catch (error) {
+      console.warn('Message store unavailable for sync seed:', error);
+    }
+
+    if (local.length === 0) {
+      local = this.cacheService.getCachedMessages(conversationId);
+    }
+
+    // Optimistic messages carry client-side ids the server has never seen
+    const confirmed = local.filter(message => ![
+      MessageStatus.QUEUED,
+      MessageStatus.SENDING,
+      MessageStatus.FAILED
+    ].includes(message.status));
+
+    return this.advance(conversationId, null, confirmed);
+  }
+
+  /**
+   * Cache + persist, returning the messages that were not known before
+   */
+  private async merge(conversationId: string, messages: Message[]): Promise<Message[]> {
+    if (messages.length === 0) return [];
+
+    const known = this.cacheService.getCachedMessages(conversationId);
+    const fresh = messages.filter(message => !known.some(m =>
+      m.id === message.id ||
+      (!!message.clientTempId && m.clientTempId === message.clientTempId)
+    ));
+
+    messages.forEach(message => this.cacheService.cacheMessage(conversationId, message));
+
+    try {
+      await this.messageStore.saveMessages(conversationId, messages);
+    } catch (error) {
+      console.warn('Failed to persist synced messages:', error);
+    }
+
+    return fresh;
+  }
+
+  private advance(conversationId: string, cursor: SyncCursor | null, messages: Message[]): SyncCursor | null {
+    const newest = this.latestOf(messages);
+    if (!newest) return cursor;
+
+    if (cursor && new Date(cursor.lastTimestamp).getTime() > new Date(newest.timestamp).getTime()) {
+      return cursor;
+    }
+
+    return {
+      conversationId,
+      lastMessageId: newest.id,
+      lastTimestamp: newest.timestamp,
+      syncedAt: cursor?.syncedAt || 0
+    };
+  }
+
+  private latestOf(messages: Message[]): Message | undefined {
+    return messages.reduce<Message | undefined>((latest, message) =>
+      !latest || new Date(message.timestamp).getTime() >= new Date(latest.timestamp).getTime()
+        ? message
+        : latest,
+    undefined);
+  }
+
+  private async getKnownConversationIds(): Promise<string[]> {
+    const ids = new Set(Object.keys(await this.loadCursors()));
+    this.cacheService.getCachedConversations().forEach(conversation => ids.add(conversation.id));
+    return Array.from(ids);
+  }
+
+  private async loadCursors(): Promise<Record<string, SyncCursor>> {
+    if (!this.cursors) {
+      try {
+        this.cursors = await this.storageService.get<Record<string, SyncCursor>>(this.STORAGE_KEY) || {};
+      } catch (error) {
+        console.error('Failed to load sync cursors:', error);
+        this.cursors = {};
+      }
+    }
+    return this.cursors;
+  }
+
+  private async saveCursors(): Promise<void> {
+    try {
+      await this.storageService.set(this.STORAGE_KEY, this.cursors || {});
+    } catch (error) {
+      console.error('Failed to save sync cursors:', error);
+    }
+  }
+}
@@ -0,0 +1,250 @@
+// src/services/implementations/DraftService.ts
+import { AppConfig } from '../../config/AppConfig';
+import { DraftChangeEvent, MessageDraft } from '../../types/chat';
+import { systemClock } from '../../utils/clock';
+import { logger } from '../../utils/Logger';
+import {
+  DraftContent,
+  IClock,
+  IDraftService,
+  IStorageService
+} from '../interfaces';
+
+// Storage events and fs.watch fire several times per write
+const RELOAD_DELAY = 100;
+
+/**
+ * Unsent text and attachments, kept per conversation under one storage key.
+ *
+ * saveDraft() is cheap enough to call on every keystroke: the latest content
+ * is visible straight away and written once typing pauses. Writes re-read
+ * the stored drafts and apply only this instance's changes, so two tabs (or
+ * two processes on one data folder) editing different conversations do not
+ * overwrite each other. When the storage backend supports watchKey, drafts
+ * written elsewhere are picked up and announced as external changes.
+ */
+export class DraftService implements IDraftService {
+  private readonly STORAGE_KEY = 'drafts';
+
+  private drafts: Record<string, MessageDraft> | null = null;
+  private pending = new Map<string, MessageDraft | null>(); // null = cleared
+  private listeners = new Set<(event: DraftChangeEvent) => void>();
+  private saveTimer: any = null;
+  private reloadTimer: any = null;
+  private writing: Promise<void> = Promise.resolve();
+  private unwatch: (() => void) | null = null;
+
+  constructor(
+    private storageService: IStorageService,
+    private clock: IClock = systemClock,
+    private saveDebounce: number = AppConfig.drafts.saveDebounce
+  ) {}
+
+  /**
+   * Load stored drafts and start following changes from other tabs/processes
+   */
+  async start(): Promise<void> {
+    await this.loadDrafts();
+    if (!this.unwatch && this.storageService.watchKey) {
+      this.unwatch = this.storageService.watchKey(this.STORAGE_KEY, () => this.scheduleReload());
+    }
+  }
+
+  async getDraft(conversationId: string): Promise<MessageDraft | null> {
+    if (this.pending.has(conversationId)) {
+      return this.pending.get(conversationId)!;
+    }
+    const drafts = await this.loadDrafts();
+    return drafts[conversationId] || null;
+  }
+
+  async getDrafts(): Promise<Record<string, MessageDraft>> {
+    const drafts = { ...await this.loadDrafts() };
+    this.pending.forEach((draft, conversationId) => {
+      if (draft) drafts[conversationId] = draft;
+      else delete drafts[conversationId];
+    });
+    return drafts;
+  }
+
+  /**
+   * Update a draft. Fields left out keep their current value; a draft with
+   * no text and no attachments is cleared.
+   */
+  saveDraft(conversationId: string, content: DraftContent): void {
+    const current = this.pending.has(conversationId)
+      ? this.pending.get(conversationId)
+      : this.drafts?.[conversationId];
+
+    const text = content.text ?? current?.text ?? '';
+    const attachments = content.attachments ?? current?.attachments ?? [];
+    const replyTo = 'replyTo' in content ? content.replyTo : current?.replyTo;
+
+    const draft: MessageDraft | null = text.trim() || attachments.length > 0
+      ? { conversationId, text, attachments, replyTo, updatedAt: new Date(this.clock.now()).toISOString() }
+      : null;
+
+    if (!draft && !current) return;
+
+    this.pending.set(conversationId, draft);
+    this.emit({ conversationId, draft, source: 'local' });
+    this.scheduleSave();
+  }
+
+  /**
+   * Drop a draft right away (e.g. once its message is sent)
+   */
+  async clearDraft(conversationId: string): Promise<void> {
+    const current = await this.getDraft(conversationId);
+    if (!current) return;
+
+    this.pending.set(conversationId, null);
+    this.emit({ conversationId, draft: null, source: 'local' });
+    await this.flush();
+  }
+
+  /**
+   * Add drafts from elsewhere (an archive) for conversations that have none.
+   * Returns how many were added.
+   */
+  async restoreDrafts(drafts: Record<string, MessageDraft>): Promise<number> {
+    await this.flush();
+
+    const restored: MessageDraft[] = [];
+    await this.write(stored => {
+      for (const [conversationId, draft] of Object.entries(drafts)) {
+        if (stored[conversationId]) continue;
+        stored[conversationId] = { ...draft, attachments: draft.attachments || [], conversationId };
+        restored.push(stored[conversationId]);
+      }
+    });
+
+    restored.forEach(draft => this.emit({ conversationId: draft.conversationId, draft, source: 'external' }));
+    return restored.length;
+  }
+
+  /**
+   * Write pending changes now instead of waiting for the debounce
+   */
+  async flush(): Promise<void> {
+    this.clearTimer('saveTimer');
+    if (this.pending.size === 0) return this.writing;
+
+    const changes = new Map(this.pending);
+    this.pending.clear();
+
+    try {
+      await this.write(stored => {
+        changes.forEach((draft, conversationId) => {
+          if (draft) stored[conversationId] = draft;
+          else delete stored[conversationId];
+        });
+      });
+    } catch (error) {
+      // Keep them for the next attempt unless they were edited meanwhile
+      changes.forEach((draft, conversationId) => {
+        if (!this.pending.has(conversationId)) this.pending.set(conversationId, draft);
+      });
+      throw error;
+    }
+  }
+
+  onDraftChanged(callback: (event: DraftChangeEvent) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  dispose(): void {
+    this.unwatch?.();
+    this.unwatch = null;
+    this.clearTimer('reloadTimer');
+
+    if (this.pending.size > 0) {
+      this.flush().catch(error => logger.error('Failed to save drafts on dispose', error));
+    }
+    this.listeners.clear();
+  }
+
+  // ==========================================
+  // PRIVATE HELPER METHODS
+  // ==========================================
+
+  private async loadDrafts(): Promise<Record<string, MessageDraft>> {
+    if (!this.drafts) {
+      this.drafts = await this.storageService.get<Record<string, MessageDraft>>(this.STORAGE_KEY) || {};
+    }
+    return this.drafts;
+  }
+
+  /**
+   * Read-modify-write of the stored drafts, one at a time
+   */
+  private write(apply: (stored: Record<string, MessageDraft>) => void): Promise<void> {
+    const next = this.writing.catch(() => undefined).then(async () => {
+      const stored = await this.storageService.get<Record<string, MessageDraft>>(this.STORAGE_KEY) || {};
+      apply(stored);
+      await this.storageService.set(this.STORAGE_KEY, stored);
+      this.drafts = stored;
+    });
+    this.writing = next;
+    return next;
+  }
+
+  private scheduleSave(): void {
+    this.clearTimer('saveTimer');
+    this.saveTimer = this.clock.setTimeout(() => {
+      this.saveTimer = null;
+      this.flush().catch(error => logger.error('Failed to save drafts', error));
+    }, this.saveDebounce);
+  }
+
+  private scheduleReload(): void {
+    this.clearTimer('reloadTimer');
+    this.reloadTimer = this.clock.setTimeout(() => {
+      this.reloadTimer = null;
+      this.reload().catch(error => logger.error('Failed to reload drafts', error));
+    }, RELOAD_DELAY);
+  }
+
+  /**
+   * Take in drafts written by another tab or process. Conversations with
+   * unsaved local edits keep the local version.
+   */
+  private async reload(): Promise<void> {
+    await this.writing.catch(() => undefined);
+
+    const previous = this.drafts || {};
+    const stored = await this.storageService.get<Record<string, MessageDraft>>(this.STORAGE_KEY) || {};
+    this.drafts = stored;
+
+    const conversationIds = new Set([...Object.keys(previous), ...Object.keys(stored)]);
+    conversationIds.forEach(conversationId => {
+      if (this.pending.has(conversationId)) return;
+
+      const before = previous[conversationId];
+      const after = stored[conversationId];
+      if (before?.updatedAt === after?.updatedAt && before?.text === after?.text) return;
+
+      this.emit({ conversationId, draft: after || null, source: 'external' });
+    });
+  }
+
+  private emit(event: DraftChangeEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error('Draft listener failed', error);
+      }
+    });
+  }
+
+  private clearTimer(name: 'saveTimer' | 'reloadTimer'): void {
+    if (this[name]) {
+      this.clock.clearTimeout(this[name]);
+      this[name] = null;
+    }
+  }
+}
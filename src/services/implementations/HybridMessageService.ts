@@ -3,15 +3,21 @@ import { BaseMessageService } from './BaseMessageService';
 import { 
   IMessageService,
   ICacheService,
-  IOfflineQueueService
+  IOfflineQueueService,
+  IMessageStore,
+  IMessageSyncService
 } from '../interfaces';
 import { 
   Message, 
   MessageLoadOptions, 
   MessageLoadResult,
   MessageStatus,
+  MessageType,
   AttachmentType,
-  ConnectionState
+  ConnectionState,
+  MessageRangeQuery,
+  MessageReactionEvent,
+  MessageThread
 } from '../../types/chat';
 import { RestMessageService } from './RestMessageService';
 import { SocketMessageService } from './SocketMessageService';
@@ -25,8 +31,10 @@ export class HybridMessageService extends BaseMessageService implements IMessage
     socketClient: any,
     cacheService: ICacheService,
     private offlineQueueService: IOfflineQueueService,
+    private messageStore: IMessageStore,
     private connectionChecker: () => ConnectionState,
-    userId: string = ''
+    userId: string = '',
+    private syncService?: IMessageSyncService // Brings the store up to date before it serves the newest page
   ) {
     super(cacheService, userId);
     
@@ -43,6 +51,9 @@ export class HybridMessageService extends BaseMessageService implements IMessage
       replyTo?: string;
       attachments?: any[];
       metadata?: Record<string, any>;
+      mentions?: string[];
+      expiresAt?: string;
+      type?: MessageType;
     }
   ): Promise<Message> {
     // Check connection state
@@ -56,7 +67,9 @@ export class HybridMessageService extends BaseMessageService implements IMessage
     // If connected, try socket first, fallback to REST
     if (this.isSocketAvailable(connectionState)) {
       try {
-        return await this.socketService.sendMessage(conversationId, content, receiverId, options);
+        return await this.persist(
+          await this.socketService.sendMessage(conversationId, content, receiverId, options)
+        );
       } catch (socketError) {
         console.warn('Socket send failed, trying REST:', socketError);
         // Fallthrough to REST
@@ -65,7 +78,9 @@ export class HybridMessageService extends BaseMessageService implements IMessage
 
     // Use REST as fallback or primary
     try {
-      return await this.restService.sendMessage(conversationId, content, receiverId, options);
+      return await this.persist(
+        await this.restService.sendMessage(conversationId, content, receiverId, options)
+      );
     } catch (restError) {
       console.error('REST send failed, queueing for offline:', restError);
       return this.queueOfflineMessage(conversationId, content, receiverId, options);
@@ -79,15 +94,50 @@ export class HybridMessageService extends BaseMessageService implements IMessage
     receiverId: string
   ): Promise<Message> {
     // Attachments always use REST for upload
-    return this.restService.sendAttachment(conversationId, file, type, receiverId);
+    return this.persist(
+      await this.restService.sendAttachment(conversationId, file, type, receiverId)
+    );
   }
 
   async getMessages(
     conversationId: string, 
     options?: MessageLoadOptions
   ): Promise<MessageLoadResult> {
-    // Always use REST for fetching history
-    return this.restService.getMessages(conversationId, options);
+    const limit = options?.limit || 50;
+    const offline = this.isOffline(this.connectionChecker());
+
+    // Local history first: a full page, or whatever we have while offline
+    if (!options?.forceRefresh) {
+      try {
+        // Anything sent while we were away lands in the store first; otherwise a
+        // full but stale page would hide the gap above it for good
+        if (!offline && this.isFirstPage(options) && this.syncService) {
+          await this.syncService.syncConversation(conversationId);
+        }
+
+        const stored = await this.messageStore.queryMessages(
+          conversationId,
+          await this.toRangeQuery(conversationId, options)
+        );
+
+        if (offline || stored.messages.length >= limit) {
+          stored.messages.forEach(message => this.cacheMessage(conversationId, message));
+
+          // Without a sync service, at least keep the newest page fresh
+          if (!offline && this.isFirstPage(options) && !this.syncService) {
+            this.fetchAndStore(conversationId, options).catch(error => {
+              console.warn('Background history refresh failed:', error);
+            });
+          }
+
+          return stored;
+        }
+      } catch (error) {
+        console.warn('Local history unavailable, using REST:', error);
+      }
+    }
+
+    return this.fetchAndStore(conversationId, options);
   }
 
   async getMessage(messageId: string): Promise<Message | null> {
@@ -95,6 +145,10 @@ export class HybridMessageService extends BaseMessageService implements IMessage
     return this.restService.getMessage(messageId);
   }
 
+  async getThread(rootMessageId: string): Promise<MessageThread> {
+    return this.restService.getThread(rootMessageId);
+  }
+
   async markAsRead(conversationId: string, messageIds?: string[]): Promise<void> {
     // Try both for redundancy
     const promises: Promise<void>[] = [];
@@ -131,6 +185,26 @@ export class HybridMessageService extends BaseMessageService implements IMessage
     }
   }
 
+  async addReaction(conversationId: string, messageId: string, emoji: string): Promise<void> {
+    // REST persists the reaction; the server fans it out over the socket
+    await this.restService.addReaction(conversationId, messageId, emoji);
+  }
+
+  async removeReaction(conversationId: string, messageId: string, emoji: string): Promise<void> {
+    await this.restService.removeReaction(conversationId, messageId, emoji);
+  }
+
+  onReactionChanged(callback: (event: MessageReactionEvent) => void): () => void {
+    // Our own changes come from REST, everyone else's from the socket
+    const localCleanup = this.restService.onReactionChanged(callback);
+    const remoteCleanup = this.socketService.onReactionChanged(callback);
+
+    return () => {
+      localCleanup();
+      remoteCleanup();
+    };
+  }
+
   async retryFailedMessage(
     conversationId: string,
     messageId: string,
@@ -145,7 +219,10 @@ export class HybridMessageService extends BaseMessageService implements IMessage
         queuedMessage.receiverId || '',
         {
           replyTo: queuedMessage.replyTo,
-          attachments: queuedMessage.attachments
+          attachments: queuedMessage.attachments,
+          mentions: queuedMessage.mentions,
+          expiresAt: queuedMessage.expiresAt,
+          type: queuedMessage.type
         }
       );
     }
@@ -163,12 +240,66 @@ export class HybridMessageService extends BaseMessageService implements IMessage
       cachedMessage.receiverId || '',
       {
         replyTo: cachedMessage.replyTo,
-        attachments: cachedMessage.attachments
+        attachments: cachedMessage.attachments,
+        mentions: cachedMessage.mentions,
+        expiresAt: cachedMessage.expiresAt,
+        type: cachedMessage.type
       }
     );
   }
 
   // Private helper methods
+
+  private async fetchAndStore(
+    conversationId: string,
+    options?: MessageLoadOptions
+  ): Promise<MessageLoadResult> {
+    const result = await this.restService.getMessages(conversationId, options);
+    await this.messageStore.saveMessages(conversationId, result.messages).catch(error => {
+      console.warn('Failed to persist message history:', error);
+    });
+    return result;
+  }
+
+  private async persist(message: Message): Promise<Message> {
+    await this.messageStore.saveMessage(message).catch(error => {
+      console.warn('Failed to persist message:', error);
+    });
+    return message;
+  }
+
+  private isFirstPage(options?: MessageLoadOptions): boolean {
+    return !options?.before && !options?.cursor && (options?.page || 1) === 1;
+  }
+
+  /**
+   * Map REST-style load options onto a store range query.
+   * `before` may be a message id or a timestamp.
+   */
+  private async toRangeQuery(
+    conversationId: string,
+    options?: MessageLoadOptions
+  ): Promise<MessageRangeQuery> {
+    const limit = options?.limit || 50;
+    const query: MessageRangeQuery = {
+      limit,
+      offset: ((options?.page || 1) - 1) * limit
+    };
+
+    const before = options?.before || options?.cursor;
+    if (before) {
+      const anchor = await this.messageStore.getMessage(conversationId, before);
+      query.before = anchor ? anchor.timestamp : before;
+      query.offset = 0;
+    }
+
+    if (options?.after) {
+      const anchor = await this.messageStore.getMessage(conversationId, options.after);
+      query.after = anchor ? anchor.timestamp : options.after;
+    }
+
+    return query;
+  }
   
   private isOffline(state: ConnectionState): boolean {
     return state === ConnectionState.DISCONNECTED || 
@@ -193,6 +324,7 @@ export class HybridMessageService extends BaseMessageService implements IMessage
     
     // Cache locally
     this.cacheMessage(conversationId, message);
+    await this.persist(message);
     
     return message;
   }
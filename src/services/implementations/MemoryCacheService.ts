@@ -1,6 +1,12 @@
 // src/services/implementations/cache/MemoryCacheService.ts
 import { ICacheService } from '../interfaces';
-import { Message, ServerConversation } from '../../types/chat';
+import {
+  Message,
+  MessageReactionEvent,
+  MessageThread,
+  ServerConversation,
+  ThreadUpdateEvent
+} from '../../types/chat';
 
 interface CacheMetrics {
   hitCount: number;
@@ -21,6 +27,12 @@ export class MemoryCacheService implements ICacheService {
   // Message index for quick lookup - Map<messageId, conversationId>
   private messageIndex: Map<string, string> = new Map();
   
+  // Mentions index - Map<userId, Set<messageId>>
+  private mentionIndex: Map<string, Set<string>> = new Map();
+  
+  // Thread index - Map<parentMessageId, Set<replyMessageId>>
+  private threadIndex: Map<string, Set<string>> = new Map();
+  
   // Cache configuration
   private readonly MAX_MESSAGES_PER_CONVERSATION = 500;
   private readonly MAX_CONVERSATIONS = 100;
@@ -50,9 +62,15 @@ export class MemoryCacheService implements ICacheService {
       (message.clientTempId && m.clientTempId === message.clientTempId)
     );
 
+    let cached = message;
+
     if (existingIndex !== -1) {
       // Update existing message
-      messages[existingIndex] = { ...messages[existingIndex], ...message };
+      cached = messages[existingIndex] = { ...messages[existingIndex], ...message };
+      if (message.id) {
+        this.messageIndex.set(message.id, conversationId);
+      }
+      this.indexMentions(messages[existingIndex]);
     } else {
       // Add new message at the beginning (newest first)
       messages.unshift(message);
@@ -61,6 +79,7 @@ export class MemoryCacheService implements ICacheService {
       if (message.id) {
         this.messageIndex.set(message.id, conversationId);
       }
+      this.indexMentions(message);
       
       // Trim messages if exceeding limit
       if (messages.length > this.MAX_MESSAGES_PER_CONVERSATION) {
@@ -83,6 +102,7 @@ export class MemoryCacheService implements ICacheService {
     );
     
     this.messageCache.set(conversationId, messages);
+    this.indexReply(cached);
     
     // Check total message count
     this.enforceGlobalMessageLimit();
@@ -115,12 +135,124 @@ export class MemoryCacheService implements ICacheService {
     } else {
       // Clear all messages
       this.messageIndex.clear();
+      this.mentionIndex.clear();
+      this.threadIndex.clear();
       this.messageCache.clear();
     }
     
     console.log('🗑️ Message cache cleared');
   }
 
+  removeMessage(conversationId: string, messageId: string): void {
+    const messages = this.messageCache.get(conversationId);
+    if (!messages) {
+      return;
+    }
+
+    const index = messages.findIndex(m => m.id === messageId || m.clientTempId === messageId);
+    if (index !== -1) {
+      const [removed] = messages.splice(index, 1);
+      this.messageIndex.delete(removed.id);
+    }
+  }
+
+  /**
+   * Merge a reaction change into the cached message.
+   * Idempotent, so a local change and its server echo can both be applied.
+   */
+  applyReaction(event: MessageReactionEvent): Message | null {
+    const conversationId = event.conversationId || this.messageIndex.get(event.messageId);
+    const messages = conversationId ? this.messageCache.get(conversationId) : undefined;
+    const index = messages ? messages.findIndex(m => m.id === event.messageId) : -1;
+
+    if (!messages || index === -1) {
+      return null;
+    }
+
+    const others = (messages[index].reactions || []).filter(r =>
+      !(r.userId === event.userId && r.emoji === event.emoji)
+    );
+    const existing = messages[index].reactions?.find(r =>
+      r.userId === event.userId && r.emoji === event.emoji
+    );
+
+    const reactions = event.action === 'added'
+      ? [...others, existing || { emoji: event.emoji, userId: event.userId, timestamp: event.timestamp }]
+      : others;
+
+    messages[index] = { ...messages[index], reactions };
+    return { ...messages[index] };
+  }
+
+  /**
+   * Cached messages that mention the user, newest first.
+   * Evicted messages drop out of the index lazily here.
+   */
+  getMentions(userId: string, conversationId?: string): Message[] {
+    const messageIds = this.mentionIndex.get(userId);
+    if (!messageIds) {
+      return [];
+    }
+
+    const mentions: Message[] = [];
+    for (const messageId of messageIds) {
+      const message = this.getMessageById(messageId);
+      if (!message || !message.mentions?.includes(userId)) {
+        messageIds.delete(messageId);
+        continue;
+      }
+      if (!conversationId || message.conversationId === conversationId) {
+        mentions.push({ ...message });
+      }
+    }
+
+    return mentions.sort((a, b) =>
+      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    );
+  }
+
+  /**
+   * The cached part of a thread: its root plus every reply below it, oldest
+   * first. Any message of the thread can be passed in - replies to replies
+   * are followed up to the root.
+   */
+  getThread(messageId: string): MessageThread | null {
+    const rootMessage = this.getMessageById(this.findThreadRoot(messageId));
+    if (!rootMessage) {
+      return null;
+    }
+
+    const replies = this.collectReplies(rootMessage.id);
+    const lastReplyAt = this.latestTimestamp(rootMessage.lastReplyAt, replies[replies.length - 1]?.timestamp);
+
+    return {
+      rootMessage: { ...rootMessage },
+      replies,
+      replyCount: Math.max(rootMessage.replyCount || 0, replies.length),
+      lastReplyAt
+    };
+  }
+
+  /**
+   * Take over the server's reply count for a thread root
+   */
+  applyThreadUpdate(event: ThreadUpdateEvent): Message | null {
+    const conversationId = event.conversationId || this.messageIndex.get(event.rootMessageId);
+    const messages = conversationId ? this.messageCache.get(conversationId) : undefined;
+    const index = messages ? messages.findIndex(m => m.id === event.rootMessageId) : -1;
+
+    if (!messages || index === -1) {
+      return null;
+    }
+
+    messages[index] = {
+      ...messages[index],
+      replyCount: event.replyCount,
+      lastReplyAt: event.lastReplyAt
+    };
+    return { ...messages[index] };
+  }
+
   // Conversation Cache Operations
   
   cacheConversation(conversation: ServerConversation): void {
@@ -369,6 +501,109 @@ export class MemoryCacheService implements ICacheService {
     }
   }
 
+  private indexMentions(message: Message): void {
+    if (!message.id || !message.mentions?.length) {
+      return;
+    }
+
+    message.mentions.forEach(userId => {
+      if (!this.mentionIndex.has(userId)) {
+        this.mentionIndex.set(userId, new Set());
+      }
+      this.mentionIndex.get(userId)!.add(message.id);
+    });
+  }
+
+  /**
+   * Index a reply under its parent and bring the thread root's counters up
+   * to what the cache holds. Counters only ever grow here, so a newer value
+   * from the server is never overwritten by a partial local view.
+   */
+  private indexReply(message: Message): void {
+    if (!message.id || !message.replyTo) {
+      return;
+    }
+
+    if (!this.threadIndex.has(message.replyTo)) {
+      this.threadIndex.set(message.replyTo, new Set());
+    }
+    this.threadIndex.get(message.replyTo)!.add(message.id);
+
+    const rootId = this.findThreadRoot(message.replyTo);
+    const conversationId = this.messageIndex.get(rootId);
+    const messages = conversationId ? this.messageCache.get(conversationId) : undefined;
+    const index = messages ? messages.findIndex(m => m.id === rootId) : -1;
+
+    if (!messages || index === -1) {
+      return;
+    }
+
+    const replies = this.collectReplies(rootId);
+    const root = messages[index];
+    messages[index] = {
+      ...root,
+      replyCount: Math.max(root.replyCount || 0, replies.length),
+      lastReplyAt: this.latestTimestamp(root.lastReplyAt, replies[replies.length - 1]?.timestamp)
+    };
+  }
+
+  /**
+   * Walk replyTo pointers up to the oldest cached ancestor
+   */
+  private findThreadRoot(messageId: string): string {
+    const visited = new Set<string>();
+    let rootId = messageId;
+    let message = this.getMessageById(messageId);
+
+    while (message?.replyTo && !visited.has(message.id)) {
+      visited.add(message.id);
+      const parent = this.getMessageById(message.replyTo);
+      if (!parent) break;
+      rootId = parent.id;
+      message = parent;
+    }
+
+    return rootId;
+  }
+
+  /**
+   * Every cached reply below a message, oldest first.
+   * Replies that were evicted or re-parented drop out of the index here.
+   */
+  private collectReplies(rootId: string): Message[] {
+    const replies: Message[] = [];
+    const visited = new Set<string>([rootId]);
+    const pending = [rootId];
+
+    while (pending.length > 0) {
+      const parentId = pending.shift()!;
+      const childIds = this.threadIndex.get(parentId);
+      if (!childIds) continue;
+
+      for (const childId of childIds) {
+        const child = this.getMessageById(childId);
+        if (!child || child.replyTo !== parentId) {
+          childIds.delete(childId);
+          continue;
+        }
+        if (visited.has(child.id)) continue;
+
+        visited.add(child.id);
+        replies.push({ ...child });
+        pending.push(child.id);
+      }
+    }
+
+    return replies.sort((a, b) =>
+      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+  }
+
+  private latestTimestamp(a?: string, b?: string): string | undefined {
+    if (!a || !b) return a || b;
+    return new Date(a).getTime() >= new Date(b).getTime() ? a : b;
+  }
+
   private findLRUConversation(): string | undefined {
     let oldestTime = Date.now();
     let lruId: string | undefined;
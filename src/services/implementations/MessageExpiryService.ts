@@ -0,0 +1,344 @@
+// src/services/implementations/MessageExpiryService.ts
+import { AppConfig } from '../../config/AppConfig';
+import {
+  Message,
+  MessageExpiryEvent,
+  MessageStatus,
+  ServerConversation
+} from '../../types/chat';
+import { systemClock } from '../../utils/clock';
+import {
+  ICacheService,
+  IClock,
+  IMessageExpiryService,
+  IMessageStore,
+  IStorageService
+} from '../interfaces';
+
+/**
+ * One tracked message. `expiredAt` is set once it has been moved to EXPIRED.
+ */
+interface ExpiryEntry {
+  messageId: string;
+  clientTempId?: string;
+  conversationId: string;
+  expiresAt: number;
+  expiredAt?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Disappearing messages.
+ *
+ * Messages with an `expiresAt` are tracked here (the set survives restarts).
+ * A single timer on the injected clock fires at the next deadline: due
+ * messages are moved to EXPIRED in the cache and the persistent store, and
+ * after the grace period they are removed from both. Each step is announced
+ * per conversation through onMessagesExpired.
+ */
+export class MessageExpiryService implements IMessageExpiryService {
+  private readonly STORAGE_KEY = 'message_expiry';
+
+  private entries: Record<string, ExpiryEntry> | null = null;
+  private listeners = new Set<(event: MessageExpiryEvent) => void>();
+  private timer: any = null;
+  private running: Promise<MessageExpiryEvent[]> | null = null;
+  private disposed: boolean = false;
+
+  constructor(
+    private cacheService: ICacheService,
+    private messageStore: IMessageStore,
+    private storageService: IStorageService,
+    private clock: IClock = systemClock,
+    private gracePeriod: number = AppConfig.messageExpiry.purgeGracePeriod,
+    private maxTimerDelay: number = AppConfig.messageExpiry.maxTimerDelay
+  ) {}
+
+  /**
+   * Load the tracked set and catch up on anything that expired while we were away
+   */
+  async start(): Promise<void> {
+    this.disposed = false;
+    await this.loadEntries();
+    await this.runExpiryPass();
+  }
+
+  /**
+   * Expiry for a message sent now, from the conversation's retention settings
+   */
+  getExpiresAt(conversation: ServerConversation | null): string | undefined {
+    const settings = conversation?.settings;
+    if (!settings?.autoDeleteMessages || !settings.messageRetention || settings.messageRetention <= 0) {
+      return undefined;
+    }
+
+    return new Date(this.clock.now() + settings.messageRetention * DAY_MS).toISOString();
+  }
+
+  isExpired(message: Message): boolean {
+    if (message.status === MessageStatus.EXPIRED) return true;
+    if (!message.expiresAt) return false;
+
+    const expiresAt = new Date(message.expiresAt).getTime();
+    return !isNaN(expiresAt) && expiresAt <= this.clock.now();
+  }
+
+  /**
+   * Start watching messages that carry an expiresAt. Already-due messages are
+   * handled on the next tick rather than synchronously.
+   */
+  track(messages: Message[]): void {
+    const expiring = messages.filter(message => message?.id && message.expiresAt);
+    if (expiring.length === 0 || this.disposed) return;
+
+    this.loadEntries().then(entries => {
+      let due = false;
+
+      for (const message of expiring) {
+        const expiresAt = new Date(message.expiresAt!).getTime();
+        if (isNaN(expiresAt)) continue;
+
+        const known = this.findEntry(entries, message);
+        if (known && known.messageId !== message.id) {
+          // Temp id replaced by the server id
+          delete entries[known.messageId];
+        }
+
+        const entry: ExpiryEntry = {
+          messageId: message.id,
+          clientTempId: message.clientTempId || known?.clientTempId,
+          conversationId: message.conversationId,
+          expiresAt,
+          expiredAt: known?.expiredAt
+        };
+        entries[message.id] = entry;
+
+        // A fresh server copy of an expired message must be marked again
+        if (entry.expiredAt || expiresAt <= this.clock.now()) {
+          due = true;
+        }
+      }
+
+      this.saveEntries();
+      this.schedule(due ? 0 : undefined);
+    }).catch(error => {
+      console.error('Failed to track expiring messages:', error);
+    });
+  }
+
+  /**
+   * Stop watching a conversation's messages, e.g. once its history is gone
+   */
+  async untrackConversation(conversationId: string): Promise<void> {
+    const entries = await this.loadEntries();
+    const stale = Object.values(entries).filter(entry => entry.conversationId === conversationId);
+    if (stale.length === 0) return;
+
+    stale.forEach(entry => delete entries[entry.messageId]);
+    await this.saveEntries();
+    this.schedule();
+  }
+
+  /**
+   * Expire and purge everything that is due now.
+   * Concurrent calls share one pass.
+   */
+  async runExpiryPass(): Promise<MessageExpiryEvent[]> {
+    if (this.running) return this.running;
+
+    this.running = this.expireAndPurge().finally(() => {
+      this.running = null;
+      this.schedule();
+    });
+    return this.running;
+  }
+
+  onMessagesExpired(callback: (event: MessageExpiryEvent) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Stop the scheduler. Tracked messages stay persisted for the next start().
+   */
+  dispose(): void {
+    this.disposed = true;
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // ==========================================
+  // PRIVATE HELPER METHODS
+  // ==========================================
+
+  private async expireAndPurge(): Promise<MessageExpiryEvent[]> {
+    const entries = await this.loadEntries();
+    const now = this.clock.now();
+    const expired = new Map<string, ExpiryEntry[]>();
+    const purged = new Map<string, ExpiryEntry[]>();
+
+    for (const entry of Object.values(entries)) {
+      if (entry.expiredAt === undefined) {
+        if (entry.expiresAt <= now) {
+          entry.expiredAt = now;
+          await this.markExpired(entry);
+          this.group(expired, entry);
+        }
+      } else if (entry.expiredAt + this.gracePeriod <= now) {
+        await this.purge(entry);
+        delete entries[entry.messageId];
+        this.group(purged, entry);
+      } else {
+        // Cheap no-op unless a refetch put the live status back
+        await this.markExpired(entry);
+      }
+    }
+
+    await this.saveEntries();
+
+    const timestamp = new Date(now).toISOString();
+    const events: MessageExpiryEvent[] = [
+      ...this.toEvents(expired, 'expired', timestamp),
+      ...this.toEvents(purged, 'purged', timestamp)
+    ];
+
+    if (events.length > 0) {
+      const expiredCount = events
+        .filter(event => event.action === 'expired')
+        .reduce((count, event) => count + event.messageIds.length, 0);
+      console.log(`⏰ Expiry pass: ${expiredCount} expired, ${events.length} conversation update(s)`);
+    }
+
+    events.forEach(event => this.notify(event));
+    return events;
+  }
+
+  private async markExpired(entry: ExpiryEntry): Promise<void> {
+    const cached = this.findCached(entry);
+    if (cached && cached.status !== MessageStatus.EXPIRED) {
+      this.cacheService.cacheMessage(entry.conversationId, { ...cached, status: MessageStatus.EXPIRED });
+    }
+
+    try {
+      const stored = await this.findStored(entry);
+      if (stored && stored.status !== MessageStatus.EXPIRED) {
+        await this.messageStore.saveMessage({ ...stored, status: MessageStatus.EXPIRED });
+      }
+    } catch (error) {
+      console.warn('Failed to mark stored message as expired:', error);
+    }
+  }
+
+  private async purge(entry: ExpiryEntry): Promise<void> {
+    const cached = this.findCached(entry);
+    this.cacheService.removeMessage(entry.conversationId, cached?.id || entry.messageId);
+
+    try {
+      const stored = await this.findStored(entry);
+      await this.messageStore.deleteMessage(entry.conversationId, stored?.id || entry.messageId);
+    } catch (error) {
+      console.warn('Failed to purge stored message:', error);
+    }
+  }
+
+  private findCached(entry: ExpiryEntry): Message | undefined {
+    return this.cacheService.getCachedMessages(entry.conversationId).find(m =>
+      m.id === entry.messageId ||
+      (!!entry.clientTempId && m.clientTempId === entry.clientTempId)
+    );
+  }
+
+  private async findStored(entry: ExpiryEntry): Promise<Message | null> {
+    const stored = await this.messageStore.getMessage(entry.conversationId, entry.messageId);
+    if (stored || !entry.clientTempId) return stored;
+    return this.messageStore.getMessageByClientTempId(entry.clientTempId);
+  }
+
+  private findEntry(entries: Record<string, ExpiryEntry>, message: Message): ExpiryEntry | undefined {
+    return entries[message.id] || (message.clientTempId
+      ? Object.values(entries).find(entry => entry.clientTempId === message.clientTempId)
+      : undefined);
+  }
+
+  /**
+   * Arm the timer for the next deadline, capped so day-long retention
+   * periods never overflow the platform timer.
+   */
+  private schedule(delay?: number): void {
+    if (this.disposed || !this.entries) return;
+
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (delay === undefined) {
+      const deadlines = Object.values(this.entries).map(entry =>
+        entry.expiredAt === undefined ? entry.expiresAt : entry.expiredAt + this.gracePeriod
+      );
+      if (deadlines.length === 0) return;
+      delay = Math.max(Math.min(...deadlines) - this.clock.now(), 0);
+    }
+
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      this.runExpiryPass().catch(error => {
+        console.error('Expiry pass failed:', error);
+      });
+    }, Math.min(delay, this.maxTimerDelay));
+  }
+
+  private group(groups: Map<string, ExpiryEntry[]>, entry: ExpiryEntry): void {
+    const list = groups.get(entry.conversationId) || [];
+    list.push(entry);
+    groups.set(entry.conversationId, list);
+  }
+
+  private toEvents(
+    groups: Map<string, ExpiryEntry[]>,
+    action: MessageExpiryEvent['action'],
+    timestamp: string
+  ): MessageExpiryEvent[] {
+    return Array.from(groups.entries()).map(([conversationId, entries]) => ({
+      conversationId,
+      messageIds: entries.map(entry => entry.messageId),
+      action,
+      timestamp
+    }));
+  }
+
+  private notify(event: MessageExpiryEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error in expiry listener:', error);
+      }
+    });
+  }
+
+  private async loadEntries(): Promise<Record<string, ExpiryEntry>> {
+    if (!this.entries) {
+      try {
+        this.entries = await this.storageService.get<Record<string, ExpiryEntry>>(this.STORAGE_KEY) || {};
+      } catch (error) {
+        console.error('Failed to load message expiry state:', error);
+        this.entries = {};
+      }
+    }
+    return this.entries;
+  }
+
+  private async saveEntries(): Promise<void> {
+    try {
+      await this.storageService.set(this.STORAGE_KEY, this.entries || {});
+    } catch (error) {
+      console.error('Failed to save message expiry state:', error);
+    }
+  }
+}
@@ -0,0 +1,442 @@
+// src/services/implementations/NodeImageProcessor.ts
+import { deflateSync, inflateSync } from 'zlib';
+
+import jpeg from 'jpeg-js';
+
+import { ImageProcessingOptions, ProcessedImage, ProcessedImageData, ValidationException } from '../../types/chat';
+import {
+  ImageSize,
+  concat,
+  detectImageFormat,
+  fitWithin,
+  mimeTypeOf,
+  orientedSize,
+  pngChunks,
+  readImageSize,
+  readJpegOrientation,
+  stripJpegMetadata,
+  stripPngMetadata
+} from '../../utils/imageMetadata';
+import { logger } from '../../utils/Logger';
+import { IImageProcessor } from '../interfaces';
+
+/**
+ * Image processing with no native dependencies.
+ *
+ * PNGs are decoded with zlib and JPEGs with jpeg-js, so both are downscaled,
+ * turned upright and get a thumbnail. GIF and WebP go through unchanged.
+ */
+export class NodeImageProcessor implements IImageProcessor {
+  async process(image: any, options: ImageProcessingOptions): Promise<ProcessedImage> {
+    const bytes = await readImageBytes(image);
+    const format = detectImageFormat(bytes);
+
+    switch (format) {
+      case 'png':
+        return this.processPng(bytes, options);
+      case 'jpeg':
+        return this.processJpeg(bytes, options);
+      default:
+        return {
+          data: bytes,
+          mimeType: format ? mimeTypeOf(format) : image.type || image.mimeType || 'application/octet-stream',
+          ...readImageSize(bytes)
+        };
+    }
+  }
+
+  private processJpeg(bytes: Uint8Array, options: ImageProcessingOptions): ProcessedImage {
+    assertPixelLimit(readImageSize(bytes));
+
+    const decoded = orient(decodeJpeg(bytes), readJpegOrientation(bytes));
+    const original = { width: decoded.width, height: decoded.height };
+    const size = fitWithin(original, options.maxDimension);
+    const quality = Math.round(options.quality * 100);
+
+    // Small enough already: keep the original encoding, which still carries its orientation
+    const main: ProcessedImageData = size === original
+      ? { data: stripJpegMetadata(bytes), mimeType: 'image/jpeg', ...size }
+      : { data: encodeJpeg(resize(decoded, size), quality), mimeType: 'image/jpeg', ...size };
+
+    const thumbnailSize = fitWithin(original, options.thumbnailSize);
+    return {
+      ...main,
+      thumbnail: { data: encodeJpeg(resize(decoded, thumbnailSize), quality), mimeType: 'image/jpeg', ...thumbnailSize }
+    };
+  }
+
+  private processPng(bytes: Uint8Array, options: ImageProcessingOptions): ProcessedImage {
+    assertPixelLimit(readImageSize(bytes));
+
+    let decoded: DecodedImage;
+    try {
+      decoded = decodePng(bytes);
+    } catch (error) {
+      // Interlaced or otherwise unusual - still safe to send without its metadata
+      logger.warn('PNG could not be decoded, uploading it unscaled', error);
+      return { data: stripPngMetadata(bytes), mimeType: 'image/png', ...readImageSize(bytes) };
+    }
+
+    const original = { width: decoded.width, height: decoded.height };
+    const size = fitWithin(original, options.maxDimension);
+    const main: ProcessedImageData = size === original
+      ? { data: stripPngMetadata(bytes), mimeType: 'image/png', ...size }
+      : { data: encodePng(resize(decoded, size)), mimeType: 'image/png', ...size };
+
+    const thumbnailSize = fitWithin(original, options.thumbnailSize);
+    return {
+      ...main,
+      thumbnail: { data: encodePng(resize(decoded, thumbnailSize)), mimeType: 'image/png', ...thumbnailSize }
+    };
+  }
+}
+
+// ==========================================
+// INPUT
+// ==========================================
+
+async function readImageBytes(image: any): Promise<Uint8Array> {
+  if (!image) {
+    throw new ValidationException('Image is required');
+  }
+
+  if (typeof Blob !== 'undefined' && image instanceof Blob) {
+    return new Uint8Array(await image.arrayBuffer());
+  }
+  if (image.data) {
+    return image.data instanceof ArrayBuffer ? new Uint8Array(image.data) : image.data as Uint8Array;
+  }
+  if (image.path) {
+    const { readFile } = await import('fs/promises');
+    return new Uint8Array(await readFile(image.path));
+  }
+  if (image.uri) {
+    const response = await fetch(image.uri);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  throw new ValidationException('Image needs data, a path or a URI');
+}
+
+/**
+ * Decoding allocates four bytes per pixel, so a small file that claims a
+ * huge size could exhaust memory before anything else notices
+ */
+const MAX_DECODED_PIXELS = 40_000_000;
+
+function assertPixelLimit(size: ImageSize | null): void {
+  if (size && size.width * size.height > MAX_DECODED_PIXELS) {
+    throw new ValidationException(
+      `Image is ${size.width}x${size.height}; at most ${MAX_DECODED_PIXELS / 1_000_000} megapixels can be processed`
+    );
+  }
+}
+
+interface DecodedImage extends ImageSize {
+  rgba: Uint8Array;
+}
+
+// ==========================================
+// JPEG CODEC
+// ==========================================
+
+function decodeJpeg(bytes: Uint8Array): DecodedImage {
+  try {
+    const { width, height, data } = jpeg.decode(bytes, {
+      useTArray: true,
+      formatAsRGBA: true,
+      maxResolutionInMP: MAX_DECODED_PIXELS / 1_000_000,
+      maxMemoryUsageInMB: 512
+    });
+    return { width, height, rgba: data };
+  } catch (error) {
+    throw new ValidationException('JPEG could not be decoded', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+function encodeJpeg(image: DecodedImage, quality: number): Uint8Array {
+  return new Uint8Array(jpeg.encode({ width: image.width, height: image.height, data: image.rgba }, quality).data);
+}
+
+/**
+ * Apply an EXIF orientation to the pixels, so the re-encoded image (which
+ * has no EXIF block) displays the same way as the original
+ */
+function orient(image: DecodedImage, orientation: number): DecodedImage {
+  if (orientation <= 1 || orientation > 8) return image;
+
+  const { width, height, rgba } = image;
+  const size = orientedSize(image, orientation);
+  const out = new Uint8Array(rgba.length);
+
+  for (let y = 0; y < size.height; y++) {
+    for (let x = 0; x < size.width; x++) {
+      let sx: number, sy: number;
+      switch (orientation) {
+        case 2: sx = width - 1 - x; sy = y; break;                // Mirrored
+        case 3: sx = width - 1 - x; sy = height - 1 - y; break;   // Upside down
+        case 4: sx = x; sy = height - 1 - y; break;               // Flipped
+        case 5: sx = y; sy = x; break;                            // Transposed
+        case 6: sx = y; sy = height - 1 - x; break;               // Needs a clockwise turn
+        case 7: sx = width - 1 - y; sy = height - 1 - x; break;   // Transversed
+        default: sx = width - 1 - y; sy = x; break;               // Needs an anticlockwise turn
+      }
+      out.set(rgba.subarray((sy * width + sx) * 4, (sy * width + sx) * 4 + 4), (y * size.width + x) * 4);
+    }
+  }
+
+  return { ...size, rgba: out };
+}
+
+// ==========================================
+// PNG CODEC
+// ==========================================
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Any non-interlaced PNG to 8-bit RGBA
+ */
+function decodePng(bytes: Uint8Array): DecodedImage {
+  let header: Uint8Array | null = null;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  for (const chunk of pngChunks(bytes)) {
+    if (chunk.type === 'IHDR') header = chunk.data;
+    else if (chunk.type === 'PLTE') palette = chunk.data;
+    else if (chunk.type === 'tRNS') transparency = chunk.data;
+    else if (chunk.type === 'IDAT') idat.push(chunk.data);
+  }
+
+  if (!header) throw new Error('PNG has no header');
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  const width = view.getUint32(0);
+  const height = view.getUint32(4);
+  const bitDepth = header[8];
+  const colorType = header[9];
+  const channels = CHANNELS[colorType];
+
+  if (!channels) throw new Error(`Unsupported PNG colour type ${colorType}`);
+  if (header[12] !== 0) throw new Error('Interlaced PNGs are not supported');
+  if (colorType === 3 && !palette) throw new Error('Palette PNG without a palette');
+  if (width * height > MAX_DECODED_PIXELS) throw new Error(`PNG is too large to decode (${width}x${height})`);
+
+  const bitsPerPixel = channels * bitDepth;
+  const rowBytes = Math.ceil((width * bitsPerPixel) / 8);
+  const inflated = inflateSync(concat(idat), { maxOutputLength: (rowBytes + 1) * height });
+  const raw = unfilter(inflated, rowBytes, height, Math.max(1, bitsPerPixel >> 3));
+
+  const max = (1 << bitDepth) - 1;
+  const sample = (row: number, index: number): number => {
+    const offset = row * rowBytes;
+    if (bitDepth === 8) return raw[offset + index];
+    if (bitDepth === 16) return raw[offset + index * 2]; // High byte is enough for 8-bit output
+    const bit = index * bitDepth;
+    return (raw[offset + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & max;
+  };
+  const scale = (value: number) => bitDepth >= 8 ? value : Math.round((value * 255) / max);
+
+  const rgba = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const first = x * channels;
+
+      if (colorType === 3) {
+        const index = sample(y, first);
+        rgba.set(palette!.subarray(index * 3, index * 3 + 3), out);
+        rgba[out + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+        continue;
+      }
+
+      const gray = colorType === 0 || colorType === 4;
+      const r = scale(sample(y, first));
+      const g = gray ? r : scale(sample(y, first + 1));
+      const b = gray ? r : scale(sample(y, first + 2));
+      const hasAlpha = colorType === 4 || colorType === 6;
+
+      rgba[out] = r;
+      rgba[out + 1] = g;
+      rgba[out + 2] = b;
+      rgba[out + 3] = hasAlpha ? scale(sample(y, first + channels - 1)) : 255;
+    }
+  }
+
+  return { width, height, rgba };
+}
+
+function unfilter(data: Uint8Array, rowBytes: number, height: number, bpp: number): Uint8Array {
+  const out = new Uint8Array(rowBytes * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (rowBytes + 1)];
+    const line = data.subarray(y * (rowBytes + 1) + 1, (y + 1) * (rowBytes + 1));
+    const row = y * rowBytes;
+    const prior = row - rowBytes;
+
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= bpp ? out[row + i - bpp] : 0;
+      const up = y > 0 ? out[prior + i] : 0;
+      const upLeft = y > 0 && i >= bpp ? out[prior + i - bpp] : 0;
+
+      out[row + i] = (line[i] + predict(filter, left, up, upLeft)) & 0xff;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * RGBA to PNG (RGB when fully opaque), choosing each row's filter by the
+ * usual smallest-sum-of-differences heuristic
+ */
+function encodePng(image: DecodedImage): Uint8Array {
+  const { width, height, rgba } = image;
+  const opaque = rgba.every((value, i) => (i & 3) !== 3 || value === 255);
+  const channels = opaque ? 3 : 4;
+  const rowBytes = width * channels;
+
+  const pixels = new Uint8Array(rowBytes * height);
+  for (let i = 0, o = 0; i < rgba.length; i += 4) {
+    pixels[o++] = rgba[i];
+    pixels[o++] = rgba[i + 1];
+    pixels[o++] = rgba[i + 2];
+    if (!opaque) pixels[o++] = rgba[i + 3];
+  }
+
+  const filtered = new Uint8Array((rowBytes + 1) * height);
+  const candidate = new Uint8Array(rowBytes);
+  for (let y = 0; y < height; y++) {
+    let best = Infinity;
+    const row = y * rowBytes;
+    for (let filter = 0; filter <= 4; filter++) {
+      let cost = 0;
+      for (let i = 0; i < rowBytes; i++) {
+        const left = i >= channels ? pixels[row + i - channels] : 0;
+        const up = y > 0 ? pixels[row - rowBytes + i] : 0;
+        const upLeft = y > 0 && i >= channels ? pixels[row - rowBytes + i - channels] : 0;
+        candidate[i] = (pixels[row + i] - predict(filter, left, up, upLeft)) & 0xff;
+        cost += candidate[i] < 128 ? candidate[i] : 256 - candidate[i];
+      }
+      if (cost < best) {
+        best = cost;
+        filtered[y * (rowBytes + 1)] = filter;
+        filtered.set(candidate, y * (rowBytes + 1) + 1);
+      }
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8;
+  header[9] = opaque ? 2 : 6;
+
+  return concat([
+    Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', new Uint8Array(deflateSync(filtered))),
+    pngChunk('IEND', new Uint8Array(0))
+  ]);
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+}
+
+function predict(filter: number, left: number, up: number, upLeft: number): number {
+  switch (filter) {
+    case 0: return 0;
+    case 1: return left;
+    case 2: return up;
+    case 3: return (left + up) >> 1;
+    case 4: return paeth(left, up, upLeft);
+    default: throw new Error(`Unknown PNG filter ${filter}`);
+  }
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const p = left + up - upLeft;
+  const pa = Math.abs(p - left);
+  const pb = Math.abs(p - up);
+  const pc = Math.abs(p - upLeft);
+  if (pa <= pb && pa <= pc) return left;
+  return pb <= pc ? up : upLeft;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ==========================================
+// SCALING
+// ==========================================
+
+/**
+ * Box-filter downscale: each output pixel averages the source pixels it
+ * covers. Colour is weighted by alpha so transparent pixels do not darken
+ * the edges around them.
+ */
+function resize(image: DecodedImage, size: ImageSize): DecodedImage {
+  const { width, height, rgba } = image;
+  const out = new Uint8Array(size.width * size.height * 4);
+  const scaleX = width / size.width;
+  const scaleY = height / size.height;
+
+  for (let y = 0; y < size.height; y++) {
+    const y0 = Math.floor(y * scaleY);
+    const y1 = Math.max(y0 + 1, Math.min(height, Math.floor((y + 1) * scaleY)));
+
+    for (let x = 0; x < size.width; x++) {
+      const x0 = Math.floor(x * scaleX);
+      const x1 = Math.max(x0 + 1, Math.min(width, Math.floor((x + 1) * scaleX)));
+
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * width + sx) * 4;
+          const alpha = rgba[i + 3];
+          r += rgba[i] * alpha;
+          g += rgba[i + 1] * alpha;
+          b += rgba[i + 2] * alpha;
+          a += alpha;
+        }
+      }
+
+      const o = (y * size.width + x) * 4;
+      const count = (y1 - y0) * (x1 - x0);
+      if (a > 0) {
+        out[o] = Math.round(r / a);
+        out[o + 1] = Math.round(g / a);
+        out[o + 2] = Math.round(b / a);
+      }
+      out[o + 3] = Math.round(a / count);
+    }
+  }
+
+  return { ...size, rgba: out };
+}
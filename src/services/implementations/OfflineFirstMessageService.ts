@@ -0,0 +1,422 @@
+// src/services/implementations/OfflineFirstMessageService.ts
+import { AppConfig } from '../../config/AppConfig';
+import {
+  Message,
+  MessageLoadOptions,
+  MessageLoadResult,
+  MessageStatus,
+  MessageType,
+  AttachmentType,
+  Attachment,
+  ConnectionState,
+  MessageReactionEvent,
+  MessageThread,
+  QueuedUpload
+} from '../../types/chat';
+import { fromQueuedUpload, toQueuedUpload } from '../../utils/queuedUpload';
+import {
+  IMessageService,
+  ICacheService,
+  IFileService,
+  IOfflineQueueService,
+  IMessageStore
+} from '../interfaces';
+
+import { BaseMessageService } from './BaseMessageService';
+import { RestMessageService } from './RestMessageService';
+import { SocketMessageService } from './SocketMessageService';
+
+/**
+ * Offline-first message service.
+ *
+ * Every send is written to a persistent outbox and answered immediately with
+ * an optimistic message; a background sync loop drains the outbox over the
+ * socket (falling back to REST) whenever we are connected. Files picked while
+ * offline wait in the outbox too and are uploaded when it drains. History is served
+ * from local storage first and reconciled with the server in the background.
+ */
+export class OfflineFirstMessageService extends BaseMessageService implements IMessageService {
+  private restService: RestMessageService;
+  private socketService: SocketMessageService;
+  private syncTimer: any = null;
+  private syncing: boolean = false;
+  private connectionCleanup: (() => void) | null = null;
+
+  constructor(
+    apiClient: any,
+    private socketClient: any,
+    cacheService: ICacheService,
+    private outbox: IOfflineQueueService,
+    private messageStore: IMessageStore,
+    private connectionChecker: () => ConnectionState,
+    userId: string = '',
+    private syncInterval: number = 15000,
+    private fileService?: IFileService
+  ) {
+    super(cacheService, userId);
+
+    this.restService = new RestMessageService(apiClient, cacheService, userId);
+    this.socketService = new SocketMessageService(socketClient, cacheService, userId);
+
+    this.outbox.setSendFunction((message: Message) => this.deliver(message));
+    this.outbox.setUploadFunction((upload: QueuedUpload, message: Message) => this.upload(upload, message));
+    this.startSyncLoop();
+  }
+
+  async sendMessage(
+    conversationId: string,
+    content: string,
+    receiverId: string,
+    options?: {
+      replyTo?: string;
+      attachments?: Attachment[];
+      metadata?: Record<string, any>;
+      clientTempId?: string;
+      mentions?: string[];
+      expiresAt?: string;
+      type?: MessageType;
+    }
+  ): Promise<Message> {
+    const message = this.createMessage(conversationId, content, receiverId, options);
+    if (options?.clientTempId) {
+      message.clientTempId = options.clientTempId;
+    }
+    message.status = this.isOnline() ? MessageStatus.SENDING : MessageStatus.QUEUED;
+
+    // Outbox first - once this resolves the message survives a restart
+    await this.outbox.queueMessage(message);
+
+    this.cacheMessage(conversationId, message);
+    await this.storeMessages(conversationId, [message]);
+
+    // Don't make the caller wait for the network
+    if (this.isOnline()) {
+      this.syncNow().catch(error => {
+        console.warn('Outbox sync failed:', error);
+      });
+    }
+
+    return message;
+  }
+
+  /**
+   * Online the file is uploaded now and the message goes through the outbox
+   * like any other. Offline the file itself waits in the outbox, keyed by the
+   * message, and is uploaded before the message is delivered.
+   */
+  async sendAttachment(
+    conversationId: string,
+    file: any,
+    type: AttachmentType,
+    receiverId: string,
+    clientTempId?: string,
+    options?: { expiresAt?: string }
+  ): Promise<Message> {
+    if (!this.fileService) {
+      // No way to upload later - go straight to the server
+      const sent = await this.restService.sendAttachment(conversationId, file, type, receiverId);
+      await this.storeMessages(conversationId, [sent]);
+      return sent;
+    }
+
+    if (this.isOnline()) {
+      const attachment = await this.fileService.uploadFile(file, type);
+      return this.sendMessage(conversationId, attachment.name || 'Attachment', receiverId, {
+        attachments: [attachment],
+        clientTempId,
+        expiresAt: options?.expiresAt,
+        type: this.getMessageType(type)
+      });
+    }
+
+    const upload = await toQueuedUpload(file, type, AppConfig.offlineQueue.maxUploadBytes);
+    const message = this.createMessage(conversationId, upload.name, receiverId, {
+      expiresAt: options?.expiresAt,
+      type: this.getMessageType(type)
+    });
+    if (clientTempId) {
+      message.clientTempId = clientTempId;
+    }
+    message.status = MessageStatus.QUEUED;
+
+    await this.outbox.queueMessage(message, upload);
+
+    this.cacheMessage(conversationId, message);
+    await this.storeMessages(conversationId, [message]);
+    return message;
+  }
+
+  async getMessages(
+    conversationId: string,
+    options?: MessageLoadOptions
+  ): Promise<MessageLoadResult> {
+    const isFirstPage = !options?.before && !options?.cursor && (options?.page || 1) === 1;
+
+    // Older pages are never stored completely - go to the server
+    if (!isFirstPage) {
+      return this.restService.getMessages(conversationId, options);
+    }
+
+    let local: MessageLoadResult | null = null;
+    try {
+      local = await this.messageStore.queryMessages(conversationId, { limit: options?.limit || 50 });
+    } catch (error) {
+      console.error('Failed to load stored messages:', error);
+    }
+
+    if (!local || local.messages.length === 0 || options?.forceRefresh) {
+      return this.reconcile(conversationId, options);
+    }
+
+    local.messages.forEach(message => this.cacheMessage(conversationId, message));
+
+    this.reconcile(conversationId, options).catch(error => {
+      console.warn('Background reconcile failed:', error);
+    });
+
+    return local;
+  }
+
+  async getMessage(messageId: string): Promise<Message | null> {
+    return this.restService.getMessage(messageId);
+  }
+
+  async getThread(rootMessageId: string): Promise<MessageThread> {
+    const thread = await this.restService.getThread(rootMessageId);
+    await this.storeMessages(thread.rootMessage.conversationId, [thread.rootMessage, ...thread.replies]);
+    return thread;
+  }
+
+  async markAsRead(conversationId: string, messageIds?: string[]): Promise<void> {
+    if (this.isOnline()) {
+      this.socketService.markAsRead(conversationId, messageIds).catch(err => {
+        console.warn('Socket mark as read failed:', err);
+      });
+    }
+
+    await this.restService.markAsRead(conversationId, messageIds);
+  }
+
+  async editMessage(messageId: string, content: string): Promise<Message> {
+    const message = await this.restService.editMessage(messageId, content);
+    await this.storeMessages(message.conversationId, [message]);
+    return message;
+  }
+
+  async deleteMessage(messageId: string): Promise<void> {
+    await this.restService.deleteMessage(messageId);
+
+    if (this.isOnline()) {
+      this.socketService.deleteMessage(messageId).catch(err => {
+        console.warn('Socket delete notification failed:', err);
+      });
+    }
+  }
+
+  async addReaction(conversationId: string, messageId: string, emoji: string): Promise<void> {
+    await this.restService.addReaction(conversationId, messageId, emoji);
+  }
+
+  async removeReaction(conversationId: string, messageId: string, emoji: string): Promise<void> {
+    await this.restService.removeReaction(conversationId, messageId, emoji);
+  }
+
+  onReactionChanged(callback: (event: MessageReactionEvent) => void): () => void {
+    const localCleanup = this.restService.onReactionChanged(callback);
+    const remoteCleanup = this.socketService.onReactionChanged(callback);
+
+    return () => {
+      localCleanup();
+      remoteCleanup();
+    };
+  }
+
+  async retryFailedMessage(
+    conversationId: string,
+    messageId: string,
+    clientTempId?: string
+  ): Promise<Message | null> {
+    const cachedMessage = this.findMessageInCache(conversationId, messageId, clientTempId);
+    if (!cachedMessage || cachedMessage.status !== MessageStatus.FAILED) {
+      return cachedMessage || null;
+    }
+
+    // Re-enter the outbox under the same clientTempId so the UI entry is reused
+    return this.sendMessage(
+      conversationId,
+      cachedMessage.content,
+      cachedMessage.receiverId || '',
+      {
+        replyTo: cachedMessage.replyTo,
+        attachments: cachedMessage.attachments,
+        clientTempId: cachedMessage.clientTempId,
+        mentions: cachedMessage.mentions,
+        expiresAt: cachedMessage.expiresAt,
+        type: cachedMessage.type
+      }
+    );
+  }
+
+  /**
+   * Drain the outbox now if we are connected
+   */
+  async syncNow(): Promise<void> {
+    if (this.syncing || !this.isOnline() || this.outbox.getQueueSize() === 0) {
+      return;
+    }
+
+    this.syncing = true;
+    try {
+      // The outbox mutates these in place, so FAILED shows up after the pass
+      const pending = this.outbox.getQueuedMessages();
+
+      await this.outbox.processQueue();
+
+      for (const message of pending.filter(m => m.status === MessageStatus.FAILED)) {
+        this.cacheMessage(message.conversationId, message);
+        await this.storeMessages(message.conversationId, [message]);
+      }
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  /**
+   * Stop the background sync loop
+   */
+  dispose(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+    this.connectionCleanup?.();
+    this.connectionCleanup = null;
+  }
+
+  // Private helper methods
+
+  private startSyncLoop(): void {
+    this.syncTimer = setInterval(() => {
+      this.syncNow().catch(error => {
+        console.warn('Outbox sync failed:', error);
+      });
+    }, this.syncInterval);
+
+    // Drain straight away on reconnect instead of waiting for the next tick
+    if (typeof this.socketClient?.onConnectionChange === 'function') {
+      this.connectionCleanup = this.socketClient.onConnectionChange((state: ConnectionState) => {
+        if (state === ConnectionState.CONNECTED) {
+          this.syncNow().catch(error => {
+            console.warn('Outbox sync failed:', error);
+          });
+        }
+      });
+    }
+  }
+
+  /**
+   * Outbox upload function for files queued while offline; resumable and
+   * keyed by the message, so a restart picks up the same upload
+   */
+  private async upload(upload: QueuedUpload, message: Message): Promise<Attachment> {
+    if (!this.fileService) {
+      throw new Error('No file service to upload queued files');
+    }
+
+    return this.fileService.uploadFileResumable(
+      fromQueuedUpload(upload),
+      upload.type,
+      { uploadKey: message.clientTempId }
+    );
+  }
+
+  /**
+   * Outbox send function: socket when connected, REST as fallback
+   */
+  private async deliver(message: Message): Promise<Message> {
+    const options = {
+      replyTo: message.replyTo,
+      attachments: message.attachments,
+      clientTempId: message.clientTempId,
+      mentions: message.mentions,
+      expiresAt: message.expiresAt,
+      type: message.type
+    };
+
+    let sent: Message;
+    try {
+      sent = await this.socketService.sendMessage(
+        message.conversationId,
+        message.content,
+        message.receiverId || '',
+        options
+      );
+    } catch (socketError) {
+      console.warn('Socket send failed, trying REST:', socketError);
+      sent = await this.restService.sendMessage(
+        message.conversationId,
+        message.content,
+        message.receiverId || '',
+        options
+      );
+    }
+
+    await this.storeMessages(message.conversationId, [sent]);
+    return sent;
+  }
+
+  /**
+   * Fetch the latest page from the server and merge it into local storage.
+   * Messages still waiting in the outbox are kept.
+   */
+  private async reconcile(
+    conversationId: string,
+    options?: MessageLoadOptions
+  ): Promise<MessageLoadResult> {
+    const result = await this.restService.getMessages(conversationId, options);
+    await this.storeMessages(conversationId, result.messages);
+
+    const pending = this.outbox.getQueuedMessages()
+      .filter(m => m.conversationId === conversationId);
+
+    return pending.length > 0
+      ? { ...result, messages: this.mergeMessages(result.messages, pending) }
+      : result;
+  }
+
+  private isOnline(): boolean {
+    return this.connectionChecker() === ConnectionState.CONNECTED;
+  }
+
+  private async storeMessages(conversationId: string, messages: Message[]): Promise<void> {
+    try {
+      await this.messageStore.saveMessages(conversationId, messages);
+    } catch (error) {
+      console.error('Failed to store messages:', error);
+    }
+  }
+
+  /**
+   * Merge by id / clientTempId (incoming wins), newest first
+   */
+  private mergeMessages(existing: Message[], incoming: Message[]): Message[] {
+    const merged = [...existing];
+
+    for (const message of incoming) {
+      const index = merged.findIndex(m =>
+        m.id === message.id ||
+        (!!message.clientTempId && m.clientTempId === message.clientTempId)
+      );
+
+      if (index !== -1) {
+        merged[index] = { ...merged[index], ...message };
+      } else {
+        merged.push(message);
+      }
+    }
+
+    return merged.sort((a, b) =>
+      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    );
+  }
+}
@@ -1,33 +1,46 @@
 // src/services/implementations/offline/OfflineQueueService.ts
-import { IOfflineQueueService, IStorageService } from '../interfaces';
-import { Message, MessageStatus, QueuedMessage } from '../../types/chat';
+import { IOfflineQueueService, IRetryPolicy, IStorageService } from '../interfaces';
+import { Attachment, Message, MessageStatus, QueuedMessage, QueuedUpload, StorageException } from '../../types/chat';
+
+import { ExponentialBackoffRetryPolicy } from './RetryPolicy';
 
 export class OfflineQueueService implements IOfflineQueueService {
   private queue: Map<string, QueuedMessage> = new Map();
   private processingState: boolean = false; // Renamed from isProcessing to avoid conflict
-  private readonly STORAGE_KEY = 'offline_message_queue';
-  private readonly MAX_RETRIES = 3;
+  private uploadFn?: (upload: QueuedUpload, message: Message) => Promise<Attachment>;
+  private uploadKeys: Set<string> = new Set(); // Storage keys holding file bytes of queued uploads
   private readonly MAX_QUEUE_SIZE = 100;
-  private readonly MESSAGE_EXPIRY = 24 * 60 * 60 * 1000; // 24 hours
+  private readonly PERSIST_ATTEMPTS = 3;
 
   constructor(
     private storageService: IStorageService,
-    private sendMessageFn?: (message: Message) => Promise<Message>
+    private sendMessageFn?: (message: Message) => Promise<Message>,
+    private retryPolicy: IRetryPolicy = new ExponentialBackoffRetryPolicy(),
+    private readonly storageKey: string = 'offline_message_queue'
   ) {
     this.loadQueue(); // Load queue on initialization
   }
 
   /**
-   * Add a message to the offline queue
+   * Add a message to the offline queue. An attachment message that still
+   * needs its file uploaded carries the file in `upload`; file bytes are
+   * stored under a key of their own, so a large file cannot push the whole
+   * queue past the storage quota.
+   *
+   * A message is only queued once it is in storage: a failed write is
+   * retried, and if it keeps failing the message is taken out again and a
+   * StorageException tells the caller it was not sent.
    */
-  async queueMessage(message: Message): Promise<void> {
+  async queueMessage(message: Message, upload?: QueuedUpload): Promise<void> {
+    const clientTempId = message.clientTempId || `offline-${Date.now()}-${Math.random()}`;
+    const storedUpload = upload && await this.storeUploadData(clientTempId, upload);
+
+    let evicted: [string, QueuedMessage] | undefined;
     if (this.queue.size >= this.MAX_QUEUE_SIZE) {
       console.warn('⚠️ Offline queue is full, removing oldest message');
-      const oldestKey = Array.from(this.queue.keys())[0];
-      this.queue.delete(oldestKey);
+      evicted = Array.from(this.queue.entries())[0];
+      this.queue.delete(evicted[0]);
     }
-
-    const clientTempId = message.clientTempId || `offline-${Date.now()}-${Math.random()}`;
     
     const queuedMessage: QueuedMessage = {
       message: {
@@ -36,12 +49,25 @@ export class OfflineQueueService implements IOfflineQueueService {
         clientTempId
       },
       retryCount: 0,
-      maxRetries: this.MAX_RETRIES,
-      addedAt: Date.now()
+      maxRetries: this.retryPolicy.getMaxRetries(message),
+      addedAt: Date.now(),
+      upload: storedUpload
     };
 
     this.queue.set(clientTempId, queuedMessage);
-    await this.saveQueue();
+
+    try {
+      await this.persistQueue();
+    } catch (error) {
+      this.queue.delete(clientTempId);
+      if (evicted) {
+        this.queue.set(...evicted);
+      }
+      throw new StorageException('Message could not be saved to the offline queue', { clientTempId, error });
+    } finally {
+      // Bytes of an evicted message, or of this one if it was not queued
+      await this.removeStaleUploads().catch(error => console.warn('Failed to remove queued file data:', error));
+    }
     
     console.log(`📋 Message queued for offline sending. Queue size: ${this.queue.size}`);
   }
@@ -60,28 +86,50 @@ export class OfflineQueueService implements IOfflineQueueService {
     try {
       const sortedMessages = this.getSortedMessages();
       const processedIds: string[] = [];
+      const heldConversations = new Set<string>();
+      let attempted = false;
 
       for (const [clientTempId, queuedMessage] of sortedMessages) {
-        try {
-          // Check if message hasn't expired
-          if (this.isMessageExpired(queuedMessage)) {
-            console.warn('⏰ Message expired, removing from queue:', clientTempId);
-            processedIds.push(clientTempId);
-            continue;
-          }
+        const conversationId = queuedMessage.message.conversationId;
 
-          // Check retry count
-          if (queuedMessage.retryCount >= queuedMessage.maxRetries) {
-            console.error('❌ Max retries reached for message:', clientTempId);
-            this.updateMessageStatus(queuedMessage.message, MessageStatus.FAILED);
-            processedIds.push(clientTempId);
-            continue;
-          }
+        // Queued behind a message of this conversation that has not gone out yet
+        if (heldConversations.has(conversationId)) {
+          continue;
+        }
+
+        // Check if message hasn't expired
+        if (this.isMessageExpired(queuedMessage)) {
+          console.warn('⏰ Message expired, removing from queue:', clientTempId);
+          processedIds.push(clientTempId);
+          continue;
+        }
+
+        // Check retry count
+        if (queuedMessage.retryCount >= queuedMessage.maxRetries) {
+          console.error('❌ Max retries reached for message:', clientTempId);
+          this.updateMessageStatus(queuedMessage.message, MessageStatus.FAILED);
+          processedIds.push(clientTempId);
+          continue;
+        }
+
+        // Still backing off from an earlier failure - leave it for a later pass
+        if (!this.isDue(queuedMessage)) {
+          heldConversations.add(conversationId);
+          continue;
+        }
+
+        // Small delay between messages
+        if (attempted) {
+          await this.delay(this.retryPolicy.getSendInterval());
+        }
+        attempted = true;
 
+        try {
           // Try to send the message
           if (this.sendMessageFn) {
             console.log(`📨 Sending queued message (attempt ${queuedMessage.retryCount + 1}/${queuedMessage.maxRetries}):`, clientTempId);
             
+            await this.uploadPending(queuedMessage);
             await this.sendMessageFn(queuedMessage.message);
             
             // Success - remove from queue
@@ -92,18 +140,13 @@ export class OfflineQueueService implements IOfflineQueueService {
         } catch (error) {
           console.error('❌ Failed to send queued message:', error);
           
-          // Update retry count
-          queuedMessage.retryCount++;
-          
           // If max retries reached, mark as failed
-          if (queuedMessage.retryCount >= queuedMessage.maxRetries) {
-            this.updateMessageStatus(queuedMessage.message, MessageStatus.FAILED);
+          if (this.recordFailure(queuedMessage, error)) {
             processedIds.push(clientTempId);
+          } else {
+            heldConversations.add(conversationId);
           }
         }
-
-        // Small delay between messages
-        await this.delay(500);
       }
 
       // Remove processed messages
@@ -133,7 +176,8 @@ export class OfflineQueueService implements IOfflineQueueService {
    */
   async clearQueue(): Promise<void> {
     this.queue.clear();
-    await this.storageService.remove(this.STORAGE_KEY);
+    await this.storageService.remove(this.storageKey);
+    await this.removeStaleUploads();
     console.log('🗑️ Offline queue cleared');
   }
 
@@ -167,28 +211,49 @@ export class OfflineQueueService implements IOfflineQueueService {
    */
   async saveQueue(): Promise<void> {
     try {
-      if (this.queue.size === 0) {
-        await this.storageService.remove(this.STORAGE_KEY);
-        return;
-      }
-
-      const queueArray = Array.from(this.queue.entries());
-      await this.storageService.set(this.STORAGE_KEY, queueArray);
-      
-      console.log(`💾 Saved ${this.queue.size} messages to offline queue`);
+      await this.persistQueue();
+      await this.removeStaleUploads();
     } catch (error) {
       console.error('Failed to save offline queue:', error);
     }
   }
 
+  /**
+   * Write the queue, retrying a failed write; throws the last error
+   */
+  private async persistQueue(): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        if (this.queue.size === 0) {
+          await this.storageService.remove(this.storageKey);
+        } else {
+          const queueArray = Array.from(this.queue.entries());
+          await this.storageService.set(this.storageKey, queueArray);
+          console.log(`💾 Saved ${this.queue.size} messages to offline queue`);
+        }
+        return;
+      } catch (error) {
+        if (attempt >= this.PERSIST_ATTEMPTS) throw error;
+        console.warn(`Saving offline queue failed (attempt ${attempt}), retrying:`, error);
+      }
+    }
+  }
+
   /**
    * Load queue from storage
    */
   async loadQueue(): Promise<void> {
     try {
-      const queueData = await this.storageService.get<Array<[string, QueuedMessage]>>(this.STORAGE_KEY);
+      // Bytes of uploads that left the queue while the app was not running are dropped below
+      const uploadPrefix = this.uploadKeyPrefix();
+      (await this.storageService.getAllKeys())
+        .filter(key => key.startsWith(uploadPrefix))
+        .forEach(key => this.uploadKeys.add(key));
+
+      const queueData = await this.storageService.get<Array<[string, QueuedMessage]>>(this.storageKey);
       
       if (!queueData || !Array.isArray(queueData)) {
+        await this.removeStaleUploads();
         return;
       }
 
@@ -208,12 +273,14 @@ export class OfflineQueueService implements IOfflineQueueService {
       // Clean up expired messages if any were skipped
       if (this.queue.size < queueData.length) {
         await this.saveQueue();
+      } else {
+        await this.removeStaleUploads();
       }
 
     } catch (error) {
       console.error('Failed to load offline queue:', error);
       // Clear corrupted data
-      await this.storageService.remove(this.STORAGE_KEY);
+      await this.storageService.remove(this.storageKey);
     }
   }
 
@@ -225,6 +292,13 @@ export class OfflineQueueService implements IOfflineQueueService {
     this.sendMessageFn = sendFn;
   }
 
+  /**
+   * Set the function used to upload files of queued attachment messages
+   */
+  setUploadFunction(uploadFn: (upload: QueuedUpload, message: Message) => Promise<Attachment>): void {
+    this.uploadFn = uploadFn;
+  }
+
   /**
    * Get detailed queue status
    */
@@ -237,6 +311,7 @@ export class OfflineQueueService implements IOfflineQueueService {
       timestamp: string;
       retryCount: number;
       age: number;
+      nextAttemptAt?: number;
     }>;
   } {
     const now = Date.now();
@@ -246,7 +321,8 @@ export class OfflineQueueService implements IOfflineQueueService {
       content: queued.message.content.substring(0, 50) + (queued.message.content.length > 50 ? '...' : ''),
       timestamp: queued.message.timestamp,
       retryCount: queued.retryCount,
-      age: now - queued.addedAt
+      age: now - queued.addedAt,
+      nextAttemptAt: queued.nextAttemptAt
     }));
 
     return {
@@ -294,6 +370,7 @@ export class OfflineQueueService implements IOfflineQueueService {
     }
 
     try {
+      await this.uploadPending(queuedMessage);
       await this.sendMessageFn(queuedMessage.message);
       this.queue.delete(clientTempId);
       await this.saveQueue();
@@ -301,12 +378,10 @@ export class OfflineQueueService implements IOfflineQueueService {
     } catch (error) {
       console.error('Failed to send single message:', error);
       
-      queuedMessage.retryCount++;
-      if (queuedMessage.retryCount >= queuedMessage.maxRetries) {
-        this.updateMessageStatus(queuedMessage.message, MessageStatus.FAILED);
+      if (this.recordFailure(queuedMessage, error)) {
         this.queue.delete(clientTempId);
-        await this.saveQueue();
       }
+      await this.saveQueue();
       
       return false;
     }
@@ -330,6 +405,7 @@ export class OfflineQueueService implements IOfflineQueueService {
     for (const [clientTempId, queuedMessage] of this.queue.entries()) {
       if (queuedMessage.retryCount >= queuedMessage.maxRetries) {
         queuedMessage.retryCount = 0;
+        queuedMessage.nextAttemptAt = undefined;
         queuedMessage.message.status = MessageStatus.QUEUED;
         retriedCount++;
       }
@@ -341,17 +417,114 @@ export class OfflineQueueService implements IOfflineQueueService {
     }
   }
 
+  /**
+   * Earliest time a backed-off message becomes due, or null if none are waiting
+   */
+  getNextAttemptAt(): number | null {
+    let earliest: number | null = null;
+
+    for (const queuedMessage of this.queue.values()) {
+      if (queuedMessage.nextAttemptAt === undefined) continue;
+      if (earliest === null || queuedMessage.nextAttemptAt < earliest) {
+        earliest = queuedMessage.nextAttemptAt;
+      }
+    }
+
+    return earliest;
+  }
+
   // ==========================================
   // PRIVATE HELPER METHODS
   // ==========================================
 
+  /**
+   * Count a failed attempt and schedule the next one.
+   * Returns true when the message has used up its retries and is now FAILED.
+   */
+  private recordFailure(queuedMessage: QueuedMessage, error: unknown): boolean {
+    queuedMessage.retryCount++;
+    queuedMessage.lastError = error instanceof Error ? error.message : String(error);
+
+    if (queuedMessage.retryCount >= queuedMessage.maxRetries) {
+      this.updateMessageStatus(queuedMessage.message, MessageStatus.FAILED);
+      return true;
+    }
+
+    const delay = this.retryPolicy.getRetryDelay(queuedMessage.retryCount, queuedMessage.message, error);
+    queuedMessage.nextAttemptAt = Date.now() + delay;
+    console.log(`⏳ Retrying ${queuedMessage.message.clientTempId} in ${delay}ms`);
+    return false;
+  }
+
+  /**
+   * Upload the file of an attachment message and put the result on the
+   * message. Saved straight away so a failed send does not upload it again.
+   */
+  private async uploadPending(queuedMessage: QueuedMessage): Promise<void> {
+    const upload = queuedMessage.upload;
+    if (!upload) return;
+
+    if (!this.uploadFn) {
+      throw new Error('No upload function configured');
+    }
+
+    const attachment = await this.uploadFn(await this.readUploadData(upload), queuedMessage.message);
+    queuedMessage.message.attachments = [attachment];
+    delete queuedMessage.upload;
+    await this.saveQueue();
+  }
+
+  /**
+   * Move in-memory file bytes to their own storage key. Throws when they
+   * cannot be stored, before anything is added to the queue.
+   */
+  private async storeUploadData(clientTempId: string, upload: QueuedUpload): Promise<QueuedUpload> {
+    if (upload.data === undefined) return upload;
+
+    const dataKey = this.uploadKeyPrefix() + clientTempId;
+    await this.storageService.set(dataKey, upload.data);
+    this.uploadKeys.add(dataKey);
+
+    return { ...upload, data: undefined, dataKey };
+  }
+
+  private async readUploadData(upload: QueuedUpload): Promise<QueuedUpload> {
+    if (!upload.dataKey) return upload;
+
+    const data = await this.storageService.get<string>(upload.dataKey);
+    if (data === null) {
+      throw new Error(`Queued file ${upload.name} is no longer in storage`);
+    }
+    return { ...upload, data };
+  }
+
+  /**
+   * Drop stored file bytes that no queued message refers to any more
+   */
+  private async removeStaleUploads(): Promise<void> {
+    const live = new Set(Array.from(this.queue.values(), q => q.upload?.dataKey));
+    const stale = Array.from(this.uploadKeys).filter(key => !live.has(key));
+    if (stale.length === 0) return;
+
+    await this.storageService.multiRemove(stale);
+    stale.forEach(key => this.uploadKeys.delete(key));
+  }
+
+  private uploadKeyPrefix(): string {
+    return `${this.storageKey}_upload_`;
+  }
+
+  private isDue(queuedMessage: QueuedMessage): boolean {
+    return queuedMessage.nextAttemptAt === undefined || queuedMessage.nextAttemptAt <= Date.now();
+  }
+
   private getSortedMessages(): Array<[string, QueuedMessage]> {
     return Array.from(this.queue.entries())
       .sort(([, a], [, b]) => a.addedAt - b.addedAt);
   }
 
   private isMessageExpired(queuedMessage: QueuedMessage): boolean {
-    return Date.now() - queuedMessage.addedAt > this.MESSAGE_EXPIRY;
+    return Date.now() - queuedMessage.addedAt > this.retryPolicy.getMessageExpiry(queuedMessage.message);
   }
 
   private isValidQueuedMessage(obj: any): obj is QueuedMessage {
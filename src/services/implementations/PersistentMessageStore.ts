@@ -0,0 +1,369 @@
+// src/services/implementations/PersistentMessageStore.ts
+import {
+  Message,
+  MessageLoadResult,
+  MessageRangeQuery,
+  ServerConversation
+} from '../../types/chat';
+import { IMessageStore, IStorageService } from '../interfaces';
+
+/**
+ * One row of a conversation's index, kept sorted by timestamp (oldest first)
+ */
+interface IndexEntry {
+  id: string;
+  clientTempId?: string;
+  timestamp: number;
+}
+
+interface TempIdRef {
+  conversationId: string;
+  id: string;
+}
+
+/**
+ * Message history persisted through IStorageService, so it works on the
+ * file, localStorage and AsyncStorage backends alike.
+ *
+ * Layout:
+ *   message_store_conversations            -> conversation ids
+ *   message_store_conversation_<id>        -> ServerConversation
+ *   message_store_index_<conversationId>   -> IndexEntry[] sorted by timestamp
+ *   message_store_msg_<conversationId>_<id> -> Message
+ *   message_store_temp_ids                 -> clientTempId -> { conversationId, id }
+ *
+ * Range queries binary-search the index and only read the messages on the
+ * requested page. All operations are serialised so concurrent writers cannot
+ * overwrite each other's index updates.
+ */
+export class PersistentMessageStore implements IMessageStore {
+  private readonly PREFIX = 'message_store_';
+  private readonly DEFAULT_PAGE_SIZE = 50;
+
+  private indexes: Map<string, IndexEntry[]> = new Map();
+  private conversationIds: string[] | null = null;
+  private tempIds: Record<string, TempIdRef> | null = null;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private storageService: IStorageService,
+    private maxMessagesPerConversation: number = 5000
+  ) {}
+
+  // ==========================================
+  // MESSAGES
+  // ==========================================
+
+  async saveMessage(message: Message): Promise<void> {
+    return this.saveMessages(message.conversationId, [message]);
+  }
+
+  async saveMessages(conversationId: string, messages: Message[]): Promise<void> {
+    if (!conversationId || messages.length === 0) return;
+
+    return this.serialize(async () => {
+      const index = await this.loadIndex(conversationId);
+      const tempIds = await this.loadTempIds();
+      const writes = new Map<string, any>();
+      const removals: string[] = [];
+
+      for (const incoming of messages) {
+        if (!incoming?.id) continue;
+
+        // The same message may come back under a new id (temp id -> server id)
+        const position = index.findIndex(entry =>
+          entry.id === incoming.id ||
+          (!!incoming.clientTempId && entry.clientTempId === incoming.clientTempId)
+        );
+
+        let message = incoming;
+
+        if (position !== -1) {
+          const previous = index[position];
+          const previousKey = this.messageKey(conversationId, previous.id);
+          const stored = writes.get(previousKey) ?? await this.storageService.get<Message>(previousKey);
+          message = stored ? { ...stored, ...incoming } : incoming;
+
+          if (previous.id !== message.id) {
+            removals.push(previousKey);
+            writes.delete(previousKey);
+          }
+          index.splice(position, 1);
+        }
+
+        this.insertSorted(index, {
+          id: message.id,
+          clientTempId: message.clientTempId,
+          timestamp: this.toTime(message.timestamp)
+        });
+        writes.set(this.messageKey(conversationId, message.id), message);
+
+        if (message.clientTempId) {
+          tempIds[message.clientTempId] = { conversationId, id: message.id };
+        }
+      }
+
+      // Drop the oldest messages beyond the per-conversation limit
+      if (index.length > this.maxMessagesPerConversation) {
+        const evicted = index.splice(0, index.length - this.maxMessagesPerConversation);
+        for (const entry of evicted) {
+          removals.push(this.messageKey(conversationId, entry.id));
+          writes.delete(this.messageKey(conversationId, entry.id));
+          if (entry.clientTempId) {
+            delete tempIds[entry.clientTempId];
+          }
+        }
+      }
+
+      try {
+        if (removals.length > 0) {
+          await this.storageService.multiRemove(removals);
+        }
+        await this.storageService.multiSet(writes);
+        await this.storageService.set(this.indexKey(conversationId), index);
+        await this.storageService.set(this.key('temp_ids'), tempIds);
+        await this.trackConversation(conversationId);
+      } catch (error) {
+        // Reload from storage next time rather than trusting the in-memory copy
+        this.indexes.delete(conversationId);
+        this.tempIds = null;
+        throw error;
+      }
+    });
+  }
+
+  async getMessage(conversationId: string, messageId: string): Promise<Message | null> {
+    return this.serialize(() =>
+      this.storageService.get<Message>(this.messageKey(conversationId, messageId))
+    );
+  }
+
+  async getMessageByClientTempId(clientTempId: string): Promise<Message | null> {
+    return this.serialize(async () => {
+      const ref = (await this.loadTempIds())[clientTempId];
+      if (!ref) return null;
+      return this.storageService.get<Message>(this.messageKey(ref.conversationId, ref.id));
+    });
+  }
+
+  /**
+   * Newest-first page of a conversation's history.
+   * With only `after` set, the page starts right after the cursor so callers
+   * can walk forward without skipping messages.
+   */
+  async queryMessages(conversationId: string, query: MessageRangeQuery = {}): Promise<MessageLoadResult> {
+    return this.serialize(async () => {
+      const index = await this.loadIndex(conversationId);
+      const limit = query.limit || this.DEFAULT_PAGE_SIZE;
+      const offset = query.offset || 0;
+
+      // [start, end) is the slice of the index inside the requested range
+      let start = query.after ? this.upperBound(index, this.toTime(query.after)) : 0;
+      let end = query.before ? this.lowerBound(index, this.toTime(query.before)) : index.length;
+
+      let hasMore: boolean;
+      if (query.after && !query.before) {
+        start = Math.min(start + offset, end);
+        hasMore = end - start > limit;
+        end = Math.min(start + limit, end);
+      } else {
+        end = Math.max(end - offset, start);
+        hasMore = end - start > limit;
+        start = Math.max(end - limit, start);
+      }
+
+      const entries = index.slice(start, end).reverse();
+      const keys = entries.map(entry => this.messageKey(conversationId, entry.id));
+      const found = await this.storageService.multiGet<Message>(keys);
+      const messages = keys
+        .map(key => found.get(key))
+        .filter((message): message is Message => !!message);
+
+      return {
+        messages,
+        hasMore,
+        totalCount: index.length,
+        oldestMessageId: messages[messages.length - 1]?.id,
+        newestMessageId: messages[0]?.id,
+        nextCursor: messages[messages.length - 1]?.timestamp,
+        previousCursor: messages[0]?.timestamp
+      };
+    });
+  }
+
+  async deleteMessage(conversationId: string, messageId: string): Promise<void> {
+    return this.serialize(async () => {
+      const index = await this.loadIndex(conversationId);
+      const position = index.findIndex(entry => entry.id === messageId);
+      if (position === -1) return;
+
+      const [entry] = index.splice(position, 1);
+      await this.storageService.remove(this.messageKey(conversationId, messageId));
+      await this.storageService.set(this.indexKey(conversationId), index);
+
+      if (entry.clientTempId) {
+        const tempIds = await this.loadTempIds();
+        delete tempIds[entry.clientTempId];
+        await this.storageService.set(this.key('temp_ids'), tempIds);
+      }
+    });
+  }
+
+  async getMessageCount(conversationId: string): Promise<number> {
+    return this.serialize(async () => (await this.loadIndex(conversationId)).length);
+  }
+
+  // ==========================================
+  // CONVERSATIONS
+  // ==========================================
+
+  async saveConversation(conversation: ServerConversation): Promise<void> {
+    return this.serialize(async () => {
+      await this.storageService.set(this.conversationKey(conversation.id), conversation);
+      await this.trackConversation(conversation.id);
+    });
+  }
+
+  async getConversation(conversationId: string): Promise<ServerConversation | null> {
+    return this.serialize(() =>
+      this.storageService.get<ServerConversation>(this.conversationKey(conversationId))
+    );
+  }
+
+  async getConversations(): Promise<ServerConversation[]> {
+    return this.serialize(async () => {
+      const ids = await this.loadConversationIds();
+      const found = await this.storageService.multiGet<ServerConversation>(
+        ids.map(id => this.conversationKey(id))
+      );
+      return Array.from(found.values());
+    });
+  }
+
+  /**
+   * Remove a conversation together with its whole message history
+   */
+  async removeConversation(conversationId: string): Promise<void> {
+    return this.serialize(async () => {
+      const index = await this.loadIndex(conversationId);
+      const tempIds = await this.loadTempIds();
+
+      index.forEach(entry => {
+        if (entry.clientTempId) delete tempIds[entry.clientTempId];
+      });
+
+      await this.storageService.multiRemove([
+        ...index.map(entry => this.messageKey(conversationId, entry.id)),
+        this.indexKey(conversationId),
+        this.conversationKey(conversationId)
+      ]);
+      await this.storageService.set(this.key('temp_ids'), tempIds);
+
+      const ids = await this.loadConversationIds();
+      this.conversationIds = ids.filter(id => id !== conversationId);
+      await this.storageService.set(this.key('conversations'), this.conversationIds);
+      this.indexes.delete(conversationId);
+    });
+  }
+
+  async clear(): Promise<void> {
+    return this.serialize(async () => {
+      const keys = await this.storageService.getAllKeys();
+      await this.storageService.multiRemove(keys.filter(key => key.startsWith(this.PREFIX)));
+
+      this.indexes.clear();
+      this.conversationIds = [];
+      this.tempIds = {};
+    });
+  }
+
+  // ==========================================
+  // PRIVATE HELPER METHODS
+  // ==========================================
+
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(operation, operation);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  private async loadIndex(conversationId: string): Promise<IndexEntry[]> {
+    let index = this.indexes.get(conversationId);
+    if (!index) {
+      index = await this.storageService.get<IndexEntry[]>(this.indexKey(conversationId)) || [];
+      this.indexes.set(conversationId, index);
+    }
+    return index;
+  }
+
+  private async loadTempIds(): Promise<Record<string, TempIdRef>> {
+    if (!this.tempIds) {
+      this.tempIds = await this.storageService.get<Record<string, TempIdRef>>(this.key('temp_ids')) || {};
+    }
+    return this.tempIds;
+  }
+
+  private async loadConversationIds(): Promise<string[]> {
+    if (!this.conversationIds) {
+      this.conversationIds = await this.storageService.get<string[]>(this.key('conversations')) || [];
+    }
+    return this.conversationIds;
+  }
+
+  private async trackConversation(conversationId: string): Promise<void> {
+    const ids = await this.loadConversationIds();
+    if (!ids.includes(conversationId)) {
+      ids.push(conversationId);
+      await this.storageService.set(this.key('conversations'), ids);
+    }
+  }
+
+  private insertSorted(index: IndexEntry[], entry: IndexEntry): void {
+    index.splice(this.upperBound(index, entry.timestamp), 0, entry);
+  }
+
+  // First position with timestamp >= time
+  private lowerBound(index: IndexEntry[], time: number): number {
+    let low = 0;
+    let high = index.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (index[mid].timestamp < time) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  // First position with timestamp > time
+  private upperBound(index: IndexEntry[], time: number): number {
+    let low = 0;
+    let high = index.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (index[mid].timestamp <= time) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  private toTime(timestamp: string): number {
+    const time = new Date(timestamp).getTime();
+    return isNaN(time) ? 0 : time;
+  }
+
+  private key(name: string): string {
+    return `${this.PREFIX}${name}`;
+  }
+
+  private indexKey(conversationId: string): string {
+    return this.key(`index_${conversationId}`);
+  }
+
+  private messageKey(conversationId: string, messageId: string): string {
+    return this.key(`msg_${conversationId}_${messageId}`);
+  }
+
+  private conversationKey(conversationId: string): string {
+    return this.key(`conversation_${conversationId}`);
+  }
+}
@@ -491,13 +491,7 @@ export class RestConversationService extends BaseConversationService implements
     try {
       await this.apiClient.delete(`/conversations/${conversationId}`);
       
-      // Remove from cache
-      const cached = this.getCachedConversations();
-      const filtered = cached.filter(c => c.id !== conversationId);
-      
-      // Clear and re-cache
-      this.cacheService.clearConversationCache();
-      this.cacheConversations(filtered);
+      this.removeCachedConversation(conversationId);
       
       console.log('✓ Conversation deleted');
       
@@ -507,6 +501,148 @@ export class RestConversationService extends BaseConversationService implements
     }
   }
 
+  // ==========================================
+  // GROUP MEMBERSHIP
+  // ==========================================
+
+  async addParticipants(conversationId: string, userIds: string[]) {
+    this.validateMembershipChange(conversationId, userIds);
+    
+    const cached = this.findConversationInCache(c => c.id === conversationId);
+    const newIds = [...new Set(userIds)].filter(id => !cached || !this.isUserParticipant(cached, id));
+    
+    if (cached && newIds.length === 0) {
+      return cached;
+    }
+    
+    if (cached && cached.participants.filter(p => p.isActive).length + newIds.length > 50) {
+      throw new ValidationException('Cannot have more than 50 participants');
+    }
+    
+    try {
+      const response = await this.apiClient.post(`/conversations/${conversationId}/participants`, {
+        userIds: cached ? newIds : userIds
+      });
+      
+      const conversation = await this.cacheConversationResponse(conversationId, response);
+      console.log(`✓ Added ${newIds.length} participant(s)`);
+      return conversation;
+      
+    } catch (error: any) {
+      this.handleApiError(error, 'add participants');
+      throw error;
+    }
+  }
+
+  async removeParticipant(conversationId: string, userId: string) {
+    this.validateMembershipChange(conversationId, [userId]);
+    
+    if (userId === this.userId) {
+      throw new ValidationException('Use leaveConversation to remove yourself');
+    }
+    
+    try {
+      const response = await this.apiClient.delete(`/conversations/${conversationId}/participants/${userId}`);
+      
+      const conversation = await this.cacheConversationResponse(conversationId, response);
+      console.log('✓ Participant removed');
+      return conversation;
+      
+    } catch (error: any) {
+      this.handleApiError(error, 'remove participant');
+      throw error;
+    }
+  }
+
+  async leaveConversation(conversationId: string) {
+    this.validateMembershipChange(conversationId, [this.userId]);
+    
+    try {
+      await this.apiClient.post(`/conversations/${conversationId}/leave`);
+      
+      this.removeCachedConversation(conversationId);
+      
+      console.log('✓ Left conversation');
+      
+    } catch (error: any) {
+      this.handleApiError(error, 'leave conversation');
+      throw error;
+    }
+  }
+
+  async promoteToAdmin(conversationId: string, userId: string) {
+    this.validateMembershipChange(conversationId, [userId]);
+    
+    const cached = this.findConversationInCache(c => c.id === conversationId);
+    if (cached?.adminIds?.includes(userId)) {
+      return cached;
+    }
+    
+    try {
+      const response = await this.apiClient.post(`/conversations/${conversationId}/admins`, { userId });
+      
+      const conversation = await this.cacheConversationResponse(conversationId, response);
+      console.log('✓ Participant promoted to admin');
+      return conversation;
+      
+    } catch (error: any) {
+      this.handleApiError(error, 'promote participant');
+      throw error;
+    }
+  }
+
+  async setParticipantNickname(conversationId: string, userId: string, nickname: string | null) {
+    this.validateMembershipChange(conversationId, [userId]);
+    
+    const trimmed = nickname?.trim() || null;
+    if (trimmed && trimmed.length > 50) {
+      throw new ValidationException('Nickname cannot be longer than 50 characters');
+    }
+    
+    try {
+      const response = await this.apiClient.patch(`/conversations/${conversationId}/participants/${userId}`, {
+        nickname: trimmed
+      });
+      
+      const conversation = await this.cacheConversationResponse(conversationId, response);
+      console.log('✓ Participant nickname updated');
+      return conversation;
+      
+    } catch (error: any) {
+      this.handleApiError(error, 'set participant nickname');
+      throw error;
+    }
+  }
+
+  /**
+   * Cache the conversation returned by a membership call. Servers that only
+   * acknowledge the change get a follow-up fetch.
+   */
+  private async cacheConversationResponse(conversationId: string, response: any): Promise<ServerConversation> {
+    let conversationData = response?.conversation || response?.data?.conversation || response?.data;
+    
+    if (!conversationData?.id) {
+      const fresh = await this.apiClient.get(`/conversations/${conversationId}`);
+      conversationData = fresh?.conversation || fresh?.data?.conversation || fresh?.data || fresh;
+    }
+    
+    if (!conversationData?.id) {
+      throw new NetworkException('Conversation not found');
+    }
+    
+    const conversation = this.transformServerConversation(conversationData);
+    this.cacheConversation(conversation);
+    return conversation;
+  }
+
+  private removeCachedConversation(conversationId: string): void {
+    const filtered = this.getCachedConversations().filter(c => c.id !== conversationId);
+    
+    // Clear and re-cache
+    this.cacheService.clearConversationCache();
+    this.cacheConversations(filtered);
+  }
+
   // Private helper method for error handling
   private handleApiError(error: any, operation: string) {
     console.error(`Failed to ${operation}:`, error);
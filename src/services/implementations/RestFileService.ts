@@ -1,32 +1,50 @@
 // src/services/implementations/rest/RestFileService.ts
-import { IFileService } from '../interfaces';
+import { IFileService, IImageProcessor, IStorageService } from '../interfaces';
+import { AppConfig } from '../../config/AppConfig';
 import { 
   Attachment,
   AttachmentType,
   ValidationException,
   FileUploadException,
-  NetworkException
+  NetworkException,
+  ProcessedImage,
+  ProcessedImageData,
+  ResumableUploadOptions,
+  ResumableUploadState
 } from '../../types/chat';
 
+import { validateAttachment } from '../../utils/attachmentValidation';
 import { logger } from '../../utils/Logger';
+import { responseBody } from '../api/base/BaseApiClient';
+
+import { ResumableUploader } from './ResumableUploader';
 export class RestFileService implements IFileService {
-  private readonly MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-  private readonly MAX_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB
-  private readonly MAX_AUDIO_SIZE = 15 * 1024 * 1024; // 15MB
-  
-  private readonly SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
-  private readonly SUPPORTED_AUDIO_TYPES = ['audio/mp4', 'audio/mpeg', 'audio/wav', 'audio/m4a'];
-  private readonly SUPPORTED_FILE_TYPES = ['application/pdf', 'text/plain', 'application/msword'];
+  private resumableUploader: ResumableUploader | null;
 
   constructor(
     private apiClient: any,
-    private userId: string = ''
-  ) {}
+    private userId: string = '',
+    storageService?: IStorageService, // Keeps resumable upload progress
+    private imageProcessor?: IImageProcessor // Resizes and strips metadata before image uploads
+  ) {
+    this.resumableUploader = storageService ? new ResumableUploader(apiClient, storageService) : null;
+  }
 
   /**
-   * Upload a file
+   * Upload a file. Images go through the image processor first, whichever
+   * method they are uploaded with.
    */
   async uploadFile(file: any, type: AttachmentType = AttachmentType.FILE): Promise<Attachment> {
+    if (type === AttachmentType.IMAGE && this.imageProcessor) {
+      return this.uploadImage(file);
+    }
+    return this.postFile(file, type);
+  }
+
+  /**
+   * Upload a file exactly as given
+   */
+  private async postFile(file: any, type: AttachmentType): Promise<Attachment> {
     try {
       console.log('📤 Uploading file:', { 
         name: file.name, 
@@ -34,11 +52,11 @@ export class RestFileService implements IFileService {
         size: file.size 
       });
       
-      // Validate file
-      this.validateFile(file, type);
+      // Validate file against its actual content
+      const { mimeType } = await validateAttachment(file, type);
       
       // Prepare form data
-      const formData = this.createFormData(file, type);
+      const formData = this.createFormData(file, type, mimeType);
       
       // Upload to server
       const response = await this.apiClient.post('/upload', formData, {
@@ -52,20 +70,22 @@ export class RestFileService implements IFileService {
         }
       });
 
-      if (!response.data?.success) {
-        throw new FileUploadException('Upload failed', response.data);
+      const data = responseBody(response);
+
+      if (!data?.success) {
+        throw new FileUploadException('Upload failed', data);
       }
 
       const attachment: Attachment = {
-        id: response.data.file.id,
+        id: data.file.id,
         type,
-        url: response.data.file.url,
-        name: response.data.file.name || file.name,
-        size: response.data.file.size || file.size,
-        thumbnailUrl: response.data.file.thumbnailUrl,
-        mimeType: response.data.file.mimeType || file.type,
-        uploadedAt: response.data.file.uploadedAt || new Date().toISOString(),
-        metadata: response.data.file.metadata
+        url: data.file.url,
+        name: data.file.name || file.name,
+        size: data.file.size || file.size,
+        thumbnailUrl: data.file.thumbnailUrl,
+        mimeType: data.file.mimeType || mimeType,
+        uploadedAt: data.file.uploadedAt || new Date().toISOString(),
+        metadata: data.file.metadata
       };
 
       console.log('✅ File uploaded successfully:', attachment.id);
@@ -79,20 +99,23 @@ export class RestFileService implements IFileService {
   }
 
   /**
-   * Upload an image
+   * Upload an image. With an image processor the image is first scaled down
+   * and stripped of EXIF/GPS data on the device, and its thumbnail uploaded
+   * alongside it.
    */
   async uploadImage(image: any): Promise<Attachment> {
     try {
       console.log('🖼️ Uploading image:', { 
-        name: image.name, 
-        size: image.size 
+        name: image?.name, 
+        size: image?.size 
       });
       
-      // Validate image
-      this.validateImage(image);
-      
-      // Upload as image type
-      return await this.uploadFile(image, AttachmentType.IMAGE);
+      if (!this.imageProcessor) {
+        await this.validateImage(image);
+        return await this.postFile(image, AttachmentType.IMAGE);
+      }
+
+      return await this.processAndUpload(image, upload => this.postFile(upload, AttachmentType.IMAGE));
       
     } catch (error: any) {
       console.error('❌ Image upload failed:', error);
@@ -112,7 +135,7 @@ export class RestFileService implements IFileService {
       });
       
       // Validate audio
-      this.validateAudio(audio);
+      await this.validateAudio(audio);
       
       // Upload as audio type
       return await this.uploadFile(audio, AttachmentType.AUDIO);
@@ -124,6 +147,38 @@ export class RestFileService implements IFileService {
     }
   }
 
+  /**
+   * Upload in chunks, resuming an earlier attempt for the same file from
+   * the last byte the server acknowledged
+   */
+  async uploadFileResumable(
+    file: any,
+    type: AttachmentType = AttachmentType.FILE,
+    options?: ResumableUploadOptions
+  ): Promise<Attachment> {
+    const uploader = this.requireResumableUploader();
+
+    if (type === AttachmentType.IMAGE && this.imageProcessor) {
+      console.log('📤 Uploading image in chunks:', { name: file?.name, size: file?.size });
+      return this.processAndUpload(file, upload => uploader.upload(upload, type, options));
+    }
+
+    await validateAttachment(file, type);
+
+    console.log('📤 Uploading file in chunks:', { name: file?.name, type, size: file?.size });
+    const attachment = await uploader.upload(file, type, options);
+    console.log('✅ Chunked upload complete:', attachment.id);
+    return attachment;
+  }
+
+  async getPendingUploads(): Promise<ResumableUploadState[]> {
+    return this.requireResumableUploader().getPending();
+  }
+
+  async cancelResumableUpload(uploadKey: string): Promise<void> {
+    await this.requireResumableUploader().cancel(uploadKey);
+  }
+
   /**
    * Delete file
    */
@@ -170,35 +225,69 @@ export class RestFileService implements IFileService {
 
   // Private helper methods
 
-  private validateFile(file: any, type: AttachmentType): void {
-    if (!file) {
-      throw new ValidationException('File is required');
-    }
+  /**
+   * Scale and strip an image, send the result with `send` and upload its
+   * thumbnail alongside it
+   */
+  private async processAndUpload(image: any, send: (upload: any) => Promise<Attachment>): Promise<Attachment> {
+    // Limits apply to what is sent, so a large original may still go through once scaled down
+    const processed = await this.imageProcessor!.process(image, AppConfig.images);
+    const name = image.name || `image-${Date.now()}.${this.getImageExtension(processed.mimeType)}`;
+    const upload = this.toUploadable(processed, name);
+    await this.validateImage({ ...upload, width: processed.width, height: processed.height });
 
-    if (!file.uri && !file.path) {
-      throw new ValidationException('File URI or path is required');
-    }
+    const attachment = await send(upload);
 
-    // Check file size based on type
-    const maxSize = this.getMaxSizeForType(type);
-    if (file.size && file.size > maxSize) {
-      throw new FileUploadException(
-        `File size (${this.formatFileSize(file.size)}) exceeds maximum allowed size (${this.formatFileSize(maxSize)})`,
-        { size: file.size, maxSize }
+    return {
+      ...attachment,
+      width: processed.width,
+      height: processed.height,
+      thumbnailUrl: await this.uploadThumbnail(processed, name) || attachment.thumbnailUrl
+    };
+  }
+
+  /**
+   * Upload the thumbnail of a processed image and return its URL. A failed
+   * thumbnail does not fail the image - the server's own, if any, is used.
+   */
+  private async uploadThumbnail(processed: ProcessedImage, name: string): Promise<string | undefined> {
+    if (!processed.thumbnail) return undefined;
+
+    try {
+      const thumbnail = await this.postFile(
+        this.toUploadable(processed.thumbnail, `thumb-${name}`),
+        AttachmentType.IMAGE
       );
+      return thumbnail.url;
+    } catch (error) {
+      logger.warn('Thumbnail upload failed', error);
+      return undefined;
     }
+  }
 
-    // Check file type
-    if (file.type && !this.isValidFileType(file.type, type)) {
-      throw new FileUploadException(
-        `File type (${file.type}) is not supported for ${type}`,
-        { fileType: file.type, supportedTypes: this.getSupportedTypes(type) }
-      );
+  private toUploadable(image: ProcessedImageData, name: string) {
+    const extension = this.getImageExtension(image.mimeType);
+    return {
+      name: name.replace(/\.[^.]*$/, '') + `.${extension}`,
+      type: image.mimeType,
+      size: image.data.byteLength,
+      data: image.data
+    };
+  }
+
+  private getImageExtension(mimeType: string): string {
+    return mimeType === 'image/jpeg' ? 'jpg' : mimeType.replace('image/', '');
+  }
+
+  private requireResumableUploader(): ResumableUploader {
+    if (!this.resumableUploader) {
+      throw new FileUploadException('Resumable uploads need a storage service');
     }
+    return this.resumableUploader;
   }
 
-  private validateImage(image: any): void {
-    this.validateFile(image, AttachmentType.IMAGE);
+  private async validateImage(image: any): Promise<void> {
+    await validateAttachment(image, AttachmentType.IMAGE);
     
     // Additional image-specific validation
     if (image.width && image.height) {
@@ -212,8 +301,8 @@ export class RestFileService implements IFileService {
     }
   }
 
-  private validateAudio(audio: any): void {
-    this.validateFile(audio, AttachmentType.AUDIO);
+  private async validateAudio(audio: any): Promise<void> {
+    await validateAttachment(audio, AttachmentType.AUDIO);
     
     // Additional audio-specific validation
     if (audio.duration && audio.duration > 300) { // 5 minutes max
@@ -224,23 +313,30 @@ export class RestFileService implements IFileService {
     }
   }
 
-  private createFormData(file: any, type: AttachmentType): FormData {
+  private createFormData(file: any, type: AttachmentType, mimeType: string): FormData {
   const formData = new FormData();
   
   // Handle different file input formats
   if (typeof window !== 'undefined' && file instanceof File) {
     // Browser File object
     formData.append('file', file);
+  } else if (file.data) {
+    // Bytes in memory, e.g. a processed image
+    formData.append(
+      'file',
+      new Blob([file.data], { type: mimeType }),
+      file.name || `${type}-${Date.now()}.${this.getFileExtension(type)}`
+    );
   } else if (file.uri) {
     // React Native file format
     formData.append('file', {
       uri: file.uri,
-      type: file.type || this.getMimeType(type),
+      type: mimeType,
       name: file.name || `${type}-${Date.now()}.${this.getFileExtension(type)}`
     } as any);
   } else if (file.path) {
     // Node.js file path
-    this.appendNodeFileToFormData(formData, file, type);
+    this.appendNodeFileToFormData(formData, file, type, mimeType);
   }
   
   formData.append('type', type);
@@ -249,7 +345,7 @@ export class RestFileService implements IFileService {
   return formData;
 }
 
-private appendNodeFileToFormData(formData: FormData, file: any, type: AttachmentType): void {
+private appendNodeFileToFormData(formData: FormData, file: any, type: AttachmentType, mimeType: string): void {
   try {
     const fs = require('fs');
     const stream = fs.createReadStream(file.path);
@@ -258,7 +354,7 @@ private appendNodeFileToFormData(formData: FormData, file: any, type: Attachment
     // Cast to any to handle different FormData implementations
     (formData as any).append('file', stream, {
       filename: filename,
-      contentType: file.type || this.getMimeType(type)
+      contentType: mimeType
     });
   } catch (error) {
     logger.error('Failed to append Node.js file to FormData:', error);
@@ -266,47 +362,6 @@ private appendNodeFileToFormData(formData: FormData, file: any, type: Attachment
   }
 }
 
-  private getMaxSizeForType(type: AttachmentType): number {
-    switch (type) {
-      case AttachmentType.IMAGE:
-        return this.MAX_IMAGE_SIZE;
-      case AttachmentType.AUDIO:
-        return this.MAX_AUDIO_SIZE;
-      case AttachmentType.FILE:
-      default:
-        return this.MAX_FILE_SIZE;
-    }
-  }
-
-  private getSupportedTypes(type: AttachmentType): string[] {
-    switch (type) {
-      case AttachmentType.IMAGE:
-        return this.SUPPORTED_IMAGE_TYPES;
-      case AttachmentType.AUDIO:
-        return this.SUPPORTED_AUDIO_TYPES;
-      case AttachmentType.FILE:
-      default:
-        return this.SUPPORTED_FILE_TYPES;
-    }
-  }
-
-  private isValidFileType(mimeType: string, type: AttachmentType): boolean {
-    const supportedTypes = this.getSupportedTypes(type);
-    return supportedTypes.includes(mimeType);
-  }
-
-  private getMimeType(type: AttachmentType): string {
-    switch (type) {
-      case AttachmentType.IMAGE:
-        return 'image/jpeg';
-      case AttachmentType.AUDIO:
-        return 'audio/mp4';
-      case AttachmentType.FILE:
-      default:
-        return 'application/octet-stream';
-    }
-  }
-
   private getFileExtension(type: AttachmentType): string {
     switch (type) {
       case AttachmentType.IMAGE:
@@ -319,15 +374,12 @@ private appendNodeFileToFormData(formData: FormData, file: any, type: Attachment
     }
   }
 
-  private formatFileSize(bytes: number): string {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
-  }
-
   private handleUploadError(error: any, fileType: string): void {
+    // Rejected before sending - keep the reason
+    if (error instanceof FileUploadException || error instanceof ValidationException) {
+      throw error;
+    }
+
     const status = error?.response?.status;
     const errorData = error?.response?.data;
     
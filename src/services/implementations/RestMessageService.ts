@@ -1,4 +1,6 @@
 // src/services/implementations/rest/RestMessageService.ts
+import { responseBody } from '../api/base/BaseApiClient';
+
 import { BaseMessageService } from './BaseMessageService';
 import { IMessageService, ICacheService } from '../interfaces';
 import { 
@@ -6,8 +8,11 @@ import {
   MessageLoadOptions, 
   MessageLoadResult,
   MessageStatus,
+  MessageType,
   AttachmentType,
-  Attachment
+  Attachment,
+  MessageReactionEvent,
+  MessageThread
 } from '../../types/chat';
 
 export class RestMessageService extends BaseMessageService implements IMessageService {
@@ -27,10 +32,17 @@ export class RestMessageService extends BaseMessageService implements IMessageSe
       replyTo?: string;
       attachments?: Attachment[];
       metadata?: Record<string, any>;
+      clientTempId?: string;
+      mentions?: string[];
+      expiresAt?: string;
+      type?: MessageType;
     }
   ): Promise<Message> {
     // Create message using base class method
     const message = this.createMessage(conversationId, content, receiverId, options);
+    if (options?.clientTempId) {
+      message.clientTempId = options.clientTempId;
+    }
     
     // Track message
     this.trackMessage(message.clientTempId!);
@@ -43,7 +55,10 @@ export class RestMessageService extends BaseMessageService implements IMessageSe
         receiverId,
         replyTo: options?.replyTo,
         clientTempId: message.clientTempId,
-        attachments: options?.attachments
+        attachments: options?.attachments,
+        messageType: message.type,
+        mentions: options?.mentions,
+        expiresAt: options?.expiresAt
       });
 
       // Update with server response
@@ -97,23 +112,25 @@ export class RestMessageService extends BaseMessageService implements IMessageSe
         `/messages/conversation/${conversationId}?limit=${limit}&offset=${offset}`
       );
 
-      if (response.data?.success) {
+      const data = responseBody(response);
+
+      if (data?.success) {
         // Transform using base class method
-        const messages = response.data.messages.map((msg: any) => this.transformMessage(msg));
+        const messages = data.messages.map((msg: any) => this.transformMessage(msg));
         
         // Cache all messages
         messages.forEach((msg: Message) => this.cacheMessage(conversationId, msg));
 
         return {
           messages,
-          hasMore: response.data.hasMore || false,
-          totalCount: response.data.total || messages.length,
+          hasMore: data.hasMore || false,
+          totalCount: data.total || messages.length,
           oldestMessageId: messages[messages.length - 1]?.id,
           newestMessageId: messages[0]?.id
         };
       }
       
-      throw new Error(response.data?.message || 'Failed to fetch messages');
+      throw new Error(data?.message || 'Failed to fetch messages');
       
     } catch (error) {
       // Return cached on error
@@ -137,6 +154,38 @@ export class RestMessageService extends BaseMessageService implements IMessageSe
     }
   }
 
+  async getThread(rootMessageId: string): Promise<MessageThread> {
+    try {
+      const response = await this.apiClient.get(`/messages/${rootMessageId}/thread`);
+
+      const data = responseBody(response);
+
+      if (data?.success) {
+        const rootMessage = this.transformMessage(data.rootMessage);
+        const replies: Message[] = (data.replies || []).map((msg: any) => this.transformMessage(msg));
+
+        [rootMessage, ...replies].forEach(msg => this.cacheMessage(msg.conversationId, msg));
+
+        return {
+          rootMessage,
+          replies,
+          replyCount: data.replyCount ?? replies.length,
+          lastReplyAt: data.lastReplyAt
+        };
+      }
+
+      throw new Error(data?.message || 'Failed to fetch thread');
+
+    } catch (error) {
+      // Fall back to whatever part of the thread is cached
+      const cached = this.getCachedThread(rootMessageId);
+      if (cached) {
+        return cached;
+      }
+      throw error;
+    }
+  }
+
   async markAsRead(conversationId: string, messageIds?: string[]): Promise<void> {
     await this.apiClient.post('/messages/read', { conversationId, messageIds });
   }
@@ -159,6 +208,21 @@ export class RestMessageService extends BaseMessageService implements IMessageSe
     await this.apiClient.delete(`/messages/${messageId}`);
   }
 
+  async addReaction(conversationId: string, messageId: string, emoji: string): Promise<void> {
+    await this.apiClient.post(`/messages/${messageId}/reactions`, { emoji });
+    this.applyReaction(this.createReactionEvent(conversationId, messageId, emoji, 'added'));
+  }
+
+  async removeReaction(conversationId: string, messageId: string, emoji: string): Promise<void> {
+    await this.apiClient.delete(`/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`);
+    this.applyReaction(this.createReactionEvent(conversationId, messageId, emoji, 'removed'));
+  }
+
+  onReactionChanged(callback: (event: MessageReactionEvent) => void): () => void {
+    // REST has no push channel - only changes made through this service are reported
+    return this.addReactionListener(callback);
+  }
+
   async retryFailedMessage(
     conversationId: string,
     messageId: string,
@@ -176,7 +240,10 @@ export class RestMessageService extends BaseMessageService implements IMessageSe
       message.receiverId || '',
       {
         replyTo: message.replyTo,
-        attachments: message.attachments
+        attachments: message.attachments,
+        mentions: message.mentions,
+        expiresAt: message.expiresAt,
+        type: message.type
       }
     );
   }
@@ -0,0 +1,370 @@
+// src/services/implementations/ResumableUploader.ts
+import { AppConfig } from '../../config/AppConfig';
+import {
+  Attachment,
+  AttachmentType,
+  FileUploadException,
+  ResumableUploadOptions,
+  ResumableUploadState,
+  ValidationException
+} from '../../types/chat';
+import { logger } from '../../utils/Logger';
+import { BaseApiClient } from '../api/base/BaseApiClient';
+import { IStorageService } from '../interfaces';
+
+/**
+ * Random access to the bytes of whatever the caller passed as a file
+ */
+interface ChunkSource {
+  size: number;
+  read(start: number, end: number): Promise<Uint8Array>;
+  close(): Promise<void>;
+}
+
+/**
+ * Chunked upload protocol:
+ *
+ *   POST   /upload/sessions                 { name, size, mimeType, type, chunkSize } -> { session }
+ *   GET    /upload/sessions/:id             -> { session: { offset } }
+ *   PUT    /upload/sessions/:id             raw chunk; Upload-Offset and Upload-Checksum headers -> { offset }
+ *   POST   /upload/sessions/:id/complete    -> { file }
+ *   DELETE /upload/sessions/:id
+ *
+ * A chunk is only written when Upload-Offset matches the server's offset
+ * (409 with the real offset otherwise) and its SHA-256 matches (422).
+ * The acknowledged offset is saved after every chunk, so an upload that is
+ * interrupted - dropped connection, abort, app restart - resumes from the
+ * last acknowledged byte instead of from zero.
+ */
+export class ResumableUploader {
+  private readonly STORAGE_KEY = 'resumable_uploads';
+  // Uploads run side by side but share one stored map; its writes go one at a time
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private apiClient: BaseApiClient,
+    private storageService: IStorageService,
+    private maxChunkRetries: number = AppConfig.chat.uploadChunkRetries,
+    private retryDelay: number = 1000
+  ) {}
+
+  async upload(file: any, type: AttachmentType, options: ResumableUploadOptions = {}): Promise<Attachment> {
+    if (!file) {
+      throw new ValidationException('File is required');
+    }
+
+    const source = await openSource(file);
+    try {
+      if (source.size === 0) {
+        throw new ValidationException('Cannot upload an empty file');
+      }
+
+      const name = file.name || `${type}-${Date.now()}`;
+      const location = file.path || file.uri;
+      const uploadKey = options.uploadKey || `${name}:${source.size}:${location || ''}`;
+
+      let state = await this.resumeSession(uploadKey, source.size);
+      const resumed = !!state && state.offset > 0;
+      if (!state) {
+        state = await this.createSession(uploadKey, {
+          type,
+          name,
+          size: source.size,
+          mimeType: file.type || file.mimeType || 'application/octet-stream',
+          chunkSize: options.chunkSize || AppConfig.chat.uploadChunkSize,
+          source: location
+        });
+      }
+
+      while (state.offset < state.size) {
+        if (options.signal?.aborted) {
+          throw new FileUploadException('Upload paused', this.resumeDetails(state));
+        }
+
+        const end = Math.min(state.offset + state.chunkSize, state.size);
+        const chunk = await source.read(state.offset, end);
+
+        state.offset = await this.sendChunk(state, chunk);
+        state.updatedAt = new Date().toISOString();
+        await this.saveState(state);
+
+        options.onProgress?.({
+          sessionId: state.sessionId,
+          uploadedBytes: state.offset,
+          totalBytes: state.size,
+          percent: Math.round((state.offset / state.size) * 100),
+          resumed
+        });
+      }
+
+      const attachment = await this.complete(state);
+      await this.removeState(uploadKey);
+      return attachment;
+    } finally {
+      await source.close();
+    }
+  }
+
+  /**
+   * Uploads started earlier that have not completed
+   */
+  async getPending(): Promise<ResumableUploadState[]> {
+    return Object.values(await this.loadStates());
+  }
+
+  async cancel(uploadKey: string): Promise<void> {
+    const state = (await this.loadStates())[uploadKey];
+    if (!state) return;
+
+    try {
+      await this.apiClient.delete(`/upload/sessions/${state.sessionId}`);
+    } catch (error: any) {
+      // Nothing to release when the server already dropped the session
+      if (error?.response?.status !== 404) {
+        logger.warn('Failed to cancel upload session on the server', { sessionId: state.sessionId });
+      }
+    }
+    await this.removeState(uploadKey);
+  }
+
+  // ==========================================
+  // PROTOCOL
+  // ==========================================
+
+  private async createSession(
+    uploadKey: string,
+    file: Omit<ResumableUploadState, 'uploadKey' | 'sessionId' | 'offset' | 'createdAt' | 'updatedAt'>
+  ): Promise<ResumableUploadState> {
+    const response = await this.request(() => this.apiClient.post('/upload/sessions', {
+      name: file.name,
+      size: file.size,
+      mimeType: file.mimeType,
+      type: file.type,
+      chunkSize: file.chunkSize
+    }));
+
+    const session = response?.session;
+    if (!session?.id) {
+      throw new FileUploadException('Server did not open an upload session', response);
+    }
+
+    const now = new Date().toISOString();
+    const state: ResumableUploadState = {
+      ...file,
+      uploadKey,
+      sessionId: session.id,
+      chunkSize: session.chunkSize || file.chunkSize,
+      offset: session.offset || 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.saveState(state);
+    return state;
+  }
+
+  /**
+   * Saved state for the key, with the offset the server actually has.
+   * Null when there is nothing to resume.
+   */
+  private async resumeSession(uploadKey: string, size: number): Promise<ResumableUploadState | null> {
+    const state = (await this.loadStates())[uploadKey];
+    if (!state) return null;
+
+    if (state.size !== size) {
+      // Same key but the file changed; the old bytes are useless
+      await this.cancel(uploadKey);
+      return null;
+    }
+
+    try {
+      const response = await this.apiClient.get(`/upload/sessions/${state.sessionId}`);
+      state.offset = response?.session?.offset ?? state.offset;
+      logger.info(`Resuming upload ${state.sessionId} at ${state.offset}/${state.size} bytes`);
+      return state;
+    } catch (error: any) {
+      if (error?.response?.status === 404 || error?.response?.status === 410) {
+        await this.removeState(uploadKey);
+        return null;
+      }
+      throw this.toUploadError(error, state);
+    }
+  }
+
+  /**
+   * Send one chunk and return the server's new offset
+   */
+  private async sendChunk(state: ResumableUploadState, chunk: Uint8Array): Promise<number> {
+    const checksum = await sha256Hex(chunk);
+    // axios sends the whole underlying buffer of a typed array, not just the view
+    const body = chunk.slice();
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.apiClient.put(`/upload/sessions/${state.sessionId}`, body, {
+          headers: {
+            'Content-Type': 'application/octet-stream',
+            'Upload-Offset': String(state.offset),
+            'Upload-Checksum': `sha256 ${checksum}`
+          },
+          timeout: AppConfig.chat.uploadTimeout
+        });
+        return response.offset;
+      } catch (error: any) {
+        const status = error?.response?.status;
+
+        // Out of step (e.g. an earlier response was lost): continue from where the server is
+        if (status === 409 && typeof error.response.data?.offset === 'number') {
+          return error.response.data.offset;
+        }
+
+        const retryable = !status || status === 422 || status === 408 || status === 429 || status >= 500;
+        if (!retryable || attempt >= this.maxChunkRetries) {
+          throw this.toUploadError(error, state);
+        }
+
+        logger.warn(`Chunk at ${state.offset} failed (${status || error?.message}), retrying`);
+        await new Promise(resolve => setTimeout(resolve, this.retryDelay * Math.pow(2, attempt)));
+      }
+    }
+  }
+
+  private async complete(state: ResumableUploadState): Promise<Attachment> {
+    const response = await this.request(
+      () => this.apiClient.post(`/upload/sessions/${state.sessionId}/complete`),
+      state
+    );
+
+    const file = response?.file;
+    if (!file?.id) {
+      throw new FileUploadException('Upload did not complete', response);
+    }
+
+    return {
+      id: file.id,
+      type: state.type,
+      url: file.url,
+      name: file.name || state.name,
+      size: file.size || state.size,
+      thumbnailUrl: file.thumbnailUrl,
+      mimeType: file.mimeType || state.mimeType,
+      uploadedAt: file.uploadedAt || new Date().toISOString(),
+      metadata: file.metadata
+    };
+  }
+
+  private async request(send: () => Promise<any>, state?: ResumableUploadState): Promise<any> {
+    try {
+      return await send();
+    } catch (error) {
+      throw this.toUploadError(error, state);
+    }
+  }
+
+  private toUploadError(error: any, state?: ResumableUploadState): FileUploadException {
+    if (error instanceof FileUploadException) return error;
+
+    const status = error?.response?.status;
+    const message = error?.response?.data?.message || error?.message || 'Upload failed';
+    return new FileUploadException(message, { status, ...(state ? this.resumeDetails(state) : {}) });
+  }
+
+  private resumeDetails(state: ResumableUploadState) {
+    return { uploadKey: state.uploadKey, sessionId: state.sessionId, offset: state.offset, size: state.size };
+  }
+
+  // ==========================================
+  // PERSISTENCE
+  // ==========================================
+
+  private async loadStates(): Promise<Record<string, ResumableUploadState>> {
+    return await this.storageService.get<Record<string, ResumableUploadState>>(this.STORAGE_KEY) || {};
+  }
+
+  private saveState(state: ResumableUploadState): Promise<void> {
+    return this.serialize(async () => {
+      const states = await this.loadStates();
+      states[state.uploadKey] = state;
+      await this.storageService.set(this.STORAGE_KEY, states);
+    });
+  }
+
+  private removeState(uploadKey: string): Promise<void> {
+    return this.serialize(async () => {
+      const states = await this.loadStates();
+      if (!states[uploadKey]) return;
+
+      delete states[uploadKey];
+      await this.storageService.set(this.STORAGE_KEY, states);
+    });
+  }
+
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(operation, operation);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+}
+
+// ==========================================
+// FILE ACCESS
+// ==========================================
+
+/**
+ * Accepts a browser File/Blob, `{ data }` with the bytes, a Node `{ path }`
+ * or a React Native `{ uri }`
+ */
+async function openSource(file: any): Promise<ChunkSource> {
+  if (typeof Blob !== 'undefined' && file instanceof Blob) {
+    return blobSource(file);
+  }
+
+  if (file.data) {
+    const bytes = file.data instanceof ArrayBuffer ? new Uint8Array(file.data) : file.data as Uint8Array;
+    return {
+      size: bytes.byteLength,
+      read: async (start, end) => bytes.subarray(start, end),
+      close: async () => {}
+    };
+  }
+
+  if (file.path) {
+    const { open } = await import('fs/promises');
+    const handle = await open(file.path, 'r');
+    const { size } = await handle.stat();
+    return {
+      size,
+      read: async (start, end) => {
+        const buffer = new Uint8Array(end - start);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+        return buffer.subarray(0, bytesRead);
+      },
+      close: () => handle.close()
+    };
+  }
+
+  if (file.uri) {
+    const response = await fetch(file.uri);
+    return blobSource(await response.blob());
+  }
+
+  throw new ValidationException('File needs data, a path or a URI');
+}
+
+function blobSource(blob: Blob): ChunkSource {
+  return {
+    size: blob.size,
+    read: async (start, end) => new Uint8Array(await blob.slice(start, end).arrayBuffer()),
+    close: async () => {}
+  };
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  let digest: Uint8Array;
+  if (globalThis.crypto?.subtle) {
+    digest = new Uint8Array(await globalThis.crypto.subtle.digest('SHA-256', bytes as BufferSource));
+  } else {
+    const { createHash } = await import('crypto');
+    digest = createHash('sha256').update(bytes).digest();
+  }
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
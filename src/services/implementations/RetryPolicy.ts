@@ -0,0 +1,142 @@
+// src/services/implementations/RetryPolicy.ts
+import { AppConfig } from '../../config/AppConfig';
+import { Message, MessageType, RetryPolicyConfig } from '../../types/chat';
+import { IRetryPolicy } from '../interfaces';
+
+const ATTACHMENT_TYPES: MessageType[] = [
+  MessageType.IMAGE,
+  MessageType.AUDIO,
+  MessageType.FILE,
+  MessageType.ATTACHMENT,
+  MessageType.VIDEO
+];
+
+/**
+ * Build the default retry policy settings from AppConfig.offlineQueue
+ */
+export function getDefaultRetryPolicyConfig(): RetryPolicyConfig {
+  const queueConfig = AppConfig.offlineQueue;
+
+  return {
+    maxRetries: queueConfig.maxRetries,
+    baseDelay: queueConfig.baseDelay,
+    maxDelay: queueConfig.maxDelay,
+    backoffMultiplier: queueConfig.backoffMultiplier,
+    jitter: queueConfig.jitter,
+    sendInterval: queueConfig.sendInterval,
+    messageExpiry: queueConfig.messageExpiry,
+    respectRetryAfter: queueConfig.respectRetryAfter,
+    perType: Object.fromEntries(
+      ATTACHMENT_TYPES.map(type => [type, {
+        maxRetries: queueConfig.attachmentMaxRetries,
+        messageExpiry: queueConfig.attachmentMessageExpiry
+      }])
+    )
+  };
+}
+
+/**
+ * Extract a server retry-after hint (in ms) from a send error.
+ *
+ * Understands socket errors carrying `retryAfter` (seconds) either directly
+ * or in `details`, and HTTP errors with a Retry-After header (seconds or an
+ * HTTP date) or a `retryAfter` field in the response body.
+ */
+export function getRetryAfterMs(error: unknown): number | null {
+  if (!error || typeof error !== 'object') {
+    return null;
+  }
+
+  const err = error as any;
+  const candidates = [
+    err.retryAfter,
+    err.details?.retryAfter,
+    err.response?.headers?.['retry-after'],
+    err.response?.data?.retryAfter
+  ];
+
+  for (const value of candidates) {
+    const ms = parseRetryAfter(value);
+    if (ms !== null) {
+      return ms;
+    }
+  }
+
+  return null;
+}
+
+function parseRetryAfter(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : null;
+  }
+
+  if (typeof value === 'string') {
+    const date = Date.parse(value);
+    if (!isNaN(date)) {
+      return Math.max(date - Date.now(), 0);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Exponential backoff with jitter.
+ *
+ * The delay before retry n is baseDelay * backoffMultiplier^(n-1), capped at
+ * maxDelay and spread by ±jitter. A server retry-after hint acts as a floor.
+ */
+export class ExponentialBackoffRetryPolicy implements IRetryPolicy {
+  private readonly config: RetryPolicyConfig;
+
+  constructor(
+    config: Partial<RetryPolicyConfig> = {},
+    private random: () => number = Math.random
+  ) {
+    const defaults = getDefaultRetryPolicyConfig();
+    this.config = {
+      ...defaults,
+      ...config,
+      perType: { ...defaults.perType, ...config.perType }
+    };
+  }
+
+  getMaxRetries(message: Message): number {
+    return this.config.perType?.[message.type]?.maxRetries ?? this.config.maxRetries;
+  }
+
+  getMessageExpiry(message: Message): number {
+    return this.config.perType?.[message.type]?.messageExpiry ?? this.config.messageExpiry;
+  }
+
+  getSendInterval(): number {
+    return this.config.sendInterval;
+  }
+
+  getRetryDelay(retryCount: number, _message: Message, error?: unknown): number {
+    const { baseDelay, maxDelay, backoffMultiplier, jitter } = this.config;
+
+    const exponent = Math.max(retryCount - 1, 0);
+    const backoff = Math.min(baseDelay * Math.pow(backoffMultiplier, exponent), maxDelay);
+    const spread = backoff * jitter * (this.random() * 2 - 1);
+    const delay = Math.max(Math.round(backoff + spread), 0);
+
+    if (this.config.respectRetryAfter) {
+      const hint = getRetryAfterMs(error);
+      if (hint !== null) {
+        return Math.max(hint, delay);
+      }
+    }
+
+    return delay;
+  }
+
+  getConfig(): RetryPolicyConfig {
+    return { ...this.config };
+  }
+}
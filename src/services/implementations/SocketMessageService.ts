@@ -6,7 +6,11 @@ import {
   MessageLoadOptions, 
   MessageLoadResult,
   MessageStatus,
-  AttachmentType
+  MessageType,
+  AttachmentType,
+  MessageException,
+  MessageReactionEvent,
+  MessageThread
 } from '../../types/chat';
 
 export class SocketMessageService extends BaseMessageService implements IMessageService {
@@ -27,6 +31,9 @@ export class SocketMessageService extends BaseMessageService implements IMessage
     attachments?: any[];
     metadata?: Record<string, any>;
     clientTempId?: string;  // ✅ Accept it
+    mentions?: string[];
+    expiresAt?: string;
+    type?: MessageType;
   }
 ): Promise<Message> {
   return new Promise((resolve, reject) => {
@@ -40,6 +47,7 @@ export class SocketMessageService extends BaseMessageService implements IMessage
     
     // ✅ Use provided clientTempId or the one from createMessage
     const clientTempId = options?.clientTempId || message.clientTempId!;
+    message.clientTempId = clientTempId;
     
     // Track message
     this.trackMessage(clientTempId);
@@ -109,6 +117,17 @@ export class SocketMessageService extends BaseMessageService implements IMessage
     return null;
   }
 
+  async getThread(rootMessageId: string): Promise<MessageThread> {
+    // Socket doesn't fetch history - only what is already cached
+    const cached = this.getCachedThread(rootMessageId);
+
+    if (cached) {
+      return cached;
+    }
+
+    throw new Error('Socket service cannot fetch threads. Use REST or hybrid service.');
+  }
+
   async markAsRead(conversationId: string, messageIds?: string[]): Promise<void> {
     if (!this.socketClient.isConnected()) {
       throw new Error('Socket not connected');
@@ -161,6 +180,27 @@ export class SocketMessageService extends BaseMessageService implements IMessage
     this.socketClient.emit('delete_message', { messageId });
   }
 
+  async addReaction(conversationId: string, messageId: string, emoji: string): Promise<void> {
+    this.sendReaction(this.createReactionEvent(conversationId, messageId, emoji, 'added'));
+  }
+
+  async removeReaction(conversationId: string, messageId: string, emoji: string): Promise<void> {
+    this.sendReaction(this.createReactionEvent(conversationId, messageId, emoji, 'removed'));
+  }
+
+  onReactionChanged(callback: (event: MessageReactionEvent) => void): () => void {
+    const localCleanup = this.addReactionListener(callback);
+    const remoteCleanup = this.socketClient.onReactionChanged((event: MessageReactionEvent) => {
+      this.cacheService.applyReaction(event);
+      callback(event);
+    });
+
+    return () => {
+      localCleanup();
+      remoteCleanup();
+    };
+  }
+
   async retryFailedMessage(
     conversationId: string,
     messageId: string,
@@ -182,12 +222,29 @@ export class SocketMessageService extends BaseMessageService implements IMessage
       message.receiverId || '',
       {
         replyTo: message.replyTo,
-        attachments: message.attachments
+        attachments: message.attachments,
+        mentions: message.mentions,
+        expiresAt: message.expiresAt,
+        type: message.type
       }
     );
   }
 
   // Private Socket-specific methods
+  private sendReaction(event: MessageReactionEvent): void {
+    if (!this.socketClient.isConnected()) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socketClient.sendReaction({
+      messageId: event.messageId,
+      conversationId: event.conversationId,
+      emoji: event.emoji,
+      action: event.action
+    });
+    this.applyReaction(event);
+  }
+
   private handleMessageSent(
     data: any,
     message: Message,
@@ -215,7 +272,11 @@ export class SocketMessageService extends BaseMessageService implements IMessage
   ): void {
     this.untrackMessage(data.clientTempId);
     this.cleanupHandlers(...cleanupHandlers);
-    reject(new Error(data.error || 'Failed to send message'));
+    // Keep the server's code and retry-after hint for the offline queue's retry policy
+    reject(new MessageException(data.error || 'Failed to send message', {
+      code: data.code,
+      retryAfter: data.retryAfter
+    }));
   }
 
   private cleanupHandlers(...handlers: any[]): void {
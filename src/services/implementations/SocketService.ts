@@ -1,6 +1,20 @@
 // src/services/implementations/SocketService.ts - Final Complete Version with Online Users
 import io, { Socket } from 'socket.io-client';
-import { Attachment, AttachmentType, Message, MessageStatus, MessageType, OnlineUser } from '../../types/chat';
+import {
+  Attachment,
+  AttachmentType,
+  ConversationParticipant,
+  Message,
+  MessageReactionEvent,
+  MessageStatus,
+  MessageType,
+  OnlineUser,
+  ParticipantRemovedEvent,
+  ParticipantsAddedEvent,
+  ParticipantUpdatedEvent,
+  ThreadUpdateEvent,
+  UserRole
+} from '../../types/chat';
 import { AppConfig, SocketConfig, AppLogger } from '../../config/AppConfig';
 import { IRealtimeService } from '../interfaces';
 
@@ -19,6 +33,11 @@ type TypingCallback = (data: any) => void;
 type UserStatusCallback = (data: any) => void;
 type ConnectionCallback = (state: ConnectionState) => void;
 type OnlineUsersCallback = (users: OnlineUser[]) => void;
+type ReactionCallback = (event: MessageReactionEvent) => void;
+type ThreadCallback = (event: ThreadUpdateEvent) => void;
+type ParticipantsAddedCallback = (event: ParticipantsAddedEvent) => void;
+type ParticipantRemovedCallback = (event: ParticipantRemovedEvent) => void;
+type ParticipantUpdatedCallback = (event: ParticipantUpdatedEvent) => void;
 type SocketCallback = (...args: any[]) => void;
 
 interface TrackedListener {
@@ -28,7 +47,7 @@ interface TrackedListener {
   timestamp: number;
 }
 
-class SocketService implements IRealtimeService {
+export class SocketService implements IRealtimeService {
   private socket: Socket | null = null;
   private readonly serverUrl: string;
   private userId: string | null = null;
@@ -218,6 +237,66 @@ class SocketService implements IRealtimeService {
     }
   }
 
+  /**
+   * Re-authenticate with a new token. The same socket reconnects, so its
+   * handlers and every app listener stay in place. When it is not connected
+   * the token is only stored for the next (re)connection.
+   */
+  async updateToken(token: string): Promise<void> {
+    if (!this.socket) return;
+
+    const socket = this.socket;
+    socket.auth = { ...(socket.auth as Record<string, any>), token };
+
+    if (!socket.connected) {
+      AppLogger.info('Socket token updated for next connection');
+      return;
+    }
+
+    AppLogger.info('Re-authenticating socket with refreshed token');
+
+    await new Promise<void>((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timeout);
+        socket.off('connect', onConnect);
+        socket.off('connect_error', onError);
+      };
+      const onConnect = () => {
+        cleanup();
+        resolve();
+      };
+      const onError = (error: any) => {
+        cleanup();
+        reject(error);
+      };
+      const timeout = setTimeout(() => {
+        cleanup();
+        reject(new Error('Socket re-authentication timeout'));
+      }, SocketConfig.timeout);
+
+      socket.once('connect', onConnect);
+      socket.once('connect_error', onError);
+      socket.disconnect().connect();
+    });
+  }
+
+  /**
+   * Drop the connection the way a network outage would. Handlers and app
+   * listeners stay registered; goOnline() reconnects the same socket.
+   */
+  goOffline(): void {
+    if (!this.socket?.connected) return;
+    AppLogger.info('Going offline');
+    this.socket.disconnect();
+  }
+
+  goOnline(): void {
+    if (!this.socket || this.socket.connected) return;
+    AppLogger.info('Going back online');
+    this.setConnectionState(ConnectionState.CONNECTING);
+    this.socket.connect();
+  }
+
   isConnected(): boolean {
     return this.socket?.connected ?? false;
   }
@@ -278,6 +357,19 @@ class SocketService implements IRealtimeService {
     }
   }
 
+  sendReaction(event: Omit<MessageReactionEvent, 'userId' | 'timestamp'>): void {
+    if (!this.socket?.connected || !this.userId) {
+      throw new Error('Socket not connected');
+    }
+
+    this.socket.emit('message_reaction', {
+      messageId: event.messageId,
+      conversationId: event.conversationId,
+      emoji: event.emoji,
+      action: event.action
+    });
+  }
+
   markMessagesAsRead(messageIds: string[], conversationId: string): void {
     if (!this.socket?.connected || !this.userId) {
       AppLogger.error('Cannot mark as read: Socket not connected');
@@ -323,6 +415,26 @@ class SocketService implements IRealtimeService {
     });
   }
 
+  onReactionChanged(callback: ReactionCallback): () => void {
+    return this.on('reaction_changed', callback);
+  }
+
+  onThreadUpdated(callback: ThreadCallback): () => void {
+    return this.on('thread_updated', callback);
+  }
+
+  onParticipantsAdded(callback: ParticipantsAddedCallback): () => void {
+    return this.on('participants_added', callback);
+  }
+
+  onParticipantRemoved(callback: ParticipantRemovedCallback): () => void {
+    return this.on('participant_removed', callback);
+  }
+
+  onParticipantUpdated(callback: ParticipantUpdatedCallback): () => void {
+    return this.on('participant_updated', callback);
+  }
+
   onConnectionChange(callback: ConnectionCallback): () => void {
     return this.on('connection_state_change', callback);
   }
@@ -511,6 +623,42 @@ class SocketService implements IRealtimeService {
       this.emit('typing', data);
     });
 
+    this.socket.on('message_reaction', (data) => {
+      this.emit('reaction_changed', this.transformReactionEvent(data));
+    });
+
+    this.socket.on('thread_updated', (data) => {
+      this.emit('thread_updated', this.transformThreadEvent(data));
+    });
+
+    this.socket.on('participants_added', (data) => {
+      this.emit('participants_added', {
+        conversationId: data.conversationId,
+        participants: (data.participants || []).map((p: any) => this.transformParticipant(p, data.timestamp)),
+        addedBy: data.addedBy,
+        timestamp: data.timestamp || new Date().toISOString()
+      });
+    });
+
+    this.socket.on('participant_removed', (data) => {
+      this.emit('participant_removed', {
+        conversationId: data.conversationId,
+        userId: data.userId,
+        removedBy: data.removedBy || data.userId,
+        timestamp: data.timestamp || new Date().toISOString()
+      });
+    });
+
+    this.socket.on('participant_updated', (data) => {
+      this.emit('participant_updated', {
+        conversationId: data.conversationId,
+        participant: this.transformParticipant(data.participant || {}, data.timestamp),
+        adminIds: data.adminIds,
+        updatedBy: data.updatedBy,
+        timestamp: data.timestamp || new Date().toISOString()
+      });
+    });
+
     this.socket.on('user_online', (data) => {
       this.emit('user_status', data.id, true);
     });
@@ -706,7 +854,9 @@ private setupOnlineUsersHandlers(): void {
       messageImages: message.attachments?.filter(att => att.type === 'image')?.map(att => att.url) || [],
       audioFile: message.attachments?.find(att => att.type === 'audio')?.url || '',
       attachments: message.attachments || [],
-      replyToMessageId: message.replyTo
+      replyToMessageId: message.replyTo,
+      mentions: message.mentions || [],
+      expiresAt: message.expiresAt
     };
   }
 
@@ -724,16 +874,68 @@ private setupOnlineUsersHandlers(): void {
       conversationId: data.conversationId,
       jobId: data.jobId,
       isEdited: data.content?.edited || false,
-      editedAt: data.content?.editedAt
+      editedAt: data.content?.editedAt,
+      reactions: data.reactions || data.content?.reactions,
+      mentions: data.mentions || data.content?.mentions,
+      expiresAt: data.expiresAt,
+      replyCount: data.replyCount,
+      lastReplyAt: data.lastReplyAt
+    };
+  }
+
+  private transformReactionEvent(data: any): MessageReactionEvent {
+    return {
+      messageId: data.messageId,
+      conversationId: data.conversationId,
+      userId: data.userId,
+      emoji: data.emoji,
+      action: data.action === 'removed' ? 'removed' : 'added',
+      timestamp: data.timestamp || new Date().toISOString()
+    };
+  }
+
+  private transformThreadEvent(data: any): ThreadUpdateEvent {
+    return {
+      conversationId: data.conversationId,
+      rootMessageId: data.rootMessageId,
+      replyCount: data.replyCount || 0,
+      lastReplyAt: data.lastReplyAt,
+      reply: data.reply ? this.transformIncomingMessage(data.reply) : undefined
+    };
+  }
+
+  private transformParticipant(data: any, joinedAt?: string): ConversationParticipant {
+    return {
+      userId: data.userId || data.id,
+      role: data.role || UserRole.CUSTOMER,
+      joinedAt: data.joinedAt || joinedAt || new Date().toISOString(),
+      isActive: data.isActive !== false,
+      name: data.name || 'Unknown',
+      avatar: data.avatar || '',
+      isOnline: data.isOnline || false,
+      lastSeen: data.lastSeen,
+      permissions: data.permissions,
+      nickname: data.nickname || undefined,
+      leftAt: data.leftAt
     };
   }
 
   private transformAttachments(content: any): Attachment[] {
     if (!content) return [];
-    const attachments: Attachment[] = [];
+    const attachments: Attachment[] = (content.attachments || []).map((att: any, index: number) => ({
+      id: att.id || `file-${index}`,
+      type: att.type || AttachmentType.FILE,
+      url: att.url,
+      name: att.name || 'file',
+      size: att.size || 0,
+      mimeType: att.mimeType,
+      duration: att.duration,
+      metadata: att.metadata
+    }));
+    const known = new Set(attachments.map(att => att.url));
 
     if (content.images?.length) {
-      content.images.forEach((url: string, index: number) => {
+      content.images.filter((url: string) => !known.has(url)).forEach((url: string, index: number) => {
         attachments.push({
           id: `img-${index}`,
           type: AttachmentType.IMAGE,
@@ -744,7 +946,7 @@ private setupOnlineUsersHandlers(): void {
       });
     }
 
-    if (content.audio) {
+    if (content.audio && !known.has(content.audio)) {
       attachments.push({
         id: 'audio-0',
         type: AttachmentType.AUDIO,
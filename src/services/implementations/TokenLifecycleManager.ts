@@ -0,0 +1,200 @@
+// src/services/implementations/TokenLifecycleManager.ts
+import { AppConfig } from '../../config/AppConfig';
+import { systemClock } from '../../utils/clock';
+import { logger } from '../../utils/Logger';
+import { AuthService } from '../AuthService';
+import {
+  IClock,
+  ITokenManager,
+  TokenPair,
+  TokenRefreshHandler
+} from '../interfaces';
+
+const MAX_TIMER_DELAY = 60 * 60 * 1000;
+const FAILED_REFRESH_RETRY = 30 * 1000;
+
+const refreshWithAuthService: TokenRefreshHandler = async (refreshToken) =>
+  refreshToken ? AuthService.refreshSession(refreshToken) : null;
+
+/**
+ * Owns the access token for every API client and the socket.
+ *
+ * With a refresh token the access token is renewed ahead of its expiry on
+ * the injected clock. Callers that find the token stale (about to expire, or
+ * rejected with a 401) ask for a refresh; concurrent requests share a single
+ * refresh call. Every new token is announced through onTokenChanged.
+ */
+export class TokenLifecycleManager implements ITokenManager {
+  private token: string | null = null;
+  private refreshToken: string | null = null;
+  private inFlight: Promise<string | null> | null = null;
+  private timer: any = null;
+  private tokenListeners = new Set<(token: string) => void>();
+  private failureListeners = new Set<(error: Error) => void>();
+  private disposed: boolean = false;
+
+  constructor(
+    private refreshHandler: TokenRefreshHandler = refreshWithAuthService,
+    private clock: IClock = systemClock,
+    private refreshAhead: number = AppConfig.security.tokenRefreshThreshold
+  ) {}
+
+  /**
+   * Replace the tokens. Listeners hear about it only when the access token
+   * actually changed.
+   */
+  setTokens(token: string, refreshToken?: string | null): void {
+    const changed = token !== this.token;
+
+    this.token = token;
+    if (refreshToken !== undefined) {
+      this.refreshToken = refreshToken;
+    }
+
+    this.schedule();
+
+    if (changed) {
+      this.notify(this.tokenListeners, token, 'token');
+    }
+  }
+
+  getToken(): string | null {
+    return this.token;
+  }
+
+  /**
+   * The current token, refreshed first when it is inside the refresh window
+   */
+  async getValidToken(): Promise<string | null> {
+    if (!this.token || !this.isStale(this.token)) {
+      return this.token;
+    }
+
+    return (await this.refresh(this.token)) || this.token;
+  }
+
+  /**
+   * Get a new token. Passing the token a request was rejected with skips the
+   * refresh when it has already been replaced.
+   */
+  async refresh(staleToken?: string | null): Promise<string | null> {
+    if (staleToken && this.token && staleToken !== this.token) {
+      return this.token;
+    }
+
+    if (!this.inFlight) {
+      this.inFlight = this.runRefresh().finally(() => {
+        this.inFlight = null;
+      });
+    }
+
+    return this.inFlight;
+  }
+
+  onTokenChanged(callback: (token: string) => void): () => void {
+    this.tokenListeners.add(callback);
+    return () => {
+      this.tokenListeners.delete(callback);
+    };
+  }
+
+  onRefreshFailed(callback: (error: Error) => void): () => void {
+    this.failureListeners.add(callback);
+    return () => {
+      this.failureListeners.delete(callback);
+    };
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.clearTimer();
+  }
+
+  // ==========================================
+  // PRIVATE HELPER METHODS
+  // ==========================================
+
+  private async runRefresh(): Promise<string | null> {
+    let pair: TokenPair | null = null;
+    let failure: Error | null = null;
+
+    try {
+      logger.info('Refreshing access token');
+      pair = await this.refreshHandler(this.refreshToken, this.token);
+    } catch (error) {
+      failure = error instanceof Error ? error : new Error(String(error));
+    }
+
+    if (!pair?.token) {
+      const error = failure || new Error('Token refresh returned no token');
+      logger.warn('Token refresh failed:', error.message);
+      this.notify(this.failureListeners, error, 'refresh failure');
+      this.schedule(FAILED_REFRESH_RETRY);
+      return null;
+    }
+
+    this.setTokens(pair.token, pair.refreshToken ?? this.refreshToken);
+    logger.info('Access token refreshed');
+    return pair.token;
+  }
+
+  /**
+   * The refresh window is the configured threshold, shortened to half the
+   * token's lifetime so short-lived tokens are not refreshed continuously
+   */
+  private getRefreshAt(token: string): number | null {
+    const expiry = AuthService.getTokenExpiry(token);
+    if (!expiry) return null;
+
+    const lifetime = expiry.issuedAt !== undefined ? expiry.expiresAt - expiry.issuedAt : Infinity;
+    return expiry.expiresAt - Math.min(this.refreshAhead, lifetime / 2);
+  }
+
+  private isStale(token: string): boolean {
+    const refreshAt = this.getRefreshAt(token);
+    return refreshAt !== null && refreshAt <= this.clock.now();
+  }
+
+  /**
+   * Arm the proactive refresh. Without a refresh token there is nothing to
+   * exchange, so expiry is left to the 401 path.
+   */
+  private schedule(delay?: number): void {
+    this.clearTimer();
+    if (this.disposed || !this.token || !this.refreshToken) return;
+
+    const refreshAt = delay === undefined ? this.getRefreshAt(this.token) : this.clock.now() + delay;
+    if (refreshAt === null) return;
+
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+
+      // A refresh further off than MAX_TIMER_DELAY is reached in steps
+      if (this.clock.now() < refreshAt) {
+        this.schedule(delay === undefined ? undefined : refreshAt - this.clock.now());
+        return;
+      }
+
+      this.refresh().catch(error => {
+        logger.error('Scheduled token refresh failed:', error);
+      });
+    }, Math.min(Math.max(refreshAt - this.clock.now(), 0), MAX_TIMER_DELAY));
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private notify<T>(listeners: Set<(value: T) => void>, value: T, label: string): void {
+    listeners.forEach(listener => {
+      try {
+        listener(value);
+      } catch (error) {
+        logger.error(`Error in ${label} listener:`, error);
+      }
+    });
+  }
+}
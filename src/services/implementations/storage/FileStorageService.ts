@@ -1,5 +1,6 @@
 // src/services/implementations/storage/FileStorageService.ts
 import { IStorageService } from '../../interfaces';
+import { watch } from 'fs';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -452,9 +453,7 @@ export class FileStorageService implements IStorageService {
    */
   watchForChanges(callback: (event: string, filename: string | null) => void): () => void {
     try {
-      // Import fs synchronously to avoid async import issues
-      const fs = require('fs');
-      const watcher = fs.watch(this.dataPath, callback);
+      const watcher = watch(this.dataPath, callback);
       
       console.log(`👀 Watching for changes in: ${this.dataPath}`);
       
@@ -478,6 +477,16 @@ export class FileStorageService implements IStorageService {
     }
   }
 
+  /**
+   * Call back whenever the file behind a key is written or removed
+   */
+  watchKey(key: string, callback: () => void): () => void {
+    const fileName = path.basename(this.getFilePath(key));
+    return this.watchForChanges((_event, changed) => {
+      if (changed === fileName) callback();
+    });
+  }
+
   // Private helper methods
 
   private desanitizeKey(sanitizedKey: string): string {
@@ -354,6 +354,25 @@ export class LocalStorageService implements IStorageService {
     }
   }
 
+  /**
+   * Call back when another tab writes or removes a key. Browsers only fire
+   * `storage` events for changes made by other documents.
+   */
+  watchKey(key: string, callback: () => void): () => void {
+    if (typeof window === 'undefined') {
+      return () => {};
+    }
+
+    const fullKey = this.getFullKey(key);
+    const listener = (event: StorageEvent) => {
+      // A null key means the whole storage was cleared
+      if (event.key === fullKey || event.key === null) callback();
+    };
+
+    window.addEventListener('storage', listener);
+    return () => window.removeEventListener('storage', listener);
+  }
+
   // Private helper methods
   
   private getFullKey(key: string): string {
@@ -13,7 +13,27 @@ import {
   UserRegistrationData,
   ConversationSettings,
   ConversationParticipant,
-  OnlineUser
+  OnlineUser,
+  MessageRangeQuery,
+  SyncCursor,
+  SyncResult,
+  MessageExpiryEvent,
+  MessageReactionEvent,
+  MessageThread,
+  ThreadUpdateEvent,
+  ParticipantsAddedEvent,
+  ParticipantRemovedEvent,
+  ParticipantUpdatedEvent,
+  ChatArchive,
+  ArchiveImportResult,
+  MessageDraft,
+  DraftChangeEvent,
+  ResumableUploadOptions,
+  ResumableUploadState,
+  QueuedUpload,
+  ImageProcessingOptions,
+  ProcessedImage,
+  MessageType
 } from '../../types/chat';
 
 
@@ -32,6 +52,9 @@ export interface IMessageService {
       attachments?: Attachment[];
       metadata?: Record<string, any>;
       clientTempId?: string;  // ✅ ADDED THIS LINE
+      mentions?: string[];    // Ids of mentioned participants
+      expiresAt?: string;     // Disappearing message deadline (ISO)
+      type?: MessageType;     // Defaults to text
     }
   ): Promise<Message>;
 
@@ -40,7 +63,10 @@ export interface IMessageService {
     file: any,
     type: AttachmentType,
     receiverId: string,
-    clientTempId?: string  // ✅ ADDED THIS PARAMETER
+    clientTempId?: string,  // ✅ ADDED THIS PARAMETER
+    options?: {
+      expiresAt?: string;     // Disappearing message deadline (ISO)
+    }
   ): Promise<Message>;
 
   // Fetch operations
@@ -51,6 +77,8 @@ export interface IMessageService {
 
   getMessage(messageId: string): Promise<Message | null>;
 
+  getThread(rootMessageId: string): Promise<MessageThread>;
+
   // Update operations
   markAsRead(
     conversationId: string, 
@@ -64,6 +92,11 @@ export interface IMessageService {
 
   deleteMessage(messageId: string): Promise<void>;
 
+  // Reactions
+  addReaction(conversationId: string, messageId: string, emoji: string): Promise<void>;
+  removeReaction(conversationId: string, messageId: string, emoji: string): Promise<void>;
+  onReactionChanged(callback: (event: MessageReactionEvent) => void): () => void;
+
   // Retry operations
   retryFailedMessage(
     conversationId: string,
@@ -136,6 +169,17 @@ export interface IConversationService {
   unpinConversation(conversationId: string): Promise<void>;
   archiveConversation(conversationId: string): Promise<void>;
   deleteConversation(conversationId: string): Promise<void>;
+
+  // Group membership
+  addParticipants(conversationId: string, userIds: string[]): Promise<ServerConversation>;
+  removeParticipant(conversationId: string, userId: string): Promise<ServerConversation>;
+  leaveConversation(conversationId: string): Promise<void>;
+  promoteToAdmin(conversationId: string, userId: string): Promise<ServerConversation>;
+  setParticipantNickname(
+    conversationId: string,
+    userId: string,
+    nickname: string | null
+  ): Promise<ServerConversation>;
 }
 
 // ==========================================
@@ -173,6 +217,21 @@ export interface IFileService {
   uploadAudio(audio: any): Promise<Attachment>;
   deleteFile(fileId: string): Promise<void>;
   getFileUrl(fileId: string): Promise<string>;
+
+  // Chunked uploads that survive dropped connections and restarts
+  uploadFileResumable(file: any, type: AttachmentType, options?: ResumableUploadOptions): Promise<Attachment>;
+  getPendingUploads(): Promise<ResumableUploadState[]>;
+  cancelResumableUpload(uploadKey: string): Promise<void>;
+}
+
+// ==========================================
+// Image Processor Interface
+// ==========================================
+// Runs on the device before an image is uploaded. React Native apps supply
+// their own (native resizer) through the container's `imageProcessor` override.
+export interface IImageProcessor {
+  // Accepts the same file shapes as the file service: File/Blob, { data }, { path } or { uri }
+  process(image: any, options: ImageProcessingOptions): Promise<ProcessedImage>;
 }
 
 // ==========================================
@@ -223,7 +282,7 @@ export interface IRealtimeService {
 // ==========================================
 export interface IOfflineQueueService {
   // Queue management
-  queueMessage(message: Message): Promise<void>;
+  queueMessage(message: Message, upload?: QueuedUpload): Promise<void>;
   processQueue(): Promise<void>;
   getQueuedMessages(): Message[];
   clearQueue(): Promise<void>;
@@ -239,6 +298,7 @@ export interface IOfflineQueueService {
   
   // NEW: Added missing methods
   setSendFunction(sendFn: (message: Message) => Promise<Message>): void;
+  setUploadFunction(uploadFn: (upload: QueuedUpload, message: Message) => Promise<Attachment>): void;
   getQueueStatus(): {
     count: number;
     messages: Array<{
@@ -248,9 +308,126 @@ export interface IOfflineQueueService {
       timestamp: string;
       retryCount: number;
       age: number;
+      nextAttemptAt?: number;
     }>;
   };
   cleanupExpiredMessages(): Promise<void>;
+  getNextAttemptAt(): number | null;
+}
+
+// ==========================================
+// Message Store Interface (persistent history)
+// ==========================================
+export interface IMessageStore {
+  // Messages
+  saveMessage(message: Message): Promise<void>;
+  saveMessages(conversationId: string, messages: Message[]): Promise<void>;
+  getMessage(conversationId: string, messageId: string): Promise<Message | null>;
+  getMessageByClientTempId(clientTempId: string): Promise<Message | null>;
+  queryMessages(conversationId: string, query?: MessageRangeQuery): Promise<MessageLoadResult>;
+  deleteMessage(conversationId: string, messageId: string): Promise<void>;
+  getMessageCount(conversationId: string): Promise<number>;
+
+  // Conversations
+  saveConversation(conversation: ServerConversation): Promise<void>;
+  getConversation(conversationId: string): Promise<ServerConversation | null>;
+  getConversations(): Promise<ServerConversation[]>;
+  removeConversation(conversationId: string): Promise<void>;
+
+  clear(): Promise<void>;
+}
+
+// ==========================================
+// Message Sync Interface (delta sync)
+// ==========================================
+export interface IMessageSyncService {
+  syncConversation(conversationId: string): Promise<SyncResult>;
+  syncAll(conversationIds?: string[]): Promise<SyncResult[]>;
+  getCursor(conversationId: string): Promise<SyncCursor | null>;
+  resetCursor(conversationId?: string): Promise<void>;
+}
+
+// ==========================================
+// Message Expiry Interface (disappearing messages)
+// ==========================================
+export interface IMessageExpiryService {
+  start(): Promise<void>;
+  getExpiresAt(conversation: ServerConversation | null): string | undefined;
+  isExpired(message: Message): boolean;
+  track(messages: Message[]): void;
+  untrackConversation(conversationId: string): Promise<void>;
+  runExpiryPass(): Promise<MessageExpiryEvent[]>;
+  onMessagesExpired(callback: (event: MessageExpiryEvent) => void): () => void;
+  dispose(): void;
+}
+
+// ==========================================
+// Draft Interface (unsent text and attachments per conversation)
+// ==========================================
+export interface IDraftService {
+  start(): Promise<void>;
+  getDraft(conversationId: string): Promise<MessageDraft | null>;
+  getDrafts(): Promise<Record<string, MessageDraft>>;
+  saveDraft(conversationId: string, content: DraftContent): void;
+  clearDraft(conversationId: string): Promise<void>;
+  restoreDrafts(drafts: Record<string, MessageDraft>): Promise<number>;
+  flush(): Promise<void>;
+  onDraftChanged(callback: (event: DraftChangeEvent) => void): () => void;
+  dispose(): void;
+}
+
+export type DraftContent = Partial<Pick<MessageDraft, 'text' | 'attachments' | 'replyTo'>>;
+
+// ==========================================
+// Chat Archive Interface (portable export/restore)
+// ==========================================
+export interface IChatArchiveService {
+  exportArchive(userId?: string): Promise<ChatArchive>;
+  importArchive(input: unknown, userId?: string): Promise<ArchiveImportResult>;
+}
+
+// ==========================================
+// Clock Interface (time source for schedulers)
+// ==========================================
+export interface IClock {
+  now(): number;
+  setTimeout(callback: () => void, delay: number): any;
+  clearTimeout(handle: any): void;
+}
+
+// ==========================================
+// Token Lifecycle Interface
+// ==========================================
+export interface TokenPair {
+  token: string;
+  refreshToken?: string | null;
+}
+
+/**
+ * Exchanges the current refresh token for a new pair; null when refreshing
+ * is not possible
+ */
+export type TokenRefreshHandler = (refreshToken: string | null, token: string | null) => Promise<TokenPair | null>;
+
+export interface ITokenManager {
+  setTokens(token: string, refreshToken?: string | null): void;
+  getToken(): string | null;
+  getValidToken(): Promise<string | null>;
+  refresh(staleToken?: string | null): Promise<string | null>;
+  onTokenChanged(callback: (token: string) => void): () => void;
+  onRefreshFailed(callback: (error: Error) => void): () => void;
+  dispose(): void;
+}
+
+// ==========================================
+// Retry Policy Interface
+// ==========================================
+export interface IRetryPolicy {
+  getMaxRetries(message: Message): number;
+  getMessageExpiry(message: Message): number;
+  getSendInterval(): number;
+  // Delay before attempt number `retryCount + 1`, given the error that failed the last one
+  getRetryDelay(retryCount: number, message: Message, error?: unknown): number;
 }
 
 // ==========================================
@@ -271,6 +448,11 @@ export interface IStorageService {
   // Query operations
   getAllKeys(): Promise<string[]>;
   getItemsByPrefix(prefix: string): Promise<Map<string, any>>;
+
+  // Change notification for writes made outside this instance (another
+  // browser tab, another process on the same data folder). Backends that
+  // cannot observe those leave it out.
+  watchKey?(key: string, callback: () => void): () => void;
 }
 
 // ==========================================
@@ -281,6 +463,11 @@ export interface ICacheService {
   cacheMessage(conversationId: string, message: Message): void;
   getCachedMessages(conversationId: string): Message[];
   clearMessageCache(conversationId?: string): void;
+  applyReaction(event: MessageReactionEvent): Message | null;
+  getMentions(userId: string, conversationId?: string): Message[];
+  removeMessage(conversationId: string, messageId: string): void;
+  getThread(messageId: string): MessageThread | null;
+  applyThreadUpdate(event: ThreadUpdateEvent): Message | null;
   
   // Conversation cache
   cacheConversation(conversation: ServerConversation): void;
@@ -318,6 +505,9 @@ export interface IRealtimeService {
   // Connection management
   connect(userId: string, token: string): Promise<void>;
   disconnect(): void;
+  updateToken(token: string): Promise<void>;
+  goOffline(): void; // Drop the connection but keep listeners, as on network loss
+  goOnline(): void;
   isConnected(): boolean;
   getConnectionState(): ConnectionState;
 
@@ -328,6 +518,7 @@ export interface IRealtimeService {
     receiverId: string, 
     isTyping: boolean
   ): void;
+  sendReaction(event: Omit<MessageReactionEvent, 'userId' | 'timestamp'>): void;
 
   // Online users management - NEW
   getAllOnlineUsers(): void;
@@ -358,5 +549,13 @@ export interface IRealtimeService {
     lastSeen?: string;
   }) => void): () => void;
   
+  onReactionChanged(callback: (event: MessageReactionEvent) => void): () => void;
+
+  onThreadUpdated(callback: (event: ThreadUpdateEvent) => void): () => void;
+
+  onParticipantsAdded(callback: (event: ParticipantsAddedEvent) => void): () => void;
+  onParticipantRemoved(callback: (event: ParticipantRemovedEvent) => void): () => void;
+  onParticipantUpdated(callback: (event: ParticipantUpdatedEvent) => void): () => void;
+
   onConnectionChange(callback: (state: ConnectionState) => void): () => void;
 }
\ No newline at end of file
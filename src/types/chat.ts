@@ -34,6 +34,17 @@ export enum AttachmentType {
   DOCUMENT = 'document', //  ADDED: Document type
 }
 
+// Why a file was rejected before upload (FileUploadException.reason)
+export enum FileRejectionReason {
+  FILE_REQUIRED = 'file_required',
+  EMPTY_FILE = 'empty_file',
+  FILE_TOO_LARGE = 'file_too_large',
+  UNRECOGNIZED_CONTENT = 'unrecognized_content', // Bytes match no known format
+  UNSUPPORTED_TYPE = 'unsupported_type',
+  TYPE_MISMATCH = 'type_mismatch',               // Declared type disagrees with the bytes
+  TOO_MANY_ATTACHMENTS = 'too_many_attachments',
+}
+
 export enum ConnectionState {
   DISCONNECTED = 'disconnected',
   CONNECTING = 'connecting',
@@ -62,6 +73,20 @@ export enum ConversationType {
   GROUP_CHAT = 'group_chat', //  ADDED: Group chat support
 }
 
+// Reason codes carried by PermissionException
+export enum PermissionDeniedReason {
+  NOT_PARTICIPANT = 'not_participant',
+  LEFT_CONVERSATION = 'left_conversation',
+  CANNOT_SEND_MESSAGES = 'cannot_send_messages',
+  CANNOT_SEND_ATTACHMENTS = 'cannot_send_attachments',
+  CANNOT_EDIT_MESSAGES = 'cannot_edit_messages',
+  CANNOT_DELETE_MESSAGES = 'cannot_delete_messages',
+  CANNOT_MENTION_ALL = 'cannot_mention_all',
+  CANNOT_INVITE_USERS = 'cannot_invite_users',
+  CANNOT_MANAGE_CONVERSATION = 'cannot_manage_conversation',
+  NOT_MESSAGE_AUTHOR = 'not_message_author',
+}
+
 // ========================================
 // CORE INTERFACES - Main data structures
 // ========================================
@@ -103,6 +128,8 @@ export interface Message {
   expiresAt?: string; // For temporary messages
   deliveredAt?: string; // Delivery timestamp
   readAt?: string; // Read timestamp
+  replyCount?: number; // Replies in the thread rooted at this message
+  lastReplyAt?: string; // Timestamp of the newest reply in that thread
 }
 
 //  NEW: Message reactions interface
@@ -112,6 +139,33 @@ export interface MessageReaction {
   timestamp: string;
 }
 
+// A reaction added to or removed from a message, as broadcast in real time
+export interface MessageReactionEvent {
+  messageId: string;
+  conversationId: string;
+  userId: string;
+  emoji: string;
+  action: 'added' | 'removed';
+  timestamp: string;
+}
+
+// A root message with every reply in its thread (replies oldest first)
+export interface MessageThread {
+  rootMessage: Message;
+  replies: Message[];
+  replyCount: number;
+  lastReplyAt?: string;
+}
+
+// Broadcast when a reply is added to or removed from a thread
+export interface ThreadUpdateEvent {
+  conversationId: string;
+  rootMessageId: string;
+  replyCount: number;
+  lastReplyAt?: string;
+  reply?: Message; // The reply that was added, if any
+}
+
 export interface ConversationParticipant {
   userId: string;
   role: UserRole;
@@ -127,12 +181,141 @@ export interface ConversationParticipant {
   leftAt?: string; // When user left the conversation
 }
 
+// Group membership changes, broadcast to the conversation's members
+export interface ParticipantsAddedEvent {
+  conversationId: string;
+  participants: ConversationParticipant[];
+  addedBy: string;
+  timestamp: string;
+}
+
+export interface ParticipantRemovedEvent {
+  conversationId: string;
+  userId: string;
+  removedBy: string; // Equals userId when the member left on their own
+  timestamp: string;
+}
+
+export interface ParticipantUpdatedEvent {
+  conversationId: string;
+  participant: ConversationParticipant; // State after the change (role, nickname)
+  adminIds?: string[];
+  updatedBy: string;
+  timestamp: string;
+}
+
 // Queued message for offline support
 export interface QueuedMessage {
   message: Message;
   retryCount: number;
   maxRetries: number;
   addedAt: number;
+  nextAttemptAt?: number; // Not retried before this time (ms epoch); absent = due now
+  lastError?: string;
+  upload?: QueuedUpload; // File still to upload before the message can be sent
+}
+
+// A file picked while offline. Paths and URIs are kept as references;
+// anything else (Blob, raw bytes) is stored as base64 so it survives a restart.
+export interface QueuedUpload {
+  type: AttachmentType;
+  name: string;
+  mimeType: string;
+  size: number;
+  path?: string;
+  uri?: string;
+  data?: string;    // base64, until the queue moves it to storage of its own
+  dataKey?: string; // Storage key holding `data` once queued
+  duration?: number;              // Measured on the device,
+  metadata?: Record<string, any>; // both kept on the uploaded attachment
+}
+
+// Range query against the persistent message store.
+// Results are newest first; before/after are exclusive ISO timestamps.
+export interface MessageRangeQuery {
+  before?: string;
+  after?: string;
+  offset?: number;  // Skip this many of the newest matches
+  limit?: number;
+}
+
+// Delta sync high-water mark for one conversation
+export interface SyncCursor {
+  conversationId: string;
+  lastMessageId: string;
+  lastTimestamp: string;
+  syncedAt: number;
+}
+
+export interface SyncResult {
+  conversationId: string;
+  newMessages: Message[];   // Messages we did not have before this sync
+  fetchedCount: number;
+  cursor: SyncCursor | null;
+  error?: string;
+}
+
+// Messages that passed their expiresAt ('expired') or their purge grace period ('purged')
+export interface MessageExpiryEvent {
+  conversationId: string;
+  messageIds: string[];
+  action: 'expired' | 'purged';
+  timestamp: string;
+}
+
+// Retry policy settings for the offline queue
+export interface RetryPolicyConfig {
+  maxRetries: number;
+  baseDelay: number;          // First backoff delay in ms
+  maxDelay: number;           // Backoff ceiling in ms (server retry-after hints may exceed it)
+  backoffMultiplier: number;
+  jitter: number;             // 0-1, fraction of each delay that is randomised
+  sendInterval: number;       // Gap between consecutive sends while flushing
+  messageExpiry: number;      // Queued messages older than this are dropped
+  respectRetryAfter: boolean;
+  perType?: Partial<Record<MessageType, {
+    maxRetries?: number;
+    messageExpiry?: number;
+  }>>;
+}
+
+// Formats a conversation transcript can be exported in
+export type TranscriptFormat = 'json' | 'html' | 'text';
+
+// A message as it appears in a transcript, sender name already resolved
+export interface TranscriptMessage {
+  id: string;
+  timestamp: string;
+  senderId: string;
+  senderName: string;
+  type: MessageType;
+  status: MessageStatus;
+  content: string;
+  replyTo?: string;
+  isEdited?: boolean;
+  attachments: Array<Pick<Attachment, 'type' | 'name' | 'url' | 'size' | 'mimeType'>>;
+}
+
+export interface ConversationTranscript {
+  exportedAt: string;
+  conversation: {
+    id: string;
+    type: ConversationType;
+    jobId?: string;
+    jobTitle?: string;
+    createdAt: string;
+  };
+  participants: Array<{ userId: string; name: string; role: UserRole }>;
+  messages: TranscriptMessage[];
+}
+
+// A rendered transcript, ready to be written to disk or offered as a download
+export interface ConversationExport {
+  format: TranscriptFormat;
+  fileName: string;
+  mimeType: string;
+  content: string;
+  messageCount: number;
 }
 
 //  NEW: Conversation permissions
@@ -385,6 +568,57 @@ export interface UploadFileResponse {
   expiresAt?: string;
 }
 
+export interface UploadProgress {
+  sessionId: string;
+  uploadedBytes: number;
+  totalBytes: number;
+  percent: number;
+  resumed: boolean; // Started from an offset acknowledged in an earlier attempt
+}
+
+export interface ResumableUploadOptions {
+  chunkSize?: number;     // Defaults to AppConfig.chat.uploadChunkSize
+  uploadKey?: string;     // Identifies the file across restarts (defaults to name, size and path)
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;   // Stops after the current chunk; the upload stays resumable
+}
+
+// Persisted between chunks so an interrupted upload can pick up where the
+// server left off, even after the app restarts
+export interface ResumableUploadState {
+  uploadKey: string;
+  sessionId: string;
+  type: AttachmentType;
+  name: string;
+  size: number;
+  mimeType: string;
+  chunkSize: number;
+  offset: number; // Bytes the server has acknowledged
+  source?: string; // File path or URI, to re-open the file after a restart
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ImageProcessingOptions {
+  maxDimension: number;  // Longest side after downscaling, in pixels
+  thumbnailSize: number; // Longest side of the thumbnail
+  quality: number;       // 0-1, for lossy output
+}
+
+export interface ProcessedImageData {
+  data: Uint8Array;
+  mimeType: string;
+  width?: number;  // As displayed (EXIF orientation applied); absent when unknown
+  height?: number;
+}
+
+// Output of an image processor: the image as it should be uploaded,
+// scaled down and without EXIF/GPS metadata, plus a thumbnail when the
+// processor can produce one
+export interface ProcessedImage extends ProcessedImageData {
+  thumbnail?: ProcessedImageData;
+}
+
 export interface InitializeChatResponse {
   conversationId: string;
   canInitiate: boolean;
@@ -474,6 +708,54 @@ export interface LastActiveConversation {
   draftMessage?: string;
 }
 
+export interface DraftAttachment {
+  type: AttachmentType;
+  name: string;
+  uri: string; // Local path or URL of the file waiting to be sent
+  size?: number;
+  mimeType?: string;
+}
+
+export interface MessageDraft {
+  conversationId: string;
+  text: string;
+  attachments: DraftAttachment[];
+  replyTo?: string;
+  updatedAt: string;
+}
+
+export interface DraftChangeEvent {
+  conversationId: string;
+  draft: MessageDraft | null; // null once the draft is cleared
+  source: 'local' | 'external'; // external: written by another tab or process
+}
+
+export const CHAT_ARCHIVE_FORMAT = 'myusta-chat-archive';
+export const CHAT_ARCHIVE_VERSION = 2;
+
+// Portable copy of one account's local chat data. Version 1 was the raw
+// key/value dump written by the storage backends' backup helpers.
+export interface ChatArchive {
+  format: typeof CHAT_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  userId?: string;
+  conversations: ServerConversation[];
+  messages: Record<string, Message[]>; // by conversation id, oldest first
+  offlineQueue: Message[];
+  drafts: Record<string, MessageDraft>; // by conversation id
+  settings: Record<string, any>;         // client settings, by storage key
+}
+
+export interface ArchiveImportResult {
+  migratedFrom?: number; // Set when the archive was upgraded from an older version
+  conversations: { imported: number; skipped: number };
+  messages: { imported: number; skipped: number };
+  offlineQueue: { imported: number; skipped: number };
+  drafts: { imported: number; skipped: number };
+  settings: { imported: number; skipped: number };
+}
+
 // ========================================
 // UTILITY FUNCTIONS - Message handling
 // ========================================
@@ -915,6 +1197,20 @@ export interface AudioRecordingResult {
   name: string;
 }
 
+// Attachment.metadata of a voice message
+export interface VoiceMessageMetadata {
+  voice: true;
+  duration: number;   // Seconds
+  waveform: number[]; // Peak level of each slice of the recording, 0-100
+  sampleRate: number;
+}
+
+export interface VoiceMessageOptions {
+  mimeType?: string; // Taken from the bytes when not given
+  name?: string;
+  replyTo?: string;
+}
+
 // ========================================
 // FILTERING & SORTING INTERFACES
 // ========================================
@@ -953,6 +1249,8 @@ export interface ChatConfig {
   MAX_SESSION_AGE: number;
   MAX_FILE_SIZE: number;
   MAX_IMAGE_SIZE: number;
+  MAX_AUDIO_SIZE: number;
+  MAX_VIDEO_SIZE: number;
   MAX_CACHED_MESSAGES: number;
   CLEANUP_INTERVAL: number;
   DEFAULT_PAGE_SIZE: number;
@@ -962,6 +1260,8 @@ export interface ChatConfig {
   MAX_ATTACHMENT_COUNT: number;
   SUPPORTED_FILE_TYPES: string[];
   SUPPORTED_IMAGE_TYPES: string[];
+  SUPPORTED_AUDIO_TYPES: string[];
+  SUPPORTED_VIDEO_TYPES: string[];
   TYPING_INDICATOR_TIMEOUT: number;
   MESSAGE_RETRY_ATTEMPTS: number;
   CONNECTION_RETRY_DELAY: number;
@@ -1051,8 +1351,15 @@ export class ConnectionException extends ChatException {
 }
 
 export class FileUploadException extends ChatException {
-  constructor(message: string, details?: any) {
+  public readonly reason?: FileRejectionReason;
+
+  constructor(message: string, details?: any, reason?: FileRejectionReason) {
     super('FILE_UPLOAD_ERROR', message, details);
+    this.reason = reason;
+  }
+
+  toJSON() {
+    return { ...super.toJSON(), reason: this.reason };
   }
 }
 
@@ -1069,8 +1376,15 @@ export class MessageException extends ChatException {
 }
 
 export class PermissionException extends ChatException {
-  constructor(message: string, details?: any) {
+  public readonly reason?: PermissionDeniedReason;
+
+  constructor(message: string, details?: any, reason?: PermissionDeniedReason) {
     super('PERMISSION_ERROR', message, details);
+    this.reason = reason;
+  }
+
+  toJSON() {
+    return { ...super.toJSON(), reason: this.reason };
   }
 }
 
@@ -1144,6 +1458,8 @@ export const DEFAULT_CONFIG: ChatConfig = {
   MAX_SESSION_AGE: 86400000, // 24 hours
   MAX_FILE_SIZE: 50 * 1024 * 1024, // 50MB
   MAX_IMAGE_SIZE: 10 * 1024 * 1024, // 10MB
+  MAX_AUDIO_SIZE: 15 * 1024 * 1024, // 15MB
+  MAX_VIDEO_SIZE: 50 * 1024 * 1024, // 50MB
   MAX_CACHED_MESSAGES: 1000,
   CLEANUP_INTERVAL: 300000, // 5 minutes
   DEFAULT_PAGE_SIZE: 50,
@@ -1163,6 +1479,20 @@ export const DEFAULT_CONFIG: ChatConfig = {
     'image/gif',
     'image/webp'
   ],
+  SUPPORTED_AUDIO_TYPES: [
+    'audio/mp4',
+    'audio/m4a',
+    'audio/mpeg',
+    'audio/aac',
+    'audio/wav',
+    'audio/ogg',
+    'audio/webm'
+  ],
+  SUPPORTED_VIDEO_TYPES: [
+    'video/mp4',
+    'video/quicktime',
+    'video/webm'
+  ],
   TYPING_INDICATOR_TIMEOUT: 3000,
   MESSAGE_RETRY_ATTEMPTS: 3,
   CONNECTION_RETRY_DELAY: 5000,
@@ -0,0 +1,173 @@
+// src/utils/archive.ts - Chat archive schema checks and version migrations
+
+import {
+  CHAT_ARCHIVE_FORMAT,
+  CHAT_ARCHIVE_VERSION,
+  ChatArchive,
+  Message,
+  MessageDraft,
+  QueuedMessage,
+  ServerConversation,
+  ValidationException
+} from '../types/chat';
+
+// Storage keys carried over as client settings
+export const ARCHIVE_SETTINGS_KEYS = ['blocked_users', 'last_active_conversation'];
+
+// Raw key layout the version 1 dumps were taken from
+const LEGACY_CONVERSATION_PREFIX = 'message_store_conversation_';
+const LEGACY_MESSAGE_PREFIX = 'message_store_msg_';
+const LEGACY_QUEUE_KEY = 'offline_message_queue';
+
+/**
+ * Upgrades from the version in the key to the next one
+ */
+const MIGRATIONS: Record<number, (input: any) => any> = {
+  1: migrateFromKeyValueDump
+};
+
+/**
+ * Turn parsed JSON into a current-version archive: detect its version,
+ * run the migrations it needs, then check the result's shape. Throws a
+ * ValidationException naming the first offending field.
+ */
+export function parseArchive(raw: unknown): { archive: ChatArchive; migratedFrom?: number } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ValidationException('Archive must be a JSON object');
+  }
+
+  const startVersion = detectVersion(raw as Record<string, any>);
+  if (startVersion > CHAT_ARCHIVE_VERSION) {
+    throw new ValidationException(
+      `Archive version ${startVersion} is newer than this client supports (${CHAT_ARCHIVE_VERSION})`,
+      { version: startVersion }
+    );
+  }
+
+  let archive: any = raw;
+  for (let version = startVersion; version < CHAT_ARCHIVE_VERSION; version++) {
+    archive = MIGRATIONS[version](archive);
+  }
+
+  validateArchive(archive);
+  return {
+    archive,
+    migratedFrom: startVersion < CHAT_ARCHIVE_VERSION ? startVersion : undefined
+  };
+}
+
+function detectVersion(raw: Record<string, any>): number {
+  if (raw.format === CHAT_ARCHIVE_FORMAT) {
+    if (!Number.isInteger(raw.version) || raw.version < 1) {
+      throw new ValidationException('Archive "version" must be a positive integer', { version: raw.version });
+    }
+    return raw.version;
+  }
+
+  // FileStorageService.createBackup / LocalStorageService.backup output
+  if (raw.version === '1.0' && raw.data && typeof raw.data === 'object') {
+    return 1;
+  }
+
+  throw new ValidationException('Not a chat archive or storage backup');
+}
+
+function migrateFromKeyValueDump(backup: { timestamp?: string; data: Record<string, any> }): ChatArchive {
+  const data = backup.data;
+  const conversations: ServerConversation[] = [];
+  const messages: Record<string, Message[]> = {};
+  const drafts: Record<string, MessageDraft> = {};
+  const settings: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(data)) {
+    if (key.startsWith(LEGACY_CONVERSATION_PREFIX)) {
+      conversations.push(value);
+    } else if (key.startsWith(LEGACY_MESSAGE_PREFIX) && value?.conversationId) {
+      (messages[value.conversationId] ||= []).push(value);
+    } else if (ARCHIVE_SETTINGS_KEYS.includes(key)) {
+      settings[key] = value;
+    }
+  }
+
+  Object.values(messages).forEach(list =>
+    list.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+  );
+
+  // Drafts only existed as the last active conversation's draftMessage
+  const lastActive = data.last_active_conversation;
+  if (lastActive?.conversationId && lastActive.draftMessage) {
+    drafts[lastActive.conversationId] = {
+      conversationId: lastActive.conversationId,
+      text: lastActive.draftMessage,
+      attachments: [],
+      updatedAt: new Date(lastActive.timestamp || Date.now()).toISOString()
+    };
+  }
+
+  const queue: Array<[string, QueuedMessage]> = Array.isArray(data[LEGACY_QUEUE_KEY]) ? data[LEGACY_QUEUE_KEY] : [];
+
+  return {
+    format: CHAT_ARCHIVE_FORMAT,
+    version: 2,
+    exportedAt: backup.timestamp || new Date().toISOString(),
+    conversations,
+    messages,
+    offlineQueue: queue.map(([, queued]) => queued?.message).filter(Boolean),
+    drafts,
+    settings
+  };
+}
+
+function validateArchive(archive: any): asserts archive is ChatArchive {
+  const fail = (message: string, path: string) => {
+    throw new ValidationException(`Invalid archive: ${message}`, { path });
+  };
+  const isObject = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+  if (typeof archive.exportedAt !== 'string') fail('"exportedAt" must be a string', 'exportedAt');
+  if (!Array.isArray(archive.conversations)) fail('"conversations" must be a list', 'conversations');
+  if (!isObject(archive.messages)) fail('"messages" must be an object', 'messages');
+  if (!Array.isArray(archive.offlineQueue)) fail('"offlineQueue" must be a list', 'offlineQueue');
+  if (!isObject(archive.drafts)) fail('"drafts" must be an object', 'drafts');
+  if (!isObject(archive.settings)) fail('"settings" must be an object', 'settings');
+
+  archive.conversations.forEach((conversation: any, index: number) => {
+    if (typeof conversation?.id !== 'string' || !Array.isArray(conversation.participants)) {
+      fail('conversation needs an id and participants', `conversations[${index}]`);
+    }
+  });
+
+  for (const [conversationId, list] of Object.entries<any>(archive.messages)) {
+    if (!Array.isArray(list)) fail('must be a list', `messages.${conversationId}`);
+    list.forEach((message: any, index: number) => {
+      validateMessage(message, `messages.${conversationId}[${index}]`, fail);
+      if (message.conversationId !== conversationId) {
+        fail('message filed under the wrong conversation', `messages.${conversationId}[${index}]`);
+      }
+    });
+  }
+
+  archive.offlineQueue.forEach((message: any, index: number) => {
+    validateMessage(message, `offlineQueue[${index}]`, fail);
+    if (!message.clientTempId) fail('queued message needs a clientTempId', `offlineQueue[${index}]`);
+  });
+
+  for (const [conversationId, draft] of Object.entries<any>(archive.drafts)) {
+    if (typeof draft?.text !== 'string' || typeof draft.updatedAt !== 'string') {
+      fail('draft needs text and updatedAt', `drafts.${conversationId}`);
+    }
+    if (draft.attachments !== undefined && !Array.isArray(draft.attachments)) {
+      fail('draft "attachments" must be a list', `drafts.${conversationId}`);
+    }
+  }
+}
+
+function validateMessage(message: any, path: string, fail: (message: string, path: string) => void): void {
+  if (!message || typeof message !== 'object') {
+    fail('message must be an object', path);
+  }
+  for (const field of ['id', 'conversationId', 'senderId', 'timestamp']) {
+    if (typeof message[field] !== 'string') fail(`message "${field}" must be a string`, path);
+  }
+  if (typeof message.content !== 'string') fail('message "content" must be a string', path);
+}
@@ -0,0 +1,272 @@
+// src/utils/attachmentValidation.ts - What may be attached, judged by the file's bytes
+
+import {
+  AttachmentType,
+  ChatConfig,
+  DEFAULT_CONFIG,
+  FileRejectionReason,
+  FileUploadException
+} from '../types/chat';
+
+export interface AttachmentRule {
+  maxSize: number;
+  allowedTypes: string[];
+}
+
+export interface ValidatedAttachment {
+  type: AttachmentType;
+  mimeType: string; // Declared type when the bytes agree with it, otherwise the sniffed one
+  size: number;
+}
+
+// Enough for every signature below, including the ftyp brand of MP4/MOV
+const HEADER_BYTES = 64;
+
+/**
+ * Size limit and accepted MIME types for each attachment type
+ */
+export function buildAttachmentRules(config: ChatConfig = DEFAULT_CONFIG): Record<AttachmentType, AttachmentRule> {
+  return {
+    [AttachmentType.IMAGE]: { maxSize: config.MAX_IMAGE_SIZE, allowedTypes: config.SUPPORTED_IMAGE_TYPES },
+    [AttachmentType.AUDIO]: { maxSize: config.MAX_AUDIO_SIZE, allowedTypes: config.SUPPORTED_AUDIO_TYPES },
+    [AttachmentType.VIDEO]: { maxSize: config.MAX_VIDEO_SIZE, allowedTypes: config.SUPPORTED_VIDEO_TYPES },
+    [AttachmentType.DOCUMENT]: { maxSize: config.MAX_FILE_SIZE, allowedTypes: config.SUPPORTED_FILE_TYPES },
+    [AttachmentType.FILE]: { maxSize: config.MAX_FILE_SIZE, allowedTypes: config.SUPPORTED_FILE_TYPES }
+  };
+}
+
+/**
+ * Check a file before it is uploaded as `type`. The content type comes from
+ * the file's leading bytes; a declared type (File.type, `type`/`mimeType`)
+ * that contradicts them is rejected rather than trusted.
+ *
+ * Accepts a File/Blob, `{ data }`, a Node `{ path }` or a React Native `{ uri }`.
+ * Throws FileUploadException with a FileRejectionReason.
+ */
+export async function validateAttachment(
+  file: any,
+  type: AttachmentType,
+  config: ChatConfig = DEFAULT_CONFIG
+): Promise<ValidatedAttachment> {
+  if (!file) {
+    throw reject(FileRejectionReason.FILE_REQUIRED, 'File is required');
+  }
+
+  const rule = buildAttachmentRules(config)[type] || buildAttachmentRules(config)[AttachmentType.FILE];
+  const { header, size } = await readHeader(file);
+  const name = file.name;
+
+  if (size === 0) {
+    throw reject(FileRejectionReason.EMPTY_FILE, 'Cannot upload an empty file', { name });
+  }
+
+  if (size > rule.maxSize) {
+    throw reject(
+      FileRejectionReason.FILE_TOO_LARGE,
+      `File size (${formatFileSize(size)}) exceeds maximum allowed size (${formatFileSize(rule.maxSize)})`,
+      { name, size, maxSize: rule.maxSize }
+    );
+  }
+
+  const sniffed = sniffMimeType(header);
+  if (!sniffed) {
+    throw reject(FileRejectionReason.UNRECOGNIZED_CONTENT, 'File content is not a recognised format', { name });
+  }
+
+  const declared = normalizeMimeType(file.type || file.mimeType || '');
+  if (declared && declared !== 'application/octet-stream' && !matchesContent(declared, sniffed)) {
+    throw reject(
+      FileRejectionReason.TYPE_MISMATCH,
+      `File is declared as ${declared} but its content is ${sniffed}`,
+      { name, declaredType: declared, detectedType: sniffed }
+    );
+  }
+
+  const mimeType = declared && declared !== 'application/octet-stream' ? declared : sniffed;
+  const allowed = rule.allowedTypes.some(allowedType => {
+    const normalized = normalizeMimeType(allowedType);
+    return normalized === mimeType || (mimeType === sniffed && matchesContent(normalized, sniffed));
+  });
+
+  if (!allowed) {
+    throw reject(
+      FileRejectionReason.UNSUPPORTED_TYPE,
+      `File type (${mimeType}) is not supported for ${type}`,
+      { name, fileType: mimeType, supportedTypes: rule.allowedTypes }
+    );
+  }
+
+  return { type, mimeType, size };
+}
+
+/**
+ * Check a set of files meant for one message: the count limit, then each file
+ */
+export async function validateAttachments(
+  files: Array<{ file: any; type: AttachmentType }>,
+  config: ChatConfig = DEFAULT_CONFIG
+): Promise<ValidatedAttachment[]> {
+  assertAttachmentCount(files.length, config);
+
+  const validated: ValidatedAttachment[] = [];
+  for (const { file, type } of files) {
+    validated.push(await validateAttachment(file, type, config));
+  }
+  return validated;
+}
+
+export function assertAttachmentCount(count: number, config: ChatConfig = DEFAULT_CONFIG): void {
+  if (count > config.MAX_ATTACHMENT_COUNT) {
+    throw reject(
+      FileRejectionReason.TOO_MANY_ATTACHMENTS,
+      `A message can have at most ${config.MAX_ATTACHMENT_COUNT} attachments`,
+      { count, maxCount: config.MAX_ATTACHMENT_COUNT }
+    );
+  }
+}
+
+/**
+ * The attachment type a MIME type belongs to
+ */
+export function attachmentTypeOf(mimeType: string): AttachmentType {
+  if (mimeType.startsWith('image/')) return AttachmentType.IMAGE;
+  if (mimeType.startsWith('audio/')) return AttachmentType.AUDIO;
+  if (mimeType.startsWith('video/')) return AttachmentType.VIDEO;
+  return AttachmentType.FILE;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
+}
+
+// ==========================================
+// CONTENT SNIFFING
+// ==========================================
+
+// Some formats are containers for several declared types
+const OLE_COMPOUND = 'application/x-ole-storage';
+const ZIP = 'application/zip';
+
+const CONTAINED_TYPES: Record<string, string[]> = {
+  [ZIP]: [
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+  ],
+  [OLE_COMPOUND]: ['application/msword', 'application/vnd.ms-excel', 'application/vnd.ms-powerpoint'],
+  'text/plain': ['text/csv', 'application/json'],
+  'audio/mp4': ['audio/m4a'],
+  // Audio-only MP4 and WebM recordings carry the same headers as video
+  'video/mp4': ['audio/mp4', 'audio/m4a'],
+  'video/webm': ['audio/webm']
+};
+
+const MIME_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'audio/mp3': 'audio/mpeg',
+  'audio/x-m4a': 'audio/m4a',
+  'audio/x-wav': 'audio/wav',
+  'audio/wave': 'audio/wav'
+};
+
+/**
+ * The content type given by the file's first bytes, or null when they match
+ * nothing known. Text is recognised by the absence of binary bytes.
+ */
+export function sniffMimeType(bytes: Uint8Array): string | null {
+  const at = (offset: number, signature: number[]) => signature.every((byte, i) => bytes[offset + i] === byte);
+  const text = (offset: number, value: string) => at(offset, Array.from(value, c => c.charCodeAt(0)));
+
+  if (at(0, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (at(0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (text(0, 'GIF87a') || text(0, 'GIF89a')) return 'image/gif';
+  if (text(0, 'RIFF')) {
+    if (text(8, 'WEBP')) return 'image/webp';
+    if (text(8, 'WAVE')) return 'audio/wav';
+    if (text(8, 'AVI ')) return 'video/x-msvideo';
+  }
+  if (text(0, '%PDF-')) return 'application/pdf';
+  if (at(0, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return OLE_COMPOUND;
+  if (at(0, [0x50, 0x4b, 0x03, 0x04])) return ZIP;
+  if (text(4, 'ftyp')) return sniffIsoMedia(String.fromCharCode(...bytes.subarray(8, 12)));
+  if (at(0, [0x1a, 0x45, 0xdf, 0xa3])) return 'video/webm';
+  if (text(0, 'OggS')) return 'audio/ogg';
+  if (text(0, 'fLaC')) return 'audio/flac';
+  if (text(0, 'ID3')) return 'audio/mpeg';
+  if (bytes[0] === 0xff && (bytes[1] & 0xf6) === 0xf0) return 'audio/aac'; // ADTS
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) return 'audio/mpeg'; // MPEG audio frame
+  if (looksLikeText(bytes)) return 'text/plain';
+
+  return null;
+}
+
+function sniffIsoMedia(brand: string): string {
+  if (brand === 'M4A ' || brand === 'M4B ') return 'audio/mp4';
+  if (brand === 'qt  ') return 'video/quicktime';
+  if (['heic', 'heix', 'mif1', 'msf1'].includes(brand)) return 'image/heic';
+  return 'video/mp4';
+}
+
+function looksLikeText(bytes: Uint8Array): boolean {
+  if (bytes.length === 0) return false;
+  for (const byte of bytes) {
+    // NUL and C0 controls other than tab, newline, form feed and carriage return
+    if (byte < 0x09 || (byte > 0x0d && byte < 0x20 && byte !== 0x1b)) return false;
+  }
+  return true;
+}
+
+/**
+ * Whether content sniffed as `sniffed` can honestly be declared as `declared`
+ */
+function matchesContent(declared: string, sniffed: string): boolean {
+  return declared === sniffed || (CONTAINED_TYPES[sniffed] || []).includes(declared);
+}
+
+function normalizeMimeType(mimeType: string): string {
+  const base = mimeType.split(';')[0].trim().toLowerCase();
+  return MIME_ALIASES[base] || base;
+}
+
+// ==========================================
+// FILE ACCESS
+// ==========================================
+
+async function readHeader(file: any): Promise<{ header: Uint8Array; size: number }> {
+  if (typeof Blob !== 'undefined' && file instanceof Blob) {
+    return { header: new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer()), size: file.size };
+  }
+
+  if (file.data) {
+    const bytes = file.data instanceof ArrayBuffer ? new Uint8Array(file.data) : file.data as Uint8Array;
+    return { header: bytes.subarray(0, HEADER_BYTES), size: bytes.byteLength };
+  }
+
+  if (file.path) {
+    const { open } = await import('fs/promises');
+    const handle = await open(file.path, 'r');
+    try {
+      const { size } = await handle.stat();
+      const header = new Uint8Array(Math.min(HEADER_BYTES, size));
+      await handle.read(header, 0, header.length, 0);
+      return { header, size };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  if (file.uri) {
+    const blob = await (await fetch(file.uri)).blob();
+    return { header: new Uint8Array(await blob.slice(0, HEADER_BYTES).arrayBuffer()), size: blob.size };
+  }
+
+  throw reject(FileRejectionReason.FILE_REQUIRED, 'File needs data, a path or a URI');
+}
+
+function reject(reason: FileRejectionReason, message: string, details?: any): FileUploadException {
+  return new FileUploadException(message, details, reason);
+}
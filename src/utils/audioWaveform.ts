@@ -0,0 +1,159 @@
+// src/utils/audioWaveform.ts - duration and waveform summary of a voice recording
+
+import { ValidationException } from '../types/chat';
+
+export interface DecodedAudio {
+  sampleRate: number;
+  channels: Float32Array[]; // Samples in -1..1, one array per channel
+}
+
+export interface AudioSummary {
+  duration: number;   // Seconds, to the millisecond
+  waveform: number[]; // Peak of each slice, 0-100 of full scale
+  sampleRate: number;
+}
+
+// Enough bars for a message bubble; players can merge them for narrower views
+export const WAVEFORM_PEAKS = 64;
+
+/**
+ * Decode a recording to samples. WAV is read directly, so this works in
+ * Node; compressed formats (WebM/Opus, AAC, MP3) need the browser's decoder.
+ */
+export async function decodeAudio(bytes: Uint8Array): Promise<DecodedAudio> {
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE') {
+    return decodeWav(bytes);
+  }
+
+  if (typeof OfflineAudioContext !== 'undefined') {
+    // decodeAudioData detaches the buffer it is given, so hand it a copy
+    const buffer = await new OfflineAudioContext(1, 1, 44100).decodeAudioData(bytes.slice().buffer);
+    return {
+      sampleRate: buffer.sampleRate,
+      channels: Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i))
+    };
+  }
+
+  throw new ValidationException('Only WAV recordings can be decoded outside the browser');
+}
+
+/**
+ * Duration and the peak level of `peaks` equal slices, across all channels
+ */
+export function summarizeAudio(audio: DecodedAudio, peaks: number = WAVEFORM_PEAKS): AudioSummary {
+  const frames = audio.channels[0]?.length || 0;
+  const slices = Math.min(peaks, frames);
+  const waveform: number[] = [];
+
+  for (let slice = 0; slice < slices; slice++) {
+    const start = Math.floor(slice * frames / slices);
+    const end = Math.floor((slice + 1) * frames / slices);
+    let peak = 0;
+
+    for (const channel of audio.channels) {
+      for (let i = start; i < end; i++) {
+        const level = Math.abs(channel[i]);
+        if (level > peak) peak = level;
+      }
+    }
+    waveform.push(Math.round(Math.min(peak, 1) * 100));
+  }
+
+  return {
+    duration: Math.round(frames / audio.sampleRate * 1000) / 1000,
+    waveform,
+    sampleRate: audio.sampleRate
+  };
+}
+
+// ==========================================
+// WAV
+// ==========================================
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Integer PCM (8/16/24/32-bit) and 32-bit float WAV files
+ */
+export function decodeWav(bytes: Uint8Array): DecodedAudio {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let format: { code: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      let code = view.getUint16(body, true);
+      if (code === WAVE_FORMAT_EXTENSIBLE && size >= 26) {
+        code = view.getUint16(body + 24, true); // First two bytes of the sub-format GUID
+      }
+      format = {
+        code,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true)
+      };
+    } else if (id === 'data') {
+      if (!format) break;
+      return readSamples(view, body, Math.min(size, bytes.length - body), format);
+    }
+
+    offset = body + size + (size % 2); // Chunks are word aligned
+  }
+
+  throw new ValidationException('WAV file has no audio data');
+}
+
+function readSamples(
+  view: DataView,
+  start: number,
+  length: number,
+  format: { code: number; channels: number; sampleRate: number; bitsPerSample: number }
+): DecodedAudio {
+  const bytesPerSample = format.bitsPerSample / 8;
+  const supported = format.code === WAVE_FORMAT_PCM
+    ? [1, 2, 3, 4].includes(bytesPerSample)
+    : format.code === WAVE_FORMAT_IEEE_FLOAT && bytesPerSample === 4;
+
+  if (!supported || format.channels < 1 || !format.sampleRate) {
+    throw new ValidationException(
+      `Unsupported WAV encoding (format ${format.code}, ${format.bitsPerSample}-bit)`
+    );
+  }
+
+  const frames = Math.floor(length / (bytesPerSample * format.channels));
+  const channels = Array.from({ length: format.channels }, () => new Float32Array(frames));
+
+  for (let frame = 0; frame < frames; frame++) {
+    for (let c = 0; c < format.channels; c++) {
+      const at = start + (frame * format.channels + c) * bytesPerSample;
+      channels[c][frame] = format.code === WAVE_FORMAT_IEEE_FLOAT
+        ? view.getFloat32(at, true)
+        : readPcm(view, at, bytesPerSample);
+    }
+  }
+
+  return { sampleRate: format.sampleRate, channels };
+}
+
+function readPcm(view: DataView, at: number, bytesPerSample: number): number {
+  switch (bytesPerSample) {
+    case 1:
+      return (view.getUint8(at) - 128) / 128; // 8-bit WAV is unsigned
+    case 2:
+      return view.getInt16(at, true) / 0x8000;
+    case 3:
+      return (((view.getUint8(at + 2) << 24) | (view.getUint8(at + 1) << 16) | (view.getUint8(at) << 8)) >> 8) / 0x800000;
+    default:
+      return view.getInt32(at, true) / 0x80000000;
+  }
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
@@ -0,0 +1,13 @@
+// src/utils/clock.ts - Wall-clock time source for schedulers
+
+import { IClock } from '../services/interfaces';
+
+/**
+ * Real time and real timers. Services take an IClock so tests can swap in
+ * a clock they advance by hand.
+ */
+export const systemClock: IClock = {
+  now: () => Date.now(),
+  setTimeout: (callback: () => void, delay: number) => setTimeout(callback, delay),
+  clearTimeout: (handle: any) => clearTimeout(handle)
+};
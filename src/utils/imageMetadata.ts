@@ -0,0 +1,267 @@
+// src/utils/imageMetadata.ts - image headers and metadata, read and stripped at the byte level
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp';
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) return 'png';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  return null;
+}
+
+export function mimeTypeOf(format: ImageFormat): string {
+  return `image/${format}`;
+}
+
+/**
+ * Stored pixel size from the file header (before any EXIF rotation), or null
+ * when the format is not one we can read
+ */
+export function readImageSize(bytes: Uint8Array): ImageSize | null {
+  switch (detectImageFormat(bytes)) {
+    case 'png':
+      return { width: readUint32(bytes, 16), height: readUint32(bytes, 20) };
+    case 'gif':
+      return { width: bytes[6] | (bytes[7] << 8), height: bytes[8] | (bytes[9] << 8) };
+    case 'jpeg':
+      return readJpegSize(bytes);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Size as the image is displayed: EXIF orientations 5-8 swap the sides
+ */
+export function orientedSize(size: ImageSize, orientation: number): ImageSize {
+  return orientation >= 5 ? { width: size.height, height: size.width } : size;
+}
+
+/**
+ * Largest size with the same aspect ratio whose longest side is at most `max`
+ */
+export function fitWithin(size: ImageSize, max: number): ImageSize {
+  const longest = Math.max(size.width, size.height);
+  if (longest <= max) return size;
+
+  const scale = max / longest;
+  return {
+    width: Math.max(1, Math.round(size.width * scale)),
+    height: Math.max(1, Math.round(size.height * scale))
+  };
+}
+
+// ==========================================
+// JPEG
+// ==========================================
+
+// Segments without a length field
+const STANDALONE_MARKERS = new Set([0x01, 0xd0, 0xd1, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8]);
+const SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+const APP0 = 0xe0;
+const APP1 = 0xe1;
+const APP2 = 0xe2;
+const APP14 = 0xee;
+const SOS = 0xda;
+
+interface JpegSegment {
+  marker: number;
+  start: number; // Offset of the 0xFF
+  end: number;   // Offset just past the segment
+}
+
+/**
+ * EXIF orientation (1-8); 1 when the image has none
+ */
+export function readJpegOrientation(bytes: Uint8Array): number {
+  for (const segment of jpegSegments(bytes)) {
+    if (segment.marker !== APP1 || ascii(bytes, segment.start + 4, 6) !== 'Exif\0\0') continue;
+
+    const tiff = segment.start + 10;
+    const little = ascii(bytes, tiff, 2) === 'II';
+    const read16 = (offset: number) => little
+      ? bytes[offset] | (bytes[offset + 1] << 8)
+      : (bytes[offset] << 8) | bytes[offset + 1];
+    const read32 = (offset: number) => little
+      ? (read16(offset + 2) * 0x10000) + read16(offset)
+      : (read16(offset) * 0x10000) + read16(offset + 2);
+
+    const ifd = tiff + read32(tiff + 4);
+    if (ifd + 2 > segment.end) return 1;
+
+    const count = read16(ifd);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd + 2 + i * 12;
+      if (entry + 12 > segment.end) break;
+      if (read16(entry) === 0x0112) {
+        const orientation = read16(entry + 8);
+        return orientation >= 1 && orientation <= 8 ? orientation : 1;
+      }
+    }
+  }
+  return 1;
+}
+
+/**
+ * Drop EXIF (GPS, camera, timestamps), XMP, IPTC and comments. Kept: JFIF,
+ * the ICC colour profile, the Adobe colour transform flag and - rewritten
+ * as a bare EXIF block - the orientation, so the photo still shows upright.
+ */
+export function stripJpegMetadata(bytes: Uint8Array): Uint8Array {
+  const orientation = readJpegOrientation(bytes);
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+
+  for (const segment of jpegSegments(bytes)) {
+    if (segment.marker === SOS) {
+      // Entropy-coded data and everything after it
+      parts.push(bytes.subarray(segment.start));
+      break;
+    }
+    if (isKeptJpegSegment(bytes, segment)) {
+      parts.push(bytes.subarray(segment.start, segment.end));
+    }
+  }
+
+  if (orientation !== 1) {
+    // Straight after SOI, or after JFIF which has to come first
+    const jfif = parts[1] && parts[1][1] === APP0 ? 2 : 1;
+    parts.splice(jfif, 0, orientationExif(orientation));
+  }
+
+  return concat(parts);
+}
+
+function isKeptJpegSegment(bytes: Uint8Array, segment: JpegSegment): boolean {
+  if (segment.marker === APP0 || segment.marker === APP14) return true;
+  if (segment.marker === APP2) return ascii(bytes, segment.start + 4, 12) === 'ICC_PROFILE\0';
+  // APP1-APP15 hold EXIF, XMP, IPTC and vendor data; 0xFE is a comment
+  return !(segment.marker >= 0xe1 && segment.marker <= 0xef) && segment.marker !== 0xfe;
+}
+
+function readJpegSize(bytes: Uint8Array): ImageSize | null {
+  for (const segment of jpegSegments(bytes)) {
+    if (SOF_MARKERS.has(segment.marker)) {
+      return {
+        height: (bytes[segment.start + 5] << 8) | bytes[segment.start + 6],
+        width: (bytes[segment.start + 7] << 8) | bytes[segment.start + 8]
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Header segments up to and including the start of scan
+ */
+function* jpegSegments(bytes: Uint8Array): Generator<JpegSegment> {
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return;
+
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++; // Fill byte
+      continue;
+    }
+    if (STANDALONE_MARKERS.has(marker)) {
+      offset += 2;
+      continue;
+    }
+
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    yield { marker, start: offset, end: Math.min(end, bytes.length) };
+    if (marker === SOS) return;
+    offset = end;
+  }
+}
+
+/**
+ * An APP1 segment with a one-entry EXIF directory: the orientation tag
+ */
+function orientationExif(orientation: number): Uint8Array {
+  return Uint8Array.from([
+    0xff, APP1, 0x00, 0x22,
+    0x45, 0x78, 0x69, 0x66, 0x00, 0x00,   // "Exif\0\0"
+    0x4d, 0x4d, 0x00, 0x2a,               // big-endian TIFF header
+    0x00, 0x00, 0x00, 0x08,               // first directory at offset 8
+    0x00, 0x01,                           // one entry
+    0x01, 0x12, 0x00, 0x03,               // Orientation, SHORT
+    0x00, 0x00, 0x00, 0x01,               // count 1
+    0x00, orientation, 0x00, 0x00,        // value
+    0x00, 0x00, 0x00, 0x00                // no next directory
+  ]);
+}
+
+// ==========================================
+// PNG
+// ==========================================
+
+// Needed to draw the image correctly; every other chunk (text, eXIf, time,
+// physical size, vendor chunks) is metadata
+const PNG_KEPT_CHUNKS = new Set(['IHDR', 'PLTE', 'IDAT', 'IEND', 'tRNS', 'gAMA', 'cHRM', 'sRGB', 'iCCP', 'sBIT']);
+
+export interface PngChunk {
+  type: string;
+  data: Uint8Array;
+  start: number; // Offset of the length field
+  end: number;   // Offset just past the CRC
+}
+
+export function* pngChunks(bytes: Uint8Array): Generator<PngChunk> {
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= bytes.length) {
+    const length = readUint32(bytes, offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const end = offset + 12 + length;
+    yield { type, data: bytes.subarray(offset + 8, offset + 8 + length), start: offset, end };
+    if (type === 'IEND') return;
+    offset = end;
+  }
+}
+
+/**
+ * Drop text, EXIF and other ancillary chunks. Chunks are copied with their
+ * original CRCs, so the pixel data is untouched.
+ */
+export function stripPngMetadata(bytes: Uint8Array): Uint8Array {
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  for (const chunk of pngChunks(bytes)) {
+    if (PNG_KEPT_CHUNKS.has(chunk.type)) {
+      parts.push(bytes.subarray(chunk.start, chunk.end));
+    }
+  }
+  return concat(parts);
+}
+
+// ==========================================
+// BYTES
+// ==========================================
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) >>> 0) + ((bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]);
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+export function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -0,0 +1,114 @@
+// src/utils/mentions.ts - @mention parsing against a conversation's participants
+
+import { ConversationParticipant } from '../types/chat';
+
+export interface MentionMatch {
+  userId: string;
+  text: string;  // the matched name as typed, without the '@'
+  start: number; // index of the '@'
+  end: number;   // index just past the matched name
+}
+
+interface MentionCandidate {
+  key: string; // name as the participant has it, whitespace collapsed
+  userId: string;
+}
+
+// A name ends where no letter, digit or underscore follows
+const NAME_END = '(?![\\p{L}\\p{N}_])';
+
+/**
+ * Find `@name` tokens that refer to conversation participants.
+ *
+ * A token matches a participant's full name ("@Babar Khan"), the name without
+ * spaces ("@BabarKhan"), the user id, or - when no other participant shares
+ * it - the first name alone ("@Babar"). Matching is case-insensitive and the
+ * longest candidate wins. An '@' inside a word (e-mail addresses) is ignored.
+ * Names are matched on the text as typed, never on a lower-cased copy, since
+ * lower-casing can change its length ('İ' becomes two characters).
+ */
+export function findMentions(text: string, participants: ConversationParticipant[]): MentionMatch[] {
+  const matches: MentionMatch[] = [];
+  const candidates = buildCandidates(participants);
+
+  if (!text || candidates.length === 0) {
+    return matches;
+  }
+
+  // One capture group per candidate, tried longest first at a given position
+  const pattern = new RegExp(
+    `(?:${candidates.map(c => `(${escapeRegExp(c.key)})`).join('|')})${NAME_END}`,
+    'iuy'
+  );
+
+  for (let at = text.indexOf('@'); at !== -1; at = text.indexOf('@', at + 1)) {
+    if (at > 0 && (isNameChar(text[at - 1]) || text[at - 1] === '.')) continue;
+
+    pattern.lastIndex = at + 1;
+    const match = pattern.exec(text);
+
+    if (match) {
+      const candidate = candidates[match.findIndex((group, i) => i > 0 && group !== undefined) - 1];
+      const end = at + 1 + match[0].length;
+      matches.push({ userId: candidate.userId, text: match[0], start: at, end });
+      at = end - 1;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Ids of the participants mentioned in `text`, without duplicates
+ */
+export function parseMentions(text: string, participants: ConversationParticipant[]): string[] {
+  return Array.from(new Set(findMentions(text, participants).map(match => match.userId)));
+}
+
+function buildCandidates(participants: ConversationParticipant[]): MentionCandidate[] {
+  const active = participants.filter(p => p.isActive !== false && p.userId);
+  const firstNameCounts = new Map<string, number>();
+
+  active.forEach(p => {
+    const first = firstName(p.name).toLowerCase();
+    if (first) firstNameCounts.set(first, (firstNameCounts.get(first) || 0) + 1);
+  });
+
+  const candidates: MentionCandidate[] = [];
+
+  active.forEach(p => {
+    const keys = new Set<string>([p.userId]);
+    const full = normalize(p.name);
+
+    if (full) {
+      keys.add(full);
+      keys.add(full.replace(/ /g, ''));
+    }
+
+    const first = firstName(p.name);
+    if (first && firstNameCounts.get(first.toLowerCase()) === 1) {
+      keys.add(first);
+    }
+
+    keys.forEach(key => candidates.push({ key, userId: p.userId }));
+  });
+
+  // Longest first, so "@Babar Khan" is never cut short to "@Babar"
+  return candidates.sort((a, b) => b.key.length - a.key.length);
+}
+
+function normalize(name: string | undefined): string {
+  return (name || '').trim().replace(/\s+/g, ' ');
+}
+
+function firstName(name: string | undefined): string {
+  return normalize(name).split(' ')[0];
+}
+
+function isNameChar(char: string | undefined): boolean {
+  return !!char && /[\p{L}\p{N}_]/u.test(char);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
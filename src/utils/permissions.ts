@@ -0,0 +1,93 @@
+// src/utils/permissions.ts - What a user may do in a conversation
+
+import {
+  ConversationPermissions,
+  ConversationType,
+  PermissionDeniedReason,
+  ServerConversation
+} from '../types/chat';
+
+const NO_PERMISSIONS: ConversationPermissions = {
+  canSendMessages: false,
+  canSendAttachments: false,
+  canDeleteMessages: false,
+  canEditMessages: false,
+  canMentionAll: false,
+  canInviteUsers: false,
+  canManageConversation: false
+};
+
+const DENIED_REASONS: Record<keyof ConversationPermissions, PermissionDeniedReason> = {
+  canSendMessages: PermissionDeniedReason.CANNOT_SEND_MESSAGES,
+  canSendAttachments: PermissionDeniedReason.CANNOT_SEND_ATTACHMENTS,
+  canEditMessages: PermissionDeniedReason.CANNOT_EDIT_MESSAGES,
+  canDeleteMessages: PermissionDeniedReason.CANNOT_DELETE_MESSAGES,
+  canMentionAll: PermissionDeniedReason.CANNOT_MENTION_ALL,
+  canInviteUsers: PermissionDeniedReason.CANNOT_INVITE_USERS,
+  canManageConversation: PermissionDeniedReason.CANNOT_MANAGE_CONVERSATION
+};
+
+const DENIED_MESSAGES: Record<PermissionDeniedReason, string> = {
+  [PermissionDeniedReason.NOT_PARTICIPANT]: 'You are not a participant in this conversation',
+  [PermissionDeniedReason.LEFT_CONVERSATION]: 'You are no longer a participant in this conversation',
+  [PermissionDeniedReason.CANNOT_SEND_MESSAGES]: 'You are not allowed to send messages in this conversation',
+  [PermissionDeniedReason.CANNOT_SEND_ATTACHMENTS]: 'You are not allowed to send attachments in this conversation',
+  [PermissionDeniedReason.CANNOT_EDIT_MESSAGES]: 'You are not allowed to edit messages in this conversation',
+  [PermissionDeniedReason.CANNOT_DELETE_MESSAGES]: 'You are not allowed to delete messages in this conversation',
+  [PermissionDeniedReason.CANNOT_MENTION_ALL]: 'You are not allowed to mention everyone in this conversation',
+  [PermissionDeniedReason.CANNOT_INVITE_USERS]: 'You are not allowed to add people to this conversation',
+  [PermissionDeniedReason.CANNOT_MANAGE_CONVERSATION]: 'You are not allowed to manage this conversation',
+  [PermissionDeniedReason.NOT_MESSAGE_AUTHOR]: 'You can only change your own messages'
+};
+
+/**
+ * Effective permissions of `userId` in a conversation.
+ *
+ * Permissions sent by the server win. Anything it leaves out falls back to
+ * the defaults: every active member may message, edit and delete their own
+ * messages; inviting, mentioning everyone and managing a group are reserved
+ * for its admins. Job and direct chats have no admins - either side may
+ * mention the other, but neither manages the chat or the other's messages.
+ * Former and unknown members get nothing.
+ */
+export function resolvePermissions(conversation: ServerConversation, userId: string): ConversationPermissions {
+  const participant = conversation.participants.find(p => p.userId === userId);
+  if (!participant || !participant.isActive) {
+    return { ...NO_PERMISSIONS };
+  }
+
+  const isGroup = conversation.type === ConversationType.GROUP_CHAT;
+  const isAdmin = isGroup && !!conversation.adminIds?.includes(userId);
+
+  return {
+    canSendMessages: true,
+    canSendAttachments: true,
+    canDeleteMessages: true,
+    canEditMessages: true,
+    canMentionAll: !isGroup || isAdmin,
+    canInviteUsers: isAdmin,
+    canManageConversation: isAdmin,
+    ...participant.permissions
+  };
+}
+
+/**
+ * Why `userId` may not use `permission`, or null when they may
+ */
+export function getDeniedReason(
+  conversation: ServerConversation,
+  userId: string,
+  permission: keyof ConversationPermissions
+): PermissionDeniedReason | null {
+  const participant = conversation.participants.find(p => p.userId === userId);
+
+  if (!participant) return PermissionDeniedReason.NOT_PARTICIPANT;
+  if (!participant.isActive) return PermissionDeniedReason.LEFT_CONVERSATION;
+  if (resolvePermissions(conversation, userId)[permission]) return null;
+
+  return DENIED_REASONS[permission];
+}
+
+export function describeDeniedReason(reason: PermissionDeniedReason): string {
+  return DENIED_MESSAGES[reason];
+}
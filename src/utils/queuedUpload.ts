@@ -0,0 +1,102 @@
+// src/utils/queuedUpload.ts - files picked while offline, in a form the offline queue can persist
+
+import {
+  AttachmentType,
+  FileRejectionReason,
+  FileUploadException,
+  QueuedUpload,
+  ValidationException
+} from '../types/chat';
+
+import { formatFileSize } from './attachmentValidation';
+
+/**
+ * Capture a file for later upload. Node paths and React Native URIs stay
+ * references to the original file; a browser File/Blob or `{ data }` bytes
+ * are read now, since nothing else will still point at them after a reload.
+ * Those copies go into storage, so they are limited to `maxBytes`.
+ */
+export async function toQueuedUpload(file: any, type: AttachmentType, maxBytes: number): Promise<QueuedUpload> {
+  if (!file) {
+    throw new ValidationException('File is required');
+  }
+
+  const upload: QueuedUpload = {
+    type,
+    name: file.name || (file.path && file.path.split(/[\\/]/).pop()) || `${type}-${Date.now()}`,
+    mimeType: file.type || file.mimeType || 'application/octet-stream',
+    size: file.size || 0
+  };
+
+  if (typeof Blob !== 'undefined' && file instanceof Blob) {
+    assertStorable(upload.name, file.size, maxBytes);
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    return { ...upload, size: bytes.byteLength, data: encodeBase64(bytes) };
+  }
+
+  if (file.data) {
+    const bytes = file.data instanceof ArrayBuffer ? new Uint8Array(file.data) : file.data as Uint8Array;
+    assertStorable(upload.name, bytes.byteLength, maxBytes);
+    return { ...upload, size: bytes.byteLength, data: encodeBase64(bytes) };
+  }
+
+  if (file.path) {
+    if (!upload.size) {
+      const { stat } = await import('fs/promises');
+      upload.size = (await stat(file.path)).size;
+    }
+    return { ...upload, path: file.path };
+  }
+
+  if (file.uri) {
+    return { ...upload, uri: file.uri };
+  }
+
+  throw new ValidationException('File needs data, a path or a URI');
+}
+
+/**
+ * The file object to hand to the file service once back online
+ */
+export function fromQueuedUpload(upload: QueuedUpload): any {
+  const file = { name: upload.name, type: upload.mimeType, size: upload.size };
+
+  if (upload.data !== undefined) return { ...file, data: decodeBase64(upload.data) };
+  if (upload.path) return { ...file, path: upload.path };
+  return { ...file, uri: upload.uri };
+}
+
+function assertStorable(name: string, size: number, maxBytes: number): void {
+  if (size > maxBytes) {
+    throw new FileUploadException(
+      `${name} is too large to keep for sending later (${formatFileSize(size)}, the limit offline is ${formatFileSize(maxBytes)})`,
+      { size, maxBytes },
+      FileRejectionReason.FILE_TOO_LARGE
+    );
+  }
+}
+
+// ==========================================
+// BASE64
+// ==========================================
+
+// btoa/atob exist in browsers, React Native and Node 16+; they work on
+// "binary strings", so go through one in slices to keep argument lists short
+const SLICE = 0x8000;
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += SLICE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + SLICE));
+  }
+  return btoa(binary);
+}
+
+function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,195 @@
+// src/utils/transcript.ts - Conversation transcripts as JSON, HTML or plain text
+
+import {
+  ConversationExport,
+  ConversationTranscript,
+  Message,
+  ServerConversation,
+  TranscriptFormat,
+  TranscriptMessage
+} from '../types/chat';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['json', 'html', 'text'];
+
+const MIME_TYPES: Record<TranscriptFormat, string> = {
+  json: 'application/json',
+  html: 'text/html',
+  text: 'text/plain'
+};
+
+const EXTENSIONS: Record<TranscriptFormat, string> = {
+  json: 'json',
+  html: 'html',
+  text: 'txt'
+};
+
+/**
+ * Put a conversation and its messages into transcript form: messages oldest
+ * first, each sender resolved to the name they have in the conversation.
+ * Senders who are no longer participants keep their user id as name.
+ */
+export function buildTranscript(
+  conversation: ServerConversation,
+  messages: Message[],
+  exportedAt: Date = new Date()
+): ConversationTranscript {
+  const names = new Map(
+    conversation.participants.map(p => [p.userId, p.nickname || p.name || p.userId])
+  );
+
+  const ordered = [...messages].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  return {
+    exportedAt: exportedAt.toISOString(),
+    conversation: {
+      id: conversation.id,
+      type: conversation.type,
+      jobId: conversation.metadata?.jobId,
+      jobTitle: conversation.metadata?.jobTitle,
+      createdAt: conversation.createdAt
+    },
+    participants: conversation.participants.map(p => ({
+      userId: p.userId,
+      name: names.get(p.userId)!,
+      role: p.role
+    })),
+    messages: ordered.map((message): TranscriptMessage => ({
+      id: message.id,
+      timestamp: message.timestamp,
+      senderId: message.senderId,
+      senderName: names.get(message.senderId) || message.senderId,
+      type: message.type,
+      status: message.status,
+      content: message.content,
+      replyTo: message.replyTo,
+      isEdited: message.isEdited || undefined,
+      attachments: (message.attachments || []).map(({ type, name, url, size, mimeType }) => ({
+        type, name, url, size, mimeType
+      }))
+    }))
+  };
+}
+
+export function renderTranscript(transcript: ConversationTranscript, format: TranscriptFormat): ConversationExport {
+  const content = format === 'html'
+    ? renderHtml(transcript)
+    : format === 'text'
+      ? renderText(transcript)
+      : JSON.stringify(transcript, null, 2);
+
+  return {
+    format,
+    fileName: transcriptFileName(transcript, format),
+    mimeType: MIME_TYPES[format],
+    content,
+    messageCount: transcript.messages.length
+  };
+}
+
+function transcriptFileName(transcript: ConversationTranscript, format: TranscriptFormat): string {
+  const stamp = transcript.exportedAt.replace(/[:.]/g, '-');
+  return `conversation-${transcript.conversation.id}-${stamp}.${EXTENSIONS[format]}`;
+}
+
+function title(transcript: ConversationTranscript): string {
+  return transcript.conversation.jobTitle || `Conversation ${transcript.conversation.id}`;
+}
+
+function renderText(transcript: ConversationTranscript): string {
+  const { conversation } = transcript;
+  const lines = [
+    `Transcript: ${title(transcript)}`,
+    `Conversation: ${conversation.id}${conversation.jobId ? ` (job ${conversation.jobId})` : ''}`,
+    `Participants: ${transcript.participants.map(p => `${p.name} (${p.role})`).join(', ')}`,
+    `Exported: ${transcript.exportedAt}`,
+    `Messages: ${transcript.messages.length}`,
+    '-'.repeat(60)
+  ];
+
+  transcript.messages.forEach(message => {
+    const edited = message.isEdited ? ' (edited)' : '';
+    lines.push(`[${message.timestamp}] ${message.senderName}: ${message.content}${edited}`);
+    message.attachments.forEach(attachment => {
+      lines.push(`    Attachment (${attachment.type}): ${attachment.name} - ${attachment.url}`);
+    });
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+function renderHtml(transcript: ConversationTranscript): string {
+  const { conversation } = transcript;
+
+  const messages = transcript.messages.map(message => {
+    const attachments = message.attachments.map(attachment => {
+      const name = isWebUrl(attachment.url)
+        ? `<a href="${escapeHtml(attachment.url)}">${escapeHtml(attachment.name)}</a>`
+        : `${escapeHtml(attachment.name)} (${escapeHtml(attachment.url)})`;
+      return `<li>${escapeHtml(attachment.type)}: ${name}</li>`;
+    }).join('');
+
+    return [
+      '<div class="message">',
+      `<div class="meta"><span class="sender">${escapeHtml(message.senderName)}</span> `,
+      `<time datetime="${escapeHtml(message.timestamp)}">${escapeHtml(message.timestamp)}</time>`,
+      message.isEdited ? ' <span class="edited">(edited)</span>' : '',
+      '</div>',
+      `<div class="content">${escapeHtml(message.content)}</div>`,
+      attachments ? `<ul class="attachments">${attachments}</ul>` : '',
+      '</div>'
+    ].join('');
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title(transcript))}</title>
+<style>
+  body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; max-width: 800px; margin: 2em auto; color: #222; }
+  header { border-bottom: 1px solid #ddd; margin-bottom: 1em; }
+  .message { padding: 0.5em 0; border-bottom: 1px solid #f0f0f0; }
+  .meta { font-size: 0.85em; color: #666; }
+  .sender { font-weight: bold; color: #222; }
+  .content { white-space: pre-wrap; margin-top: 0.25em; }
+  .attachments { margin: 0.25em 0 0; font-size: 0.9em; }
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title(transcript))}</h1>
+<p>Conversation ${escapeHtml(conversation.id)}${conversation.jobId ? ` &middot; job ${escapeHtml(conversation.jobId)}` : ''}</p>
+<p>Participants: ${transcript.participants.map(p => `${escapeHtml(p.name)} (${escapeHtml(p.role)})`).join(', ')}</p>
+<p>Exported ${escapeHtml(transcript.exportedAt)} &middot; ${transcript.messages.length} messages</p>
+</header>
+<main>
+${messages}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Only http(s) URLs become links - a javascript: or data: URL sent as an
+ * attachment would otherwise run when the transcript is opened and clicked
+ */
+function isWebUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -34,6 +34,7 @@ async function loadModules() {
 }
 
 import { FileUploadManager } from './managers/FileUploadManager.js';
+import { VoiceRecorder } from './managers/VoiceRecorder.js';
 
 
 // ==========================================
@@ -359,6 +360,9 @@ class ChatApp {
     );
     window.fileManager = this.fileManager; // Make globally accessible
     console.log('  File manager initialized');
+
+    this.voiceRecorder = new VoiceRecorder();
+    this.playingVoice = null; // <audio> of the voice message being played
     
     // ==========================================
     // USER & CONVERSATION STATE
@@ -1747,7 +1751,9 @@ async selectConversation(conversationId) {
               name: att.name,
               size: parseInt(att.size) || 0,  // Convert string to number
               mimeType: att.mimeType,
-              type: this.fileManager.getFileType(att.mimeType)
+              type: this.fileManager.getFileType(att.mimeType),
+              duration: att.duration,
+              metadata: att.metadata  // Voice messages keep their waveform here
             };
             
             console.log(`[CONVERSATION] Normalized attachment:`, normalized);
@@ -2155,7 +2161,8 @@ async startConversationWithUser(user) {
       limit: 50
     });
 
-    result.messages.forEach(msg => {
+    // Pages come newest first; the state keeps each conversation oldest first
+    [...result.messages].reverse().forEach(msg => {
       this.state.addMessage(conversation.id, msg);
     });
 
@@ -2289,7 +2296,7 @@ attachInputEvents() {
       });
       
       // Validate file
-      const validation = this.fileManager.validateFile(file);
+      const validation = await this.fileManager.validateFile(file);
       if (!validation.valid) {
         console.error('[FILE UPLOAD] Validation failed:', validation.error);
         this.showToast(validation.error, 'error');
@@ -2317,6 +2324,11 @@ attachInputEvents() {
     });
     console.log('[FILE UPLOAD] Remove file button event listener added');
   }
+
+  // ==========================================
+  // VOICE MESSAGES
+  // ==========================================
+  this.attachVoiceRecorderEvents();
   
   console.log('[INPUT EVENTS] All input events attached (including file upload)');
 }
@@ -2704,7 +2716,7 @@ attachFileUploadEvents() {
       if (!file) return;
       
       // Validate file
-      const validation = this.fileManager.validateFile(file);
+      const validation = await this.fileManager.validateFile(file);
       if (!validation.valid) {
         this.showToast(validation.error, 'error');
         fileInput.value = '';
@@ -3049,6 +3061,182 @@ async sendFileMessage(conversationId, file, caption = '') {
 }
 
 
+// ==========================================
+// VOICE MESSAGES
+// ==========================================
+
+attachVoiceRecorderEvents() {
+  const recordBtn = document.getElementById('record-voice-btn');
+  const cancelBtn = document.getElementById('voice-cancel-btn');
+  const sendBtn = document.getElementById('voice-send-btn');
+
+  if (!recordBtn) return;
+
+  if (!VoiceRecorder.isSupported()) {
+    recordBtn.classList.add('hidden');
+    console.log('[VOICE] Recording not supported in this browser');
+    return;
+  }
+
+  recordBtn.addEventListener('click', () => this.startVoiceRecording());
+  cancelBtn?.addEventListener('click', () => this.cancelVoiceRecording());
+  sendBtn?.addEventListener('click', () => this.finishVoiceRecording());
+}
+
+async startVoiceRecording() {
+  if (!this.state.getActiveConversationId()) {
+    this.showToast('Please select a user to chat with', 'error');
+    return;
+  }
+
+  try {
+    await this.voiceRecorder.start();
+  } catch (error) {
+    console.error('[VOICE] Could not start recording:', error);
+    this.showToast('Microphone not available: ' + error.message, 'error');
+    return;
+  }
+
+  document.getElementById('voice-recording')?.classList.remove('hidden');
+  this.drawRecordingLevels();
+}
+
+/**
+ * Scroll the live input level across the recording bar until it stops
+ */
+drawRecordingLevels() {
+  const canvas = document.getElementById('voice-recording-canvas');
+  const time = document.getElementById('voice-recording-time');
+  const context = canvas?.getContext('2d');
+  const levels = [];
+
+  const draw = () => {
+    if (!this.voiceRecorder.isRecording()) return;
+
+    if (time) {
+      time.textContent = this.fileManager.formatDuration(this.voiceRecorder.getElapsed());
+    }
+
+    if (context) {
+      canvas.width = canvas.clientWidth;
+      const barWidth = 3;
+      levels.push(this.voiceRecorder.getLevel());
+      levels.splice(0, Math.max(0, levels.length - Math.floor(canvas.width / barWidth)));
+
+      context.clearRect(0, 0, canvas.width, canvas.height);
+      context.fillStyle = '#ef4444';
+      levels.forEach((level, i) => {
+        const height = Math.max(2, level * canvas.height);
+        context.fillRect(i * barWidth, (canvas.height - height) / 2, barWidth - 1, height);
+      });
+    }
+
+    requestAnimationFrame(draw);
+  };
+
+  requestAnimationFrame(draw);
+}
+
+cancelVoiceRecording() {
+  this.voiceRecorder.cancel();
+  document.getElementById('voice-recording')?.classList.add('hidden');
+}
+
+async finishVoiceRecording() {
+  if (!this.voiceRecorder.isRecording()) return;
+
+  const blob = await this.voiceRecorder.stop();
+  document.getElementById('voice-recording')?.classList.add('hidden');
+
+  const conversationId = this.state.getActiveConversationId();
+
+  try {
+    // Duration and waveform are worked out by the chat service before upload
+    const message = await this.chatService.sendVoiceMessage(
+      conversationId,
+      await blob.arrayBuffer(),
+      this.currentUser.receiverId,
+      { mimeType: blob.type, replyTo: this.replyingTo?.messageId }
+    );
+    console.log('[VOICE] Voice message sent:', message.id);
+
+    if (this.replyingTo) {
+      this.cancelReply();
+    }
+
+    this.state.addMessage(conversationId, message);
+    this.renderMessage(message, true);
+    this.state.updateConversation(conversationId, {
+      lastMessage: message,
+      lastActivity: message.timestamp
+    });
+    this.renderConversations();
+  } catch (error) {
+    console.error('[VOICE] Failed to send voice message:', error);
+    this.showToast('Failed to send voice message: ' + error.message, 'error');
+  }
+}
+
+/**
+ * Play or pause a voice message, filling its waveform as it plays.
+ * Starting one stops any other that is playing.
+ */
+toggleVoicePlayback(button) {
+  const player = button.closest('.voice-attachment');
+  const audio = player?.querySelector('audio');
+  if (!audio) return;
+
+  if (this.playingVoice && this.playingVoice !== audio) {
+    this.playingVoice.pause();
+  }
+
+  if (!audio.paused) {
+    audio.pause();
+    return;
+  }
+
+  const bars = Array.from(player.querySelectorAll('.voice-bar'));
+  const time = player.querySelector('.voice-time');
+  const duration = parseFloat(audio.dataset.duration) || 0;
+  const icon = (playing) => playing
+    ? '<svg class="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path d="M5 4h3v12H5zM12 4h3v12h-3z" /></svg>'
+    : '<svg class="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path d="M6 4l10 6-10 6V4z" /></svg>';
+
+  const showProgress = () => {
+    // Recorded WebM often reports Infinity until fully played - trust the sender's measurement
+    const total = isFinite(audio.duration) ? audio.duration : duration;
+    const played = total ? audio.currentTime / total : 0;
+    bars.forEach((bar, i) => {
+      const reached = i < Math.round(played * bars.length);
+      bar.classList.toggle('bg-purple-600', reached);
+      bar.classList.toggle('bg-purple-300', !reached);
+    });
+    if (time) {
+      time.textContent = this.fileManager.formatDuration(audio.paused && !audio.currentTime ? duration : audio.currentTime);
+    }
+  };
+
+  audio.ontimeupdate = showProgress;
+  audio.onpause = () => {
+    button.innerHTML = icon(false);
+    showProgress();
+  };
+  audio.onended = () => {
+    audio.currentTime = 0;
+    button.innerHTML = icon(false);
+    showProgress();
+  };
+
+  this.playingVoice = audio;
+  button.innerHTML = icon(true);
+  audio.play().catch(error => {
+    console.error('[VOICE] Playback failed:', error);
+    button.innerHTML = icon(false);
+    this.showToast('Could not play voice message', 'error');
+  });
+}
+
+
 
 // Also update the setupResponsivePanels method - remove ALL text content changes:
 
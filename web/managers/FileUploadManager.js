@@ -1,18 +1,17 @@
 // web/managers/FileUploadManager.js - COMPLETE ENHANCED VERSION
 
+import {
+  attachmentTypeOf,
+  sniffMimeType,
+  validateAttachment
+} from '../../src/utils/attachmentValidation';
+
 export class FileUploadManager {
   constructor(baseURL, getToken) {
     this.baseURL = baseURL;
     this.getToken = getToken;
     
-    // File size limits (in bytes)
-    this.MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
-    this.MAX_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB
-    this.MAX_VIDEO_SIZE = 50 * 1024 * 1024; // 50MB
-    this.MAX_AUDIO_SIZE = 20 * 1024 * 1024; // 20MB
-    this.MAX_DOCUMENT_SIZE = 25 * 1024 * 1024; // 25MB
-    
-    // Allowed file types
+    // File categories for display - what may be uploaded is decided by validateFile
     this.ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml'];
     this.ALLOWED_VIDEO_TYPES = ['video/mp4', 'video/quicktime', 'video/x-msvideo', 'video/webm', 'video/mpeg'];
     this.ALLOWED_AUDIO_TYPES = ['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/ogg', 'audio/webm', 'audio/aac', 'audio/flac'];
@@ -39,67 +38,28 @@ export class FileUploadManager {
   }
 
   /**
-   * Validate file before upload
+   * Validate file before upload, with the same rules as the chat services.
+   * Files the browser cannot type are judged by their content.
+   * @returns {Promise<{valid: boolean, error?: string, reason?: string}>}
    */
-  validateFile(file) {
+  async validateFile(file) {
+    // Check if file exists
+    if (!file) {
+      return { valid: false, error: 'No file selected', reason: 'file_required' };
+    }
+
     console.log('[FILE UPLOAD] Validating file:', {
       name: file.name,
       size: file.size,
       type: file.type
     });
 
-    // Check if file exists
-    if (!file) {
-      return { valid: false, error: 'No file selected' };
-    }
-
-    // Check for empty file
-    if (file.size === 0) {
-      return { valid: false, error: 'Cannot upload empty file' };
-    }
-
-    // Get file category
-    const category = this.getFileCategory(file.type);
-    
-    // Check file type
-    const allAllowedTypes = [
-      ...this.ALLOWED_IMAGE_TYPES,
-      ...this.ALLOWED_VIDEO_TYPES,
-      ...this.ALLOWED_AUDIO_TYPES,
-      ...this.ALLOWED_DOCUMENT_TYPES
-    ];
-
-    if (!allAllowedTypes.includes(file.type)) {
-      return { 
-        valid: false, 
-        error: `File type "${file.type}" is not allowed. Please upload images, videos, audio, or documents.` 
-      };
-    }
-
-    // Check file size based on category
-    let maxSize;
-    switch (category) {
-      case 'image':
-        maxSize = this.MAX_IMAGE_SIZE;
-        break;
-      case 'video':
-        maxSize = this.MAX_VIDEO_SIZE;
-        break;
-      case 'audio':
-        maxSize = this.MAX_AUDIO_SIZE;
-        break;
-      case 'document':
-        maxSize = this.MAX_DOCUMENT_SIZE;
-        break;
-      default:
-        maxSize = this.MAX_FILE_SIZE;
-    }
-
-    if (file.size > maxSize) {
-      return {
-        valid: false,
-        error: `File size (${this.formatFileSize(file.size)}) exceeds the maximum allowed size of ${this.formatFileSize(maxSize)}`
-      };
+    try {
+      const mimeType = file.type || sniffMimeType(new Uint8Array(await file.slice(0, 64).arrayBuffer()));
+      await validateAttachment(file, attachmentTypeOf(mimeType || ''));
+    } catch (error) {
+      console.error('[FILE UPLOAD] File validation failed:', error.reason, error.details);
+      return { valid: false, error: error.message, reason: error.reason };
     }
 
     console.log('[FILE UPLOAD] File validation passed');
@@ -516,6 +476,11 @@ export class FileUploadManager {
       return '<div class="text-xs text-red-500">Invalid attachment</div>';
     }
     
+    // VOICE MESSAGE - Waveform player
+    if (attachment.metadata?.voice) {
+      return this.renderVoiceAttachment(attachment);
+    }
+    
     const fileType = this.getFileType(attachment.mimeType);
     const icon = this.getFileIcon(attachment.mimeType);
     const filename = attachment.filename || attachment.name || 'file';
@@ -632,6 +597,44 @@ export class FileUploadManager {
     `;
   }
 
+  /**
+   * Render a voice message: play button, the waveform measured by the sender
+   * and the duration. Playback is driven by chatApp.toggleVoicePlayback.
+   */
+  renderVoiceAttachment(attachment) {
+    const { waveform = [], duration = attachment.duration || 0 } = attachment.metadata;
+    const loudest = Math.max(1, ...waveform);
+    const bars = waveform.map(peak => {
+      const height = Math.max(10, Math.round(peak / loudest * 100));
+      return `<span class="voice-bar flex-1 rounded-full bg-purple-300" style="height: ${height}%"></span>`;
+    }).join('');
+
+    return `
+      <div class="file-attachment voice-attachment flex items-center gap-3 p-2 pr-3 bg-purple-50 rounded-full border border-purple-200 w-64">
+        <button 
+          class="voice-play-btn flex-shrink-0 w-9 h-9 rounded-full bg-purple-600 text-white flex items-center justify-center hover:bg-purple-700 transition-colors"
+          onclick="window.chatApp?.toggleVoicePlayback(this)"
+          title="Play voice message"
+        >
+          <svg class="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+            <path d="M6 4l10 6-10 6V4z" />
+          </svg>
+        </button>
+        <div class="voice-waveform flex-1 flex items-center gap-px h-8">${bars}</div>
+        <span class="voice-time text-xs text-purple-700 tabular-nums">${this.formatDuration(duration)}</span>
+        <audio class="hidden" preload="none" src="${attachment.url}" data-duration="${duration}"></audio>
+      </div>
+    `;
+  }
+
+  /**
+   * Format a playback position as m:ss
+   */
+  formatDuration(seconds) {
+    const total = Math.max(0, Math.round(seconds || 0));
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+  }
+
   /**
    * Render upload progress with enhanced details
    */
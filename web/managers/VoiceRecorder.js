@@ -0,0 +1,113 @@
+// web/managers/VoiceRecorder.js - microphone recording for voice messages
+
+export class VoiceRecorder {
+  constructor() {
+    this.mediaRecorder = null;
+    this.stream = null;
+    this.audioContext = null;
+    this.analyser = null;
+    this.chunks = [];
+    this.startedAt = 0;
+  }
+
+  static isSupported() {
+    return !!(navigator.mediaDevices?.getUserMedia && window.MediaRecorder);
+  }
+
+  isRecording() {
+    return this.mediaRecorder?.state === 'recording';
+  }
+
+  /**
+   * Seconds since recording started
+   */
+  getElapsed() {
+    return this.startedAt ? (Date.now() - this.startedAt) / 1000 : 0;
+  }
+
+  /**
+   * Ask for the microphone and start recording
+   */
+  async start() {
+    if (this.isRecording()) return;
+
+    this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+
+    // Opus in WebM where available (Chrome, Firefox), otherwise the browser's default (Safari: MP4/AAC)
+    const mimeType = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4']
+      .find(type => MediaRecorder.isTypeSupported(type));
+    this.mediaRecorder = new MediaRecorder(this.stream, mimeType ? { mimeType } : undefined);
+    this.chunks = [];
+    this.mediaRecorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+
+    // Live level for the recording indicator
+    this.audioContext = new AudioContext();
+    this.analyser = this.audioContext.createAnalyser();
+    this.analyser.fftSize = 1024;
+    this.audioContext.createMediaStreamSource(this.stream).connect(this.analyser);
+
+    this.mediaRecorder.start();
+    this.startedAt = Date.now();
+    console.log('[VOICE] Recording started:', this.mediaRecorder.mimeType);
+  }
+
+  /**
+   * Current input peak, 0-1
+   */
+  getLevel() {
+    if (!this.analyser) return 0;
+
+    const samples = new Float32Array(this.analyser.fftSize);
+    this.analyser.getFloatTimeDomainData(samples);
+
+    let peak = 0;
+    for (const sample of samples) {
+      peak = Math.max(peak, Math.abs(sample));
+    }
+    return Math.min(peak, 1);
+  }
+
+  /**
+   * Stop and return the recording
+   * @returns {Promise<Blob>}
+   */
+  stop() {
+    return new Promise((resolve, reject) => {
+      if (!this.isRecording()) {
+        reject(new Error('Not recording'));
+        return;
+      }
+
+      this.mediaRecorder.onstop = () => {
+        const blob = new Blob(this.chunks, { type: this.mediaRecorder.mimeType || 'audio/webm' });
+        console.log('[VOICE] Recording stopped:', { size: blob.size, type: blob.type });
+        this.release();
+        resolve(blob);
+      };
+      this.mediaRecorder.stop();
+    });
+  }
+
+  /**
+   * Stop and throw the recording away
+   */
+  cancel() {
+    if (this.isRecording()) {
+      this.mediaRecorder.onstop = null;
+      this.mediaRecorder.stop();
+    }
+    this.release();
+  }
+
+  release() {
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.audioContext?.close();
+    this.stream = null;
+    this.audioContext = null;
+    this.analyser = null;
+    this.chunks = [];
+    this.startedAt = 0;
+  }
+}